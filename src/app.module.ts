@@ -8,6 +8,12 @@ import { UsersModule } from "./users/users.module";
 import { ServicesModule } from "./services/services.module";
 import { FileUploadModule } from "./file-upload/file-upload.module";
 import { HealthModule } from "./health/health.module";
+import { WalletModule } from "./wallet/wallet.module";
+import { ReferralsModule } from "./referrals/referrals.module";
+import { RewardsModule } from "./rewards/rewards.module";
+import { LeaderboardsModule } from "./leaderboards/leaderboards.module";
+import { ChallengesModule } from "./challenges/challenges.module";
+import { RateLimitModule } from "./common/rate-limit/rate-limit.module";
 
 @Module({
   imports: [
@@ -41,8 +47,14 @@ import { HealthModule } from "./health/health.module";
     AuthModule,
     UsersModule,
     ServicesModule,
+    RateLimitModule,
     FileUploadModule,
     HealthModule,
+    WalletModule,
+    ReferralsModule,
+    RewardsModule,
+    LeaderboardsModule,
+    ChallengesModule,
   ],
   controllers: [AppController],
   providers: [AppService],
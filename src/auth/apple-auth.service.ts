@@ -0,0 +1,96 @@
+import { Injectable, UnauthorizedException } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { JwtService } from "@nestjs/jwt";
+import axios from "axios";
+
+const APPLE_AUTH_URL = "https://appleid.apple.com";
+
+/**
+ * Talks to Apple's token endpoints on behalf of the app: exchanges authorization
+ * codes for refresh tokens and revokes them when an account is deleted.
+ * https://developer.apple.com/documentation/sign_in_with_apple/sign_in_with_apple_rest_api
+ */
+@Injectable()
+export class AppleAuthService {
+  constructor(
+    private configService: ConfigService,
+    private jwtService: JwtService
+  ) {
+    // Log a warning if credentials are missing
+    if (!this.isConfigured()) {
+      console.warn('Apple token exchange and revocation are disabled due to missing credentials');
+    }
+  }
+
+  /**
+   * Whether the credentials needed to call Apple's token endpoints are configured
+   */
+  isConfigured(): boolean {
+    return ["APPLE_CLIENT_ID", "APPLE_TEAM_ID", "APPLE_KEY_ID", "APPLE_PRIVATE_KEY"].every((key) =>
+      Boolean(this.configService.get(key))
+    );
+  }
+
+  /**
+   * Exchange the authorization code from the app for a refresh token
+   * @param authorizationCode Single-use code returned with the Apple credential
+   * @returns Refresh token, needed to revoke the authorization later
+   */
+  async exchangeAuthorizationCode(authorizationCode: string): Promise<string> {
+    try {
+      const response = await axios.post(
+        `${APPLE_AUTH_URL}/auth/token`,
+        new URLSearchParams({
+          client_id: this.configService.get("APPLE_CLIENT_ID"),
+          client_secret: this.createClientSecret(),
+          code: authorizationCode,
+          grant_type: "authorization_code",
+        }).toString(),
+        { headers: { "Content-Type": "application/x-www-form-urlencoded" }, timeout: 10000 }
+      );
+
+      if (!response.data?.refresh_token) {
+        throw new Error("No refresh token in response");
+      }
+      return response.data.refresh_token;
+    } catch (error) {
+      throw new UnauthorizedException("Invalid Apple authorization code");
+    }
+  }
+
+  /**
+   * Revoke a refresh token, ending the user's authorization of the app
+   * @param refreshToken Refresh token from exchangeAuthorizationCode
+   */
+  async revokeToken(refreshToken: string): Promise<void> {
+    await axios.post(
+      `${APPLE_AUTH_URL}/auth/revoke`,
+      new URLSearchParams({
+        client_id: this.configService.get("APPLE_CLIENT_ID"),
+        client_secret: this.createClientSecret(),
+        token: refreshToken,
+        token_type_hint: "refresh_token",
+      }).toString(),
+      { headers: { "Content-Type": "application/x-www-form-urlencoded" }, timeout: 10000 }
+    );
+  }
+
+  /**
+   * The client secret is a short-lived JWT signed with the Sign in with Apple key
+   */
+  private createClientSecret(): string {
+    return this.jwtService.sign(
+      {},
+      {
+        // Passed as secret since the module's JWT secret would take precedence over privateKey
+        secret: this.configService.get<string>("APPLE_PRIVATE_KEY").replace(/\\n/g, "\n"),
+        algorithm: "ES256",
+        keyid: this.configService.get("APPLE_KEY_ID"),
+        issuer: this.configService.get("APPLE_TEAM_ID"),
+        subject: this.configService.get("APPLE_CLIENT_ID"),
+        audience: APPLE_AUTH_URL,
+        expiresIn: 300,
+      }
+    );
+  }
+}
@@ -0,0 +1,135 @@
+import { Injectable } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import { FindOptionsWhere, In, IsNull, Repository } from "typeorm";
+import { AuthEvent, AuthEventResult, AuthEventType } from "./entities/auth-event.entity";
+import { ClientContext } from "./client-context";
+import { UsersService } from "../users/users.service";
+import { MailerService } from "../services/mailer.service";
+import { isPlaceholderEmail } from "../users/placeholder-email";
+
+export interface AuthEventInput {
+  userId?: string | null;
+  type: AuthEventType;
+  result?: AuthEventResult;
+  reason?: string;
+  detail?: string;
+  context?: ClientContext;
+}
+
+// Events that start a session on a device
+const LOGIN_EVENT_TYPES = [AuthEventType.REGISTER, AuthEventType.LOGIN];
+
+/**
+ * Audit log of authentication events. Events are written in the background, so
+ * that recording them doesn't hold up the request.
+ */
+@Injectable()
+export class AuthEventsService {
+  constructor(
+    @InjectRepository(AuthEvent)
+    private authEventRepository: Repository<AuthEvent>,
+    private usersService: UsersService,
+    private mailerService: MailerService
+  ) {}
+
+  /**
+   * Record an event without waiting for it to be written. Failures are logged
+   * and never reach the caller.
+   * @param event Event to record
+   */
+  record(event: AuthEventInput): void {
+    this.insert(event).catch((error) => {
+      console.error(`Failed to record ${event.type} auth event:`, error.message);
+    });
+  }
+
+  /**
+   * Record a successful login, alerting the user by email when it came from a
+   * device they haven't logged in from before. Nothing is awaited.
+   * @param userId User's ID
+   * @param context Client the user logged in from
+   * @param detail How the user logged in, e.g. "password" or "google"
+   */
+  recordLogin(userId: string, context: ClientContext, detail: string): void {
+    this.insertLogin(userId, context, detail).catch((error) => {
+      console.error("Failed to record login auth event:", error.message);
+    });
+  }
+
+  /**
+   * Get the most recent events of a user
+   * @param userId User's ID
+   * @param limit Maximum number of events
+   * @returns Events, newest first
+   */
+  async findRecent(userId: string, limit: number): Promise<AuthEvent[]> {
+    return this.authEventRepository.find({
+      where: { userId },
+      order: { createdAt: "DESC" },
+      take: limit,
+    });
+  }
+
+  private async insert(event: AuthEventInput): Promise<void> {
+    const context = event.context || {};
+
+    await this.authEventRepository.insert({
+      userId: event.userId || null,
+      type: event.type,
+      result: event.result || AuthEventResult.SUCCESS,
+      reason: event.reason || null,
+      detail: event.detail || null,
+      ipAddress: context.ipAddress || null,
+      userAgent: context.userAgent || null,
+      deviceName: context.deviceName || null,
+      platform: context.platform || null,
+    });
+  }
+
+  private async insertLogin(userId: string, context: ClientContext, detail: string): Promise<void> {
+    // Checked before the login itself is written, which would always match
+    const isNewDevice = await this.isNewDevice(userId, context);
+
+    await this.insert({ userId, type: AuthEventType.LOGIN, detail, context });
+
+    if (isNewDevice) {
+      await this.sendNewDeviceAlert(userId, context);
+    }
+  }
+
+  /**
+   * Check whether a user never logged in from a device before. Without anything
+   * to recognize the device by, or without earlier logins, it is not treated as new.
+   */
+  private async isNewDevice(userId: string, context: ClientContext): Promise<boolean> {
+    const successfulLogins: FindOptionsWhere<AuthEvent> = {
+      userId,
+      type: In(LOGIN_EVENT_TYPES),
+      result: AuthEventResult.SUCCESS,
+    };
+
+    let sameDevice: FindOptionsWhere<AuthEvent>;
+    if (context.deviceName) {
+      sameDevice = { deviceName: context.deviceName, platform: context.platform || IsNull() };
+    } else if (context.userAgent) {
+      sameDevice = { deviceName: IsNull(), userAgent: context.userAgent };
+    } else {
+      return false;
+    }
+
+    if (!(await this.authEventRepository.exists({ where: successfulLogins }))) {
+      return false;
+    }
+
+    return !(await this.authEventRepository.exists({ where: { ...successfulLogins, ...sameDevice } }));
+  }
+
+  private async sendNewDeviceAlert(userId: string, context: ClientContext): Promise<void> {
+    const user = await this.usersService.findById(userId);
+    if (!user || isPlaceholderEmail(user.email)) {
+      return;
+    }
+
+    await this.mailerService.sendNewDeviceLoginEmail(user.email, context);
+  }
+}
@@ -6,6 +6,10 @@ import {
   Get,
   Delete,
   Req,
+  Query,
+  Param,
+  ParseUUIDPipe,
+  ParseEnumPipe,
   HttpCode,
   HttpStatus,
 } from "@nestjs/common";
@@ -14,14 +18,21 @@ import {
   ApiOperation,
   ApiResponse,
   ApiBearerAuth,
+  ApiExtraModels,
+  getSchemaPath,
 } from "@nestjs/swagger";
 import { AuthService } from "./auth.service";
+import { RateLimit } from "../common/rate-limit/rate-limit.decorator";
 import { LocalAuthGuard } from "./guards/local-auth.guard";
 import { JwtAuthGuard } from "./guards/jwt-auth.guard";
 import { RefreshGuard } from "./guards/refresh.guard";
 import { FacebookAuthGuard } from "./guards/facebook-auth.guard";
+import { GoogleAuthGuard } from "./guards/google-auth.guard";
+import { AppleAuthGuard } from "./guards/apple-auth.guard";
 import { EmailVerificationGuard } from "./guards/email-verification.guard";
 import { FacebookAuthDto } from "./dto/facebook-auth.dto";
+import { GoogleAuthDto } from "./dto/google-auth.dto";
+import { AppleAuthDto } from "./dto/apple-auth.dto";
 import { LineAuthDto } from "./dto/line-auth.dto";
 import { AuthResponseDto } from "./dto/auth-response.dto";
 import { UserProfileDto } from "./dto/user-profile.dto";
@@ -38,6 +49,30 @@ import { FindUsernameVerifyOtpDto, FindUsernameVerifyOtpResponseDto } from "./dt
 import {LogoutResponseDto} from "./dto/logout.dto";
 import {TokensResponseDto} from "./dto/tokens-response.dto";
 import { LineAuthGuard } from "./guards/line-auth.guard";
+import { SessionResponseDto, RevokeSessionsResponseDto } from "./dto/session-response.dto";
+import { getClientContext } from "./client-context";
+import { IdentityResponseDto, LinkPasswordDto, UnlinkIdentityResponseDto } from "./dto/identity.dto";
+import { AddEmailInitiateDto, AddEmailResponseDto, AddEmailVerifyDto } from "./dto/add-email.dto";
+import { LoginUnlockInitiateDto, LoginUnlockDto, LoginUnlockResponseDto } from "./dto/login-unlock.dto";
+import {
+  TwoFactorCodeDto,
+  TwoFactorLoginDto,
+  TwoFactorChallengeResponseDto,
+  TwoFactorResetInitiateDto,
+  TwoFactorResetDto,
+  TwoFactorStatusResponseDto,
+  TwoFactorEnrollmentResponseDto,
+  RecoveryCodesResponseDto,
+  TwoFactorMessageResponseDto,
+} from "./dto/two-factor.dto";
+import { ChangeEmailInitiateDto, ChangeEmailVerifyDto, ChangeEmailResponseDto } from "./dto/change-email.dto";
+import { ChangePasswordDto, ChangePasswordResponseDto } from "./dto/change-password.dto";
+import { SecurityActivityQueryDto, SecurityEventResponseDto } from "./dto/security-activity.dto";
+import { ResendOtpDto, ResendOtpResponseDto } from "./dto/resend-otp.dto";
+import { AuthProvider } from "../users/entities/user.entity";
+
+// Shared by all routes that email a code, per IP address
+const OTP_SEND_RATE_LIMIT = { name: "otp-send", points: 10, window: 15 * 60 };
 
 @ApiTags("Authentication")
 @Controller("auth")
@@ -45,6 +80,7 @@ export class AuthController {
   constructor(private readonly authService: AuthService) {}
 
 
+  @RateLimit(OTP_SEND_RATE_LIMIT)
   @Post("verify-email-initiate")
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: "Initiate email verification by sending OTP" })
@@ -54,8 +90,9 @@ export class AuthController {
     type: VerifyEmailInitiateResponseDto
   })
   @ApiResponse({ status: 409, description: "Email already exists" })
-  async verifyEmailInitiate(@Body() verifyEmailInitiateDto: VerifyEmailInitiateDto) {
-    return this.authService.initiateEmailVerification(verifyEmailInitiateDto.email);
+  @ApiResponse({ status: 429, description: "OTP requested too recently or too many requests" })
+  async verifyEmailInitiate(@Body() verifyEmailInitiateDto: VerifyEmailInitiateDto, @Req() req) {
+    return this.authService.initiateEmailVerification(verifyEmailInitiateDto.email, req.ip);
   }
 
   @Post("verify-email-otp")
@@ -66,11 +103,27 @@ export class AuthController {
     description: "Email verified successfully",
     type: VerifyEmailOtpResponseDto
   })
-  @ApiResponse({ status: 400, description: "Invalid or expired OTP" })
-  async verifyEmailOtp(@Body() verifyEmailOtpDto: VerifyEmailOtpDto) {
-    return this.authService.verifyEmailOtp(verifyEmailOtpDto.email, verifyEmailOtpDto.otp);
+  @ApiResponse({ status: 400, description: "Invalid or expired OTP, or too many failed attempts" })
+  @ApiResponse({ status: 429, description: "Too many requests" })
+  async verifyEmailOtp(@Body() verifyEmailOtpDto: VerifyEmailOtpDto, @Req() req) {
+    return this.authService.verifyEmailOtp(verifyEmailOtpDto.email, verifyEmailOtpDto.otp, req.ip);
+  }
+
+  @RateLimit(OTP_SEND_RATE_LIMIT)
+  @Post("otp-resend")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Send a new OTP for email verification, password reset, find username or login unlock" })
+  @ApiResponse({
+    status: 200,
+    description: "OTP email sent",
+    type: ResendOtpResponseDto
+  })
+  @ApiResponse({ status: 429, description: "OTP requested too recently or too many requests" })
+  async resendOtp(@Body() resendOtpDto: ResendOtpDto, @Req() req) {
+    return this.authService.resendOtp(resendOtpDto.email, resendOtpDto.type, req.ip);
   }
 
+  @RateLimit({ points: 5, window: 60 * 60 })
   @UseGuards(EmailVerificationGuard)
   @Post("register")
   @HttpCode(HttpStatus.CREATED)
@@ -82,22 +135,196 @@ export class AuthController {
   })
   @ApiResponse({ status: 409, description: "Email already exists" })
   @ApiResponse({ status: 401, description: "Invalid or expired verification token" })
-  async register(@Body() registerDto: RegisterDto) {
-    return this.authService.register(registerDto);
+  @ApiResponse({ status: 429, description: "Too many requests" })
+  async register(@Body() registerDto: RegisterDto, @Req() req) {
+    return this.authService.register(registerDto, getClientContext(req, registerDto));
   }
 
   @UseGuards(LocalAuthGuard)
   @Post("login")
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: "Login with email and password" })
+  @ApiExtraModels(AuthResponseDto, TwoFactorChallengeResponseDto)
   @ApiResponse({ 
     status: 200, 
+    description: "Login successful, or a two-factor challenge if two-factor authentication is enabled",
+    schema: {
+      oneOf: [
+        { $ref: getSchemaPath(AuthResponseDto) },
+        { $ref: getSchemaPath(TwoFactorChallengeResponseDto) },
+      ],
+    },
+  })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({ status: 429, description: "Too many failed login attempts" })
+  async login(@Body() loginDto: LoginDto, @Req() req) {
+    return this.authService.login(req.user, getClientContext(req, loginDto));
+  }
+
+  @RateLimit(OTP_SEND_RATE_LIMIT)
+  @Post("login-unlock-initiate")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Send a code to unlock logins after too many failed attempts" })
+  @ApiResponse({
+    status: 200,
+    description: "Unlock code sent if the account is locked",
+    type: LoginUnlockResponseDto
+  })
+  @ApiResponse({ status: 429, description: "Code requested too recently or too many requests" })
+  async initiateLoginUnlock(@Body() loginUnlockInitiateDto: LoginUnlockInitiateDto, @Req() req) {
+    return this.authService.initiateLoginUnlock(loginUnlockInitiateDto.email, req.ip);
+  }
+
+  @Post("login-unlock")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Unlock logins with the code sent by email" })
+  @ApiResponse({
+    status: 200,
+    description: "Account unlocked",
+    type: LoginUnlockResponseDto
+  })
+  @ApiResponse({ status: 400, description: "Invalid or expired OTP" })
+  @ApiResponse({ status: 429, description: "Too many requests" })
+  async unlockLogin(@Body() loginUnlockDto: LoginUnlockDto, @Req() req) {
+    return this.authService.unlockLogin(loginUnlockDto.email, loginUnlockDto.otp, req.ip);
+  }
+
+  @RateLimit({ points: 20, window: 15 * 60 })
+  @Post("login/2fa")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Finish a login with a code from the authenticator app or a recovery code" })
+  @ApiResponse({
+    status: 200,
     description: "Login successful",
     type: AuthResponseDto
   })
+  @ApiResponse({ status: 400, description: "Invalid code" })
+  @ApiResponse({ status: 401, description: "Invalid or expired challenge token" })
+  @ApiResponse({ status: 429, description: "Too many invalid codes or requests" })
+  async verifyTwoFactorLogin(@Body() twoFactorLoginDto: TwoFactorLoginDto, @Req() req) {
+    return this.authService.verifyTwoFactorLogin(
+      twoFactorLoginDto.challengeToken,
+      twoFactorLoginDto.code,
+      getClientContext(req, twoFactorLoginDto)
+    );
+  }
+
+  @RateLimit(OTP_SEND_RATE_LIMIT)
+  @Post("2fa/reset-initiate")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Send a code by email to reset two-factor authentication after losing the authenticator app" })
+  @ApiResponse({
+    status: 200,
+    description: "Reset code sent",
+    type: TwoFactorMessageResponseDto
+  })
+  @ApiResponse({ status: 400, description: "The account has no email address" })
+  @ApiResponse({ status: 401, description: "Invalid or expired challenge token" })
+  @ApiResponse({ status: 429, description: "OTP requested too recently or too many requests" })
+  async initiateTwoFactorReset(@Body() twoFactorResetInitiateDto: TwoFactorResetInitiateDto, @Req() req) {
+    return this.authService.initiateTwoFactorReset(twoFactorResetInitiateDto.challengeToken, req.ip);
+  }
+
+  @Post("2fa/reset")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Turn off two-factor authentication with the code sent by email and finish the login" })
+  @ApiResponse({
+    status: 200,
+    description: "Two-factor authentication turned off and login successful; other sessions are logged out",
+    type: AuthResponseDto
+  })
+  @ApiResponse({ status: 400, description: "Invalid or expired OTP, or too many failed attempts" })
+  @ApiResponse({ status: 401, description: "Invalid or expired challenge token" })
+  @ApiResponse({ status: 429, description: "Too many requests" })
+  async resetTwoFactor(@Body() twoFactorResetDto: TwoFactorResetDto, @Req() req) {
+    return this.authService.resetTwoFactor(
+      twoFactorResetDto.challengeToken,
+      twoFactorResetDto.otp,
+      getClientContext(req, twoFactorResetDto)
+    );
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Get("2fa")
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Get the two-factor authentication status" })
+  @ApiResponse({
+    status: 200,
+    description: "Two-factor authentication status",
+    type: TwoFactorStatusResponseDto
+  })
   @ApiResponse({ status: 401, description: "Unauthorized" })
-  async login(@Body() loginDto: LoginDto, @Req() req) {
-    return this.authService.login(req.user);
+  async getTwoFactorStatus(@Req() req) {
+    return this.authService.getTwoFactorStatus(req.user.userId);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Post("2fa/enroll")
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Start enabling two-factor authentication with a new authenticator app secret" })
+  @ApiResponse({
+    status: 200,
+    description: "Secret and otpauth URI for the authenticator app",
+    type: TwoFactorEnrollmentResponseDto
+  })
+  @ApiResponse({ status: 400, description: "The account has no password" })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({ status: 409, description: "Two-factor authentication is already enabled" })
+  async startTwoFactorEnrollment(@Req() req) {
+    return this.authService.startTwoFactorEnrollment(req.user.userId);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Post("2fa/enroll/verify")
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Enable two-factor authentication with the first code from the authenticator app" })
+  @ApiResponse({
+    status: 200,
+    description: "Two-factor authentication enabled",
+    type: RecoveryCodesResponseDto
+  })
+  @ApiResponse({ status: 400, description: "Invalid code, or enrollment not started" })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({ status: 409, description: "Two-factor authentication is already enabled" })
+  @ApiResponse({ status: 429, description: "Too many invalid codes" })
+  async confirmTwoFactorEnrollment(@Body() twoFactorCodeDto: TwoFactorCodeDto, @Req() req) {
+    return this.authService.confirmTwoFactorEnrollment(req.user.userId, twoFactorCodeDto.code);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Post("2fa/recovery-codes")
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Replace the recovery codes with new ones" })
+  @ApiResponse({
+    status: 200,
+    description: "New recovery codes",
+    type: RecoveryCodesResponseDto
+  })
+  @ApiResponse({ status: 400, description: "Invalid code, or two-factor authentication not enabled" })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({ status: 429, description: "Too many invalid codes" })
+  async regenerateRecoveryCodes(@Body() twoFactorCodeDto: TwoFactorCodeDto, @Req() req) {
+    return this.authService.regenerateRecoveryCodes(req.user.userId, twoFactorCodeDto.code);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Post("2fa/disable")
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Disable two-factor authentication with a current code from the authenticator app" })
+  @ApiResponse({
+    status: 200,
+    description: "Two-factor authentication disabled",
+    type: TwoFactorMessageResponseDto
+  })
+  @ApiResponse({ status: 400, description: "Invalid code, or two-factor authentication not enabled" })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({ status: 429, description: "Too many invalid codes" })
+  async disableTwoFactor(@Body() twoFactorCodeDto: TwoFactorCodeDto, @Req() req) {
+    return this.authService.disableTwoFactor(req.user.userId, twoFactorCodeDto.code);
   }
 
   @UseGuards(JwtAuthGuard)
@@ -125,7 +352,7 @@ export class AuthController {
   })
   @ApiResponse({ status: 401, description: "Unauthorized" })
   async refreshTokens(@Body() refreshTokenDto: RefreshTokenDto, @Req() req) {
-    return this.authService.refreshTokens(req.user);
+    return this.authService.refreshTokens(req.user, getClientContext(req));
   }
 
   @UseGuards(FacebookAuthGuard)
@@ -144,13 +371,50 @@ export class AuthController {
   })
   async facebookLogin(@Body() facebookAuthDto: FacebookAuthDto, @Req() req) {
     const { email, facebookId, name } = req.user;
-    return this.authService.facebookLogin(email, facebookId, name);
+    return this.authService.facebookLogin(email, facebookId, name, getClientContext(req, facebookAuthDto));
+  }
+
+  @UseGuards(GoogleAuthGuard)
+  @Post("google")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Login with Google ID token" })
+  @ApiResponse({
+    status: 200,
+    description: "Login successful",
+    type: AuthResponseDto
+  })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({
+    status: 409,
+    description: "Email already registered with a different method",
+  })
+  async googleLogin(@Body() googleAuthDto: GoogleAuthDto, @Req() req) {
+    const { email, googleId, name } = req.user;
+    return this.authService.googleLogin(email, googleId, name, getClientContext(req, googleAuthDto));
+  }
+
+  @UseGuards(AppleAuthGuard)
+  @Post("apple")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Login with Sign in with Apple" })
+  @ApiResponse({
+    status: 200,
+    description: "Login successful",
+    type: AuthResponseDto
+  })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({
+    status: 409,
+    description: "Email already registered with a different method",
+  })
+  async appleLogin(@Body() appleAuthDto: AppleAuthDto, @Req() req) {
+    return this.authService.appleLogin(req.user, appleAuthDto.authorizationCode, getClientContext(req, appleAuthDto));
   }
   
   @UseGuards(LineAuthGuard)
   @Post("line")
   @HttpCode(HttpStatus.OK)
-  @ApiOperation({ summary: "Login with Line token" })
+  @ApiOperation({ summary: "Login with LINE ID token" })
   @ApiResponse({
     status: 200,
     description: "Login successful",
@@ -163,9 +427,283 @@ export class AuthController {
   })
   async lineLogin(@Body() lineAuthDto: LineAuthDto, @Req() req){
     const { email, lineId, name } = req.user;
-    return this.authService.lineLogin(email, lineId, name);
+    return this.authService.lineLogin(email, lineId, name, getClientContext(req, lineAuthDto));
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Get("identities")
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "List the sign-in methods linked to the account" })
+  @ApiResponse({
+    status: 200,
+    description: "Return the linked sign-in methods",
+    type: [IdentityResponseDto]
+  })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  async getIdentities(@Req() req) {
+    return this.authService.getIdentities(req.user.userId);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Post("identities/facebook")
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Link a Facebook account" })
+  @ApiResponse({
+    status: 201,
+    description: "Facebook account linked",
+    type: IdentityResponseDto
+  })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({ status: 409, description: "Facebook account already linked" })
+  async linkFacebook(@Body() facebookAuthDto: FacebookAuthDto, @Req() req) {
+    return this.authService.linkFacebook(req.user.userId, facebookAuthDto.token);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Post("identities/google")
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Link a Google account" })
+  @ApiResponse({
+    status: 201,
+    description: "Google account linked",
+    type: IdentityResponseDto
+  })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({ status: 409, description: "Google account already linked" })
+  async linkGoogle(@Body() googleAuthDto: GoogleAuthDto, @Req() req) {
+    return this.authService.linkGoogle(req.user.userId, googleAuthDto.idToken);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Post("identities/apple")
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Link a Sign in with Apple account" })
+  @ApiResponse({
+    status: 201,
+    description: "Apple account linked",
+    type: IdentityResponseDto
+  })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({ status: 409, description: "Apple account already linked" })
+  async linkApple(@Body() appleAuthDto: AppleAuthDto, @Req() req) {
+    return this.authService.linkApple(
+      req.user.userId,
+      appleAuthDto.identityToken,
+      appleAuthDto.nonce,
+      appleAuthDto.authorizationCode
+    );
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Post("identities/line")
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Link a Line account" })
+  @ApiResponse({
+    status: 201,
+    description: "Line account linked",
+    type: IdentityResponseDto
+  })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({ status: 409, description: "Line account already linked" })
+  async linkLine(@Body() lineAuthDto: LineAuthDto, @Req() req) {
+    return this.authService.linkLine(req.user.userId, lineAuthDto.idToken, lineAuthDto.nonce);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Post("identities/local")
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Add a password to log in with the username" })
+  @ApiResponse({
+    status: 201,
+    description: "Password added",
+    type: IdentityResponseDto
+  })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({ status: 409, description: "The account already has a password" })
+  async linkPassword(@Body() linkPasswordDto: LinkPasswordDto, @Req() req) {
+    return this.authService.linkPassword(req.user.userId, linkPasswordDto.password);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Delete("identities/:provider")
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Unlink a sign-in method from the account" })
+  @ApiResponse({
+    status: 200,
+    description: "Sign-in method unlinked",
+    type: UnlinkIdentityResponseDto
+  })
+  @ApiResponse({ status: 400, description: "Cannot unlink the last sign-in method" })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({ status: 404, description: "Identity not found" })
+  async unlinkIdentity(
+    @Req() req,
+    @Param("provider", new ParseEnumPipe(AuthProvider)) provider: AuthProvider
+  ) {
+    return this.authService.unlinkIdentity(req.user.userId, provider);
+  }
+
+  @RateLimit({ ...OTP_SEND_RATE_LIMIT, key: "user" })
+  @UseGuards(JwtAuthGuard)
+  @Post("email/add-initiate")
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Send an OTP to add an email to an account without one (e.g. LINE)" })
+  @ApiResponse({
+    status: 200,
+    description: "Verification email sent",
+    type: AddEmailResponseDto
+  })
+  @ApiResponse({ status: 400, description: "Account already has an email address" })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({ status: 409, description: "Email already exists" })
+  @ApiResponse({ status: 429, description: "OTP requested too recently or too many requests" })
+  async initiateAddEmail(@Body() addEmailInitiateDto: AddEmailInitiateDto, @Req() req) {
+    return this.authService.initiateAddEmail(req.user.userId, addEmailInitiateDto.email, req.ip);
   }
-  
+
+  @UseGuards(JwtAuthGuard)
+  @Post("email/add-verify")
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Verify the OTP and add the email to the account" })
+  @ApiResponse({
+    status: 200,
+    description: "Email added successfully",
+    type: AddEmailResponseDto
+  })
+  @ApiResponse({ status: 400, description: "Invalid or expired OTP" })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({ status: 409, description: "Email already exists" })
+  async verifyAddEmail(@Body() addEmailVerifyDto: AddEmailVerifyDto, @Req() req) {
+    return this.authService.verifyAddEmail(req.user.userId, addEmailVerifyDto.email, addEmailVerifyDto.otp, req.ip);
+  }
+
+  @RateLimit({ ...OTP_SEND_RATE_LIMIT, key: "user" })
+  @UseGuards(JwtAuthGuard)
+  @Post("email/change-initiate")
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Send an OTP to the new address to change the account's email" })
+  @ApiResponse({
+    status: 200,
+    description: "Verification email sent",
+    type: ChangeEmailResponseDto
+  })
+  @ApiResponse({ status: 400, description: "Account has no email address, or the new email is the current one" })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({ status: 409, description: "Email already exists" })
+  @ApiResponse({ status: 429, description: "OTP requested too recently or too many requests" })
+  async initiateChangeEmail(@Body() changeEmailInitiateDto: ChangeEmailInitiateDto, @Req() req) {
+    return this.authService.initiateChangeEmail(req.user.userId, changeEmailInitiateDto.newEmail, req.ip);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Post("email/change-verify")
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Verify the OTP and change the account's email; the previous address is notified" })
+  @ApiResponse({
+    status: 200,
+    description: "Email changed successfully",
+    type: ChangeEmailResponseDto
+  })
+  @ApiResponse({ status: 400, description: "Invalid or expired OTP" })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({ status: 409, description: "Email already exists" })
+  async verifyChangeEmail(@Body() changeEmailVerifyDto: ChangeEmailVerifyDto, @Req() req) {
+    return this.authService.verifyChangeEmail(
+      req.user.userId,
+      changeEmailVerifyDto.newEmail,
+      changeEmailVerifyDto.otp,
+      req.ip
+    );
+  }
+
+  @RateLimit({ points: 5, window: 15 * 60, key: "user" })
+  @UseGuards(JwtAuthGuard)
+  @Post("change-password")
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Change the password; other devices are logged out" })
+  @ApiResponse({
+    status: 200,
+    description: "Password changed successfully",
+    type: ChangePasswordResponseDto
+  })
+  @ApiResponse({ status: 400, description: "Current password is incorrect, or the account has no password" })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({ status: 429, description: "Too many requests, or too many failed password attempts" })
+  async changePassword(@Body() changePasswordDto: ChangePasswordDto, @Req() req) {
+    return this.authService.changePassword(
+      req.user.userId,
+      req.user.sessionId,
+      changePasswordDto.currentPassword,
+      changePasswordDto.newPassword,
+      getClientContext(req)
+    );
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Get("security-activity")
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "List recent security events of the account, e.g. logins and password changes" })
+  @ApiResponse({
+    status: 200,
+    description: "Security events, newest first",
+    type: [SecurityEventResponseDto]
+  })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  async getSecurityActivity(@Query() query: SecurityActivityQueryDto, @Req() req) {
+    return this.authService.getSecurityActivity(req.user.userId, query.limit);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Get("sessions")
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "List the devices the user is logged in on" })
+  @ApiResponse({
+    status: 200,
+    description: "Return the active sessions",
+    type: [SessionResponseDto]
+  })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  async getSessions(@Req() req) {
+    return this.authService.getSessions(req.user.userId, req.user.sessionId);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Post("sessions/logout-others")
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Log out all other devices" })
+  @ApiResponse({
+    status: 200,
+    description: "Other sessions revoked",
+    type: RevokeSessionsResponseDto
+  })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  async revokeOtherSessions(@Req() req) {
+    return this.authService.revokeOtherSessions(req.user.userId, req.user.sessionId);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Delete("sessions/:id")
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Revoke a session, logging that device out" })
+  @ApiResponse({
+    status: 200,
+    description: "Session revoked",
+    type: RevokeSessionsResponseDto
+  })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({ status: 404, description: "Session not found" })
+  async revokeSession(@Req() req, @Param("id", ParseUUIDPipe) sessionId: string) {
+    return this.authService.revokeSession(req.user.userId, sessionId);
+  }
+
 
   @UseGuards(JwtAuthGuard)
   @Get("profile")
@@ -180,6 +718,7 @@ export class AuthController {
     return req.user;
   }
 
+  @RateLimit(OTP_SEND_RATE_LIMIT)
   @Post("reset-password-initiate")
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: "Initiate password reset by sending OTP" })
@@ -189,9 +728,10 @@ export class AuthController {
     type: ResetPasswordInitiateResponseDto
   })
   @ApiResponse({ status: 404, description: "User not found" })
-  @ApiResponse({ status: 400, description: "OTP already sent or Facebook user" })
-  async resetPasswordInitiate(@Body() resetPasswordInitiateDto: ResetPasswordInitiateDto) {
-    return this.authService.initiatePasswordReset(resetPasswordInitiateDto.email);
+  @ApiResponse({ status: 400, description: "User has no password" })
+  @ApiResponse({ status: 429, description: "OTP requested too recently or too many requests" })
+  async resetPasswordInitiate(@Body() resetPasswordInitiateDto: ResetPasswordInitiateDto, @Req() req) {
+    return this.authService.initiatePasswordReset(resetPasswordInitiateDto.email, req.ip);
   }
 
   @Post("reset-password-verify-otp")
@@ -203,11 +743,13 @@ export class AuthController {
     type: ResetPasswordVerifyOtpResponseDto
   })
   @ApiResponse({ status: 404, description: "User not found" })
-  @ApiResponse({ status: 400, description: "Invalid or expired OTP" })
-  async resetPasswordVerifyOtp(@Body() resetPasswordVerifyOtpDto: ResetPasswordVerifyOtpDto) {
+  @ApiResponse({ status: 400, description: "Invalid or expired OTP, or too many failed attempts" })
+  @ApiResponse({ status: 429, description: "Too many requests" })
+  async resetPasswordVerifyOtp(@Body() resetPasswordVerifyOtpDto: ResetPasswordVerifyOtpDto, @Req() req) {
     return this.authService.verifyPasswordResetOtp(
       resetPasswordVerifyOtpDto.email, 
-      resetPasswordVerifyOtpDto.otp
+      resetPasswordVerifyOtpDto.otp,
+      req.ip
     );
   }
 
@@ -230,6 +772,7 @@ export class AuthController {
     );
   }
 
+  @RateLimit(OTP_SEND_RATE_LIMIT)
   @Post("find-username-initiate")
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: "Initiate find username by sending OTP" })
@@ -239,9 +782,9 @@ export class AuthController {
     type: FindUsernameInitiateResponseDto
   })
   @ApiResponse({ status: 404, description: "User not found" })
-  @ApiResponse({ status: 400, description: "OTP already sent" })
-  async findUsernameInitiate(@Body() findUsernameInitiateDto: FindUsernameInitiateDto) {
-    return this.authService.initiateFindUsername(findUsernameInitiateDto.email);
+  @ApiResponse({ status: 429, description: "OTP requested too recently or too many requests" })
+  async findUsernameInitiate(@Body() findUsernameInitiateDto: FindUsernameInitiateDto, @Req() req) {
+    return this.authService.initiateFindUsername(findUsernameInitiateDto.email, req.ip);
   }
 
   @Post("find-username-verify-otp")
@@ -253,11 +796,13 @@ export class AuthController {
     type: FindUsernameVerifyOtpResponseDto
   })
   @ApiResponse({ status: 404, description: "User not found" })
-  @ApiResponse({ status: 400, description: "Invalid or expired OTP" })
-  async findUsernameVerifyOtp(@Body() findUsernameVerifyOtpDto: FindUsernameVerifyOtpDto) {
+  @ApiResponse({ status: 400, description: "Invalid or expired OTP, or too many failed attempts" })
+  @ApiResponse({ status: 429, description: "Too many requests" })
+  async findUsernameVerifyOtp(@Body() findUsernameVerifyOtpDto: FindUsernameVerifyOtpDto, @Req() req) {
     return this.authService.verifyFindUsernameOtp(
       findUsernameVerifyOtpDto.email, 
-      findUsernameVerifyOtpDto.otp
+      findUsernameVerifyOtpDto.otp,
+      req.ip
     );
   }
 
@@ -1,9 +1,11 @@
 import { Module } from "@nestjs/common";
 import { ConfigModule, ConfigService } from "@nestjs/config";
 import { JwtModule } from "@nestjs/jwt";
+import { TypeOrmModule } from "@nestjs/typeorm";
 import { PassportModule } from "@nestjs/passport";
 import { UsersModule } from "../users/users.module";
 import { ServicesModule } from "../services/services.module";
+import { ReferralsModule } from "../referrals/referrals.module";
 import { AuthService } from "./auth.service";
 import { AuthController } from "./auth.controller";
 import { JwtStrategy } from "./strategies/jwt.strategy";
@@ -12,12 +14,32 @@ import { FacebookStrategy } from "./strategies/facebook.strategy";
 import { RefreshStrategy } from "./strategies/refresh.strategy";
 import { EmailVerificationStrategy } from "./strategies/email-verification.strategy";
 import { TokenService } from "./token.service";
+import { OtpService } from "./otp.service";
+import { LoginThrottleService } from "./login-throttle.service";
+import { TwoFactorService } from "./two-factor.service";
+import { TwoFactorAuth } from "./entities/two-factor-auth.entity";
+import { AuthEventsService } from "./auth-events.service";
+import { AuthEvent } from "./entities/auth-event.entity";
 import { LineStrategy } from "./strategies/line.strategy";
+import { SessionsService } from "./sessions.service";
+import { Session } from "./entities/session.entity";
+import { RefreshToken } from "./entities/refresh-token.entity";
+import { GoogleStrategy } from "./strategies/google.strategy";
+import { IdTokenService } from "./jwks/id-token.service";
+import { APPLE_JWKS_PROVIDER, GOOGLE_JWKS_PROVIDER, LINE_JWKS_PROVIDER, RemoteJwksProvider } from "./jwks/jwks-provider";
+import { AppleStrategy } from "./strategies/apple.strategy";
+import { AppleAuthService } from "./apple-auth.service";
+import { FacebookVerifier } from "./verifiers/facebook.verifier";
+import { LineVerifier } from "./verifiers/line.verifier";
+import { GoogleVerifier } from "./verifiers/google.verifier";
+import { AppleVerifier } from "./verifiers/apple.verifier";
 
 @Module({
   imports: [
+    TypeOrmModule.forFeature([Session, RefreshToken, TwoFactorAuth, AuthEvent]),
     UsersModule,
     ServicesModule,
+    ReferralsModule,
     PassportModule,
     ConfigModule,
     JwtModule.registerAsync({
@@ -35,12 +57,37 @@ import { LineStrategy } from "./strategies/line.strategy";
   providers: [
     AuthService,
     TokenService,
+    OtpService,
+    LoginThrottleService,
+    TwoFactorService,
+    AuthEventsService,
+    SessionsService,
     LocalStrategy,
     JwtStrategy,
     RefreshStrategy,
     FacebookStrategy,
+    FacebookVerifier,
     EmailVerificationStrategy,
-    LineStrategy
+    LineStrategy,
+    LineVerifier,
+    {
+      provide: LINE_JWKS_PROVIDER,
+      useFactory: () => new RemoteJwksProvider("https://api.line.me/oauth2/v2.1/certs"),
+    },
+    GoogleStrategy,
+    GoogleVerifier,
+    IdTokenService,
+    {
+      provide: GOOGLE_JWKS_PROVIDER,
+      useFactory: () => new RemoteJwksProvider("https://www.googleapis.com/oauth2/v3/certs"),
+    },
+    AppleStrategy,
+    AppleVerifier,
+    AppleAuthService,
+    {
+      provide: APPLE_JWKS_PROVIDER,
+      useFactory: () => new RemoteJwksProvider("https://appleid.apple.com/auth/keys"),
+    },
   ],
   exports: [AuthService, TokenService],
 })
@@ -0,0 +1,93 @@
+import { HttpException, HttpStatus } from "@nestjs/common";
+import { AuthService } from "./auth.service";
+
+const USER_ID = "3f0c1a52-6c1e-4a35-9d55-3c0f7d7e8b21";
+const SESSION_ID = "7c9e6679-7425-40de-944b-e07fc1f90ae7";
+const CONTEXT = { ipAddress: "203.0.113.7" };
+
+describe("AuthService", () => {
+  describe("changePassword", () => {
+    let user: { id: string; username: string; email: string; validatePassword: jest.Mock };
+    let usersService: { findById: jest.Mock; updatePassword: jest.Mock };
+    let sessionsService: { revokeAllExcept: jest.Mock; revokeAll: jest.Mock };
+    let loginThrottleService: { startAttempt: jest.Mock; recordFailure: jest.Mock; recordSuccess: jest.Mock };
+    let service: AuthService;
+
+    beforeEach(() => {
+      user = {
+        id: USER_ID,
+        username: "janedoe",
+        email: "jane@example.com",
+        validatePassword: jest.fn(async (password: string) => password === "CurrentPassword1!"),
+      };
+      usersService = { findById: jest.fn(async () => user), updatePassword: jest.fn() };
+      sessionsService = { revokeAllExcept: jest.fn(async () => 2), revokeAll: jest.fn(async () => 3) };
+      loginThrottleService = {
+        startAttempt: jest.fn(async (username: string, ipAddress: string) => ({ username, ipAddress })),
+        recordFailure: jest.fn(),
+        recordSuccess: jest.fn(),
+      };
+
+      const dependencies: Record<string, unknown> = {
+        usersService,
+        sessionsService,
+        loginThrottleService,
+        userIdentitiesService: { hasIdentity: jest.fn(async () => true) },
+        authEventsService: { record: jest.fn() },
+      };
+      service = new (AuthService as any)(
+        ...[
+          "usersService",
+          "mailerService",
+          "tokenService",
+          "configService",
+          "referralsService",
+          "sessionsService",
+          "appleAuthService",
+          "userIdentitiesService",
+          "facebookVerifier",
+          "lineVerifier",
+          "googleVerifier",
+          "appleVerifier",
+          "otpService",
+          "loginThrottleService",
+          "twoFactorService",
+          "authEventsService",
+        ].map((name) => dependencies[name] ?? {})
+      );
+    });
+
+    it("changes the password and logs out the other sessions", async () => {
+      await expect(
+        service.changePassword(USER_ID, SESSION_ID, "CurrentPassword1!", "NewPassword2!", CONTEXT)
+      ).resolves.toMatchObject({ message: "Password changed successfully" });
+
+      expect(usersService.updatePassword).toHaveBeenCalledWith("jane@example.com", "NewPassword2!");
+      expect(sessionsService.revokeAllExcept).toHaveBeenCalledWith(USER_ID, SESSION_ID);
+      expect(loginThrottleService.recordSuccess).toHaveBeenCalledWith({ username: "janedoe", ipAddress: "203.0.113.7" });
+    });
+
+    it("counts a wrong current password as a failed login", async () => {
+      await expect(
+        service.changePassword(USER_ID, SESSION_ID, "WrongPassword1!", "NewPassword2!", CONTEXT)
+      ).rejects.toThrow("Current password is incorrect");
+
+      expect(loginThrottleService.recordFailure).toHaveBeenCalledWith({ username: "janedoe", ipAddress: "203.0.113.7" });
+      expect(usersService.updatePassword).not.toHaveBeenCalled();
+    });
+
+    it("does not check the password while the login throttle rejects attempts", async () => {
+      loginThrottleService.startAttempt.mockRejectedValue(
+        new HttpException("Too many failed login attempts.", HttpStatus.TOO_MANY_REQUESTS)
+      );
+
+      await expect(
+        service.changePassword(USER_ID, SESSION_ID, "CurrentPassword1!", "NewPassword2!", CONTEXT)
+      ).rejects.toThrow("Too many failed login attempts.");
+
+      expect(loginThrottleService.startAttempt).toHaveBeenCalledWith("janedoe", "203.0.113.7");
+      expect(user.validatePassword).not.toHaveBeenCalled();
+      expect(usersService.updatePassword).not.toHaveBeenCalled();
+    });
+  });
+});
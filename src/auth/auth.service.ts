@@ -7,66 +7,207 @@ import {
 } from "@nestjs/common";
 import { ConfigService } from "@nestjs/config";
 import { UsersService } from "../users/users.service";
+import { UserIdentitiesService } from "../users/user-identities.service";
 import { CreateUserDto } from "../users/dto/create-user.dto";
 import { AuthProvider } from "../users/entities/user.entity";
-import { ValkeyService, OtpType } from "../services/valkey.service";
+import { UserIdentity } from "../users/entities/user-identity.entity";
+import { isPlaceholderEmail } from "../users/placeholder-email";
+import { OtpType } from "../services/valkey.service";
+import { OtpService } from "./otp.service";
+import { LoginThrottleService } from "./login-throttle.service";
+import { TwoFactorService } from "./two-factor.service";
+import { AuthEventsService } from "./auth-events.service";
+import { AuthEventResult, AuthEventType } from "./entities/auth-event.entity";
+import * as bcrypt from "bcrypt";
 import { MailerService } from "../services/mailer.service";
 import { TokenService } from "./token.service";
+import { ReferralsService } from "../referrals/referrals.service";
+import { SessionsService } from "./sessions.service";
+import { ClientContext } from "./client-context";
+import { Session } from "./entities/session.entity";
+import { AppleAuthService } from "./apple-auth.service";
+import { FacebookVerifier } from "./verifiers/facebook.verifier";
+import { LineVerifier } from "./verifiers/line.verifier";
+import { GoogleVerifier } from "./verifiers/google.verifier";
+import { AppleVerifier } from "./verifiers/apple.verifier";
+import { VerifiedIdentity } from "./verifiers/verified-identity";
+import { IdentityResponseDto } from "./dto/identity.dto";
 import { access } from "fs";
 
+// bcrypt hash of a random password, compared against when the username doesn't exist
+const DUMMY_PASSWORD_HASH = "$2b$10$f8UCKCSMUR4J8Nn4N9nkIueh4bNYgaQ211pD7UwYLvCfFzOfBaHBO";
+
 @Injectable()
 export class AuthService {
   constructor(
     private usersService: UsersService,
-    private valkeyService: ValkeyService,
     private mailerService: MailerService,
     private tokenService: TokenService,
-    private configService: ConfigService
+    private configService: ConfigService,
+    private referralsService: ReferralsService,
+    private sessionsService: SessionsService,
+    private appleAuthService: AppleAuthService,
+    private userIdentitiesService: UserIdentitiesService,
+    private facebookVerifier: FacebookVerifier,
+    private lineVerifier: LineVerifier,
+    private googleVerifier: GoogleVerifier,
+    private appleVerifier: AppleVerifier,
+    private otpService: OtpService,
+    private loginThrottleService: LoginThrottleService,
+    private twoFactorService: TwoFactorService,
+    private authEventsService: AuthEventsService
   ) {}
 
-  private generateOtp() {
-    // Generate a random 4-digit OTP
-    return Math.floor(1000 + Math.random() * 9000).toString();
-  }
-
-  async validateUser(username: string, password: string): Promise<any> {
+  async validateUser(username: string, password: string, context: ClientContext = {}): Promise<any> {
     const user = await this.usersService.findByUsername(username);
-    if (user && (await user.validatePassword(password))) {
-      const { password, refreshToken, ...result } = user;
+    if (!user) {
+      // Take as long as checking a real password, so response times don't reveal which usernames exist
+      await bcrypt.compare(password, DUMMY_PASSWORD_HASH);
+      this.recordLoginFailure(null, "unknown_username", context);
+      return null;
+    }
+
+    if (await user.validatePassword(password)) {
+      const { password, ...result } = user;
       return result;
     }
+
+    this.recordLoginFailure(user.id, "invalid_password", context);
     return null;
   }
 
+  private recordLoginFailure(userId: string | null, reason: string, context: ClientContext) {
+    this.authEventsService.record({
+      userId,
+      type: AuthEventType.LOGIN,
+      result: AuthEventResult.FAILURE,
+      reason,
+      detail: AuthProvider.LOCAL,
+      context,
+    });
+  }
+
   /**
-   * Validates a refresh token for a user
-   * @param username The username of the user
+   * Send a new code to unlock logins locked after too many failed attempts.
+   * The response is the same whether or not the account exists or is locked.
+   * @param email Email address of the account
+   * @param ipAddress IP address of the request, for rate limiting
+   * @returns Message indicating the code was sent if the account is locked
+   */
+  async initiateLoginUnlock(email: string, ipAddress?: string) {
+    const user = await this.usersService.findByEmail(email);
+    if (user && (await this.loginThrottleService.isLocked(user.username))) {
+      await this.loginThrottleService.sendUnlockCode(user.username, ipAddress);
+    }
+
+    return {
+      message: "If the account is locked, an unlock code has been sent",
+    };
+  }
+
+  /**
+   * Unlock logins with the code sent by email
+   * @param email Email address of the account
+   * @param otp Unlock code
+   * @param ipAddress IP address of the request, for rate limiting
+   * @returns Message indicating the account was unlocked
+   */
+  async unlockLogin(email: string, otp: string, ipAddress?: string) {
+    // Check the OTP, counting failed attempts
+    await this.otpService.verify(email, OtpType.LOGIN_UNLOCK, otp, ipAddress);
+
+    const user = await this.usersService.findByEmail(email);
+    if (user) {
+      await this.loginThrottleService.unlock(user.username);
+      this.authEventsService.record({ userId: user.id, type: AuthEventType.LOGIN_UNLOCK, context: { ipAddress } });
+    }
+
+    return {
+      message: "Account unlocked",
+    };
+  }
+
+  /**
+   * Validates and rotates a refresh token. Reuse of an already rotated token
+   * revokes the session it belongs to and alerts the user by email.
    * @param refreshToken The refresh token to validate
-   * @returns Object with user data and validation status, or null if user not found
-   */
-  async validateRefreshToken(username: string, refreshToken: string): Promise<{ user: any, status: string } | null> {
-      const user = await this.usersService.findByUsername(username);
-      if (!user) return null;
-      
-      // Get refresh token expiration time from ConfigService
-      const refreshExpSec = this.configService.get<number>('REFRESH_TOKEN_EXPIRATION_IN_SEC', 604800);
-      
-      // Pass the expiration time to the User entity's validateRefreshToken method
-      const validationResult = await user.validateRefreshToken(refreshToken, refreshExpSec);
-      
-      if (validationResult.isValid) {
-          const { password, refreshToken, ...result } = user;
-          return { user: result, status: 'valid' };
+   * @returns Object with user data, session ID and validation status
+   */
+  async validateRefreshToken(refreshToken: string): Promise<{ user: any, status: string }> {
+      const { status, session } = await this.sessionsService.consumeRefreshToken(refreshToken);
+
+      if (status === 'reused') {
+          this.authEventsService.record({
+            userId: session.userId,
+            type: AuthEventType.TOKEN_REFRESH,
+            result: AuthEventResult.FAILURE,
+            reason: "reused",
+          });
+          await this.notifyRefreshTokenReuse(session);
+          return { user: null, status };
+      }
+
+      if (status !== 'valid') {
+          return { user: null, status };
+      }
+
+      const user = await this.usersService.findById(session.userId);
+      if (!user) {
+          return { user: null, status: 'invalid' };
       }
-      
-      // Return the validation status even if the token is invalid
-      return { user: null, status: validationResult.status };
+
+      const { password, ...result } = user;
+      return { user: { ...result, sessionId: session.id }, status };
+  }
+
+  private async notifyRefreshTokenReuse(session: Session) {
+    const user = await this.usersService.findById(session.userId);
+    if (!user || isPlaceholderEmail(user.email)) {
+      return;
+    }
+
+    try {
+      await this.mailerService.sendRefreshTokenReuseEmail(user.email, session);
+    } catch (error) {
+      // The session is already revoked; a failed alert must not change the response
+      console.error(`Failed to send refresh token reuse alert for session ${session.id}:`, error.message);
+    }
+  }
+
+  /**
+   * Create a session for a device and issue its tokens
+   * @param userId User's ID
+   * @param context Client the session is created from
+   * @returns Access and refresh tokens
+   */
+  private async createSession(userId: string, context: ClientContext = {}) {
+    const { session, refreshToken } = await this.sessionsService.create(userId, context);
+    const accessToken = await this.tokenService.generateAccessToken(userId, session.id);
+
+    return { accessToken, refreshToken };
+  }
+
+  /**
+   * Log in a user whose password was verified. With two-factor authentication enabled
+   * only a challenge token is returned, to be exchanged for tokens with a code.
+   * @param user Authenticated user
+   * @param context Client the session is created from
+   * @returns User and authentication tokens, or the two-factor challenge
+   */
+  async login(user: any, context: ClientContext = {}) {
+    if (await this.twoFactorService.isEnabled(user.id)) {
+      return {
+        twoFactorRequired: true,
+        challengeToken: await this.tokenService.generateTwoFactorChallengeToken(user.id),
+      };
+    }
+
+    return this.completeLogin(user, context);
   }
 
-  async login(user: any) {
-    const tokens = await this.tokenService.generateAuthTokens(user.id);
-    // Store the hashed refresh token in the database
-    await this.usersService.setRefreshToken(user.id, tokens.refreshToken);
+  private async completeLogin(user: any, context: ClientContext = {}) {
+    const tokens = await this.createSession(user.id, context);
+    this.authEventsService.recordLogin(user.id, context, AuthProvider.LOCAL);
 
     return {
       user: {
@@ -79,12 +220,138 @@ export class AuthService {
     };
   }
 
+  /**
+   * Finish a login with two-factor authentication
+   * @param challengeToken Challenge token returned by the login
+   * @param code Code from the authenticator app, or a recovery code
+   * @param context Client the session is created from
+   * @returns User and authentication tokens
+   */
+  async verifyTwoFactorLogin(challengeToken: string, code: string, context: ClientContext = {}) {
+    const userId = await this.tokenService.verifyTwoFactorChallengeToken(challengeToken);
+    try {
+      await this.twoFactorService.verifyLoginCode(userId, code);
+    } catch (error) {
+      this.recordLoginFailure(userId, "invalid_two_factor_code", context);
+      throw error;
+    }
+
+    const user = await this.usersService.findById(userId);
+    if (!user) {
+      throw new UnauthorizedException("Invalid or expired challenge token");
+    }
+
+    return this.completeLogin(user, context);
+  }
+
+  /**
+   * Send a code to the account's email to reset two-factor authentication when the
+   * authenticator app was lost. The password must have been verified already.
+   * @param challengeToken Challenge token returned by the login
+   * @param ipAddress IP address of the request, for rate limiting
+   * @returns Message indicating the code was sent
+   */
+  async initiateTwoFactorReset(challengeToken: string, ipAddress?: string) {
+    const userId = await this.tokenService.verifyTwoFactorChallengeToken(challengeToken);
+    const user = await this.usersService.findById(userId);
+    if (!user) {
+      throw new UnauthorizedException("Invalid or expired challenge token");
+    }
+    if (isPlaceholderEmail(user.email)) {
+      throw new BadRequestException("The account has no email address");
+    }
+
+    await this.otpService.send(user.email, OtpType.TWO_FACTOR_RESET, ipAddress, (otp) =>
+      this.mailerService.sendTwoFactorResetOtpEmail(user.email, otp)
+    );
+    this.authEventsService.record({
+      userId: user.id,
+      type: AuthEventType.OTP_SENT,
+      detail: OtpType.TWO_FACTOR_RESET,
+      context: { ipAddress },
+    });
+
+    return {
+      message: "A code to reset two-factor authentication has been sent to your email",
+    };
+  }
+
+  /**
+   * Reset two-factor authentication with the code sent by email and finish the login.
+   * Other sessions are logged out, since the lost device may still be logged in.
+   * @param challengeToken Challenge token returned by the login
+   * @param otp Code sent by email
+   * @param context Client the session is created from
+   * @returns User and authentication tokens
+   */
+  async resetTwoFactor(challengeToken: string, otp: string, context: ClientContext = {}) {
+    const userId = await this.tokenService.verifyTwoFactorChallengeToken(challengeToken);
+    const user = await this.usersService.findById(userId);
+    if (!user) {
+      throw new UnauthorizedException("Invalid or expired challenge token");
+    }
+
+    await this.otpService.verify(user.email, OtpType.TWO_FACTOR_RESET, otp, context.ipAddress);
+
+    await this.twoFactorService.reset(userId);
+    await this.sessionsService.revokeAll(userId);
+    this.authEventsService.record({ userId, type: AuthEventType.TWO_FACTOR_RESET, context });
+
+    return this.completeLogin(user, context);
+  }
+
+  async getTwoFactorStatus(userId: string) {
+    return this.twoFactorService.getStatus(userId);
+  }
+
+  /**
+   * Start enabling two-factor authentication. Only accounts that log in with a password can use it.
+   * @param userId User's ID
+   * @returns Secret and otpauth URI for the authenticator app
+   */
+  async startTwoFactorEnrollment(userId: string) {
+    const user = await this.usersService.findById(userId);
+    if (!user) {
+      throw new NotFoundException("User not found");
+    }
+    if (!(await this.userIdentitiesService.hasIdentity(userId, AuthProvider.LOCAL))) {
+      throw new BadRequestException("Two-factor authentication requires logging in with a password");
+    }
+
+    return this.twoFactorService.startEnrollment(userId, user.username);
+  }
+
+  /**
+   * Enable two-factor authentication with the first code from the authenticator app
+   * @param userId User's ID
+   * @param code Code from the authenticator app
+   * @returns Recovery codes
+   */
+  async confirmTwoFactorEnrollment(userId: string, code: string) {
+    const recoveryCodes = await this.twoFactorService.confirmEnrollment(userId, code);
+    this.authEventsService.record({ userId, type: AuthEventType.TWO_FACTOR_ENABLE });
+    return { recoveryCodes };
+  }
+
+  async regenerateRecoveryCodes(userId: string, code: string) {
+    const recoveryCodes = await this.twoFactorService.regenerateRecoveryCodes(userId, code);
+    return { recoveryCodes };
+  }
+
+  async disableTwoFactor(userId: string, code: string) {
+    await this.twoFactorService.disable(userId, code);
+    this.authEventsService.record({ userId, type: AuthEventType.TWO_FACTOR_DISABLE });
+    return {
+      message: "Two-factor authentication disabled",
+    };
+  }
+
   /**
    * Register a new user with verified email token
    * @param createUserDto DTO with username, password, and token
    * @returns User and authentication tokens
    */
-  async register(createUserDto: CreateUserDto) {
+  async register(createUserDto: CreateUserDto, context: ClientContext = {}) {
     try {
       // Check if email already exists
       const existingUser = await this.usersService.findByEmail(createUserDto.email);
@@ -92,20 +359,27 @@ export class AuthService {
         throw new ConflictException("Email already exists");
       }
 
+      // Reject unknown invite codes before creating the account
+      if (createUserDto.invitedCode) {
+        await this.referralsService.validateInviteCode(createUserDto.invitedCode);
+      }
+
       // Create the user
-      const refreshToken = this.tokenService.generateRefreshToken();
       const user = await this.usersService.create({
         email: createUserDto.email,
         username: createUserDto.username,
         name: createUserDto.name,
         password: createUserDto.password,
         invitedCode: createUserDto.invitedCode,
-        refreshToken,
-        refreshTokenCreatedAt: new Date(),
       });
 
-      // Generate tokens
-      const accessToken = await this.tokenService.generateAccessToken(user.id);
+      if (createUserDto.invitedCode) {
+        await this.referralsService.redeem(user.id, createUserDto.invitedCode);
+      }
+
+      // Create the first session
+      const tokens = await this.createSession(user.id, context);
+      this.authEventsService.record({ userId: user.id, type: AuthEventType.REGISTER, detail: AuthProvider.LOCAL, context });
 
       return {
         user: {
@@ -114,8 +388,7 @@ export class AuthService {
           email: user.email,
           name: user.name,
         },
-        refreshToken,
-        accessToken,
+        ...tokens,
       };
     } catch (error) {
       if (error instanceof ConflictException || error instanceof BadRequestException || error instanceof UnauthorizedException) {
@@ -125,40 +398,133 @@ export class AuthService {
     }
   }
 
-  async refreshTokens(user: any) {
-    // Generate new tokens
-    const accessToken = await this.tokenService.generateAccessToken(user.id);
-    return { accessToken };
+  async refreshTokens(user: any, context: ClientContext = {}) {
+    // The presented refresh token has been rotated; issue its successor
+    const refreshToken = await this.sessionsService.issueRefreshToken(user.sessionId, context);
+    const accessToken = await this.tokenService.generateAccessToken(user.id, user.sessionId);
+    this.authEventsService.record({ userId: user.id, type: AuthEventType.TOKEN_REFRESH, context });
+    return { accessToken, refreshToken };
   }
 
   async logout(user: any) {
-    await this.usersService.setRefreshToken(user.id, null);
+    await this.sessionsService.revoke(user.userId, user.sessionId);
+    this.authEventsService.record({ userId: user.userId, type: AuthEventType.LOGOUT });
     return { message: "Logout successful" };
   }
 
-  
-  async facebookLogin(email: string, providerId: string, name: string) {
-    let user = await this.usersService.findByEmail(email);
+  /**
+   * List the recent security events of a user, e.g. logins and password changes
+   * @param userId User's ID
+   * @param limit Maximum number of events
+   * @returns Events, newest first
+   */
+  async getSecurityActivity(userId: string, limit: number) {
+    const events = await this.authEventsService.findRecent(userId, limit);
 
-    if (user) {
-      // If user exists but is not a Facebook user, return error
-      if (user.provider !== AuthProvider.FACEBOOK) {
+    return events.map((event) => ({
+      type: event.type,
+      result: event.result,
+      reason: event.reason,
+      detail: event.detail,
+      ipAddress: event.ipAddress,
+      userAgent: event.userAgent,
+      deviceName: event.deviceName,
+      platform: event.platform,
+      createdAt: event.createdAt,
+    }));
+  }
+
+  /**
+   * List the active sessions of a user
+   * @param userId User's ID
+   * @param currentSessionId ID of the session making the request
+   * @returns Active sessions with the current one flagged
+   */
+  async getSessions(userId: string, currentSessionId: string) {
+    const sessions = await this.sessionsService.findActiveByUser(userId);
+
+    return sessions.map((session) => ({
+      id: session.id,
+      deviceName: session.deviceName,
+      platform: session.platform,
+      ipAddress: session.ipAddress,
+      userAgent: session.userAgent,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  /**
+   * Revoke one session of a user, logging that device out
+   * @param userId User's ID
+   * @param sessionId ID of the session to revoke
+   * @returns Message indicating the session was revoked
+   */
+  async revokeSession(userId: string, sessionId: string) {
+    await this.sessionsService.revoke(userId, sessionId);
+    return { message: "Session revoked successfully" };
+  }
+
+  /**
+   * Log out all devices except the one making the request
+   * @param userId User's ID
+   * @param currentSessionId ID of the session to keep
+   * @returns Message with the number of revoked sessions
+   */
+  async revokeOtherSessions(userId: string, currentSessionId: string) {
+    const revoked = await this.sessionsService.revokeAllExcept(userId, currentSessionId);
+    return { message: `Logged out from ${revoked} other device${revoked === 1 ? "" : "s"}` };
+  }
+
+  async facebookLogin(email: string, providerId: string, name: string, context: ClientContext = {}) {
+    return this.socialLogin(AuthProvider.FACEBOOK, email, providerId, name, context);
+  }
+
+  async googleLogin(email: string, providerId: string, name: string, context: ClientContext = {}) {
+    return this.socialLogin(AuthProvider.GOOGLE, email, providerId, name, context);
+  }
+
+  /**
+   * Log in with Sign in with Apple. Users are matched by their Apple ID since the
+   * email may be a private relay address, and Apple only shares the name once.
+   * @param profile Verified Apple ID, email and the name sent by the app
+   * @param authorizationCode Code to obtain the refresh token needed for revocation
+   * @param context Client the session is created from
+   */
+  async appleLogin(
+    profile: { appleId: string; email: string | null; name: string | null },
+    authorizationCode?: string,
+    context: ClientContext = {}
+  ) {
+    let user = await this.userIdentitiesService.findUser(AuthProvider.APPLE, profile.appleId);
+
+    if (!user) {
+      if (!profile.email) {
+        throw new UnauthorizedException("Apple authentication failed: No email provided");
+      }
+
+      if (await this.usersService.findByEmail(profile.email)) {
         throw new ConflictException(
           "Email already registered with a different method"
         );
       }
-    } else {
-      // Create new user if not exists
-      user = await this.usersService.createFacebookUser(email, providerId, name);
+
+      // The name is only sent on the first authorization, so it is never overwritten later
+      const name = (profile.name || profile.email.split("@")[0]).substring(0, 50);
+      user = await this.usersService.createSocialUser(AuthProvider.APPLE, profile.email, profile.appleId, name);
     }
 
-    const tokens = await this.tokenService.generateAuthTokens(user.id);
+    if (authorizationCode && this.appleAuthService.isConfigured()) {
+      const appleRefreshToken = await this.appleAuthService.exchangeAuthorizationCode(authorizationCode);
+      await this.usersService.setAppleRefreshToken(user.id, appleRefreshToken);
+    }
 
-    // Store the hashed refresh token in the databasededdreer
-    await this.usersService.setRefreshToken(user.id, tokens.refreshToken);
+    const tokens = await this.createSession(user.id, context);
+    this.authEventsService.recordLogin(user.id, context, AuthProvider.APPLE);
 
     return {
-      accessToken: tokens.accessToken,
+      ...tokens,
       user: {
         id: user.id,
         username: user.username,
@@ -168,40 +534,83 @@ export class AuthService {
     };
   }
 
-  async lineLogin(email: string, providerId: string, name: string) {
-    // For Line users, find by providerId first since email might be placeholder
-    let user = await this.usersService.findByProviderId(providerId, AuthProvider.LINE);
+  /**
+   * Log in with a verified email from an identity provider, creating the user on first login
+   * @param provider Identity provider that verified the email
+   * @param email Verified email address
+   * @param providerId User's ID at the provider
+   * @param name Display name from the provider
+   * @param context Client the session is created from
+   * @returns Tokens and the user's basic profile
+   */
+  private async socialLogin(
+    provider: AuthProvider,
+    email: string,
+    providerId: string,
+    name: string,
+    context: ClientContext
+  ) {
+    let user = await this.userIdentitiesService.findUser(provider, providerId);
+
+    if (!user) {
+      // The provider has to be linked from the existing account, otherwise anyone
+      // controlling an account with the same email at the provider could take it over
+      if (await this.usersService.findByEmail(email)) {
+        throw new ConflictException(
+          "Email already registered with a different method"
+        );
+      }
 
-    if (!user && !email.includes('line.placeholder')) {
-      // If not found by providerId and email is not placeholder, try finding by email
-      user = await this.usersService.findByEmail(email);
+      // Create new user if not exists
+      user = await this.usersService.createSocialUser(provider, email, providerId, name);
     }
 
-    if (user) {
-      // If user exists but is not a Line user, return error
-      if (user.provider !== AuthProvider.LINE) {
+    const tokens = await this.createSession(user.id, context);
+    this.authEventsService.recordLogin(user.id, context, provider);
+
+    return {
+      ...tokens,
+      user: {
+        id: user.id,
+        username: user.username,
+        name: user.name,
+        email: user.email,
+      },
+    };
+  }
+
+  /**
+   * Log in with LINE, creating the user on first login
+   * @param email Email from the ID token, null if the user did not grant the email permission
+   * @param providerId User's LINE ID
+   * @param name Display name from LINE
+   * @param context Client the session is created from
+   */
+  async lineLogin(email: string | null, providerId: string, name: string, context: ClientContext = {}) {
+    // For Line users, find by the linked Line ID since email might be placeholder
+    let user = await this.userIdentitiesService.findUser(AuthProvider.LINE, providerId);
+
+    if (!user) {
+      // If the email is already registered, the account has to link Line itself
+      if (email && await this.usersService.findByEmail(email)) {
         throw new ConflictException(
           "Account already registered with a different method"
         );
       }
-      
-      // If found by email but different providerId, update the providerId
-      if (user.providerId !== providerId) {
-        await this.usersService.updateProviderId(user.id, providerId);
-        user.providerId = providerId;
-      }
-    } else {
+
       // Create new user if not exists
       user = await this.usersService.createLineUser(email, providerId, name);
+    } else if (email && isPlaceholderEmail(user.email) && !(await this.usersService.findByEmail(email))) {
+      // The user granted the email permission after signing up without it
+      await this.usersService.updateEmail(user.id, email);
+      user.email = email;
     }
 
-    const tokens = await this.tokenService.generateAuthTokens(user.id);
-
-    // Store the hashed refresh token in the database
-    await this.usersService.setRefreshToken(user.id, tokens.refreshToken);
+    const tokens = await this.createSession(user.id, context);
+    this.authEventsService.recordLogin(user.id, context, AuthProvider.LINE);
 
     return {
-      accessToken: tokens.accessToken,
+      ...tokens,
       user: {
         id: user.id,
         username: user.username,
@@ -212,31 +621,137 @@ export class AuthService {
     };
   }
 
+  /**
+   * List the ways the user can sign in
+   * @param userId User's ID
+   */
+  async getIdentities(userId: string): Promise<IdentityResponseDto[]> {
+    const identities = await this.userIdentitiesService.findByUserId(userId);
+
+    return identities.map((identity) => this.toIdentityResponse(identity));
+  }
+
+  async linkFacebook(userId: string, token: string) {
+    return this.linkIdentity(userId, AuthProvider.FACEBOOK, await this.facebookVerifier.verify(token));
+  }
+
+  async linkGoogle(userId: string, idToken: string) {
+    return this.linkIdentity(userId, AuthProvider.GOOGLE, await this.googleVerifier.verify(idToken));
+  }
+
+  async linkLine(userId: string, idToken: string, nonce?: string) {
+    return this.linkIdentity(userId, AuthProvider.LINE, await this.lineVerifier.verify(idToken, nonce));
+  }
+
+  /**
+   * Link a Sign in with Apple account
+   * @param userId User's ID
+   * @param identityToken Identity token from the Apple credential
+   * @param nonce Raw nonce whose SHA-256 the app passed to Apple, if any
+   * @param authorizationCode Code to obtain the refresh token needed for revocation
+   */
+  async linkApple(userId: string, identityToken: string, nonce?: string, authorizationCode?: string) {
+    const identity = await this.linkIdentity(userId, AuthProvider.APPLE, await this.appleVerifier.verify(identityToken, nonce));
+
+    if (authorizationCode && this.appleAuthService.isConfigured()) {
+      const appleRefreshToken = await this.appleAuthService.exchangeAuthorizationCode(authorizationCode);
+      await this.usersService.setAppleRefreshToken(userId, appleRefreshToken);
+    }
+
+    return identity;
+  }
+
+  /**
+   * Add a password to an account created with a social login, so the user can
+   * also log in with their username
+   * @param userId User's ID
+   * @param password New password
+   */
+  async linkPassword(userId: string, password: string) {
+    const user = await this.usersService.findById(userId);
+    if (!user) {
+      throw new NotFoundException("User not found");
+    }
+
+    const identity = await this.userIdentitiesService.link(
+      userId,
+      AuthProvider.LOCAL,
+      null,
+      isPlaceholderEmail(user.email) ? null : user.email
+    );
+    await this.usersService.updatePassword(user.email, password);
+    this.authEventsService.record({ userId, type: AuthEventType.IDENTITY_LINK, detail: AuthProvider.LOCAL });
+
+    return this.toIdentityResponse(identity);
+  }
+
+  /**
+   * Unlink a provider from the user's account
+   * @param userId User's ID
+   * @param provider Provider to unlink
+   */
+  async unlinkIdentity(userId: string, provider: AuthProvider) {
+    await this.userIdentitiesService.unlink(userId, provider);
+    this.authEventsService.record({ userId, type: AuthEventType.IDENTITY_UNLINK, detail: provider });
+
+    // Apple expects the app to give up its authorization when the user disconnects
+    if (provider === AuthProvider.APPLE) {
+      const user = await this.usersService.findById(userId);
+      if (user?.appleRefreshToken && this.appleAuthService.isConfigured()) {
+        try {
+          await this.appleAuthService.revokeToken(user.appleRefreshToken);
+        } catch (error) {
+          console.error("Failed to revoke Apple token:", error.message);
+        }
+      }
+      await this.usersService.setAppleRefreshToken(userId, null);
+    }
+
+    return { message: `${provider.charAt(0).toUpperCase() + provider.slice(1)} unlinked successfully` };
+  }
+
+  private async linkIdentity(userId: string, provider: AuthProvider, verified: VerifiedIdentity): Promise<IdentityResponseDto> {
+    const identity = await this.userIdentitiesService.link(
+      userId,
+      provider,
+      verified.providerId,
+      verified.emailVerified ? verified.email : null
+    );
+    this.authEventsService.record({ userId, type: AuthEventType.IDENTITY_LINK, detail: provider });
+
+    return this.toIdentityResponse(identity);
+  }
+
+  private toIdentityResponse(identity: UserIdentity): IdentityResponseDto {
+    return {
+      provider: identity.provider,
+      email: identity.email,
+      linkedAt: identity.createdAt,
+    };
+  }
+
   /**
    * Initiate email verification by sending OTP
    * @param email Email address to verify
+   * @param ipAddress IP address of the request, for rate limiting
    * @returns Message indicating verification email was sent
    */
-  async initiateEmailVerification(email: string) {
+  async initiateEmailVerification(email: string, ipAddress?: string) {
     // Check if email already exists
     const existingUser = await this.usersService.findByEmail(email);
     if (existingUser) {
       throw new ConflictException("Email already exists");
     }
 
-    // Check if OTP already exists for this email
-    const existingOtp = await this.valkeyService.getOtp(email, OtpType.REGISTRATION);
-    if (existingOtp) {
-      throw new BadRequestException("OTP already sent to this email address. Please check your inbox or try again after 5 minutes.");
-    }
-
-    const otp = this.generateOtp();
-
-    // Store OTP in Valkey (with 5 minutes TTL as configured in ValkeyService)
-    await this.valkeyService.storeOtp(email, otp, OtpType.REGISTRATION, 5 * 60);
-
-    // Send OTP via email
-    await this.mailerService.sendOtpEmail(email, otp);
+    // Send a new OTP, unless one was sent moments ago
+    await this.otpService.send(email, OtpType.REGISTRATION, ipAddress, (otp) =>
+      this.mailerService.sendOtpEmail(email, otp)
+    );
+    this.authEventsService.record({
+      type: AuthEventType.OTP_SENT,
+      detail: OtpType.REGISTRATION,
+      context: { ipAddress },
+    });
 
     return {
       message: "Verification email sent",
@@ -247,20 +762,12 @@ export class AuthService {
    * Verify email with OTP
    * @param email Email address to verify
    * @param otp One-time password
+   * @param ipAddress IP address of the request, for rate limiting
    * @returns Verification status and token
    */
-  async verifyEmailOtp(email: string, otp: string) {
-    // Get stored OTP from Valkey
-    const storedOtpData = await this.valkeyService.getOtp(email, OtpType.REGISTRATION);
-
-    if (!storedOtpData) {
-      throw new BadRequestException("OTP expired or not found");
-    }
-
-    // Check if OTP matches
-    if (storedOtpData.otp !== otp) {
-      throw new BadRequestException("Invalid OTP");
-    }
+  async verifyEmailOtp(email: string, otp: string, ipAddress?: string) {
+    // Check the OTP, counting failed attempts
+    await this.otpService.verify(email, OtpType.REGISTRATION, otp, ipAddress);
 
     // Generate a short-lived JWT token with email in payload
     const token = await this.tokenService.generateEmailVerificationToken(email);
@@ -273,35 +780,256 @@ export class AuthService {
   }
 
   /**
-   * Initiate password reset by sending OTP
-   * @param email Email address for password reset
-   * @returns Message indicating password reset email was sent
+   * Send a new OTP for a flow started with one of the initiate endpoints
+   * @param email Email address the OTP is sent to
+   * @param type Flow the OTP belongs to
+   * @param ipAddress IP address of the request, for rate limiting
+   * @returns Message indicating the email was sent
    */
-  async initiatePasswordReset(email: string) {
-    // Check if user exists
-    const user = await this.usersService.findByEmail(email);
+  async resendOtp(email: string, type: OtpType, ipAddress?: string) {
+    switch (type) {
+      case OtpType.REGISTRATION:
+        return this.initiateEmailVerification(email, ipAddress);
+      case OtpType.PASSWORD_RESET:
+        return this.initiatePasswordReset(email, ipAddress);
+      case OtpType.FIND_USERNAME:
+        return this.initiateFindUsername(email, ipAddress);
+      case OtpType.LOGIN_UNLOCK:
+        return this.initiateLoginUnlock(email, ipAddress);
+      default:
+        throw new BadRequestException("OTP type cannot be resent");
+    }
+  }
+
+  /**
+   * Send an OTP to add a real email address to an account that only has a
+   * placeholder, e.g. a LINE account created without the email permission
+   * @param userId User's ID
+   * @param email Email address to add
+   * @param ipAddress IP address of the request, for rate limiting
+   * @returns Message indicating the verification email was sent
+   */
+  async initiateAddEmail(userId: string, email: string, ipAddress?: string) {
+    await this.findUserWithPlaceholderEmail(userId);
+
+    if (await this.usersService.findByEmail(email)) {
+      throw new ConflictException("Email already exists");
+    }
+
+    // Send a new OTP, unless one was sent moments ago
+    await this.otpService.send(email, OtpType.ADD_EMAIL, ipAddress, (otp) =>
+      this.mailerService.sendOtpEmail(email, otp)
+    );
+    this.authEventsService.record({
+      userId: userId,
+      type: AuthEventType.OTP_SENT,
+      detail: OtpType.ADD_EMAIL,
+      context: { ipAddress },
+    });
+
+    return {
+      message: "Verification email sent",
+    };
+  }
+
+  /**
+   * Verify the OTP and replace the account's placeholder email
+   * @param userId User's ID
+   * @param email Email address to add
+   * @param otp One-time password
+   * @param ipAddress IP address of the request, for rate limiting
+   * @returns Message and the account's new email
+   */
+  async verifyAddEmail(userId: string, email: string, otp: string, ipAddress?: string) {
+    await this.findUserWithPlaceholderEmail(userId);
+
+    // Check the OTP, counting failed attempts
+    await this.otpService.verify(email, OtpType.ADD_EMAIL, otp, ipAddress);
+
+    await this.usersService.updateEmail(userId, email);
+
+    return {
+      message: "Email added successfully",
+      email,
+    };
+  }
+
+  /**
+   * Send an OTP to the address a user wants to change their email to
+   * @param userId User's ID
+   * @param newEmail New email address
+   * @param ipAddress IP address of the request, for rate limiting
+   * @returns Message indicating the verification email was sent
+   */
+  async initiateChangeEmail(userId: string, newEmail: string, ipAddress?: string) {
+    const user = await this.findUserWithRealEmail(userId);
+
+    if (user.email === newEmail) {
+      throw new BadRequestException("The new email is the same as the current one");
+    }
+    if (await this.usersService.findByEmail(newEmail)) {
+      throw new ConflictException("Email already exists");
+    }
+
+    // Send a new OTP, unless one was sent moments ago
+    await this.otpService.send(newEmail, OtpType.CHANGE_EMAIL, ipAddress, (otp) =>
+      this.mailerService.sendOtpEmail(newEmail, otp)
+    );
+    this.authEventsService.record({
+      userId: userId,
+      type: AuthEventType.OTP_SENT,
+      detail: OtpType.CHANGE_EMAIL,
+      context: { ipAddress },
+    });
+
+    return {
+      message: "Verification email sent",
+    };
+  }
+
+  /**
+   * Verify the OTP sent to the new address and change the account's email.
+   * The previous address is told about the change.
+   * @param userId User's ID
+   * @param newEmail New email address
+   * @param otp One-time password
+   * @param ipAddress IP address of the request, for rate limiting
+   * @returns Message and the account's new email
+   */
+  async verifyChangeEmail(userId: string, newEmail: string, otp: string, ipAddress?: string) {
+    const user = await this.findUserWithRealEmail(userId);
+
+    // Check the OTP, counting failed attempts
+    await this.otpService.verify(newEmail, OtpType.CHANGE_EMAIL, otp, ipAddress);
+
+    // Fails with a conflict if another account took the address in the meantime
+    await this.usersService.updateEmail(userId, newEmail);
+    this.authEventsService.record({ userId, type: AuthEventType.EMAIL_CHANGE, context: { ipAddress } });
+
+    try {
+      await this.mailerService.sendEmailChangedEmail(user.email, newEmail);
+    } catch (error) {
+      console.error("Failed to send email change notification:", error.message);
+    }
+
+    return {
+      message: "Email changed successfully",
+      email: newEmail,
+    };
+  }
+
+  private async findUserWithRealEmail(userId: string) {
+    const user = await this.usersService.findById(userId);
     if (!user) {
       throw new NotFoundException("User not found");
     }
 
-    // Check if user is not a local user (cannot reset password for social login users)
-    if (user.provider !== AuthProvider.LOCAL) {
-      throw new BadRequestException(`${user.provider.charAt(0).toUpperCase() + user.provider.slice(1)} users cannot reset password. Please use ${user.provider} login.`);
+    if (isPlaceholderEmail(user.email)) {
+      throw new BadRequestException("Account has no email address. Please add one instead.");
     }
 
-    // Check if OTP already exists for this email
-    const existingOtp = await this.valkeyService.getOtp(email, OtpType.PASSWORD_RESET);
-    if (existingOtp) {
-      throw new BadRequestException("OTP already sent to this email address. Please check your inbox or try again after 5 minutes.");
+    return user;
+  }
+
+  private async findUserWithPlaceholderEmail(userId: string) {
+    const user = await this.usersService.findById(userId);
+    if (!user) {
+      throw new NotFoundException("User not found");
     }
 
-    const otp = this.generateOtp()
+    if (!isPlaceholderEmail(user.email)) {
+      throw new BadRequestException("Account already has an email address");
+    }
 
-    // Store OTP in Valkey (with 5 minutes TTL as configured in ValkeyService)
-    await this.valkeyService.storeOtp(email, otp, OtpType.PASSWORD_RESET, 5 * 60);
+    return user;
+  }
 
-    // Send OTP via email
-    await this.mailerService.sendPasswordResetOtpEmail(email, otp);
+  /**
+   * Change the password of a logged-in user. All other sessions are logged out.
+   * @param userId User's ID
+   * @param currentSessionId Session the request was made from, which stays logged in
+   * @param currentPassword Current password
+   * @param newPassword New password
+   * @param context Client the request was made from
+   * @returns Message and the number of sessions logged out
+   */
+  async changePassword(
+    userId: string,
+    currentSessionId: string,
+    currentPassword: string,
+    newPassword: string,
+    context: ClientContext = {}
+  ) {
+    const user = await this.usersService.findById(userId);
+    if (!user) {
+      throw new NotFoundException("User not found");
+    }
+
+    if (!(await this.userIdentitiesService.hasIdentity(userId, AuthProvider.LOCAL))) {
+      throw new BadRequestException("Account has no password. Please add one instead.");
+    }
+
+    // Wrong current passwords count as failed logins, so that an access token
+    // cannot be used to guess the password past the login throttle
+    const attempt = await this.loginThrottleService.startAttempt(user.username, context.ipAddress);
+
+    if (!(await user.validatePassword(currentPassword))) {
+      await this.loginThrottleService.recordFailure(attempt);
+      this.authEventsService.record({
+        userId,
+        type: AuthEventType.PASSWORD_CHANGE,
+        result: AuthEventResult.FAILURE,
+        reason: "invalid_password",
+        context,
+      });
+      throw new BadRequestException("Current password is incorrect");
+    }
+    await this.loginThrottleService.recordSuccess(attempt);
+
+    if (currentPassword === newPassword) {
+      throw new BadRequestException("The new password must be different from the current one");
+    }
+
+    await this.usersService.updatePassword(user.email, newPassword);
+
+    // Devices logged in with the old password must log in again
+    const revokedSessions = await this.sessionsService.revokeAllExcept(userId, currentSessionId);
+    this.authEventsService.record({ userId, type: AuthEventType.PASSWORD_CHANGE, context });
+
+    return {
+      message: "Password changed successfully",
+      revokedSessions,
+    };
+  }
+
+  /**
+   * Initiate password reset by sending OTP
+   * @param email Email address for password reset
+   * @param ipAddress IP address of the request, for rate limiting
+   * @returns Message indicating password reset email was sent
+   */
+  async initiatePasswordReset(email: string, ipAddress?: string) {
+    // Check if user exists; placeholder addresses cannot receive the OTP
+    const user = await this.usersService.findByEmail(email);
+    if (!user || isPlaceholderEmail(email)) {
+      throw new NotFoundException("User not found");
+    }
+
+    // Check if user has a password (cannot reset password for social login users who have not added one)
+    if (!(await this.userIdentitiesService.hasIdentity(user.id, AuthProvider.LOCAL))) {
+      throw new BadRequestException(`${user.provider.charAt(0).toUpperCase() + user.provider.slice(1)} users cannot reset password. Please use ${user.provider} login.`);
+    }
+
+    // Send a new OTP, unless one was sent moments ago
+    await this.otpService.send(email, OtpType.PASSWORD_RESET, ipAddress, (otp) =>
+      this.mailerService.sendPasswordResetOtpEmail(email, otp)
+    );
+    this.authEventsService.record({
+      userId: user.id,
+      type: AuthEventType.OTP_SENT,
+      detail: OtpType.PASSWORD_RESET,
+      context: { ipAddress },
+    });
 
     return {
       message: "Password reset email sent",
@@ -312,26 +1040,18 @@ export class AuthService {
    * Verify password reset OTP
    * @param email Email address for password reset
    * @param otp One-time password
+   * @param ipAddress IP address of the request, for rate limiting
    * @returns Verification status and token
    */
-  async verifyPasswordResetOtp(email: string, otp: string) {
+  async verifyPasswordResetOtp(email: string, otp: string, ipAddress?: string) {
     // Check if user exists
     const user = await this.usersService.findByEmail(email);
     if (!user) {
       throw new NotFoundException("User not found");
     }
 
-    // Get stored OTP from Valkey
-    const storedOtpData = await this.valkeyService.getOtp(email, OtpType.PASSWORD_RESET);
-
-    if (!storedOtpData) {
-      throw new BadRequestException("OTP expired or not found");
-    }
-
-    // Check if OTP matches
-    if (storedOtpData.otp !== otp) {
-      throw new BadRequestException("Invalid OTP");
-    }
+    // Check the OTP, counting failed attempts
+    await this.otpService.verify(email, OtpType.PASSWORD_RESET, otp, ipAddress);
 
     // Generate a short-lived JWT token with email in payload
     const token = await this.tokenService.generateEmailVerificationToken(email);
@@ -356,14 +1076,18 @@ export class AuthService {
       throw new NotFoundException("User not found");
     }
 
-    // Check if user is not a local user (cannot reset password for social login users)
-    if (user.provider !== AuthProvider.LOCAL) {
+    // Check if user has a password (cannot reset password for social login users who have not added one)
+    if (!(await this.userIdentitiesService.hasIdentity(user.id, AuthProvider.LOCAL))) {
       throw new BadRequestException(`${user.provider.charAt(0).toUpperCase() + user.provider.slice(1)} users cannot reset password. Please use ${user.provider} login.`);
     }
 
     // Update user's password
     await this.usersService.updatePassword(email, password);
 
+    // Sessions opened with the old password must not survive the reset
+    await this.sessionsService.revokeAll(user.id);
+    this.authEventsService.record({ userId: user.id, type: AuthEventType.PASSWORD_RESET });
+
     return {
       message: "Password reset successful",
     };
@@ -372,27 +1096,26 @@ export class AuthService {
   /**
    * Initiate find username by sending OTP
    * @param email Email address to find username for
+   * @param ipAddress IP address of the request, for rate limiting
    * @returns Message indicating find username email was sent
    */
-  async initiateFindUsername(email: string) {
-    // Check if user exists
+  async initiateFindUsername(email: string, ipAddress?: string) {
+    // Check if user exists; placeholder addresses cannot receive the OTP
     const user = await this.usersService.findByEmail(email);
-    if (!user || !user.username) {
+    if (!user || !user.username || isPlaceholderEmail(email)) {
       throw new NotFoundException("Username not found for this email address.");
     }
 
-    // Check if OTP already exists for this email
-    const existingOtp = await this.valkeyService.getOtp(email, OtpType.FIND_USERNAME);
-    if (existingOtp) {
-      throw new BadRequestException("OTP already sent to this email address. Please check your inbox or try again after 5 minutes.");
-    }
-    const otp = this.generateOtp();
-
-    // Store OTP in Valkey (with 5 minutes TTL as configured in ValkeyService)
-    await this.valkeyService.storeOtp(email, otp, OtpType.FIND_USERNAME, 5 * 60);
-
-    // Send OTP via email
-    await this.mailerService.sendFindUsernameOtpEmail(email, otp);
+    // Send a new OTP, unless one was sent moments ago
+    await this.otpService.send(email, OtpType.FIND_USERNAME, ipAddress, (otp) =>
+      this.mailerService.sendFindUsernameOtpEmail(email, otp)
+    );
+    this.authEventsService.record({
+      userId: user.id,
+      type: AuthEventType.OTP_SENT,
+      detail: OtpType.FIND_USERNAME,
+      context: { ipAddress },
+    });
 
     return {
       message: "Find username email sent",
@@ -403,26 +1126,18 @@ export class AuthService {
    * Verify OTP and return username
    * @param email Email address to find username for
    * @param otp One-time password
+   * @param ipAddress IP address of the request, for rate limiting
    * @returns Username associated with the email
    */
-  async verifyFindUsernameOtp(email: string, otp: string) {
+  async verifyFindUsernameOtp(email: string, otp: string, ipAddress?: string) {
     // Check if user exists
     const user = await this.usersService.findByEmail(email);
     if (!user || !user.username) {
       throw new NotFoundException("Username not found for this email address.");
     }
 
-    // Get stored OTP from Valkey
-    const storedOtpData = await this.valkeyService.getOtp(email, OtpType.FIND_USERNAME);
-
-    if (!storedOtpData) {
-      throw new BadRequestException("OTP expired or not found");
-    }
-
-    // Check if OTP matches
-    if (storedOtpData.otp !== otp) {
-      throw new BadRequestException("Invalid OTP");
-    }
+    // Check the OTP, counting failed attempts
+    await this.otpService.verify(email, OtpType.FIND_USERNAME, otp, ipAddress);
 
     return {
       message: "Username found successfully",
@@ -437,10 +1152,23 @@ export class AuthService {
    * @returns Message indicating account was removed successfully
    */
   async removeAccount(userId: string) {
+    const user = await this.usersService.findById(userId);
+
+    // Apple requires apps to revoke the Sign in with Apple authorization on account deletion
+    if (user?.appleRefreshToken && this.appleAuthService.isConfigured()) {
+      try {
+        await this.appleAuthService.revokeToken(user.appleRefreshToken);
+      } catch (error) {
+        // The account is still deleted; the token expires on its own if Apple is unreachable
+        console.error("Failed to revoke Apple token:", error.message);
+      }
+    }
+
     // Call the UsersService to remove the account
     const success = await this.usersService.removeAccount(userId);
     
     if (success) {
+      this.authEventsService.record({ userId, type: AuthEventType.ACCOUNT_DELETE });
       return {
         success: true,
         message: "Account removed successfully"
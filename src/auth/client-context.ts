@@ -0,0 +1,24 @@
+/**
+ * Information about the client a request was made from
+ */
+export interface ClientContext {
+  deviceName?: string;
+  platform?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Build the client context of a request
+ * @param req Express request
+ * @param device Optional device information sent by the client
+ * @returns Client context
+ */
+export function getClientContext(req: any, device?: { deviceName?: string; platform?: string }): ClientContext {
+  return {
+    deviceName: device?.deviceName,
+    platform: device?.platform,
+    ipAddress: req.ip,
+    userAgent: req.headers?.["user-agent"],
+  };
+}
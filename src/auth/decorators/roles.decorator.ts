@@ -0,0 +1,10 @@
+import { SetMetadata } from "@nestjs/common";
+import { UserRole } from "../../users/entities/user.entity";
+
+export const ROLES_KEY = "roles";
+
+/**
+ * Restrict a route to users with one of the given roles. Requires RolesGuard
+ * after an authentication guard, e.g. @UseGuards(JwtAuthGuard, RolesGuard).
+ */
+export const Roles = (...roles: UserRole[]) => SetMetadata(ROLES_KEY, roles);
@@ -0,0 +1,38 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { IsEmail, IsNotEmpty, IsString, Length } from "class-validator";
+
+export class AddEmailInitiateDto {
+  @ApiProperty({
+    description: "Email address to add to the account",
+    example: "user@example.com",
+  })
+  @IsEmail({}, { message: "Please provide a valid email address" })
+  @IsNotEmpty({ message: "Email is required" })
+  email: string;
+}
+
+export class AddEmailVerifyDto extends AddEmailInitiateDto {
+  @ApiProperty({
+    description: "One-time password (OTP) sent to the email address",
+    example: "123456",
+  })
+  @IsString({ message: "OTP must be a string" })
+  @IsNotEmpty({ message: "OTP is required" })
+  @Length(6, 6, { message: "OTP must be 6 characters long" })
+  otp: string;
+}
+
+export class AddEmailResponseDto {
+  @ApiProperty({
+    description: "Status message",
+    example: "Email added successfully",
+  })
+  message: string;
+
+  @ApiProperty({
+    description: "The email address of the account",
+    example: "user@example.com",
+    required: false,
+  })
+  email?: string;
+}
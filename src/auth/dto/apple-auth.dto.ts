@@ -0,0 +1,51 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from "class-validator";
+import { DeviceInfoDto } from "./device-info.dto";
+
+export class AppleAuthDto extends DeviceInfoDto {
+  @ApiProperty({
+    description: "The identity token (JWT) of the Apple ID credential",
+    example: "eyJraWQiOiJXNldjT0tCIiwiYWxnIjoiUlMyNTYifQ...",
+  })
+  @IsString()
+  @IsNotEmpty({ message: "Apple identity token is required" })
+  identityToken: string;
+
+  @ApiProperty({
+    description: "The authorization code of the Apple ID credential, used to enable revocation on account deletion",
+    example: "c6a8f2b1e0d94f7c...",
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  authorizationCode?: string;
+
+  @ApiProperty({
+    description: "The raw nonce whose SHA-256 was passed to the Apple authorization request",
+    example: "3f1b2c...",
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  nonce?: string;
+
+  @ApiProperty({
+    description: "Given name of the user, only available on the first authorization",
+    example: "John",
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  givenName?: string;
+
+  @ApiProperty({
+    description: "Family name of the user, only available on the first authorization",
+    example: "Doe",
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  familyName?: string;
+}
@@ -0,0 +1,38 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { IsEmail, IsNotEmpty, IsString, Length } from "class-validator";
+
+export class ChangeEmailInitiateDto {
+  @ApiProperty({
+    description: "New email address for the account",
+    example: "new@example.com",
+  })
+  @IsEmail({}, { message: "Please provide a valid email address" })
+  @IsNotEmpty({ message: "New email is required" })
+  newEmail: string;
+}
+
+export class ChangeEmailVerifyDto extends ChangeEmailInitiateDto {
+  @ApiProperty({
+    description: "One-time password (OTP) sent to the new email address",
+    example: "123456",
+  })
+  @IsString({ message: "OTP must be a string" })
+  @IsNotEmpty({ message: "OTP is required" })
+  @Length(6, 6, { message: "OTP must be 6 characters long" })
+  otp: string;
+}
+
+export class ChangeEmailResponseDto {
+  @ApiProperty({
+    description: "Status message",
+    example: "Email changed successfully",
+  })
+  message: string;
+
+  @ApiProperty({
+    description: "The email address of the account",
+    example: "new@example.com",
+    required: false,
+  })
+  email?: string;
+}
@@ -0,0 +1,38 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { IsNotEmpty, IsString, Matches, MinLength } from "class-validator";
+
+export class ChangePasswordDto {
+  @ApiProperty({
+    description: "The current password of the account",
+    example: "StrongP@ssw0rd",
+  })
+  @IsString({ message: "Current password must be a string" })
+  @IsNotEmpty({ message: "Current password is required" })
+  currentPassword: string;
+
+  @ApiProperty({
+    description: "The new password",
+    example: "EvenStr0nger!Pass",
+  })
+  @IsString({ message: "New password must be a string" })
+  @IsNotEmpty({ message: "New password is required" })
+  @MinLength(8, { message: "New password must be at least 8 characters long" })
+  @Matches(/((?=.*\d)|(?=.*\W+))(?![.\n])(?=.*[A-Z])(?=.*[a-z]).*$/, {
+    message: "New password must contain at least 1 uppercase letter, 1 lowercase letter, and 1 number or special character",
+  })
+  newPassword: string;
+}
+
+export class ChangePasswordResponseDto {
+  @ApiProperty({
+    description: "Status message",
+    example: "Password changed successfully",
+  })
+  message: string;
+
+  @ApiProperty({
+    description: "Number of other devices that were logged out",
+    example: 2,
+  })
+  revokedSessions: number;
+}
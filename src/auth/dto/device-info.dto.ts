@@ -0,0 +1,24 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { IsOptional, IsString, MaxLength } from "class-validator";
+
+export class DeviceInfoDto {
+  @ApiProperty({
+    description: "The name of the device the session is created on",
+    example: "iPhone 15",
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100, { message: "Device name cannot exceed 100 characters" })
+  deviceName?: string;
+
+  @ApiProperty({
+    description: "The platform of the device (ios or android)",
+    example: "ios",
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(20, { message: "Platform cannot exceed 20 characters" })
+  platform?: string;
+}
@@ -1,7 +1,8 @@
 import { ApiProperty } from "@nestjs/swagger";
 import { IsNotEmpty, IsString } from "class-validator";
+import { DeviceInfoDto } from "./device-info.dto";
 
-export class FacebookAuthDto {
+export class FacebookAuthDto extends DeviceInfoDto {
   @ApiProperty({
     description: "The Facebook access token obtained from the mobile client",
     example: "EAABZCqZCZCZCZCZC...",
@@ -0,0 +1,13 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { IsNotEmpty, IsString } from "class-validator";
+import { DeviceInfoDto } from "./device-info.dto";
+
+export class GoogleAuthDto extends DeviceInfoDto {
+  @ApiProperty({
+    description: "The Google ID token obtained from Google Sign-In on the mobile client",
+    example: "eyJhbGciOiJSUzI1NiIsImtpZCI6IjFlOWdkazcifQ...",
+  })
+  @IsString()
+  @IsNotEmpty({ message: "Google ID token is required" })
+  idToken: string;
+}
@@ -0,0 +1,47 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { IsNotEmpty, IsString, Matches, MinLength } from "class-validator";
+import { AuthProvider } from "../../users/entities/user.entity";
+
+export class IdentityResponseDto {
+  @ApiProperty({
+    description: "The provider the user can sign in with",
+    enum: AuthProvider,
+    example: AuthProvider.FACEBOOK,
+  })
+  provider: AuthProvider;
+
+  @ApiProperty({
+    description: "The email the provider reported for the user",
+    example: "user@example.com",
+    nullable: true,
+  })
+  email: string | null;
+
+  @ApiProperty({
+    description: "The date when the provider was linked",
+    example: "2025-07-20T08:15:00Z",
+  })
+  linkedAt: Date;
+}
+
+export class LinkPasswordDto {
+  @ApiProperty({
+    description: "Password to log in with the username",
+    example: "StrongP@ssw0rd",
+  })
+  @IsString({ message: "Password must be a string" })
+  @IsNotEmpty({ message: "Password is required" })
+  @MinLength(8, { message: "Password must be at least 8 characters long" })
+  @Matches(/((?=.*\d)|(?=.*\W+))(?![.\n])(?=.*[A-Z])(?=.*[a-z]).*$/, {
+    message: "Password must contain at least 1 uppercase letter, 1 lowercase letter, and 1 number or special character",
+  })
+  password: string;
+}
+
+export class UnlinkIdentityResponseDto {
+  @ApiProperty({
+    description: "Status message",
+    example: "Facebook unlinked successfully",
+  })
+  message: string;
+}
@@ -1,13 +1,21 @@
 import { ApiProperty } from "@nestjs/swagger";
-import { IsNotEmpty, IsString } from "class-validator";
+import { IsNotEmpty, IsOptional, IsString } from "class-validator";
+import { DeviceInfoDto } from "./device-info.dto";
 
-export class LineAuthDto {
+export class LineAuthDto extends DeviceInfoDto {
     @ApiProperty({
-        description: "The Line access token obtained from the mobile client",
-        example: "U1234567890abcdef1234567890abcdef"
+        description: "The LINE ID token obtained from the mobile client (request the openid scope, and email to receive the user's email)",
+        example: "eyJraWQiOiJhMmE0NTlhZWM1YjY1ZmEy..."
     })
     @IsString()
-    @IsNotEmpty({ message: "Line access token is required" })
-    token: string;
-}
+    @IsNotEmpty({ message: "Line ID token is required" })
+    idToken: string;
 
+    @ApiProperty({
+        description: "The nonce passed to LINE Login, checked against the ID token",
+        required: false,
+    })
+    @IsOptional()
+    @IsString()
+    nonce?: string;
+}
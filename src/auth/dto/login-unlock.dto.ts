@@ -0,0 +1,31 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { IsEmail, IsNotEmpty, IsString, Length } from "class-validator";
+
+export class LoginUnlockInitiateDto {
+  @ApiProperty({
+    description: "Email address of the locked account",
+    example: "user@example.com",
+  })
+  @IsEmail({}, { message: "Please provide a valid email address" })
+  @IsNotEmpty({ message: "Email is required" })
+  email: string;
+}
+
+export class LoginUnlockDto extends LoginUnlockInitiateDto {
+  @ApiProperty({
+    description: "Unlock code sent to the email address",
+    example: "123456",
+  })
+  @IsString({ message: "OTP must be a string" })
+  @IsNotEmpty({ message: "OTP is required" })
+  @Length(6, 6, { message: "OTP must be 6 characters long" })
+  otp: string;
+}
+
+export class LoginUnlockResponseDto {
+  @ApiProperty({
+    description: "Status message",
+    example: "Account unlocked",
+  })
+  message: string;
+}
@@ -1,7 +1,8 @@
 import { ApiProperty } from "@nestjs/swagger";
 import { IsNotEmpty, IsString, MinLength } from "class-validator";
+import { DeviceInfoDto } from "./device-info.dto";
 
-export class LoginDto {
+export class LoginDto extends DeviceInfoDto {
   @ApiProperty({
     description: "The username of the user",
     example: "johndoe",
@@ -1,8 +1,9 @@
-import { ApiProperty } from "@nestjs/swagger";
+import { ApiProperty, IntersectionType } from "@nestjs/swagger";
 import { IsNotEmpty, IsString } from "class-validator";
 import { CreateUserDto } from "../../users/dto/create-user.dto";
+import { DeviceInfoDto } from "./device-info.dto";
 
-export class RegisterDto extends CreateUserDto {
+export class RegisterDto extends IntersectionType(CreateUserDto, DeviceInfoDto) {
   @ApiProperty({
     description: "JWT token from email verification",
     example: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...",
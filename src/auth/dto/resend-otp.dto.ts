@@ -0,0 +1,37 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { IsEmail, IsIn, IsNotEmpty } from "class-validator";
+import { OtpType } from "../../services/valkey.service";
+
+// Flows whose OTP can be requested again without being logged in
+export const RESENDABLE_OTP_TYPES = [
+  OtpType.REGISTRATION,
+  OtpType.PASSWORD_RESET,
+  OtpType.FIND_USERNAME,
+  OtpType.LOGIN_UNLOCK,
+];
+
+export class ResendOtpDto {
+  @ApiProperty({
+    description: "Email address the OTP was sent to",
+    example: "user@example.com",
+  })
+  @IsEmail({}, { message: "Please provide a valid email address" })
+  @IsNotEmpty({ message: "Email is required" })
+  email: string;
+
+  @ApiProperty({
+    description: "Flow the OTP belongs to",
+    enum: RESENDABLE_OTP_TYPES,
+    example: OtpType.PASSWORD_RESET,
+  })
+  @IsIn(RESENDABLE_OTP_TYPES, { message: "Invalid OTP type" })
+  type: OtpType;
+}
+
+export class ResendOtpResponseDto {
+  @ApiProperty({
+    description: "Status message",
+    example: "Password reset email sent",
+  })
+  message: string;
+}
@@ -0,0 +1,82 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { Type } from "class-transformer";
+import { IsInt, IsOptional, Max, Min } from "class-validator";
+import { AuthEventResult, AuthEventType } from "../entities/auth-event.entity";
+
+export class SecurityActivityQueryDto {
+  @ApiProperty({
+    description: "Number of events to return",
+    example: 50,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: "Limit must be an integer" })
+  @Min(1, { message: "Limit must be at least 1" })
+  @Max(100, { message: "Limit cannot exceed 100" })
+  limit?: number = 50;
+}
+
+export class SecurityEventResponseDto {
+  @ApiProperty({
+    description: "What happened",
+    enum: AuthEventType,
+    example: AuthEventType.LOGIN,
+  })
+  type: AuthEventType;
+
+  @ApiProperty({
+    description: "Whether the action succeeded",
+    enum: AuthEventResult,
+    example: AuthEventResult.SUCCESS,
+  })
+  result: AuthEventResult;
+
+  @ApiProperty({
+    description: "Why the action failed",
+    example: "invalid_password",
+    nullable: true,
+  })
+  reason: string | null;
+
+  @ApiProperty({
+    description: "What the event was about, e.g. the login provider or the purpose of an OTP",
+    example: "local",
+    nullable: true,
+  })
+  detail: string | null;
+
+  @ApiProperty({
+    description: "The IP address of the request",
+    example: "203.0.113.24",
+    nullable: true,
+  })
+  ipAddress: string | null;
+
+  @ApiProperty({
+    description: "The user agent of the client",
+    example: "CashPop/1.4.0 (iPhone; iOS 17.5)",
+    nullable: true,
+  })
+  userAgent: string | null;
+
+  @ApiProperty({
+    description: "The name of the device",
+    example: "iPhone 15",
+    nullable: true,
+  })
+  deviceName: string | null;
+
+  @ApiProperty({
+    description: "The platform of the device",
+    example: "ios",
+    nullable: true,
+  })
+  platform: string | null;
+
+  @ApiProperty({
+    description: "The date of the event",
+    example: "2025-07-24T21:45:30Z",
+  })
+  createdAt: Date;
+}
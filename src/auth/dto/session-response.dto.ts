@@ -0,0 +1,63 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+export class SessionResponseDto {
+  @ApiProperty({
+    description: "The unique identifier of the session",
+    example: "3f0c1a52-6c1e-4a35-9d55-3c0f7d7e8b21",
+  })
+  id: string;
+
+  @ApiProperty({
+    description: "The name of the device",
+    example: "iPhone 15",
+    required: false,
+  })
+  deviceName: string;
+
+  @ApiProperty({
+    description: "The platform of the device",
+    example: "ios",
+    required: false,
+  })
+  platform: string;
+
+  @ApiProperty({
+    description: "The IP address the session was last used from",
+    example: "203.0.113.24",
+    required: false,
+  })
+  ipAddress: string;
+
+  @ApiProperty({
+    description: "The user agent of the client",
+    example: "CashPop/1.4.0 (iPhone; iOS 17.5)",
+    required: false,
+  })
+  userAgent: string;
+
+  @ApiProperty({
+    description: "The date when the session was created",
+    example: "2025-07-20T08:15:00Z",
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: "The date when the session was last used",
+    example: "2025-07-24T21:45:30Z",
+  })
+  lastUsedAt: Date;
+
+  @ApiProperty({
+    description: "Whether this is the session of the current request",
+    example: true,
+  })
+  current: boolean;
+}
+
+export class RevokeSessionsResponseDto {
+  @ApiProperty({
+    description: "Status message",
+    example: "Logged out from 2 other devices",
+  })
+  message: string;
+}
@@ -6,4 +6,10 @@ export class TokensResponseDto {
     example: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...",
   })
   accessToken: string;
+
+  @ApiProperty({
+    description: "Refresh token of the session; it can be used only once",
+    example: "a1b2c3d4e5f6...",
+  })
+  refreshToken: string;
 }
\ No newline at end of file
@@ -0,0 +1,121 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { IsNotEmpty, IsString, Length, MaxLength } from "class-validator";
+import { DeviceInfoDto } from "./device-info.dto";
+
+export class TwoFactorCodeDto {
+  @ApiProperty({
+    description: "Current code from the authenticator app",
+    example: "123456",
+  })
+  @IsString({ message: "Code must be a string" })
+  @IsNotEmpty({ message: "Code is required" })
+  @MaxLength(20, { message: "Code cannot exceed 20 characters" })
+  code: string;
+}
+
+export class TwoFactorLoginDto extends DeviceInfoDto {
+  @ApiProperty({
+    description: "Challenge token returned by the login",
+    example: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...",
+  })
+  @IsString()
+  @IsNotEmpty({ message: "Challenge token is required" })
+  challengeToken: string;
+
+  @ApiProperty({
+    description: "Code from the authenticator app, or one of the recovery codes",
+    example: "123456",
+  })
+  @IsString({ message: "Code must be a string" })
+  @IsNotEmpty({ message: "Code is required" })
+  @MaxLength(20, { message: "Code cannot exceed 20 characters" })
+  code: string;
+}
+
+export class TwoFactorResetInitiateDto {
+  @ApiProperty({
+    description: "Challenge token returned by the login",
+    example: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...",
+  })
+  @IsString()
+  @IsNotEmpty({ message: "Challenge token is required" })
+  challengeToken: string;
+}
+
+export class TwoFactorResetDto extends DeviceInfoDto {
+  @ApiProperty({
+    description: "Challenge token returned by the login",
+    example: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...",
+  })
+  @IsString()
+  @IsNotEmpty({ message: "Challenge token is required" })
+  challengeToken: string;
+
+  @ApiProperty({
+    description: "One-time password (OTP) sent to the email address of the account",
+    example: "123456",
+  })
+  @IsString({ message: "OTP must be a string" })
+  @IsNotEmpty({ message: "OTP is required" })
+  @Length(6, 6, { message: "OTP must be 6 characters long" })
+  otp: string;
+}
+
+export class TwoFactorChallengeResponseDto {
+  @ApiProperty({
+    description: "Whether a code from the authenticator app is required to finish the login",
+    example: true,
+  })
+  twoFactorRequired: boolean;
+
+  @ApiProperty({
+    description: "Short-lived token to send with the code to /auth/login/2fa",
+    example: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...",
+  })
+  challengeToken: string;
+}
+
+export class TwoFactorStatusResponseDto {
+  @ApiProperty({
+    description: "Whether two-factor authentication is enabled",
+    example: true,
+  })
+  enabled: boolean;
+
+  @ApiProperty({
+    description: "Number of recovery codes that haven't been used yet",
+    example: 10,
+  })
+  recoveryCodesRemaining: number;
+}
+
+export class TwoFactorEnrollmentResponseDto {
+  @ApiProperty({
+    description: "Base32 encoded secret, for entering into the authenticator app by hand",
+    example: "JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP",
+  })
+  secret: string;
+
+  @ApiProperty({
+    description: "URI to add the secret to an authenticator app, usually shown as a QR code",
+    example: "otpauth://totp/CashPop:johndoe?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP&issuer=CashPop",
+  })
+  otpauthUri: string;
+}
+
+export class RecoveryCodesResponseDto {
+  @ApiProperty({
+    description: "Single-use codes to log in without the authenticator app. They are shown only once.",
+    example: ["3f9a1-c07b2", "8d2e4-61fa9"],
+    type: [String],
+  })
+  recoveryCodes: string[];
+}
+
+export class TwoFactorMessageResponseDto {
+  @ApiProperty({
+    description: "Status message",
+    example: "Two-factor authentication disabled",
+  })
+  message: string;
+}
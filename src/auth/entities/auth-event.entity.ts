@@ -0,0 +1,74 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  Index,
+} from "typeorm";
+
+export enum AuthEventType {
+  REGISTER = "register",
+  LOGIN = "login",
+  LOGOUT = "logout",
+  TOKEN_REFRESH = "token_refresh",
+  OTP_SENT = "otp_sent",
+  PASSWORD_RESET = "password_reset",
+  PASSWORD_CHANGE = "password_change",
+  EMAIL_CHANGE = "email_change",
+  LOGIN_UNLOCK = "login_unlock",
+  TWO_FACTOR_ENABLE = "two_factor_enable",
+  TWO_FACTOR_DISABLE = "two_factor_disable",
+  TWO_FACTOR_RESET = "two_factor_reset",
+  IDENTITY_LINK = "identity_link",
+  IDENTITY_UNLINK = "identity_unlink",
+  ACCOUNT_DELETE = "account_delete",
+}
+
+export enum AuthEventResult {
+  SUCCESS = "success",
+  FAILURE = "failure",
+}
+
+/**
+ * A security-relevant event of an account, kept for the user to review and for audits
+ */
+@Entity("auth_events")
+@Index("IDX_auth_events_user_id_created_at", ["userId", "createdAt"])
+export class AuthEvent {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  // No foreign key, so that the events of deleted accounts are kept for audits.
+  // Null for events that cannot be attributed to an account, e.g. logins with an unknown username.
+  @Column({ name: "user_id", type: "uuid", nullable: true })
+  userId: string | null;
+
+  @Column({ type: "enum", enum: AuthEventType })
+  type: AuthEventType;
+
+  @Column({ type: "enum", enum: AuthEventResult })
+  result: AuthEventResult;
+
+  // Why the event failed, e.g. "invalid_password"
+  @Column({ nullable: true })
+  reason: string | null;
+
+  // What the event was about, e.g. the login provider or the purpose of an OTP
+  @Column({ nullable: true })
+  detail: string | null;
+
+  @Column({ name: "ip_address", nullable: true })
+  ipAddress: string | null;
+
+  @Column({ name: "user_agent", nullable: true })
+  userAgent: string | null;
+
+  @Column({ name: "device_name", nullable: true })
+  deviceName: string | null;
+
+  @Column({ nullable: true })
+  platform: string | null;
+
+  @CreateDateColumn({ name: "created_at" })
+  createdAt: Date;
+}
@@ -0,0 +1,41 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from "typeorm";
+import { Session } from "./session.entity";
+
+/**
+ * A refresh token issued for a session. Every refresh rotates the token, so a
+ * session's tokens form a family in which only the newest one is usable.
+ */
+@Entity("refresh_tokens")
+export class RefreshToken {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @ManyToOne(() => Session, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "session_id" })
+  session: Session;
+
+  @Column({ name: "session_id" })
+  @Index("IDX_refresh_tokens_session_id")
+  sessionId: string;
+
+  // SHA-256 of the token; tokens are long random strings, so a fast hash is enough
+  @Column({ name: "token_hash", unique: true })
+  tokenHash: string;
+
+  @CreateDateColumn({ name: "created_at" })
+  createdAt: Date;
+
+  @Column({ name: "expires_at" })
+  expiresAt: Date;
+
+  @Column({ name: "rotated_at", nullable: true })
+  rotatedAt: Date;
+}
@@ -0,0 +1,59 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from "typeorm";
+import { ApiProperty } from "@nestjs/swagger";
+import { User } from "../../users/entities/user.entity";
+
+@Entity("sessions")
+export class Session {
+  @PrimaryGeneratedColumn("uuid")
+  @ApiProperty({ description: "The unique identifier of the session" })
+  id: string;
+
+  @ManyToOne(() => User, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "user_id" })
+  user: User;
+
+  @Column({ name: "user_id" })
+  @Index("IDX_sessions_user_id")
+  @ApiProperty({ description: "The ID of the user owning the session" })
+  userId: string;
+
+  @Column({ name: "device_name", nullable: true })
+  @ApiProperty({ description: "The name of the device (e.g. 'iPhone 15')" })
+  deviceName: string;
+
+  @Column({ nullable: true })
+  @ApiProperty({ description: "The platform of the device (e.g. 'ios', 'android')" })
+  platform: string;
+
+  @Column({ name: "ip_address", nullable: true })
+  @ApiProperty({ description: "The IP address the session was last used from" })
+  ipAddress: string;
+
+  @Column({ name: "user_agent", nullable: true })
+  @ApiProperty({ description: "The user agent of the client" })
+  userAgent: string;
+
+  @CreateDateColumn({ name: "created_at" })
+  @ApiProperty({ description: "The date when the session was created" })
+  createdAt: Date;
+
+  @Column({ name: "last_used_at" })
+  @ApiProperty({ description: "The date when the session was last used" })
+  lastUsedAt: Date;
+
+  @Column({ name: "expires_at" })
+  @ApiProperty({ description: "The date when the current refresh token of the session expires" })
+  expiresAt: Date;
+
+  @Column({ name: "revoked_at", nullable: true })
+  @ApiProperty({ description: "The date when the session was revoked" })
+  revokedAt: Date;
+}
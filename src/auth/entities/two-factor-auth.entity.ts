@@ -0,0 +1,45 @@
+import {
+  Entity,
+  Column,
+  PrimaryColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  OneToOne,
+  JoinColumn,
+} from "typeorm";
+import { User } from "../../users/entities/user.entity";
+
+/**
+ * TOTP settings of a user. The row exists from the start of enrollment, but
+ * two-factor authentication is only enabled once the first code is verified.
+ */
+@Entity("two_factor_auth")
+export class TwoFactorAuth {
+  @PrimaryColumn({ name: "user_id" })
+  userId: string;
+
+  @OneToOne(() => User, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "user_id" })
+  user: User;
+
+  // Base32 encoded TOTP secret
+  @Column()
+  secret: string;
+
+  @Column({ name: "enabled_at", nullable: true })
+  enabledAt: Date | null;
+
+  // SHA-256 hashes of the recovery codes that haven't been used yet
+  @Column({ name: "recovery_code_hashes", type: "text", array: true, default: () => "'{}'" })
+  recoveryCodeHashes: string[];
+
+  // Time step of the last accepted code, so that a code cannot be used twice
+  @Column({ name: "last_used_step", type: "integer", nullable: true })
+  lastUsedStep: number | null;
+
+  @CreateDateColumn({ name: "created_at" })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: "updated_at" })
+  updatedAt: Date;
+}
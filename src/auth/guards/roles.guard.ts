@@ -0,0 +1,35 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from "@nestjs/common";
+import { Reflector } from "@nestjs/core";
+import { UsersService } from "../../users/users.service";
+import { UserRole } from "../../users/entities/user.entity";
+import { ROLES_KEY } from "../decorators/roles.decorator";
+
+/**
+ * Allows requests of users with one of the roles set by @Roles. The role is
+ * read from the database, so that revoking it takes effect immediately.
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private usersService: UsersService
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const roles = this.reflector.getAllAndOverride<UserRole[]>(ROLES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (!roles || roles.length === 0) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const user = request.user?.userId ? await this.usersService.findById(request.user.userId) : null;
+    if (!user || !roles.includes(user.role)) {
+      throw new ForbiddenException("You are not allowed to access this resource");
+    }
+
+    return true;
+  }
+}
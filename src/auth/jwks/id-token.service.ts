@@ -0,0 +1,76 @@
+import { Injectable, UnauthorizedException } from "@nestjs/common";
+import { JwtService } from "@nestjs/jwt";
+import { JwksProvider } from "./jwks-provider";
+
+export interface IdTokenOptions {
+  // Name of the identity provider, used in error messages
+  provider: string;
+  jwksProvider: JwksProvider;
+  issuers: string[];
+  audiences: string[];
+  algorithms?: ("RS256" | "ES256")[];
+  // Secret of providers that also sign with HS256 (e.g. LINE for web logins)
+  sharedSecret?: string;
+}
+
+/**
+ * Verifies OpenID Connect ID tokens signed with keys from a JWKS, or with the
+ * client secret for HS256 tokens when the provider issues them
+ */
+@Injectable()
+export class IdTokenService {
+  constructor(private jwtService: JwtService) {}
+
+  /**
+   * Verify an ID token's signature, issuer, audience and expiry
+   * @param idToken ID token issued by the identity provider
+   * @param options Expected issuers, audiences and the provider's key set
+   * @returns The token's claims
+   */
+  async verify<T extends object = Record<string, any>>(idToken: string, options: IdTokenOptions): Promise<T> {
+    if (options.audiences.length === 0) {
+      throw new UnauthorizedException(`${options.provider} authentication is not configured`);
+    }
+
+    const decoded = this.jwtService.decode(idToken, { complete: true });
+    const header = decoded?.header;
+    if (!header) {
+      throw new UnauthorizedException(`Malformed ${options.provider} ID token`);
+    }
+
+    let secret: string;
+    let algorithms: ("RS256" | "ES256" | "HS256")[];
+
+    if (header.alg === "HS256" && options.sharedSecret) {
+      secret = options.sharedSecret;
+      algorithms = ["HS256"];
+    } else {
+      if (!header.kid) {
+        throw new UnauthorizedException(`Malformed ${options.provider} ID token`);
+      }
+
+      const key = await options.jwksProvider.getKey(header.kid);
+      if (!key) {
+        throw new UnauthorizedException(`Unknown ${options.provider} signing key`);
+      }
+
+      secret = key.export({ format: "pem", type: "spki" }).toString();
+      algorithms = options.algorithms || ["RS256"];
+    }
+
+    try {
+      return await this.jwtService.verifyAsync<T>(idToken, {
+        // Passed as secret since the module's JWT secret would take precedence over publicKey
+        secret,
+        algorithms,
+        issuer: options.issuers as [string, ...string[]],
+        audience: options.audiences as [string, ...string[]],
+      });
+    } catch (error) {
+      if (error.name === "TokenExpiredError") {
+        throw new UnauthorizedException(`${options.provider} ID token has expired`);
+      }
+      throw new UnauthorizedException(`Invalid ${options.provider} ID token`);
+    }
+  }
+}
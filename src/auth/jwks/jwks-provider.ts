@@ -0,0 +1,103 @@
+import { createPublicKey, JsonWebKey, KeyObject } from "crypto";
+import axios from "axios";
+
+// Injection tokens of the key sets used to verify third-party ID tokens
+export const GOOGLE_JWKS_PROVIDER = "GOOGLE_JWKS_PROVIDER";
+export const APPLE_JWKS_PROVIDER = "APPLE_JWKS_PROVIDER";
+export const LINE_JWKS_PROVIDER = "LINE_JWKS_PROVIDER";
+
+/**
+ * Source of the public keys an identity provider signs its ID tokens with
+ */
+export interface JwksProvider {
+  /**
+   * Get the public key for a key ID
+   * @param kid Key ID from the token header
+   * @returns The key, or null if the provider doesn't know it
+   */
+  getKey(kid: string): Promise<KeyObject | null>;
+}
+
+/**
+ * Key set from a fixed list of JWKs, e.g. for verifying recorded tokens offline
+ */
+export class StaticJwksProvider implements JwksProvider {
+  private readonly keys: Map<string, KeyObject>;
+
+  constructor(jwks: JsonWebKey[]) {
+    this.keys = toKeyMap(jwks);
+  }
+
+  async getKey(kid: string): Promise<KeyObject | null> {
+    return this.keys.get(kid) || null;
+  }
+}
+
+/**
+ * Key set downloaded from a JWKS endpoint and cached for as long as the
+ * endpoint's Cache-Control header allows. Unknown key IDs trigger a refetch,
+ * at most once per minimum refresh interval, to pick up rotated keys.
+ */
+export class RemoteJwksProvider implements JwksProvider {
+  private keys = new Map<string, KeyObject>();
+  private expiresAt = 0;
+  private lastFetchedAt = 0;
+  private pendingFetch: Promise<void> | null = null;
+
+  constructor(
+    private readonly url: string,
+    private readonly options: {
+      // Used when the response has no max-age
+      defaultTtlSeconds?: number;
+      minRefreshIntervalSeconds?: number;
+      fetchJson?: (url: string) => Promise<{ data: any; headers: Record<string, any> }>;
+      now?: () => number;
+    } = {}
+  ) {}
+
+  async getKey(kid: string): Promise<KeyObject | null> {
+    const now = this.now();
+    const minRefreshIntervalMs = (this.options.minRefreshIntervalSeconds ?? 60) * 1000;
+
+    if (now >= this.expiresAt || (!this.keys.has(kid) && now - this.lastFetchedAt >= minRefreshIntervalMs)) {
+      await this.refresh();
+    }
+
+    return this.keys.get(kid) || null;
+  }
+
+  private refresh(): Promise<void> {
+    // Concurrent requests share a single download
+    if (!this.pendingFetch) {
+      this.pendingFetch = this.fetchKeys().finally(() => (this.pendingFetch = null));
+    }
+    return this.pendingFetch;
+  }
+
+  private async fetchKeys(): Promise<void> {
+    const fetchJson = this.options.fetchJson || ((url: string) => axios.get(url, { timeout: 5000 }));
+    const response = await fetchJson(this.url);
+    const now = this.now();
+
+    const maxAge = /max-age=(\d+)/.exec(response.headers?.["cache-control"] || "");
+    const ttlSeconds = maxAge ? Number(maxAge[1]) : this.options.defaultTtlSeconds ?? 3600;
+
+    this.keys = toKeyMap(response.data?.keys || []);
+    this.lastFetchedAt = now;
+    this.expiresAt = now + ttlSeconds * 1000;
+  }
+
+  private now(): number {
+    return this.options.now ? this.options.now() : Date.now();
+  }
+}
+
+function toKeyMap(jwks: JsonWebKey[]): Map<string, KeyObject> {
+  const keys = new Map<string, KeyObject>();
+  for (const jwk of jwks) {
+    if (typeof jwk.kid === "string") {
+      keys.set(jwk.kid, createPublicKey({ key: jwk, format: "jwk" }));
+    }
+  }
+  return keys;
+}
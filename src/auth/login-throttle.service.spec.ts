@@ -0,0 +1,205 @@
+import { HttpException } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { ValkeyService } from "../services/valkey.service";
+import { MailerService } from "../services/mailer.service";
+import { UsersService } from "../users/users.service";
+import { AuthService } from "./auth.service";
+import { LoginThrottleService } from "./login-throttle.service";
+import { OtpService } from "./otp.service";
+import { LocalStrategy } from "./strategies/local.strategy";
+
+const USERNAME = "janedoe";
+const PASSWORD = "CorrectPassword1!";
+
+/**
+ * Keys, expiries and sliding windows kept in memory. Every call yields to the
+ * event loop, so that concurrent logins interleave like separate requests.
+ */
+class InMemoryValkey {
+  values = new Map<string, { value: unknown; expiresAt: number }>();
+  windows = new Map<string, Map<string, number>>();
+
+  async getJson<T>(key: string): Promise<T | null> {
+    await Promise.resolve();
+    const entry = this.values.get(key);
+    return entry && entry.expiresAt > Date.now() ? (entry.value as T) : null;
+  }
+
+  async setJson(key: string, value: unknown, expiryInSeconds: number): Promise<void> {
+    await Promise.resolve();
+    this.values.set(key, { value, expiresAt: Date.now() + expiryInSeconds * 1000 });
+  }
+
+  async setIfNotExists(key: string, value: string, expiryInSeconds: number): Promise<boolean> {
+    await Promise.resolve();
+    if (this.values.get(key)?.expiresAt > Date.now()) {
+      return false;
+    }
+    this.values.set(key, { value, expiresAt: Date.now() + expiryInSeconds * 1000 });
+    return true;
+  }
+
+  async delete(key: string): Promise<void> {
+    await Promise.resolve();
+    this.values.delete(key);
+    this.windows.delete(key);
+  }
+
+  async addToSlidingWindow(key: string, windowInSeconds: number, member: string): Promise<number> {
+    await Promise.resolve();
+    const window = this.windows.get(key) || new Map<string, number>();
+    for (const [item, time] of window) {
+      if (time <= Date.now() - windowInSeconds * 1000) {
+        window.delete(item);
+      }
+    }
+    window.set(member, Date.now());
+    this.windows.set(key, window);
+    return window.size;
+  }
+
+  async removeFromSlidingWindow(key: string, member: string): Promise<void> {
+    await Promise.resolve();
+    this.windows.get(key)?.delete(member);
+  }
+}
+
+describe("LoginThrottleService", () => {
+  let now: number;
+  let validateUser: jest.Mock;
+
+  function createStrategy(settings: Record<string, number>): LocalStrategy {
+    const loginThrottleService = new LoginThrottleService(
+      new InMemoryValkey() as unknown as ValkeyService,
+      {} as MailerService,
+      { findByUsername: async () => null } as unknown as UsersService,
+      {} as OtpService,
+      new ConfigService(settings)
+    );
+    return new LocalStrategy({ validateUser } as unknown as AuthService, loginThrottleService);
+  }
+
+  async function login(strategy: LocalStrategy, password: string, ip = "203.0.113.7"): Promise<number | null> {
+    try {
+      await strategy.validate({ ip, body: {} }, USERNAME, password);
+      return null;
+    } catch (error) {
+      return error instanceof HttpException ? error.getStatus() : -1;
+    }
+  }
+
+  beforeEach(() => {
+    now = Date.parse("2025-07-24T09:00:00Z");
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+    // Checking a password takes a while, like bcrypt
+    validateUser = jest.fn(async (_username: string, password: string) => {
+      for (let i = 0; i < 5; i++) {
+        await Promise.resolve();
+      }
+      return password === PASSWORD ? { id: "user-1", username: USERNAME } : null;
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("locks the username after too many failures and rejects even the right password", async () => {
+    const strategy = createStrategy({ LOGIN_MAX_FAILURES_PER_USERNAME: 5, LOGIN_DELAY_FREE_ATTEMPTS: 100 });
+
+    for (let i = 0; i < 5; i++) {
+      expect(await login(strategy, "WrongPassword1!")).toBe(401);
+    }
+
+    expect(await login(strategy, PASSWORD)).toBe(429);
+    expect(validateUser).toHaveBeenCalledTimes(5);
+  });
+
+  it("does not compare more passwords than allowed when they arrive concurrently", async () => {
+    const strategy = createStrategy({ LOGIN_MAX_FAILURES_PER_USERNAME: 5, LOGIN_DELAY_FREE_ATTEMPTS: 100 });
+    const guesses = Array.from({ length: 20 }, (_, i) => `WrongPassword${i}!`);
+
+    const results = await Promise.all(guesses.map((guess) => login(strategy, guess)));
+
+    expect(validateUser).toHaveBeenCalledTimes(5);
+    expect(results.filter((status) => status === 401)).toHaveLength(5);
+    expect(results.filter((status) => status === 429)).toHaveLength(15);
+    expect(await login(strategy, PASSWORD)).toBe(429);
+  });
+
+  it("delays attempts after the free ones", async () => {
+    const strategy = createStrategy({ LOGIN_DELAY_FREE_ATTEMPTS: 3, LOGIN_DELAY_BASE_SECONDS: 2 });
+    for (let i = 0; i < 3; i++) {
+      await login(strategy, "WrongPassword1!");
+    }
+
+    expect(await login(strategy, PASSWORD)).toBe(429);
+
+    now += 2000;
+    expect(await login(strategy, PASSWORD)).toBeNull();
+  });
+
+  it("compares one password at a time once attempts are delayed", async () => {
+    const strategy = createStrategy({ LOGIN_DELAY_FREE_ATTEMPTS: 3, LOGIN_DELAY_BASE_SECONDS: 1 });
+    for (let i = 0; i < 3; i++) {
+      await login(strategy, "WrongPassword1!");
+    }
+    now += 1000;
+    validateUser.mockClear();
+
+    const results = await Promise.all(Array.from({ length: 10 }, () => login(strategy, "WrongPassword2!")));
+
+    expect(validateUser).toHaveBeenCalledTimes(1);
+    expect(results.filter((status) => status === 429)).toHaveLength(9);
+  });
+
+  it("does not count attempts rejected by the throttle as failures", async () => {
+    const strategy = createStrategy({
+      LOGIN_MAX_FAILURES_PER_USERNAME: 5,
+      LOGIN_DELAY_FREE_ATTEMPTS: 3,
+      LOGIN_DELAY_BASE_SECONDS: 1,
+    });
+    for (let i = 0; i < 3; i++) {
+      await login(strategy, "WrongPassword1!");
+    }
+
+    for (let i = 0; i < 10; i++) {
+      expect(await login(strategy, "WrongPassword2!")).toBe(429);
+    }
+
+    now += 1000;
+    expect(await login(strategy, PASSWORD)).toBeNull();
+  });
+
+  it("forgets the failures of a username after a successful login", async () => {
+    const strategy = createStrategy({ LOGIN_MAX_FAILURES_PER_USERNAME: 5, LOGIN_DELAY_FREE_ATTEMPTS: 100 });
+    for (let i = 0; i < 4; i++) {
+      await login(strategy, "WrongPassword1!");
+    }
+
+    expect(await login(strategy, PASSWORD)).toBeNull();
+
+    for (let i = 0; i < 4; i++) {
+      expect(await login(strategy, "WrongPassword1!")).toBe(401);
+    }
+    expect(await login(strategy, PASSWORD)).toBeNull();
+  });
+
+  it("blocks an IP address after too many failures, but not for its successful logins", async () => {
+    const strategy = createStrategy({
+      LOGIN_MAX_FAILURES_PER_IP: 3,
+      LOGIN_MAX_FAILURES_PER_USERNAME: 100,
+      LOGIN_DELAY_FREE_ATTEMPTS: 100,
+    });
+
+    for (let i = 0; i < 5; i++) {
+      expect(await login(strategy, PASSWORD)).toBeNull();
+    }
+    for (let i = 0; i < 3; i++) {
+      expect(await login(strategy, "WrongPassword1!")).toBe(401);
+    }
+
+    expect(await login(strategy, PASSWORD)).toBe(429);
+    expect(await login(strategy, PASSWORD, "198.51.100.1")).toBeNull();
+  });
+});
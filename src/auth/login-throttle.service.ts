@@ -0,0 +1,242 @@
+import { Injectable, HttpException, HttpStatus } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { randomUUID } from "crypto";
+import { ValkeyService, OtpType } from "../services/valkey.service";
+import { MailerService } from "../services/mailer.service";
+import { UsersService } from "../users/users.service";
+import { isPlaceholderEmail } from "../users/placeholder-email";
+import { OtpService } from "./otp.service";
+
+export interface LoginThrottleSettings {
+  // Sliding window failed logins are counted in
+  windowSeconds: number;
+  // Failed logins for one username within the window that lock it
+  maxFailuresPerUsername: number;
+  // Failed logins from one IP address within the window before it is blocked
+  maxFailuresPerIp: number;
+  // How long a locked username stays locked
+  lockoutSeconds: number;
+  // Failed logins before each further attempt has to wait
+  freeAttempts: number;
+  // Wait after the first delayed attempt, doubled with every further failure
+  baseDelaySeconds: number;
+  maxDelaySeconds: number;
+}
+
+// Longest time an attempt keeps its turn, in case it never reports its outcome
+const TURN_SECONDS = 30;
+
+/**
+ * A login attempt, counted as a failure until it succeeds
+ */
+export interface LoginAttempt {
+  username: string;
+  ipAddress?: string;
+  // Failed logins of the username within the window, counting this attempt
+  failures: number;
+  // Identifies the attempt in the failure windows
+  id: string;
+  // Whether the attempt has the username's turn for delayed attempts
+  holdsTurn: boolean;
+}
+
+/**
+ * Limits password guessing on /auth/login. Failures are counted per username,
+ * whether or not it exists, so that responses don't reveal which usernames do.
+ */
+@Injectable()
+export class LoginThrottleService {
+  constructor(
+    private valkeyService: ValkeyService,
+    private mailerService: MailerService,
+    private usersService: UsersService,
+    private otpService: OtpService,
+    private configService: ConfigService
+  ) {}
+
+  getSettings(): LoginThrottleSettings {
+    return {
+      windowSeconds: Number(this.configService.get("LOGIN_FAILURE_WINDOW_SECONDS", 900)),
+      maxFailuresPerUsername: Number(this.configService.get("LOGIN_MAX_FAILURES_PER_USERNAME", 10)),
+      maxFailuresPerIp: Number(this.configService.get("LOGIN_MAX_FAILURES_PER_IP", 50)),
+      lockoutSeconds: Number(this.configService.get("LOGIN_LOCKOUT_SECONDS", 900)),
+      freeAttempts: Number(this.configService.get("LOGIN_DELAY_FREE_ATTEMPTS", 3)),
+      baseDelaySeconds: Number(this.configService.get("LOGIN_DELAY_BASE_SECONDS", 1)),
+      maxDelaySeconds: Number(this.configService.get("LOGIN_DELAY_MAX_SECONDS", 30)),
+    };
+  }
+
+  /**
+   * Start a login attempt, rejecting it if it comes too early, for a locked username or
+   * from a blocked IP address. The attempt counts as a failure until it succeeds, so that
+   * concurrent attempts cannot all pass the limits before any of them is recorded.
+   * Attempts that have to wait take turns, each one after the outcome of the one before.
+   * @param username Username the login is attempted for
+   * @param ipAddress IP address of the request
+   * @returns The attempt, to pass to recordFailure or recordSuccess
+   */
+  async startAttempt(username: string, ipAddress?: string): Promise<LoginAttempt> {
+    const settings = this.getSettings();
+    const key = this.getUsernameKey(username);
+
+    if (await this.isLocked(username)) {
+      throw this.lockedException();
+    }
+
+    const attempt: LoginAttempt = { username, ipAddress, failures: 0, id: randomUUID(), holdsTurn: false };
+
+    if (ipAddress) {
+      const ipFailures = await this.valkeyService.addToSlidingWindow(
+        `login:failures:ip:${ipAddress}`,
+        settings.windowSeconds,
+        attempt.id
+      );
+      if (ipFailures > settings.maxFailuresPerIp) {
+        await this.cancel(attempt);
+        throw new HttpException("Too many login attempts. Please try again later.", HttpStatus.TOO_MANY_REQUESTS);
+      }
+    }
+
+    attempt.failures = await this.valkeyService.addToSlidingWindow(
+      `login:failures:username:${key}`,
+      settings.windowSeconds,
+      attempt.id
+    );
+    if (attempt.failures > settings.maxFailuresPerUsername) {
+      await this.cancel(attempt);
+      throw this.lockedException();
+    }
+
+    if (attempt.failures >= settings.freeAttempts) {
+      attempt.holdsTurn = await this.valkeyService.setIfNotExists(`login:turn:${key}`, attempt.id, TURN_SECONDS);
+
+      const delay = await this.valkeyService.getJson<{ notBefore: number }>(`login:delay:${key}`);
+      const delaySeconds = delay ? Math.ceil((delay.notBefore - Date.now()) / 1000) : 0;
+      // Another attempt has the turn; its outcome decides how long to wait
+      const waitSeconds = attempt.holdsTurn ? delaySeconds : Math.max(delaySeconds, 1);
+      if (waitSeconds > 0) {
+        await this.cancel(attempt);
+        throw new HttpException(
+          `Too many login attempts. Please wait ${waitSeconds} seconds.`,
+          HttpStatus.TOO_MANY_REQUESTS
+        );
+      }
+    }
+
+    return attempt;
+  }
+
+  /**
+   * Record that a login attempt failed, delaying the next attempt and locking the username
+   * once it failed too often
+   * @param attempt Attempt returned by startAttempt
+   */
+  async recordFailure(attempt: LoginAttempt): Promise<void> {
+    const settings = this.getSettings();
+    const key = this.getUsernameKey(attempt.username);
+
+    if (attempt.failures >= settings.maxFailuresPerUsername) {
+      await this.lock(attempt.username, attempt.ipAddress);
+    } else if (attempt.failures >= settings.freeAttempts) {
+      const delaySeconds = Math.min(
+        settings.baseDelaySeconds * 2 ** (attempt.failures - settings.freeAttempts),
+        settings.maxDelaySeconds
+      );
+      await this.valkeyService.setJson(`login:delay:${key}`, { notBefore: Date.now() + delaySeconds * 1000 }, delaySeconds);
+    }
+
+    await this.releaseTurn(attempt);
+  }
+
+  /**
+   * Record that a login attempt succeeded, forgetting the failed logins of its username
+   * @param attempt Attempt returned by startAttempt
+   */
+  async recordSuccess(attempt: LoginAttempt): Promise<void> {
+    await this.reset(attempt.username);
+    if (attempt.ipAddress) {
+      await this.valkeyService.removeFromSlidingWindow(`login:failures:ip:${attempt.ipAddress}`, attempt.id);
+    }
+    await this.releaseTurn(attempt);
+  }
+
+  async isLocked(username: string): Promise<boolean> {
+    return Boolean(await this.valkeyService.getJson(`login:lock:${this.getUsernameKey(username)}`));
+  }
+
+  /**
+   * Lift the lockout of a username, e.g. after the owner proved access to their email
+   * @param username Username to unlock
+   */
+  async unlock(username: string): Promise<void> {
+    await this.valkeyService.delete(`login:lock:${this.getUsernameKey(username)}`);
+    await this.reset(username);
+  }
+
+  /**
+   * Email a new unlock code to the owner of a locked username
+   * @param username Locked username
+   * @param ipAddress IP address of the request
+   */
+  async sendUnlockCode(username: string, ipAddress?: string): Promise<void> {
+    const user = await this.usersService.findByUsername(username);
+    if (!user || isPlaceholderEmail(user.email)) {
+      return;
+    }
+
+    const lockoutMinutes = Math.ceil(this.getSettings().lockoutSeconds / 60);
+    await this.otpService.send(user.email, OtpType.LOGIN_UNLOCK, ipAddress, (otp) =>
+      this.mailerService.sendLoginLockoutEmail(user.email, otp, lockoutMinutes, ipAddress)
+    );
+  }
+
+  private async lock(username: string, ipAddress?: string): Promise<void> {
+    const settings = this.getSettings();
+    const key = this.getUsernameKey(username);
+
+    await this.valkeyService.setJson(`login:lock:${key}`, { lockedAt: Date.now() }, settings.lockoutSeconds);
+    await this.valkeyService.delete(`login:failures:username:${key}`);
+    await this.valkeyService.delete(`login:delay:${key}`);
+
+    // The response is the same either way; only an existing account is told by email
+    try {
+      await this.sendUnlockCode(username, ipAddress);
+    } catch (error) {
+      console.error("Failed to send login lockout email:", error.message);
+    }
+  }
+
+  // Take back an attempt that was rejected before the password was checked
+  private async cancel(attempt: LoginAttempt): Promise<void> {
+    const key = this.getUsernameKey(attempt.username);
+    await this.valkeyService.removeFromSlidingWindow(`login:failures:username:${key}`, attempt.id);
+    if (attempt.ipAddress) {
+      await this.valkeyService.removeFromSlidingWindow(`login:failures:ip:${attempt.ipAddress}`, attempt.id);
+    }
+    await this.releaseTurn(attempt);
+  }
+
+  private async releaseTurn(attempt: LoginAttempt): Promise<void> {
+    if (attempt.holdsTurn) {
+      await this.valkeyService.delete(`login:turn:${this.getUsernameKey(attempt.username)}`);
+    }
+  }
+
+  private async reset(username: string): Promise<void> {
+    const key = this.getUsernameKey(username);
+    await this.valkeyService.delete(`login:failures:username:${key}`);
+    await this.valkeyService.delete(`login:delay:${key}`);
+  }
+
+  private lockedException(): HttpException {
+    return new HttpException(
+      "Too many failed login attempts. Try again later or unlock your account with the code sent by email.",
+      HttpStatus.TOO_MANY_REQUESTS
+    );
+  }
+
+  private getUsernameKey(username: string): string {
+    // Usernames are matched exactly on login, so they are counted exactly too
+    return encodeURIComponent(username);
+  }
+}
@@ -0,0 +1,114 @@
+import { ConfigService } from "@nestjs/config";
+import { OtpType, ValkeyService } from "../services/valkey.service";
+import { OtpService } from "./otp.service";
+
+const EMAIL = "jane@example.com";
+const OTP = "123456";
+
+/**
+ * OTPs and counters kept in memory. Every call yields to the event loop, so
+ * that concurrent verifications interleave like separate requests.
+ */
+class InMemoryValkey {
+  otps = new Map<string, { otp: string; timestamp: number }>();
+  counters = new Map<string, number>();
+
+  async storeOtp(email: string, otp: string, type: OtpType): Promise<void> {
+    await Promise.resolve();
+    this.otps.set(`${type}:${email}`, { otp, timestamp: Date.now() });
+    this.counters.delete(`attempts:${type}:${email}`);
+  }
+
+  async getOtp(email: string, type: OtpType): Promise<{ otp: string; timestamp: number } | null> {
+    await Promise.resolve();
+    return this.otps.get(`${type}:${email}`) || null;
+  }
+
+  async deleteOtp(email: string, type: OtpType): Promise<void> {
+    await Promise.resolve();
+    this.otps.delete(`${type}:${email}`);
+    this.counters.delete(`attempts:${type}:${email}`);
+  }
+
+  async incrementOtpAttempts(email: string, type: OtpType): Promise<number> {
+    return this.incrementCounter(`attempts:${type}:${email}`);
+  }
+
+  async incrementCounter(key: string): Promise<number> {
+    await Promise.resolve();
+    const count = (this.counters.get(key) || 0) + 1;
+    this.counters.set(key, count);
+    return count;
+  }
+}
+
+describe("OtpService", () => {
+  let valkey: InMemoryValkey;
+  let service: OtpService;
+
+  beforeEach(async () => {
+    valkey = new InMemoryValkey();
+    service = new OtpService(
+      valkey as unknown as ValkeyService,
+      new ConfigService({ OTP_MAX_ATTEMPTS: 5, OTP_IP_MAX_VERIFICATIONS_PER_HOUR: 1000 })
+    );
+    await valkey.storeOtp(EMAIL, OTP, OtpType.REGISTRATION);
+  });
+
+  it("accepts the OTP once", async () => {
+    await expect(service.verify(EMAIL, OtpType.REGISTRATION, OTP, "203.0.113.7")).resolves.toBeUndefined();
+    await expect(service.verify(EMAIL, OtpType.REGISTRATION, OTP, "203.0.113.7")).rejects.toThrow(
+      "OTP expired or not found"
+    );
+  });
+
+  it("only accepts the OTP for its own flow", async () => {
+    await expect(service.verify(EMAIL, OtpType.PASSWORD_RESET, OTP, "203.0.113.7")).rejects.toThrow(
+      "OTP expired or not found"
+    );
+  });
+
+  it("invalidates the OTP on the last allowed wrong attempt", async () => {
+    for (let i = 0; i < 4; i++) {
+      await expect(service.verify(EMAIL, OtpType.REGISTRATION, "000000", "203.0.113.7")).rejects.toThrow(
+        "Invalid OTP"
+      );
+    }
+
+    await expect(service.verify(EMAIL, OtpType.REGISTRATION, "000000", "203.0.113.7")).rejects.toThrow(
+      "Too many failed attempts"
+    );
+    await expect(service.verify(EMAIL, OtpType.REGISTRATION, OTP, "203.0.113.7")).rejects.toThrow(
+      "OTP expired or not found"
+    );
+  });
+
+  it("accepts the OTP on the last allowed attempt", async () => {
+    for (let i = 0; i < 4; i++) {
+      await service.verify(EMAIL, OtpType.REGISTRATION, "000000", "203.0.113.7").catch(() => undefined);
+    }
+
+    await expect(service.verify(EMAIL, OtpType.REGISTRATION, OTP, "203.0.113.7")).resolves.toBeUndefined();
+  });
+
+  it("does not compare more guesses than allowed when they arrive concurrently", async () => {
+    const guesses = ["000000", "000001", "000002", "000003", "000004", "000005", "000006", OTP];
+
+    const results = await Promise.allSettled(
+      guesses.map((guess) => service.verify(EMAIL, OtpType.REGISTRATION, guess, "203.0.113.7"))
+    );
+
+    // The correct code came after the fifth attempt, so it was never compared
+    expect(results.every((result) => result.status === "rejected")).toBe(true);
+    expect(valkey.otps.size).toBe(0);
+  });
+
+  it("gives a new OTP a fresh set of attempts", async () => {
+    for (let i = 0; i < 5; i++) {
+      await service.verify(EMAIL, OtpType.REGISTRATION, "000000", "203.0.113.7").catch(() => undefined);
+    }
+    await valkey.storeOtp(EMAIL, "654321", OtpType.REGISTRATION);
+
+    await expect(service.verify(EMAIL, OtpType.REGISTRATION, "654321", "203.0.113.7")).resolves.toBeUndefined();
+  });
+});
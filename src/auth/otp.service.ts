@@ -0,0 +1,139 @@
+import {
+  Injectable,
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+} from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import * as crypto from "crypto";
+import { ValkeyService, OtpType } from "../services/valkey.service";
+
+export const OTP_LENGTH = 6;
+
+export interface OtpSettings {
+  // Seconds an OTP stays valid
+  expirySeconds: number;
+  // Attempts after which the OTP is invalidated
+  maxAttempts: number;
+  // Seconds before another OTP can be sent to the same email
+  resendCooldownSeconds: number;
+  // OTPs that can be requested from one IP address per hour
+  ipMaxSendsPerHour: number;
+  // OTP verifications that can be attempted from one IP address per hour
+  ipMaxVerificationsPerHour: number;
+}
+
+/**
+ * Issues and verifies the one-time passwords sent by email, limiting how often
+ * they can be requested and guessed
+ */
+@Injectable()
+export class OtpService {
+  constructor(
+    private valkeyService: ValkeyService,
+    private configService: ConfigService
+  ) {}
+
+  getSettings(): OtpSettings {
+    return {
+      expirySeconds: Number(this.configService.get("OTP_EXPIRY_SECONDS", 300)),
+      maxAttempts: Number(this.configService.get("OTP_MAX_ATTEMPTS", 5)),
+      resendCooldownSeconds: Number(this.configService.get("OTP_RESEND_COOLDOWN_SECONDS", 60)),
+      ipMaxSendsPerHour: Number(this.configService.get("OTP_IP_MAX_SENDS_PER_HOUR", 20)),
+      ipMaxVerificationsPerHour: Number(this.configService.get("OTP_IP_MAX_VERIFICATIONS_PER_HOUR", 50)),
+    };
+  }
+
+  /**
+   * Generate a random numeric code
+   */
+  generate(): string {
+    return crypto.randomInt(0, 10 ** OTP_LENGTH).toString().padStart(OTP_LENGTH, "0");
+  }
+
+  /**
+   * Issue a new OTP, replacing any previous one, and deliver it
+   * @param email Email address the OTP is for
+   * @param type Flow the OTP belongs to
+   * @param ipAddress IP address of the request
+   * @param deliver Sends the OTP to the email address
+   */
+  async send(
+    email: string,
+    type: OtpType,
+    ipAddress: string | undefined,
+    deliver: (otp: string) => Promise<unknown>
+  ): Promise<void> {
+    const settings = this.getSettings();
+
+    const existingOtp = await this.valkeyService.getOtp(email, type);
+    if (existingOtp) {
+      const waitSeconds = Math.ceil(
+        (existingOtp.timestamp + settings.resendCooldownSeconds * 1000 - Date.now()) / 1000
+      );
+      if (waitSeconds > 0) {
+        throw new HttpException(
+          `Please wait ${waitSeconds} seconds before requesting a new OTP`,
+          HttpStatus.TOO_MANY_REQUESTS
+        );
+      }
+    }
+
+    await this.checkIpLimit("send", ipAddress, settings.ipMaxSendsPerHour);
+
+    const otp = this.generate();
+    await this.valkeyService.storeOtp(email, otp, type, settings.expirySeconds);
+    await deliver(otp);
+  }
+
+  /**
+   * Verify an OTP. It is deleted once used, and after too many attempts.
+   * @param email Email address the OTP was sent to
+   * @param type Flow the OTP belongs to
+   * @param otp Code entered by the user
+   * @param ipAddress IP address of the request
+   */
+  async verify(email: string, type: OtpType, otp: string, ipAddress: string | undefined): Promise<void> {
+    const settings = this.getSettings();
+
+    await this.checkIpLimit("verify", ipAddress, settings.ipMaxVerificationsPerHour);
+
+    // Count the attempt before reading and comparing the OTP, so that concurrent
+    // guesses cannot get more than the allowed number of comparisons
+    const attempts = await this.valkeyService.incrementOtpAttempts(email, type, settings.expirySeconds);
+    if (attempts > settings.maxAttempts) {
+      await this.valkeyService.deleteOtp(email, type);
+      throw new BadRequestException("Too many failed attempts. Please request a new OTP.");
+    }
+
+    const storedOtpData = await this.valkeyService.getOtp(email, type);
+    if (!storedOtpData) {
+      throw new BadRequestException("OTP expired or not found");
+    }
+
+    const expected = Buffer.from(storedOtpData.otp);
+    const actual = Buffer.from(otp);
+    if (expected.length === actual.length && crypto.timingSafeEqual(expected, actual)) {
+      await this.valkeyService.deleteOtp(email, type);
+      return;
+    }
+
+    if (attempts === settings.maxAttempts) {
+      await this.valkeyService.deleteOtp(email, type);
+      throw new BadRequestException("Too many failed attempts. Please request a new OTP.");
+    }
+
+    throw new BadRequestException("Invalid OTP");
+  }
+
+  private async checkIpLimit(action: string, ipAddress: string | undefined, limit: number): Promise<void> {
+    if (!ipAddress) {
+      return;
+    }
+
+    const count = await this.valkeyService.incrementCounter(`otp:ip:${action}:${ipAddress}`, 60 * 60);
+    if (count > limit) {
+      throw new HttpException("Too many requests. Please try again later.", HttpStatus.TOO_MANY_REQUESTS);
+    }
+  }
+}
@@ -0,0 +1,229 @@
+import { Injectable, NotFoundException } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { InjectRepository } from "@nestjs/typeorm";
+import { FindOptionsWhere, In, IsNull, MoreThan, Not, Repository } from "typeorm";
+import * as crypto from "crypto";
+import { Session } from "./entities/session.entity";
+import { RefreshToken } from "./entities/refresh-token.entity";
+import { ValkeyService } from "../services/valkey.service";
+import { ClientContext } from "./client-context";
+import { TokenService } from "./token.service";
+
+export type RefreshTokenStatus = "valid" | "expired" | "invalid" | "reused";
+
+@Injectable()
+export class SessionsService {
+  constructor(
+    @InjectRepository(Session)
+    private sessionRepository: Repository<Session>,
+    @InjectRepository(RefreshToken)
+    private refreshTokenRepository: Repository<RefreshToken>,
+    private tokenService: TokenService,
+    private valkeyService: ValkeyService,
+    private configService: ConfigService
+  ) {}
+
+  /**
+   * Create a new session for a device and issue its first refresh token
+   * @param userId User's ID
+   * @param context Client the session is created from
+   * @returns The created session and its refresh token
+   */
+  async create(userId: string, context: ClientContext = {}): Promise<{ session: Session; refreshToken: string }> {
+    const now = new Date();
+    const session = await this.sessionRepository.save(
+      this.sessionRepository.create({
+        userId,
+        deviceName: context.deviceName,
+        platform: context.platform,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+        lastUsedAt: now,
+        expiresAt: this.getExpiryDate(now),
+      })
+    );
+
+    const refreshToken = await this.issueRefreshToken(session.id);
+    return { session, refreshToken };
+  }
+
+  /**
+   * Issue a new refresh token for a session
+   * @param sessionId Session's ID
+   * @param context Client the session is used from
+   * @returns Refresh token
+   */
+  async issueRefreshToken(sessionId: string, context: ClientContext = {}): Promise<string> {
+    const now = new Date();
+    const expiresAt = this.getExpiryDate(now);
+    const refreshToken = this.tokenService.generateRefreshToken();
+
+    await this.refreshTokenRepository.save(
+      this.refreshTokenRepository.create({
+        sessionId,
+        tokenHash: this.hashToken(refreshToken),
+        expiresAt,
+      })
+    );
+
+    await this.sessionRepository.update(sessionId, {
+      lastUsedAt: now,
+      expiresAt,
+      ...(context.ipAddress ? { ipAddress: context.ipAddress } : {}),
+    });
+
+    return refreshToken;
+  }
+
+  /**
+   * Validate a refresh token and mark it as rotated so it can't be used again.
+   * Presenting a token that was already rotated means it was stolen or leaked,
+   * so the whole session (token family) is revoked.
+   * @param refreshToken Refresh token sent by the client
+   * @returns Validation status and the session the token belongs to
+   */
+  async consumeRefreshToken(refreshToken: string): Promise<{ status: RefreshTokenStatus; session: Session | null }> {
+    if (!refreshToken) {
+      return { status: "invalid", session: null };
+    }
+
+    const token = await this.refreshTokenRepository.findOne({
+      where: { tokenHash: this.hashToken(refreshToken) },
+      relations: { session: true },
+    });
+
+    if (!token || token.session.revokedAt) {
+      return { status: "invalid", session: null };
+    }
+
+    if (token.rotatedAt) {
+      await this.revokeFamily(token.session);
+      return { status: "reused", session: token.session };
+    }
+
+    if (new Date() > token.expiresAt) {
+      return { status: "expired", session: token.session };
+    }
+
+    // Only one request can rotate a token; a concurrent loser is treated as reuse
+    const result = await this.refreshTokenRepository.update(
+      { id: token.id, rotatedAt: IsNull() },
+      { rotatedAt: new Date() }
+    );
+    if (!result.affected) {
+      await this.revokeFamily(token.session);
+      return { status: "reused", session: token.session };
+    }
+
+    return { status: "valid", session: token.session };
+  }
+
+  /**
+   * Check whether a session can still be used with its access tokens. Active
+   * sessions are cached for a few seconds; revoking a session clears its entry.
+   * @param userId User's ID
+   * @param sessionId Session's ID
+   * @returns Whether the session belongs to the user and is neither revoked nor expired
+   */
+  async isActive(userId: string, sessionId: string): Promise<boolean> {
+    const cacheKey = this.getActiveCacheKey(sessionId);
+    const cached = await this.valkeyService.getJson<{ userId: string }>(cacheKey);
+    if (cached) {
+      return cached.userId === userId;
+    }
+
+    const session = await this.sessionRepository.findOne({
+      where: { id: sessionId, userId, revokedAt: IsNull(), expiresAt: MoreThan(new Date()) },
+    });
+    if (!session) {
+      return false;
+    }
+
+    const cacheTtl = Number(this.configService.get("SESSION_CACHE_TTL_SECONDS", 30));
+    await this.valkeyService.setJson(cacheKey, { userId }, cacheTtl);
+    return true;
+  }
+
+  /**
+   * List the active sessions of a user, most recently used first
+   * @param userId User's ID
+   * @returns Active sessions
+   */
+  async findActiveByUser(userId: string): Promise<Session[]> {
+    return this.sessionRepository.find({
+      where: { userId, revokedAt: IsNull(), expiresAt: MoreThan(new Date()) },
+      order: { lastUsedAt: "DESC" },
+    });
+  }
+
+  /**
+   * Revoke one session of a user
+   * @param userId User's ID
+   * @param sessionId Session's ID
+   */
+  async revoke(userId: string, sessionId: string): Promise<void> {
+    const session = await this.sessionRepository.findOne({
+      where: { id: sessionId, userId, revokedAt: IsNull() },
+    });
+
+    if (!session) {
+      throw new NotFoundException("Session not found");
+    }
+
+    session.revokedAt = new Date();
+    await this.sessionRepository.save(session);
+    await this.valkeyService.delete(this.getActiveCacheKey(session.id));
+  }
+
+  /**
+   * Revoke all sessions of a user except one
+   * @param userId User's ID
+   * @param sessionId ID of the session to keep
+   * @returns Number of revoked sessions
+   */
+  async revokeAllExcept(userId: string, sessionId: string): Promise<number> {
+    return this.revokeWhere({ userId, id: Not(sessionId) });
+  }
+
+  /**
+   * Revoke all sessions of a user
+   * @param userId User's ID
+   * @returns Number of revoked sessions
+   */
+  async revokeAll(userId: string): Promise<number> {
+    return this.revokeWhere({ userId });
+  }
+
+  private async revokeFamily(session: Session): Promise<void> {
+    await this.sessionRepository.update({ id: session.id, revokedAt: IsNull() }, { revokedAt: new Date() });
+    await this.valkeyService.delete(this.getActiveCacheKey(session.id));
+  }
+
+  private async revokeWhere(where: FindOptionsWhere<Session>): Promise<number> {
+    const sessions = await this.sessionRepository.find({
+      select: { id: true },
+      where: { ...where, revokedAt: IsNull() },
+    });
+    if (sessions.length === 0) {
+      return 0;
+    }
+
+    const ids = sessions.map((session) => session.id);
+    const result = await this.sessionRepository.update({ id: In(ids), revokedAt: IsNull() }, { revokedAt: new Date() });
+    await Promise.all(ids.map((id) => this.valkeyService.delete(this.getActiveCacheKey(id))));
+    return result.affected || 0;
+  }
+
+  private getActiveCacheKey(sessionId: string): string {
+    return `session:active:${sessionId}`;
+  }
+
+  private hashToken(refreshToken: string): string {
+    return crypto.createHash("sha256").update(refreshToken).digest("hex");
+  }
+
+  private getExpiryDate(from: Date): Date {
+    const refreshExpSec = Number(this.configService.get("REFRESH_TOKEN_EXPIRATION_IN_SEC", 604800));
+    return new Date(from.getTime() + refreshExpSec * 1000);
+  }
+}
@@ -0,0 +1,31 @@
+import { Injectable } from "@nestjs/common";
+import { PassportStrategy } from "@nestjs/passport";
+import { Strategy } from "passport-custom";
+import { AppleVerifier } from "../verifiers/apple.verifier";
+
+@Injectable()
+export class AppleStrategy extends PassportStrategy(
+  Strategy, "apple"
+) {
+  constructor(private appleVerifier: AppleVerifier) {
+    super();
+  }
+
+  /**
+   * Validate an Apple identity token against Apple's signing keys
+   * @param request The request object containing the Apple identity token
+   * @returns The user's Apple ID, email and the name sent by the app if successful
+   */
+  async validate(request: any): Promise<any> {
+    const { identityToken, nonce, givenName, familyName } = request.body || {};
+    const identity = await this.appleVerifier.verify(identityToken, nonce);
+
+    return {
+      appleId: identity.providerId,
+      email: identity.email,
+      isPrivateEmail: identity.isPrivateEmail,
+      // Apple only sends the name to the app on the first authorization
+      name: [givenName, familyName].filter(Boolean).join(" ").trim() || null,
+    };
+  }
+}
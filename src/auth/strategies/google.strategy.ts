@@ -0,0 +1,36 @@
+import { Injectable, UnauthorizedException } from "@nestjs/common";
+import { PassportStrategy } from "@nestjs/passport";
+import { Strategy } from "passport-custom";
+import { GoogleVerifier } from "../verifiers/google.verifier";
+
+@Injectable()
+export class GoogleStrategy extends PassportStrategy(
+  Strategy, "google"
+) {
+  constructor(private googleVerifier: GoogleVerifier) {
+    super();
+  }
+
+  /**
+   * Validate a Google ID token against Google's signing keys
+   * @param request The request object containing the Google ID token
+   * @returns The user's email, Google ID and name if successful
+   */
+  async validate(request: any): Promise<any> {
+    const identity = await this.googleVerifier.verify(request.body?.idToken);
+
+    if (!identity.email) {
+      throw new UnauthorizedException("Google authentication failed: No email provided");
+    }
+
+    if (!identity.emailVerified) {
+      throw new UnauthorizedException("Google authentication failed: Email is not verified");
+    }
+
+    return {
+      email: identity.email,
+      googleId: identity.providerId,
+      name: identity.name || identity.email.split('@')[0], // Fallback name from email
+    };
+  }
+}
@@ -0,0 +1,144 @@
+import { ConfigService } from "@nestjs/config";
+import { FindOperator, Repository } from "typeorm";
+import { ValkeyService } from "../../services/valkey.service";
+import { Session } from "../entities/session.entity";
+import { RefreshToken } from "../entities/refresh-token.entity";
+import { SessionsService } from "../sessions.service";
+import { TokenService } from "../token.service";
+import { JwtStrategy } from "./jwt.strategy";
+
+const USER_ID = "3f0c1a52-6c1e-4a35-9d55-3c0f7d7e8b21";
+const OTHER_USER_ID = "9b2d7e41-0c3a-4f6e-8a1b-5d4c3b2a1f00";
+
+/**
+ * Matches a session against the where options SessionsService uses
+ */
+function matches(session: Session, where: Record<string, any>): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    const value = session[key as keyof Session];
+    if (!(condition instanceof FindOperator)) {
+      return value === condition;
+    }
+    switch (condition.type) {
+      case "isNull":
+        return value == null;
+      case "moreThan":
+        return value > condition.value;
+      case "not":
+        return value !== condition.value;
+      case "in":
+        return (condition.value as unknown[]).includes(value);
+      default:
+        throw new Error(`Unsupported operator ${condition.type}`);
+    }
+  });
+}
+
+function createSessionRepository(sessions: Map<string, Session>): Repository<Session> {
+  return {
+    findOne: jest.fn(async ({ where }) => [...sessions.values()].find((session) => matches(session, where)) || null),
+    find: async ({ where }) => [...sessions.values()].filter((session) => matches(session, where)),
+    save: async (session: Session) => (sessions.set(session.id, { ...session }), session),
+    update: async (where: Record<string, any>, values: Partial<Session>) => {
+      const updated = [...sessions.values()].filter((session) => matches(session, where));
+      updated.forEach((session) => Object.assign(session, values));
+      return { affected: updated.length };
+    },
+  } as unknown as Repository<Session>;
+}
+
+function createValkey(): ValkeyService {
+  const values = new Map<string, unknown>();
+  return {
+    getJson: async (key: string) => values.get(key) ?? null,
+    setJson: async (key: string, value: unknown) => void values.set(key, value),
+    delete: async (key: string) => void values.delete(key),
+  } as unknown as ValkeyService;
+}
+
+function createSession(id: string, userId = USER_ID): Session {
+  return Object.assign(new Session(), {
+    id,
+    userId,
+    lastUsedAt: new Date(),
+    expiresAt: new Date(Date.now() + 3600 * 1000),
+    revokedAt: null,
+  });
+}
+
+describe("JwtStrategy", () => {
+  let sessions: Map<string, Session>;
+  let sessionRepository: Repository<Session>;
+  let sessionsService: SessionsService;
+  let strategy: JwtStrategy;
+
+  beforeEach(() => {
+    sessions = new Map(["phone", "tablet", "laptop"].map((id) => [id, createSession(id)]));
+    sessionRepository = createSessionRepository(sessions);
+    const configService = new ConfigService({ JWT_SECRET: "test-secret" });
+    sessionsService = new SessionsService(
+      sessionRepository,
+      {} as Repository<RefreshToken>,
+      {} as TokenService,
+      createValkey(),
+      configService
+    );
+    strategy = new JwtStrategy(configService, sessionsService);
+  });
+
+  it("accepts an access token of an active session", async () => {
+    await expect(strategy.validate({ sub: USER_ID, sid: "phone" })).resolves.toEqual({
+      userId: USER_ID,
+      email: undefined,
+      sessionId: "phone",
+    });
+  });
+
+  it("caches an active session", async () => {
+    await strategy.validate({ sub: USER_ID, sid: "phone" });
+    await strategy.validate({ sub: USER_ID, sid: "phone" });
+
+    expect(sessionRepository.findOne).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects an access token of a logged out session right away", async () => {
+    await strategy.validate({ sub: USER_ID, sid: "phone" });
+
+    await sessionsService.revoke(USER_ID, "phone");
+
+    await expect(strategy.validate({ sub: USER_ID, sid: "phone" })).rejects.toThrow("Session has been revoked");
+  });
+
+  it("rejects the access tokens of the other devices after logging them out", async () => {
+    await strategy.validate({ sub: USER_ID, sid: "tablet" });
+    await strategy.validate({ sub: USER_ID, sid: "laptop" });
+
+    await sessionsService.revokeAllExcept(USER_ID, "phone");
+
+    await expect(strategy.validate({ sub: USER_ID, sid: "tablet" })).rejects.toThrow("Session has been revoked");
+    await expect(strategy.validate({ sub: USER_ID, sid: "laptop" })).rejects.toThrow("Session has been revoked");
+    await expect(strategy.validate({ sub: USER_ID, sid: "phone" })).resolves.toMatchObject({ sessionId: "phone" });
+  });
+
+  it("rejects an access token of an expired session", async () => {
+    sessions.get("phone").expiresAt = new Date(Date.now() - 1000);
+
+    await expect(strategy.validate({ sub: USER_ID, sid: "phone" })).rejects.toThrow("Session has been revoked");
+  });
+
+  it("rejects an access token for a session of another user", async () => {
+    await strategy.validate({ sub: USER_ID, sid: "phone" });
+
+    await expect(strategy.validate({ sub: OTHER_USER_ID, sid: "phone" })).rejects.toThrow(
+      "Session has been revoked"
+    );
+  });
+
+  it("rejects an access token without a session", async () => {
+    await expect(strategy.validate({ sub: USER_ID })).rejects.toThrow("Session has been revoked");
+  });
+
+  it("rejects a two-factor challenge token", async () => {
+    await expect(strategy.validate({ sub: USER_ID, sid: "phone", typ: "2fa_challenge" })).rejects.toThrow();
+  });
+});
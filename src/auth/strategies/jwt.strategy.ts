@@ -1,11 +1,15 @@
 import { ExtractJwt, Strategy } from "passport-jwt";
 import { PassportStrategy } from "@nestjs/passport";
-import { Injectable } from "@nestjs/common";
+import { Injectable, UnauthorizedException } from "@nestjs/common";
 import { ConfigService } from "@nestjs/config";
+import { SessionsService } from "../sessions.service";
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
-  constructor(private configService: ConfigService) {
+  constructor(
+    private configService: ConfigService,
+    private sessionsService: SessionsService
+  ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       ignoreExpiration: false,
@@ -14,6 +18,16 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
   }
 
   async validate(payload: any) {
-    return { userId: payload.sub, email: payload.email };
+    // Other tokens signed with the same secret, e.g. two-factor challenges, are typed
+    if (payload.typ) {
+      throw new UnauthorizedException();
+    }
+
+    // Access tokens stop working as soon as their session is logged out or revoked
+    if (!payload.sid || !(await this.sessionsService.isActive(payload.sub, payload.sid))) {
+      throw new UnauthorizedException("Session has been revoked");
+    }
+
+    return { userId: payload.sub, email: payload.email, sessionId: payload.sid };
   }
 }
@@ -2,20 +2,31 @@ import { Strategy } from "passport-local";
 import { PassportStrategy } from "@nestjs/passport";
 import { Injectable, UnauthorizedException } from "@nestjs/common";
 import { AuthService } from "../auth.service";
+import { LoginThrottleService } from "../login-throttle.service";
+import { getClientContext } from "../client-context";
 
 @Injectable()
 export class LocalStrategy extends PassportStrategy(Strategy) {
-  constructor(private authService: AuthService) {
+  constructor(
+    private authService: AuthService,
+    private loginThrottleService: LoginThrottleService
+  ) {
     super({
       usernameField: "username",
+      passReqToCallback: true,
     });
   }
 
-  async validate(username: string, password: string): Promise<any> {
-    const user = await this.authService.validateUser(username, password);
+  async validate(req: any, username: string, password: string): Promise<any> {
+    const attempt = await this.loginThrottleService.startAttempt(username, req.ip);
+
+    const user = await this.authService.validateUser(username, password, getClientContext(req, req.body));
     if (!user) {
+      await this.loginThrottleService.recordFailure(attempt);
       throw new UnauthorizedException("Invalid username/email or password");
     }
+
+    await this.loginThrottleService.recordSuccess(attempt);
     return user;
   }
 }
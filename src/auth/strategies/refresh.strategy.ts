@@ -1,4 +1,4 @@
-import { Strategy } from "passport-local";
+import { Strategy } from "passport-custom";
 import { PassportStrategy } from "@nestjs/passport";
 import { Injectable, UnauthorizedException } from "@nestjs/common";
 import {AuthService} from "../auth.service";
@@ -8,27 +8,35 @@ export class RefreshStrategy extends PassportStrategy(Strategy, "refresh") {
   constructor(
     private authService: AuthService,
   ) {
-    super({
-      usernameField: "username",
-      passwordField: "refreshToken",
-    });
+    super();
   }
 
-  async validate(username: string, refreshToken: string): Promise<any> {
-    const result = await this.authService.validateRefreshToken(username, refreshToken);
-    
-    if (!result) {
-      throw new UnauthorizedException("Invalid refresh token");
+  /**
+   * Validate and rotate the refresh token sent in the request body
+   * @param request The request object containing the refresh token
+   * @returns The user and the ID of the session the token belongs to
+   */
+  async validate(request: any): Promise<any> {
+    const refreshToken = request.body?.refreshToken;
+
+    if (!refreshToken) {
+      throw new UnauthorizedException("Refresh token is required");
     }
+
+    const result = await this.authService.validateRefreshToken(refreshToken);
     
     if (result.status === 'expired') {
       throw new UnauthorizedException("Token expired");
     }
     
-    if (result.status === 'invalid') {
+    if (result.status === 'reused') {
+      throw new UnauthorizedException("Refresh token reuse detected. Please log in again");
+    }
+    
+    if (result.status !== 'valid') {
       throw new UnauthorizedException("Invalid refresh token");
     }
     
     return result.user;
   }
-}
\ No newline at end of file
+}
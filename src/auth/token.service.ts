@@ -1,9 +1,12 @@
-import {Injectable} from "@nestjs/common";
+import {Injectable, UnauthorizedException} from "@nestjs/common";
 import {JwtService} from "@nestjs/jwt";
 import {ConfigService} from "@nestjs/config";
 import * as crypto from "crypto";
 import * as bcrypt from "bcrypt";
 
+// Marks tokens that are not access tokens, see JwtStrategy
+export const TWO_FACTOR_CHALLENGE_TOKEN_TYPE = "2fa_challenge";
+
 @Injectable()
 export class TokenService {
     constructor(
@@ -12,32 +15,15 @@ export class TokenService {
     ) {
     }
 
-    /**
-     * Generate access and refresh tokens for a user
-     * @param userId User ID
-     * @returns Object containing access and refresh tokens
-     */
-    async generateAuthTokens(userId: string) {
-        // Generate access token using JWT
-        const accessToken = await this.generateAccessToken(userId);
-
-        // Generate a random refresh token
-        const refreshToken = this.generateRefreshToken();
-
-        return {
-            accessToken,
-            refreshToken,
-        };
-    }
-
     /**
      * Generate JWT access token for a user
      * @param userId User ID
+     * @param sessionId ID of the session the token belongs to
      * @returns JWT access token
      */
-    async generateAccessToken(userId: string): Promise<string> {
+    async generateAccessToken(userId: string, sessionId: string): Promise<string> {
         return this.jwtService.signAsync(
-            {sub: userId},
+            {sub: userId, sid: sessionId},
             {
                 secret: this.configService.get("JWT_SECRET"),
                 expiresIn: this.configService.get("JWT_EXPIRATION", "15m"),
@@ -67,4 +53,40 @@ export class TokenService {
             }
         );
     }
+
+    /**
+     * Generate a short-lived JWT token proving the password of a user with two-factor
+     * authentication was verified. It cannot be used as an access token.
+     * @param userId User ID
+     * @returns JWT token
+     */
+    async generateTwoFactorChallengeToken(userId: string): Promise<string> {
+        return this.jwtService.signAsync(
+            {sub: userId, typ: TWO_FACTOR_CHALLENGE_TOKEN_TYPE},
+            {
+                secret: this.configService.get("JWT_SECRET"),
+                expiresIn: this.configService.get("TWO_FACTOR_CHALLENGE_EXPIRATION", "5m"),
+            }
+        );
+    }
+
+    /**
+     * Verify a two-factor challenge token
+     * @param token Challenge token returned by the login
+     * @returns ID of the user who logged in
+     */
+    async verifyTwoFactorChallengeToken(token: string): Promise<string> {
+        try {
+            const payload = await this.jwtService.verifyAsync(token, {
+                secret: this.configService.get("JWT_SECRET"),
+            });
+            if (payload.typ === TWO_FACTOR_CHALLENGE_TOKEN_TYPE && payload.sub) {
+                return payload.sub;
+            }
+        } catch (error) {
+            // Handled below like a token of the wrong type
+        }
+
+        throw new UnauthorizedException("Invalid or expired challenge token");
+    }
 }
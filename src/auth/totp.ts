@@ -0,0 +1,136 @@
+import * as crypto from "crypto";
+
+/**
+ * Time-based one-time passwords (RFC 6238) as used by authenticator apps:
+ * HMAC-SHA1, 6 digits, 30-second steps.
+ */
+
+export const TOTP_DIGITS = 6;
+export const TOTP_STEP_SECONDS = 30;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+/**
+ * Encode bytes as unpadded base32 (RFC 4648), the format authenticator apps expect secrets in
+ */
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Decode base32, ignoring case, spaces and padding
+ */
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/[\s=]/g, "");
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Generate a new random secret (160 bits, as recommended by RFC 4226)
+ * @returns Base32 encoded secret
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+/**
+ * Get the time step an instant falls into
+ */
+export function getTotpStep(time: number = Date.now()): number {
+  return Math.floor(time / 1000 / TOTP_STEP_SECONDS);
+}
+
+/**
+ * Generate the code of a time step
+ * @param secret Base32 encoded secret
+ * @param step Time step
+ */
+export function generateTotp(secret: string, step: number = getTotpStep()): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = crypto.createHmac("sha1", base32Decode(secret)).update(counter).digest();
+
+  // Dynamic truncation (RFC 4226, section 5.3)
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, "0");
+}
+
+/**
+ * Find the time step a code was generated for, allowing for clock drift
+ * @param secret Base32 encoded secret
+ * @param code Code entered by the user
+ * @param window Steps accepted before and after the current one
+ * @param time Current time
+ * @returns The matching time step, or null if the code is invalid
+ */
+export function verifyTotp(secret: string, code: string, window = 1, time: number = Date.now()): number | null {
+  if (!/^\d+$/.test(code) || code.length !== TOTP_DIGITS) {
+    return null;
+  }
+
+  const currentStep = getTotpStep(time);
+  for (let step = currentStep - window; step <= currentStep + window; step++) {
+    if (crypto.timingSafeEqual(Buffer.from(generateTotp(secret, step)), Buffer.from(code))) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Build the otpauth:// URI authenticator apps import secrets from, usually shown as a QR code
+ * @param secret Base32 encoded secret
+ * @param accountName Account the secret belongs to, shown in the app
+ * @param issuer Name of the service, shown in the app
+ */
+export function buildOtpauthUri(secret: string, accountName: string, issuer: string): string {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}`;
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
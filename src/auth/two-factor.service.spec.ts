@@ -0,0 +1,188 @@
+import { HttpException } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { Repository } from "typeorm";
+import { ValkeyService } from "../services/valkey.service";
+import { TwoFactorAuth } from "./entities/two-factor-auth.entity";
+import { TOTP_STEP_SECONDS, generateTotp } from "./totp";
+import { TwoFactorService } from "./two-factor.service";
+
+const USER_ID = "3f0c1a52-6c1e-4a35-9d55-3c0f7d7e8b21";
+
+/**
+ * Failure windows kept in memory. Every call yields to the event loop, so that
+ * concurrent verifications interleave like separate requests.
+ */
+class InMemoryValkey {
+  windows = new Map<string, Set<string>>();
+
+  async addToSlidingWindow(key: string, _windowInSeconds: number, member: string): Promise<number> {
+    await Promise.resolve();
+    const window = this.windows.get(key) || new Set<string>();
+    window.add(member);
+    this.windows.set(key, window);
+    return window.size;
+  }
+
+  async removeFromSlidingWindow(key: string, member: string): Promise<void> {
+    await Promise.resolve();
+    this.windows.get(key)?.delete(member);
+  }
+
+  async delete(key: string): Promise<void> {
+    await Promise.resolve();
+    this.windows.delete(key);
+  }
+}
+
+/**
+ * Two-factor settings of one user, with the conditional updates of TwoFactorService
+ */
+function createRepository(): Repository<TwoFactorAuth> & { row: TwoFactorAuth | null } {
+  const repository = {
+    row: null as TwoFactorAuth | null,
+    create: (data: Partial<TwoFactorAuth>) => Object.assign(new TwoFactorAuth(), data),
+    save: async (row: TwoFactorAuth) => (repository.row = { ...row }),
+    findOne: async () => (repository.row ? { ...repository.row } : null),
+    exists: async () => Boolean(repository.row?.enabledAt),
+    update: async (_: unknown, values: Partial<TwoFactorAuth>) => void Object.assign(repository.row, values),
+    delete: async () => void (repository.row = null),
+    createQueryBuilder: () => {
+      let values: Record<string, any>;
+      const builder = {
+        update: () => builder,
+        set: (set: Record<string, any>) => ((values = set), builder),
+        where: (_: string, params: Record<string, any>) => ({
+          execute: async () => {
+            await Promise.resolve();
+            const row = repository.row;
+            if ("lastUsedStep" in values) {
+              if (row.lastUsedStep !== null && row.lastUsedStep >= params.step) {
+                return { affected: 0 };
+              }
+              row.lastUsedStep = params.step;
+              return { affected: 1 };
+            }
+            if (!row.recoveryCodeHashes.includes(params.hash)) {
+              return { affected: 0 };
+            }
+            row.recoveryCodeHashes = row.recoveryCodeHashes.filter((hash) => hash !== params.hash);
+            return { affected: 1 };
+          },
+        }),
+      };
+      return builder;
+    },
+  };
+  return repository as unknown as Repository<TwoFactorAuth> & { row: TwoFactorAuth | null };
+}
+
+async function verify(service: TwoFactorService, code: string): Promise<number | null> {
+  try {
+    await service.verifyLoginCode(USER_ID, code);
+    return null;
+  } catch (error) {
+    return error instanceof HttpException ? error.getStatus() : -1;
+  }
+}
+
+describe("TwoFactorService", () => {
+  let now: number;
+  let repository: ReturnType<typeof createRepository>;
+  let service: TwoFactorService;
+  let secret: string;
+  let recoveryCodes: string[];
+
+  function nextCode(): string {
+    now += TOTP_STEP_SECONDS * 1000;
+    return generateTotp(secret, Math.floor(now / 1000 / TOTP_STEP_SECONDS));
+  }
+
+  beforeEach(async () => {
+    now = Date.parse("2025-07-24T09:00:00Z");
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+    repository = createRepository();
+    service = new TwoFactorService(
+      repository,
+      new InMemoryValkey() as unknown as ValkeyService,
+      new ConfigService({ TWO_FACTOR_MAX_FAILURES: 5 })
+    );
+
+    ({ secret } = await service.startEnrollment(USER_ID, "jane@example.com"));
+    recoveryCodes = await service.confirmEnrollment(USER_ID, generateTotp(secret));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("accepts a code from the authenticator app once", async () => {
+    const code = nextCode();
+
+    expect(await verify(service, code)).toBeNull();
+    await expect(service.verifyLoginCode(USER_ID, code)).rejects.toThrow("This code has already been used");
+  });
+
+  it("rejects a wrong code from the authenticator app", async () => {
+    await expect(service.verifyLoginCode(USER_ID, "000000")).rejects.toThrow("Invalid code");
+  });
+
+  it("accepts a recovery code once, however it is typed", async () => {
+    const [code] = recoveryCodes;
+
+    expect(await verify(service, code.toUpperCase().replace("-", " "))).toBeNull();
+    await expect(service.verifyLoginCode(USER_ID, code)).rejects.toThrow("Invalid code");
+    expect(repository.row.recoveryCodeHashes).toHaveLength(recoveryCodes.length - 1);
+  });
+
+  it("blocks verification after too many wrong codes, even for the right one", async () => {
+    for (let i = 0; i < 5; i++) {
+      expect(await verify(service, "000000")).toBe(400);
+    }
+
+    expect(await verify(service, nextCode())).toBe(429);
+    expect(await verify(service, recoveryCodes[0])).toBe(429);
+  });
+
+  it("does not check more codes than allowed when they arrive concurrently", async () => {
+    const guesses = Array.from({ length: 20 }, (_, i) => String(i).padStart(6, "0"));
+    const code = nextCode();
+
+    const results = await Promise.all([...guesses, code].map((guess) => verify(service, guess)));
+
+    expect(results.filter((status) => status === 400)).toHaveLength(5);
+    expect(results.filter((status) => status === 429)).toHaveLength(16);
+  });
+
+  it("limits concurrent recovery code guesses too", async () => {
+    const guesses = Array.from({ length: 20 }, (_, i) => `aaaa${i}-bbbbb`);
+
+    const results = await Promise.all([...guesses, recoveryCodes[0]].map((guess) => verify(service, guess)));
+
+    expect(results.filter((status) => status === 400)).toHaveLength(5);
+    expect(results.filter((status) => status === 429)).toHaveLength(16);
+    expect(repository.row.recoveryCodeHashes).toHaveLength(recoveryCodes.length);
+  });
+
+  it("clears the failures after a right code", async () => {
+    for (let i = 0; i < 4; i++) {
+      await verify(service, "000000");
+    }
+    expect(await verify(service, nextCode())).toBeNull();
+
+    for (let i = 0; i < 4; i++) {
+      expect(await verify(service, "000000")).toBe(400);
+    }
+    expect(await verify(service, nextCode())).toBeNull();
+  });
+
+  it("does not count a reused right code as a wrong one", async () => {
+    const code = nextCode();
+    await verify(service, code);
+    for (let i = 0; i < 4; i++) {
+      await verify(service, "000000");
+    }
+
+    expect(await verify(service, code)).toBe(400);
+    expect(await verify(service, nextCode())).toBeNull();
+  });
+});
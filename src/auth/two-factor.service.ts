@@ -0,0 +1,268 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  HttpException,
+  HttpStatus,
+} from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { InjectRepository } from "@nestjs/typeorm";
+import { IsNull, Not, Repository } from "typeorm";
+import * as crypto from "crypto";
+import { ValkeyService } from "../services/valkey.service";
+import { TwoFactorAuth } from "./entities/two-factor-auth.entity";
+import { TOTP_DIGITS, buildOtpauthUri, generateTotpSecret, verifyTotp } from "./totp";
+
+const RECOVERY_CODE_COUNT = 10;
+
+export interface TwoFactorSettings {
+  // Name of the service shown in authenticator apps
+  issuer: string;
+  // Wrong codes within the window after which verification is blocked
+  maxFailures: number;
+  failureWindowSeconds: number;
+}
+
+/**
+ * TOTP two-factor authentication: enrollment, recovery codes and code verification
+ */
+@Injectable()
+export class TwoFactorService {
+  constructor(
+    @InjectRepository(TwoFactorAuth)
+    private twoFactorRepository: Repository<TwoFactorAuth>,
+    private valkeyService: ValkeyService,
+    private configService: ConfigService
+  ) {}
+
+  getSettings(): TwoFactorSettings {
+    return {
+      issuer: this.configService.get("TWO_FACTOR_ISSUER", "CashPop"),
+      maxFailures: Number(this.configService.get("TWO_FACTOR_MAX_FAILURES", 5)),
+      failureWindowSeconds: Number(this.configService.get("TWO_FACTOR_FAILURE_WINDOW_SECONDS", 900)),
+    };
+  }
+
+  async isEnabled(userId: string): Promise<boolean> {
+    return this.twoFactorRepository.exists({ where: { userId, enabledAt: Not(IsNull()) } });
+  }
+
+  /**
+   * Get whether two-factor authentication is enabled and how many recovery codes are left
+   * @param userId User's ID
+   */
+  async getStatus(userId: string): Promise<{ enabled: boolean; recoveryCodesRemaining: number }> {
+    const twoFactor = await this.twoFactorRepository.findOne({ where: { userId } });
+    const enabled = Boolean(twoFactor?.enabledAt);
+
+    return {
+      enabled,
+      recoveryCodesRemaining: enabled ? twoFactor.recoveryCodeHashes.length : 0,
+    };
+  }
+
+  /**
+   * Start enrollment with a new secret, replacing any unfinished enrollment
+   * @param userId User's ID
+   * @param accountName Account name shown in the authenticator app
+   * @returns The secret and the otpauth URI to add it to an authenticator app
+   */
+  async startEnrollment(userId: string, accountName: string): Promise<{ secret: string; otpauthUri: string }> {
+    if (await this.isEnabled(userId)) {
+      throw new ConflictException("Two-factor authentication is already enabled");
+    }
+
+    const secret = generateTotpSecret();
+    await this.twoFactorRepository.save(
+      this.twoFactorRepository.create({
+        userId,
+        secret,
+        enabledAt: null,
+        recoveryCodeHashes: [],
+        lastUsedStep: null,
+      })
+    );
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(secret, accountName, this.getSettings().issuer),
+    };
+  }
+
+  /**
+   * Enable two-factor authentication once the first code from the authenticator app is verified
+   * @param userId User's ID
+   * @param code Code from the authenticator app
+   * @returns Recovery codes, shown to the user only this once
+   */
+  async confirmEnrollment(userId: string, code: string): Promise<string[]> {
+    const twoFactor = await this.twoFactorRepository.findOne({ where: { userId } });
+    if (!twoFactor) {
+      throw new BadRequestException("Two-factor enrollment has not been started");
+    }
+    if (twoFactor.enabledAt) {
+      throw new ConflictException("Two-factor authentication is already enabled");
+    }
+
+    await this.verifyTotpCode(twoFactor, code);
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.twoFactorRepository.update(
+      { userId },
+      { enabledAt: new Date(), recoveryCodeHashes: recoveryCodes.map((item) => this.hashRecoveryCode(item)) }
+    );
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Verify a code for login, from the authenticator app or one of the recovery codes.
+   * Recovery codes can be used only once.
+   * @param userId User's ID
+   * @param code Code from the authenticator app, or a recovery code
+   */
+  async verifyLoginCode(userId: string, code: string): Promise<void> {
+    const twoFactor = await this.findEnabled(userId);
+
+    if (code.length === TOTP_DIGITS) {
+      await this.verifyTotpCode(twoFactor, code);
+      return;
+    }
+
+    await this.startAttempt(userId);
+
+    // Remove the code in the same statement that checks it, so that it cannot be used twice concurrently
+    const result = await this.twoFactorRepository
+      .createQueryBuilder()
+      .update()
+      .set({ recoveryCodeHashes: () => "array_remove(recovery_code_hashes, :hash)" })
+      .where("user_id = :userId AND :hash = ANY(recovery_code_hashes)", {
+        userId,
+        hash: this.hashRecoveryCode(code),
+      })
+      .execute();
+
+    if (!result.affected) {
+      throw new BadRequestException("Invalid code");
+    }
+
+    await this.valkeyService.delete(this.getFailuresKey(userId));
+  }
+
+  /**
+   * Replace the recovery codes with new ones
+   * @param userId User's ID
+   * @param code Current code from the authenticator app
+   * @returns The new recovery codes
+   */
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+    const twoFactor = await this.findEnabled(userId);
+    await this.verifyTotpCode(twoFactor, code);
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.twoFactorRepository.update(
+      { userId },
+      { recoveryCodeHashes: recoveryCodes.map((item) => this.hashRecoveryCode(item)) }
+    );
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Disable two-factor authentication, which requires a current code from the authenticator app
+   * @param userId User's ID
+   * @param code Current code from the authenticator app
+   */
+  async disable(userId: string, code: string): Promise<void> {
+    const twoFactor = await this.findEnabled(userId);
+    await this.verifyTotpCode(twoFactor, code);
+    await this.twoFactorRepository.delete({ userId });
+  }
+
+  /**
+   * Remove two-factor authentication without a code, once the user proved access to their
+   * email because the authenticator app was lost
+   * @param userId User's ID
+   */
+  async reset(userId: string): Promise<void> {
+    await this.twoFactorRepository.delete({ userId });
+    await this.valkeyService.delete(this.getFailuresKey(userId));
+  }
+
+  private async findEnabled(userId: string): Promise<TwoFactorAuth> {
+    const twoFactor = await this.twoFactorRepository.findOne({ where: { userId } });
+    if (!twoFactor?.enabledAt) {
+      throw new BadRequestException("Two-factor authentication is not enabled");
+    }
+    return twoFactor;
+  }
+
+  /**
+   * Check a code from the authenticator app. Each code is accepted only once, and
+   * verification is blocked for a while after too many wrong codes.
+   */
+  private async verifyTotpCode(twoFactor: TwoFactorAuth, code: string): Promise<void> {
+    const attempt = await this.startAttempt(twoFactor.userId);
+
+    const step = verifyTotp(twoFactor.secret, code);
+    if (step === null) {
+      throw new BadRequestException("Invalid code");
+    }
+
+    // Only move forward in time, so that a code replayed within its validity is rejected
+    const result = await this.twoFactorRepository
+      .createQueryBuilder()
+      .update()
+      .set({ lastUsedStep: step })
+      .where("user_id = :userId AND (last_used_step IS NULL OR last_used_step < :step)", {
+        userId: twoFactor.userId,
+        step,
+      })
+      .execute();
+
+    if (!result.affected) {
+      // The right code, only too early again; that is no guess
+      await this.valkeyService.removeFromSlidingWindow(this.getFailuresKey(twoFactor.userId), attempt);
+      throw new BadRequestException("This code has already been used. Please wait for the next one.");
+    }
+
+    await this.valkeyService.delete(this.getFailuresKey(twoFactor.userId));
+  }
+
+  /**
+   * Count a code attempt as a failure before the code is checked, so that concurrent
+   * guesses cannot all pass the limit; a right code clears the failures again
+   * @returns ID of the attempt in the failure window
+   */
+  private async startAttempt(userId: string): Promise<string> {
+    const settings = this.getSettings();
+    const key = this.getFailuresKey(userId);
+    const attempt = crypto.randomUUID();
+
+    const failures = await this.valkeyService.addToSlidingWindow(key, settings.failureWindowSeconds, attempt);
+    if (failures > settings.maxFailures) {
+      // Blocked attempts are not counted, so that the block ends with the window
+      await this.valkeyService.removeFromSlidingWindow(key, attempt);
+      throw new HttpException("Too many invalid codes. Please try again later.", HttpStatus.TOO_MANY_REQUESTS);
+    }
+
+    return attempt;
+  }
+
+  private getFailuresKey(userId: string): string {
+    return `two_factor:failures:${userId}`;
+  }
+
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const code = crypto.randomBytes(5).toString("hex");
+      return `${code.slice(0, 5)}-${code.slice(5)}`;
+    });
+  }
+
+  private hashRecoveryCode(code: string): string {
+    // Recovery codes are random, so a fast hash is enough; ignore case and separators when they're typed in
+    const normalized = code.toLowerCase().replace(/[^0-9a-z]/g, "");
+    return crypto.createHash("sha256").update(normalized).digest("hex");
+  }
+}
@@ -0,0 +1,116 @@
+import { ConfigService } from "@nestjs/config";
+import { JwtService } from "@nestjs/jwt";
+import { createHash, generateKeyPairSync } from "crypto";
+import { IdTokenService } from "../jwks/id-token.service";
+import { StaticJwksProvider } from "../jwks/jwks-provider";
+import { AppleVerifier } from "./apple.verifier";
+
+const CLIENT_ID = "com.cashpop.app";
+const KEY_ID = "apple-key-1";
+const NONCE = "raw-nonce-from-the-app";
+
+const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+const jwtService = new JwtService();
+
+function createVerifier(): AppleVerifier {
+  return new AppleVerifier(
+    new ConfigService({ APPLE_CLIENT_ID: CLIENT_ID }),
+    new IdTokenService(jwtService),
+    new StaticJwksProvider([{ ...publicKey.export({ format: "jwk" }), kid: KEY_ID }])
+  );
+}
+
+function buildToken(claims: Record<string, any> = {}, keyId = KEY_ID): string {
+  const now = Math.floor(Date.now() / 1000);
+  return jwtService.sign(
+    {
+      iss: "https://appleid.apple.com",
+      aud: CLIENT_ID,
+      sub: "001234.5a6b7c8d9e0f.1234",
+      email: "x7k2p9@privaterelay.appleid.com",
+      email_verified: "true",
+      is_private_email: "true",
+      nonce: createHash("sha256").update(NONCE).digest("hex"),
+      iat: now,
+      exp: now + 600,
+      ...claims,
+    },
+    { secret: privateKey.export({ format: "pem", type: "pkcs8" }).toString(), algorithm: "RS256", keyid: keyId }
+  );
+}
+
+describe("AppleVerifier", () => {
+  it("accepts a valid identity token with the hashed nonce", async () => {
+    await expect(createVerifier().verify(buildToken(), NONCE)).resolves.toEqual({
+      providerId: "001234.5a6b7c8d9e0f.1234",
+      email: "x7k2p9@privaterelay.appleid.com",
+      emailVerified: true,
+      name: null,
+      isPrivateEmail: true,
+    });
+  });
+
+  it("rejects a token whose nonce is not the hash of the given nonce", async () => {
+    await expect(createVerifier().verify(buildToken(), "another-nonce")).rejects.toThrow(
+      "Apple identity token nonce mismatch"
+    );
+  });
+
+  it("rejects a token carrying the raw nonce instead of its hash", async () => {
+    await expect(createVerifier().verify(buildToken({ nonce: NONCE }), NONCE)).rejects.toThrow(
+      "Apple identity token nonce mismatch"
+    );
+  });
+
+  it("rejects a token without a nonce when the app sent one", async () => {
+    await expect(createVerifier().verify(buildToken({ nonce: undefined }), NONCE)).rejects.toThrow(
+      "Apple identity token nonce mismatch"
+    );
+  });
+
+  it("rejects a token for another audience", async () => {
+    await expect(createVerifier().verify(buildToken({ aud: "com.example.other" }), NONCE)).rejects.toThrow(
+      "Invalid Apple ID token"
+    );
+  });
+
+  it("rejects a token from another issuer", async () => {
+    await expect(createVerifier().verify(buildToken({ iss: "https://appleid.example.com" }), NONCE)).rejects.toThrow(
+      "Invalid Apple ID token"
+    );
+  });
+
+  it("rejects an expired token", async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const token = buildToken({ iat: now - 1200, exp: now - 600 });
+
+    await expect(createVerifier().verify(token, NONCE)).rejects.toThrow("Apple ID token has expired");
+  });
+
+  it("rejects a token signed with an unknown key", async () => {
+    await expect(createVerifier().verify(buildToken({}, "apple-key-2"), NONCE)).rejects.toThrow(
+      "Unknown Apple signing key"
+    );
+  });
+
+  it.each([false, "false", undefined])("drops the email when email_verified is %p", async (emailVerified) => {
+    const token = buildToken({ email_verified: emailVerified });
+
+    await expect(createVerifier().verify(token, NONCE)).resolves.toMatchObject({
+      email: null,
+      emailVerified: false,
+    });
+  });
+
+  it("rejects tokens when no client ID is configured", async () => {
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    const verifier = new AppleVerifier(
+      new ConfigService({}),
+      new IdTokenService(jwtService),
+      new StaticJwksProvider([{ ...publicKey.export({ format: "jwk" }), kid: KEY_ID }])
+    );
+
+    await expect(verifier.verify(buildToken(), NONCE)).rejects.toThrow("Apple authentication is not configured");
+    jest.restoreAllMocks();
+  });
+});
@@ -0,0 +1,72 @@
+import { Inject, Injectable, UnauthorizedException } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import * as crypto from "crypto";
+import { IdTokenService } from "../jwks/id-token.service";
+import { APPLE_JWKS_PROVIDER, JwksProvider } from "../jwks/jwks-provider";
+import { VerifiedIdentity } from "./verified-identity";
+
+const APPLE_ISSUER = "https://appleid.apple.com";
+
+interface AppleIdTokenPayload {
+  sub: string;
+  email?: string;
+  email_verified?: boolean | string;
+  is_private_email?: boolean | string;
+  nonce?: string;
+}
+
+export interface VerifiedAppleIdentity extends VerifiedIdentity {
+  // Whether the email is a private relay address
+  isPrivateEmail: boolean;
+}
+
+@Injectable()
+export class AppleVerifier {
+  constructor(
+    private configService: ConfigService,
+    private idTokenService: IdTokenService,
+    @Inject(APPLE_JWKS_PROVIDER)
+    private jwksProvider: JwksProvider
+  ) {
+    // Log a warning if credentials are missing
+    if (!configService.get("APPLE_CLIENT_ID")) {
+      console.warn('Apple authentication is disabled due to missing client ID');
+    }
+  }
+
+  /**
+   * Validate an Apple identity token against Apple's signing keys
+   * @param identityToken Identity token from the Apple credential
+   * @param nonce Raw nonce whose SHA-256 the app passed to Apple, if any
+   * @returns The Apple account the token was issued for. Apple never puts the name in the token.
+   */
+  async verify(identityToken: string, nonce?: string): Promise<VerifiedAppleIdentity> {
+    if (!identityToken) {
+      throw new UnauthorizedException("Apple identity token is required");
+    }
+
+    const clientId = this.configService.get<string>("APPLE_CLIENT_ID");
+    const payload = await this.idTokenService.verify<AppleIdTokenPayload>(identityToken, {
+      provider: "Apple",
+      jwksProvider: this.jwksProvider,
+      issuers: [APPLE_ISSUER],
+      audiences: clientId ? [clientId] : [],
+    });
+
+    // The app passes the SHA-256 of the raw nonce to Apple
+    if (nonce && payload.nonce !== crypto.createHash("sha256").update(nonce).digest("hex")) {
+      throw new UnauthorizedException("Apple identity token nonce mismatch");
+    }
+
+    // Apple only includes the email if the user shared it; private relay addresses are verified too
+    const emailVerified = payload.email_verified === true || payload.email_verified === "true";
+
+    return {
+      providerId: payload.sub,
+      email: payload.email && emailVerified ? payload.email : null,
+      emailVerified,
+      name: null,
+      isPrivateEmail: payload.is_private_email === true || payload.is_private_email === "true",
+    };
+  }
+}
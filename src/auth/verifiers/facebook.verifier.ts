@@ -0,0 +1,55 @@
+import { Injectable, UnauthorizedException } from "@nestjs/common";
+import axios from "axios";
+import { VerifiedIdentity } from "./verified-identity";
+
+@Injectable()
+export class FacebookVerifier {
+  /**
+   * Validate a Facebook access token by making a request to the Facebook Graph API
+   * @param token Facebook access token from the mobile client
+   * @returns The Facebook account the token belongs to
+   */
+  async verify(token: string): Promise<VerifiedIdentity> {
+    if (!token) {
+      throw new UnauthorizedException("Facebook token is required");
+    }
+
+    try {
+      // Make a request to the Facebook Graph API to validate the token and get user information
+      const response = await axios.get(
+        `https://graph.facebook.com/me?fields=email,id,name&access_token=${token}`
+      );
+
+      const { email, id, name } = response.data;
+
+      console.log('✅ Facebook token validated successfully');
+      console.log('📋 User info:', { id, email, name: name || 'N/A' });
+
+      return {
+        providerId: id,
+        email: email || null,
+        // Facebook only returns confirmed email addresses
+        emailVerified: Boolean(email),
+        name: name || null,
+      };
+    } catch (error) {
+      if (error.response?.data?.error) {
+        const fbError = error.response.data.error;
+
+        // Handle specific Facebook error codes
+        switch (fbError.code) {
+          case 190:
+            throw new UnauthorizedException("Facebook token is invalid, expired, or revoked");
+          case 102:
+            throw new UnauthorizedException("Facebook session key is invalid");
+          case 2500:
+            throw new UnauthorizedException("User has not authorized the application");
+          default:
+            throw new UnauthorizedException(`Facebook API error: ${fbError.message}`);
+        }
+      }
+
+      throw new UnauthorizedException("Failed to validate Facebook token");
+    }
+  }
+}
@@ -0,0 +1,130 @@
+import { ConfigService } from "@nestjs/config";
+import { JwtService } from "@nestjs/jwt";
+import { generateKeyPairSync } from "crypto";
+import { IdTokenService } from "../jwks/id-token.service";
+import { StaticJwksProvider } from "../jwks/jwks-provider";
+import { GoogleStrategy } from "../strategies/google.strategy";
+import { GoogleVerifier } from "./google.verifier";
+
+const CLIENT_ID = "1234567890-android.apps.googleusercontent.com";
+const KEY_ID = "google-key-1";
+
+const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+const jwtService = new JwtService();
+
+function createVerifier(): GoogleVerifier {
+  return new GoogleVerifier(
+    new ConfigService({ GOOGLE_CLIENT_IDS: `${CLIENT_ID}, 1234567890-ios.apps.googleusercontent.com` }),
+    new IdTokenService(jwtService),
+    new StaticJwksProvider([{ ...publicKey.export({ format: "jwk" }), kid: KEY_ID }])
+  );
+}
+
+function buildToken(claims: Record<string, any> = {}, keyId = KEY_ID): string {
+  const now = Math.floor(Date.now() / 1000);
+  return jwtService.sign(
+    {
+      iss: "https://accounts.google.com",
+      aud: CLIENT_ID,
+      sub: "110169484474386276334",
+      email: "jane@example.com",
+      email_verified: true,
+      name: "Jane Doe",
+      iat: now,
+      exp: now + 3600,
+      ...claims,
+    },
+    { secret: privateKey.export({ format: "pem", type: "pkcs8" }).toString(), algorithm: "RS256", keyid: keyId }
+  );
+}
+
+describe("GoogleVerifier", () => {
+  it("accepts a valid ID token", async () => {
+    await expect(createVerifier().verify(buildToken())).resolves.toEqual({
+      providerId: "110169484474386276334",
+      email: "jane@example.com",
+      emailVerified: true,
+      name: "Jane Doe",
+    });
+  });
+
+  it("accepts the issuer without scheme and tokens for any configured client", async () => {
+    const token = buildToken({ iss: "accounts.google.com", aud: "1234567890-ios.apps.googleusercontent.com" });
+
+    await expect(createVerifier().verify(token)).resolves.toMatchObject({ providerId: "110169484474386276334" });
+  });
+
+  it("rejects a token for another audience", async () => {
+    const token = buildToken({ aud: "other-app.apps.googleusercontent.com" });
+
+    await expect(createVerifier().verify(token)).rejects.toThrow("Invalid Google ID token");
+  });
+
+  it("rejects a token from another issuer", async () => {
+    const token = buildToken({ iss: "https://accounts.example.com" });
+
+    await expect(createVerifier().verify(token)).rejects.toThrow("Invalid Google ID token");
+  });
+
+  it("rejects an expired token", async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const token = buildToken({ iat: now - 7200, exp: now - 3600 });
+
+    await expect(createVerifier().verify(token)).rejects.toThrow("Google ID token has expired");
+  });
+
+  it("rejects a token signed with an unknown key", async () => {
+    await expect(createVerifier().verify(buildToken({}, "google-key-2"))).rejects.toThrow(
+      "Unknown Google signing key"
+    );
+  });
+
+  it("rejects a token signed with another key under a known key ID", async () => {
+    const { privateKey: otherKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+    const token = jwtService.sign(
+      { iss: "https://accounts.google.com", aud: CLIENT_ID, sub: "110169484474386276334" },
+      { secret: otherKey.export({ format: "pem", type: "pkcs8" }).toString(), algorithm: "RS256", keyid: KEY_ID }
+    );
+
+    await expect(createVerifier().verify(token)).rejects.toThrow("Invalid Google ID token");
+  });
+
+  it.each([false, "false", undefined])("does not trust an email with email_verified %p", async (emailVerified) => {
+    const token = buildToken({ email_verified: emailVerified });
+
+    await expect(createVerifier().verify(token)).resolves.toMatchObject({
+      email: "jane@example.com",
+      emailVerified: false,
+    });
+  });
+
+  it("accepts email_verified sent as a string", async () => {
+    await expect(createVerifier().verify(buildToken({ email_verified: "true" }))).resolves.toMatchObject({
+      emailVerified: true,
+    });
+  });
+
+  it("rejects malformed tokens", async () => {
+    await expect(createVerifier().verify("not-a-jwt")).rejects.toThrow("Malformed Google ID token");
+  });
+});
+
+describe("GoogleStrategy", () => {
+  it("signs in with a verified email", async () => {
+    const strategy = new GoogleStrategy(createVerifier());
+
+    await expect(strategy.validate({ body: { idToken: buildToken() } })).resolves.toEqual({
+      email: "jane@example.com",
+      googleId: "110169484474386276334",
+      name: "Jane Doe",
+    });
+  });
+
+  it("refuses to sign in with an unverified email", async () => {
+    const strategy = new GoogleStrategy(createVerifier());
+
+    await expect(strategy.validate({ body: { idToken: buildToken({ email_verified: false }) } })).rejects.toThrow(
+      "Google authentication failed: Email is not verified"
+    );
+  });
+});
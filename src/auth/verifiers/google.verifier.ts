@@ -0,0 +1,63 @@
+import { Inject, Injectable, UnauthorizedException } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { IdTokenService } from "../jwks/id-token.service";
+import { GOOGLE_JWKS_PROVIDER, JwksProvider } from "../jwks/jwks-provider";
+import { VerifiedIdentity } from "./verified-identity";
+
+const GOOGLE_ISSUERS = ["accounts.google.com", "https://accounts.google.com"];
+
+interface GoogleIdTokenPayload {
+  sub: string;
+  email?: string;
+  email_verified?: boolean | string;
+  name?: string;
+}
+
+@Injectable()
+export class GoogleVerifier {
+  private readonly clientIds: string[];
+
+  constructor(
+    private configService: ConfigService,
+    private idTokenService: IdTokenService,
+    @Inject(GOOGLE_JWKS_PROVIDER)
+    private jwksProvider: JwksProvider
+  ) {
+    // Android, iOS and web clients each have their own client ID
+    this.clientIds = configService
+      .get<string>("GOOGLE_CLIENT_IDS", "")
+      .split(",")
+      .map((clientId) => clientId.trim())
+      .filter(Boolean);
+
+    // Log a warning if credentials are missing
+    if (this.clientIds.length === 0) {
+      console.warn('Google authentication is disabled due to missing client IDs');
+    }
+  }
+
+  /**
+   * Validate a Google ID token against Google's signing keys
+   * @param idToken ID token from Google Sign-In
+   * @returns The Google account the token was issued for
+   */
+  async verify(idToken: string): Promise<VerifiedIdentity> {
+    if (!idToken) {
+      throw new UnauthorizedException("Google ID token is required");
+    }
+
+    const payload = await this.idTokenService.verify<GoogleIdTokenPayload>(idToken, {
+      provider: "Google",
+      jwksProvider: this.jwksProvider,
+      issuers: GOOGLE_ISSUERS,
+      audiences: this.clientIds,
+    });
+
+    return {
+      providerId: payload.sub,
+      email: payload.email || null,
+      emailVerified: payload.email_verified === true || payload.email_verified === "true",
+      name: payload.name || null,
+    };
+  }
+}
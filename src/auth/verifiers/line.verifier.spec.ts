@@ -0,0 +1,108 @@
+import { ConfigService } from "@nestjs/config";
+import { JwtService } from "@nestjs/jwt";
+import { generateKeyPairSync } from "crypto";
+import { IdTokenService } from "../jwks/id-token.service";
+import { StaticJwksProvider } from "../jwks/jwks-provider";
+import { LineVerifier } from "./line.verifier";
+
+const CHANNEL_ID = "1657000000";
+const CHANNEL_SECRET = "line-channel-secret";
+const KEY_ID = "line-key-1";
+const NONCE = "line-login-nonce";
+
+const { privateKey, publicKey } = generateKeyPairSync("ec", { namedCurve: "P-256" });
+const jwtService = new JwtService();
+
+function createVerifier(): LineVerifier {
+  return new LineVerifier(
+    new ConfigService({ LINE_CHANNEL_ID: CHANNEL_ID, LINE_CHANNEL_SECRET: CHANNEL_SECRET }),
+    new IdTokenService(jwtService),
+    new StaticJwksProvider([{ ...publicKey.export({ format: "jwk" }), kid: KEY_ID }])
+  );
+}
+
+function claims(overrides: Record<string, any> = {}): Record<string, any> {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    iss: "https://access.line.me",
+    aud: CHANNEL_ID,
+    sub: "U4af4980629a0b1c2d3e4f5a6b7c8d9e0",
+    name: "Taro",
+    email: "taro@example.com",
+    nonce: NONCE,
+    iat: now,
+    exp: now + 3600,
+    ...overrides,
+  };
+}
+
+function buildToken(overrides: Record<string, any> = {}, keyId = KEY_ID): string {
+  return jwtService.sign(claims(overrides), {
+    secret: privateKey.export({ format: "pem", type: "pkcs8" }).toString(),
+    algorithm: "ES256",
+    keyid: keyId,
+  });
+}
+
+describe("LineVerifier", () => {
+  it("accepts an ES256 token from the LINE SDK", async () => {
+    await expect(createVerifier().verify(buildToken(), NONCE)).resolves.toEqual({
+      providerId: "U4af4980629a0b1c2d3e4f5a6b7c8d9e0",
+      email: "taro@example.com",
+      emailVerified: true,
+      name: "Taro",
+    });
+  });
+
+  it("accepts an HS256 token of a web login signed with the channel secret", async () => {
+    const token = jwtService.sign(claims(), { secret: CHANNEL_SECRET, algorithm: "HS256" });
+
+    await expect(createVerifier().verify(token, NONCE)).resolves.toMatchObject({
+      providerId: "U4af4980629a0b1c2d3e4f5a6b7c8d9e0",
+    });
+  });
+
+  it("rejects an HS256 token signed with another secret", async () => {
+    const token = jwtService.sign(claims(), { secret: "another-secret", algorithm: "HS256" });
+
+    await expect(createVerifier().verify(token, NONCE)).rejects.toThrow("Invalid Line ID token");
+  });
+
+  it("rejects a token for another channel", async () => {
+    await expect(createVerifier().verify(buildToken({ aud: "1657999999" }), NONCE)).rejects.toThrow(
+      "Invalid Line ID token"
+    );
+  });
+
+  it("rejects a token from another issuer", async () => {
+    await expect(createVerifier().verify(buildToken({ iss: "https://access.example.com" }), NONCE)).rejects.toThrow(
+      "Invalid Line ID token"
+    );
+  });
+
+  it("rejects an expired token", async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const token = buildToken({ iat: now - 7200, exp: now - 3600 });
+
+    await expect(createVerifier().verify(token, NONCE)).rejects.toThrow("Line ID token has expired");
+  });
+
+  it("rejects a token signed with an unknown key", async () => {
+    await expect(createVerifier().verify(buildToken({}, "line-key-2"), NONCE)).rejects.toThrow(
+      "Unknown Line signing key"
+    );
+  });
+
+  it("rejects a token for another nonce", async () => {
+    await expect(createVerifier().verify(buildToken(), "another-nonce")).rejects.toThrow(
+      "Line ID token nonce mismatch"
+    );
+  });
+
+  it("returns no email when the user did not grant the email permission", async () => {
+    await expect(createVerifier().verify(buildToken({ email: undefined }), NONCE)).resolves.toMatchObject({
+      email: null,
+      emailVerified: false,
+    });
+  });
+});
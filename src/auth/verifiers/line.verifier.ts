@@ -0,0 +1,65 @@
+import { Inject, Injectable, UnauthorizedException } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { IdTokenService } from "../jwks/id-token.service";
+import { JwksProvider, LINE_JWKS_PROVIDER } from "../jwks/jwks-provider";
+import { VerifiedIdentity } from "./verified-identity";
+
+const LINE_ISSUER = "https://access.line.me";
+
+interface LineIdTokenPayload {
+  sub: string;
+  name?: string;
+  email?: string;
+  nonce?: string;
+}
+
+@Injectable()
+export class LineVerifier {
+  constructor(
+    private configService: ConfigService,
+    private idTokenService: IdTokenService,
+    @Inject(LINE_JWKS_PROVIDER)
+    private jwksProvider: JwksProvider
+  ) {
+    // Log a warning if credentials are missing
+    if (!configService.get("LINE_CHANNEL_ID") || !configService.get("LINE_CHANNEL_SECRET")) {
+      console.warn('Line authentication is disabled due to missing credentials');
+    }
+  }
+
+  /**
+   * Validate a LINE ID token. The LINE SDKs sign it with ES256 keys from LINE's JWKS,
+   * web logins sign it with the channel secret (HS256).
+   * @param idToken ID token from the LINE SDK
+   * @param nonce Nonce the app passed to LINE Login, if any
+   * @returns The LINE account the token was issued for
+   */
+  async verify(idToken: string, nonce?: string): Promise<VerifiedIdentity> {
+    if (!idToken) {
+      throw new UnauthorizedException("Line ID token is required");
+    }
+
+    const channelId = this.configService.get<string>("LINE_CHANNEL_ID");
+    const payload = await this.idTokenService.verify<LineIdTokenPayload>(idToken, {
+      provider: "Line",
+      jwksProvider: this.jwksProvider,
+      issuers: [LINE_ISSUER],
+      audiences: channelId ? [channelId] : [],
+      algorithms: ["ES256"],
+      sharedSecret: this.configService.get<string>("LINE_CHANNEL_SECRET"),
+    });
+
+    if (nonce && payload.nonce !== nonce) {
+      throw new UnauthorizedException("Line ID token nonce mismatch");
+    }
+
+    return {
+      providerId: payload.sub,
+      // The email claim is only present if the user granted the email permission.
+      // LINE only lets users register addresses they have verified.
+      email: payload.email || null,
+      emailVerified: Boolean(payload.email),
+      name: payload.name || null,
+    };
+  }
+}
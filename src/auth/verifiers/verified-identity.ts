@@ -0,0 +1,12 @@
+/**
+ * An account at an identity provider, as confirmed by that provider
+ */
+export interface VerifiedIdentity {
+  // User's ID at the provider
+  providerId: string;
+  // Email reported by the provider, null if it did not share one
+  email: string | null;
+  emailVerified: boolean;
+  // Display name reported by the provider, if any
+  name: string | null;
+}
@@ -0,0 +1,64 @@
+import { Body, Controller, HttpCode, HttpStatus, Param, ParseUUIDPipe, Post, UseGuards } from "@nestjs/common";
+import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from "@nestjs/swagger";
+import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
+import { RolesGuard } from "../auth/guards/roles.guard";
+import { Roles } from "../auth/decorators/roles.decorator";
+import { UserRole } from "../users/entities/user.entity";
+import { ChallengesService } from "./challenges.service";
+import { ChallengeResponseDto, CreateChallengeDto } from "./dto/challenge.dto";
+
+@ApiTags("admin")
+@Controller("admin/challenges")
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@ApiBearerAuth()
+export class AdminChallengesController {
+  constructor(private readonly challengesService: ChallengesService) {}
+
+  @Post()
+  @ApiOperation({ summary: "Create a challenge" })
+  @ApiResponse({
+    status: 201,
+    description: "The challenge is created",
+    type: ChallengeResponseDto,
+  })
+  @ApiResponse({ status: 400, description: "Invalid rules, dates or teams, or the challenge does not start in the future" })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({ status: 403, description: "Not an admin" })
+  create(@Body() createChallengeDto: CreateChallengeDto): Promise<ChallengeResponseDto> {
+    return this.challengesService.create(createChallengeDto);
+  }
+
+  @Post(":id/settle")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Settle an ended challenge now, without waiting for the automatic settlement" })
+  @ApiResponse({
+    status: 200,
+    description: "The prizes are paid, or the entry fees refunded if nobody won",
+    type: ChallengeResponseDto,
+  })
+  @ApiResponse({ status: 400, description: "The challenge has not ended yet" })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({ status: 403, description: "Not an admin" })
+  @ApiResponse({ status: 404, description: "Challenge not found" })
+  @ApiResponse({ status: 409, description: "The challenge is already settled or cancelled" })
+  settle(@Param("id", ParseUUIDPipe) id: string): Promise<ChallengeResponseDto> {
+    return this.challengesService.settle(id);
+  }
+
+  @Post(":id/cancel")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Cancel a challenge, refunding the entry fees" })
+  @ApiResponse({
+    status: 200,
+    description: "The challenge is cancelled",
+    type: ChallengeResponseDto,
+  })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({ status: 403, description: "Not an admin" })
+  @ApiResponse({ status: 404, description: "Challenge not found" })
+  @ApiResponse({ status: 409, description: "The challenge is already settled or cancelled" })
+  cancel(@Param("id", ParseUUIDPipe) id: string): Promise<ChallengeResponseDto> {
+    return this.challengesService.cancel(id);
+  }
+}
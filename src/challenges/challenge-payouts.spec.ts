@@ -0,0 +1,102 @@
+import { ChallengeMetric, ChallengeRules, ChallengeWinCondition } from "./entities/challenge.entity";
+import { getWinnerShares, rankCompetitors, splitCoins } from "./challenge-payouts";
+
+const TOP_THREE: ChallengeRules = {
+  metric: ChallengeMetric.STEPS,
+  winCondition: ChallengeWinCondition.TOP,
+  prizeShares: [50, 30, 20],
+};
+
+function competitors(progress: Record<string, number>) {
+  return Object.entries(progress).map(([id, value]) => ({ id, progress: value }));
+}
+
+describe("challenge payouts", () => {
+  describe("rankCompetitors", () => {
+    it("ranks by progress and lets ties share a rank", () => {
+      const ranked = rankCompetitors(competitors({ a: 800, b: 1000, c: 800, d: 500 }));
+
+      expect(ranked.map(({ id, rank }) => [id, rank])).toEqual([
+        ["b", 1],
+        ["a", 2],
+        ["c", 2],
+        ["d", 4],
+      ]);
+    });
+  });
+
+  describe("getWinnerShares", () => {
+    it("gives every competitor reaching the target an equal share", () => {
+      const shares = getWinnerShares(competitors({ a: 70000, b: 69999, c: 120000 }), {
+        metric: ChallengeMetric.STEPS,
+        winCondition: ChallengeWinCondition.TARGET,
+        target: 70000,
+      });
+
+      expect(shares).toEqual(new Map([["a", 1], ["c", 1]]));
+    });
+
+    it("gives the places their prize shares", () => {
+      const shares = getWinnerShares(competitors({ a: 500, b: 1000, c: 800, d: 300 }), TOP_THREE);
+
+      expect(shares).toEqual(new Map([["b", 50], ["c", 30], ["a", 20]]));
+    });
+
+    it("splits the shares of the places taken up by a tie", () => {
+      const shares = getWinnerShares(competitors({ a: 1000, b: 1000, c: 800 }), TOP_THREE);
+
+      expect(shares).toEqual(new Map([["a", 40], ["b", 40], ["c", 20]]));
+    });
+
+    it("splits the last prize places among everybody tied for them", () => {
+      const shares = getWinnerShares(competitors({ a: 1000, b: 800, c: 800, d: 800 }), TOP_THREE);
+
+      expect(shares.get("a")).toBe(50);
+      expect(["b", "c", "d"].map((id) => shares.get(id))).toEqual([50 / 3, 50 / 3, 50 / 3]);
+    });
+
+    it("gives the whole pot to the first place by default", () => {
+      const shares = getWinnerShares(competitors({ a: 500, b: 1000 }), {
+        metric: ChallengeMetric.STEPS,
+        winCondition: ChallengeWinCondition.TOP,
+      });
+
+      expect(shares).toEqual(new Map([["b", 100]]));
+    });
+
+    it("does not place competitors without progress", () => {
+      expect(getWinnerShares(competitors({ a: 0, b: 0 }), TOP_THREE).size).toBe(0);
+      expect(getWinnerShares(competitors({ a: 300, b: 0 }), TOP_THREE)).toEqual(new Map([["a", 50]]));
+    });
+  });
+
+  describe("splitCoins", () => {
+    it("splits in proportion to the shares", () => {
+      expect(splitCoins(1000, [50, 30, 20])).toEqual([500, 300, 200]);
+    });
+
+    it("gives the coins lost to rounding to the largest fractions", () => {
+      // 2.33 and 4.67 coins
+      expect(splitCoins(7, [1, 2])).toEqual([2, 5]);
+      // 33.3, 26.7 and 40 coins
+      expect(splitCoins(100, [25, 20, 30])).toEqual([33, 27, 40]);
+    });
+
+    it("gives the leftover coins of equal fractions to the first parts", () => {
+      expect(splitCoins(10, [1, 1, 1])).toEqual([4, 3, 3]);
+      expect(splitCoins(11, [1, 1, 1])).toEqual([4, 4, 3]);
+    });
+
+    it("always adds up to the amount", () => {
+      const shares = [50 / 3, 50 / 3, 50 / 3, 50];
+      for (const amount of [1, 2, 99, 1001, 123457]) {
+        expect(splitCoins(amount, shares).reduce((sum, part) => sum + part, 0)).toBe(amount);
+      }
+    });
+
+    it("splits nothing without coins or shares", () => {
+      expect(splitCoins(0, [1, 1])).toEqual([0, 0]);
+      expect(splitCoins(100, [0, 0])).toEqual([0, 0]);
+    });
+  });
+});
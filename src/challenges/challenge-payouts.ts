@@ -0,0 +1,90 @@
+import { ChallengeRules, ChallengeWinCondition } from "./entities/challenge.entity";
+
+export interface ChallengeCompetitor {
+  // Participant or team ID
+  id: string;
+  progress: number;
+}
+
+/**
+ * Rank competitors by progress, highest first. Competitors with the same
+ * progress share a rank.
+ */
+export function rankCompetitors<T extends ChallengeCompetitor>(competitors: T[]): (T & { rank: number })[] {
+  const sorted = [...competitors].sort((a, b) => b.progress - a.progress);
+
+  let rank = 0;
+  return sorted.map((competitor, index) => {
+    if (index === 0 || competitor.progress !== sorted[index - 1].progress) {
+      rank = index + 1;
+    }
+    return { ...competitor, rank };
+  });
+}
+
+/**
+ * Decide the winners of a challenge and their share of the pot
+ * @param competitors Participants, or teams in team challenges
+ * @param rules Rules of the challenge
+ * @returns Relative share of each winner by ID; empty if nobody won
+ */
+export function getWinnerShares(competitors: ChallengeCompetitor[], rules: ChallengeRules): Map<string, number> {
+  const shares = new Map<string, number>();
+
+  if (rules.winCondition === ChallengeWinCondition.TARGET) {
+    competitors
+      .filter((competitor) => competitor.progress >= rules.target)
+      .forEach((competitor) => shares.set(competitor.id, 1));
+    return shares;
+  }
+
+  // Nobody places without any progress
+  const ranked = rankCompetitors(competitors.filter((competitor) => competitor.progress > 0));
+  const prizeShares = rules.prizeShares?.length ? rules.prizeShares : [100];
+
+  // Competitors sharing a place split the shares of the places they take up
+  let start = 0;
+  while (start < ranked.length && start < prizeShares.length) {
+    let end = start;
+    while (end < ranked.length && ranked[end].progress === ranked[start].progress) {
+      end++;
+    }
+
+    const share = prizeShares.slice(start, end).reduce((sum, value) => sum + value, 0) / (end - start);
+    ranked.slice(start, end).forEach((competitor) => shares.set(competitor.id, share));
+    start = end;
+  }
+
+  return shares;
+}
+
+/**
+ * Split whole coins in proportion to shares. Coins lost to rounding go to the
+ * largest fractions, so the parts always add up to the amount.
+ * @param amount Coins to split
+ * @param shares Relative share of each part
+ * @returns Coins of each part, in the order of the shares
+ */
+export function splitCoins(amount: number, shares: number[]): number[] {
+  const totalShares = shares.reduce((sum, share) => sum + share, 0);
+  if (amount <= 0 || totalShares <= 0) {
+    return shares.map(() => 0);
+  }
+
+  const exact = shares.map((share) => (amount * share) / totalShares);
+  const parts = exact.map((value) => Math.floor(value));
+
+  let remainder = amount - parts.reduce((sum, part) => sum + part, 0);
+  const byFraction = exact
+    .map((value, index) => ({ index, fraction: value - Math.floor(value) }))
+    .sort((a, b) => b.fraction - a.fraction || a.index - b.index);
+  for (const { index } of byFraction) {
+    if (remainder <= 0) {
+      break;
+    }
+    parts[index]++;
+    remainder--;
+  }
+
+  return parts;
+}
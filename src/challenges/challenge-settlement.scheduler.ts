@@ -0,0 +1,58 @@
+import { Injectable, Logger, OnApplicationBootstrap, OnApplicationShutdown } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { ChallengesService } from "./challenges.service";
+
+/**
+ * Periodically settles the challenges that ended. Every instance runs it;
+ * a challenge being settled elsewhere is skipped.
+ */
+@Injectable()
+export class ChallengeSettlementScheduler implements OnApplicationBootstrap, OnApplicationShutdown {
+  private readonly logger = new Logger(ChallengeSettlementScheduler.name);
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private challengesService: ChallengesService,
+    private configService: ConfigService,
+  ) {}
+
+  onApplicationBootstrap(): void {
+    const intervalSeconds = Number(this.configService.get("CHALLENGE_SETTLEMENT_INTERVAL_SECONDS", 300));
+    if (!intervalSeconds) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.run(), intervalSeconds * 1000);
+    // Scripts creating an application context must still be able to exit
+    this.timer.unref();
+  }
+
+  onApplicationShutdown(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async run(): Promise<void> {
+    // A slow run is not overlapped by the next one
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      const { settled, failed } = await this.challengesService.settleEnded();
+      if (failed) {
+        this.logger.warn(`Settled ${settled} ended challenges, ${failed} failed and will be retried`);
+      } else if (settled) {
+        this.logger.log(`Settled ${settled} ended challenges`);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to settle ended challenges: ${error.message}`, error.stack);
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import { Body, Controller, Get, HttpCode, HttpStatus, Param, ParseUUIDPipe, Post, Query, Request, UseGuards } from "@nestjs/common";
+import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from "@nestjs/swagger";
+import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
+import { RateLimit } from "../common/rate-limit/rate-limit.decorator";
+import { ChallengesService } from "./challenges.service";
+import {
+  ChallengeResponseDto,
+  ChallengesQueryDto,
+  ChallengesResponseDto,
+  ChallengeStandingsResponseDto,
+  JoinChallengeDto,
+  StandingsQueryDto,
+} from "./dto/challenge.dto";
+
+@ApiTags("challenges")
+@Controller("challenges")
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class ChallengesController {
+  constructor(private readonly challengesService: ChallengesService) {}
+
+  @Get()
+  @ApiOperation({ summary: "List challenges, optionally by phase" })
+  @ApiResponse({
+    status: 200,
+    description: "Returns the challenges, the latest first",
+    type: ChallengesResponseDto,
+  })
+  @ApiResponse({ status: 400, description: "Invalid query" })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  getChallenges(@Request() req, @Query() query: ChallengesQueryDto): Promise<ChallengesResponseDto> {
+    return this.challengesService.findAll(req.user.userId, query);
+  }
+
+  @Get(":id")
+  @ApiOperation({ summary: "Get a challenge" })
+  @ApiResponse({
+    status: 200,
+    description: "Returns the challenge",
+    type: ChallengeResponseDto,
+  })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({ status: 404, description: "Challenge not found" })
+  getChallenge(@Request() req, @Param("id", ParseUUIDPipe) id: string): Promise<ChallengeResponseDto> {
+    return this.challengesService.findOne(req.user.userId, id);
+  }
+
+  @Post(":id/join")
+  @HttpCode(HttpStatus.OK)
+  @RateLimit({ points: 30, window: 10 * 60, key: "user" })
+  @ApiOperation({ summary: "Join a challenge, paying its entry fee with coins" })
+  @ApiResponse({
+    status: 200,
+    description: "The challenge is joined",
+    type: ChallengeResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: "Insufficient balance, missing or unknown team, or the challenge already started",
+  })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({ status: 404, description: "Challenge not found" })
+  @ApiResponse({ status: 409, description: "Already joined or the challenge is full" })
+  @ApiResponse({ status: 429, description: "Too many requests" })
+  join(
+    @Request() req,
+    @Param("id", ParseUUIDPipe) id: string,
+    @Body() joinChallengeDto: JoinChallengeDto,
+  ): Promise<ChallengeResponseDto> {
+    return this.challengesService.join(req.user.userId, id, joinChallengeDto.teamId);
+  }
+
+  @Post(":id/leave")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Leave a challenge before it starts, refunding its entry fee" })
+  @ApiResponse({
+    status: 200,
+    description: "The challenge is left",
+    type: ChallengeResponseDto,
+  })
+  @ApiResponse({ status: 400, description: "The challenge already started" })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({ status: 404, description: "Challenge not found or not joined" })
+  leave(@Request() req, @Param("id", ParseUUIDPipe) id: string): Promise<ChallengeResponseDto> {
+    return this.challengesService.leave(req.user.userId, id);
+  }
+
+  @Get(":id/standings")
+  @ApiOperation({ summary: "Get the standings of a challenge" })
+  @ApiResponse({
+    status: 200,
+    description: "Returns the ranked participants and teams, and the caller's own standing",
+    type: ChallengeStandingsResponseDto,
+  })
+  @ApiResponse({ status: 400, description: "Invalid query" })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({ status: 404, description: "Challenge not found" })
+  getStandings(
+    @Request() req,
+    @Param("id", ParseUUIDPipe) id: string,
+    @Query() query: StandingsQueryDto,
+  ): Promise<ChallengeStandingsResponseDto> {
+    return this.challengesService.getStandings(req.user.userId, id, query);
+  }
+}
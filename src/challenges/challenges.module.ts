@@ -0,0 +1,19 @@
+import { Module } from "@nestjs/common";
+import { TypeOrmModule } from "@nestjs/typeorm";
+import { Challenge } from "./entities/challenge.entity";
+import { ChallengeTeam } from "./entities/challenge-team.entity";
+import { ChallengeParticipant } from "./entities/challenge-participant.entity";
+import { ChallengesService } from "./challenges.service";
+import { ChallengeSettlementScheduler } from "./challenge-settlement.scheduler";
+import { ChallengesController } from "./challenges.controller";
+import { AdminChallengesController } from "./admin-challenges.controller";
+import { UsersModule } from "../users/users.module";
+import { WalletModule } from "../wallet/wallet.module";
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Challenge, ChallengeTeam, ChallengeParticipant]), UsersModule, WalletModule],
+  controllers: [ChallengesController, AdminChallengesController],
+  providers: [ChallengesService, ChallengeSettlementScheduler],
+  exports: [ChallengesService],
+})
+export class ChallengesModule {}
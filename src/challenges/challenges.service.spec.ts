@@ -0,0 +1,326 @@
+import { BadRequestException } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { randomUUID } from "crypto";
+import { DataSource, EntityManager, Repository } from "typeorm";
+import { LedgerPosting, LedgerService, PostTransactionInput } from "../wallet/ledger.service";
+import { LedgerAccounts } from "../wallet/ledger-accounts";
+import {
+  Challenge,
+  ChallengeFormat,
+  ChallengeMetric,
+  ChallengeRules,
+  ChallengeStatus,
+  ChallengeWinCondition,
+} from "./entities/challenge.entity";
+import { ChallengeParticipant } from "./entities/challenge-participant.entity";
+import { ChallengeTeam } from "./entities/challenge-team.entity";
+import { ChallengesService } from "./challenges.service";
+import { ChallengeResponseDto } from "./dto/challenge.dto";
+
+const CHALLENGE_ID = "7c9e6679-7425-40de-944b-e07fc1f90ae7";
+const ESCROW = LedgerAccounts.challengeEscrow(CHALLENGE_ID);
+
+/**
+ * A challenge, its teams and participants and the ledger postings kept in
+ * memory. Progress stands in for the clean health data of each participant.
+ */
+class InMemoryStore {
+  challenge: Challenge;
+  teams: ChallengeTeam[] = [];
+  participants: ChallengeParticipant[] = [];
+  progress = new Map<string, number>();
+  postings = new Map<string, LedgerPosting[]>();
+
+  async transaction<T>(callback: (manager: EntityManager) => Promise<T>): Promise<T> {
+    const challenge = { ...this.challenge };
+    const participants = this.participants.map((participant) => ({ ...participant }));
+    const postings = new Map(this.postings);
+    try {
+      return await callback(this.manager());
+    } catch (error) {
+      this.challenge = challenge;
+      this.participants = participants;
+      this.postings = postings;
+      throw error;
+    }
+  }
+
+  balance(account: string): number {
+    return [...this.postings.values()]
+      .flat()
+      .filter((posting) => posting.account === account)
+      .reduce((sum, posting) => sum + posting.amount, 0);
+  }
+
+  private manager(): EntityManager {
+    const store = this;
+    return {
+      findOne: async (_: unknown, { where }: { where: { id: string } }) =>
+        store.challenge.id === where.id ? { ...store.challenge } : null,
+      find: async (entity: unknown) =>
+        entity === ChallengeTeam ? store.teams : store.participants.map((participant) => ({ ...participant })),
+      save: async (saved: Challenge | ChallengeParticipant[]) => {
+        if (Array.isArray(saved)) {
+          store.participants = saved;
+        } else {
+          store.challenge = saved;
+        }
+        return saved;
+      },
+      createQueryBuilder: () => {
+        const builder = {
+          innerJoin: () => builder,
+          leftJoin: () => builder,
+          select: () => builder,
+          addSelect: () => builder,
+          where: () => builder,
+          groupBy: () => builder,
+          addGroupBy: () => builder,
+          getRawMany: async () =>
+            store.participants.map((participant) => ({
+              id: participant.id,
+              userId: participant.userId,
+              teamId: participant.teamId,
+              storedProgress: participant.progress,
+              prize: participant.prize,
+              progress: String(store.progress.get(participant.id) || 0),
+            })),
+        };
+        return builder;
+      },
+    } as unknown as EntityManager;
+  }
+}
+
+/**
+ * Posts to the in-memory store with the idempotency and balance checks of the ledger
+ */
+function createLedger(store: InMemoryStore): LedgerService {
+  return {
+    getAccountBalance: async (account: string) => store.balance(account),
+    post: async (input: PostTransactionInput) => {
+      if (store.postings.has(input.idempotencyKey)) {
+        return { created: false };
+      }
+      for (const account of input.nonNegativeAccounts || []) {
+        const delta = input.postings
+          .filter((posting) => posting.account === account)
+          .reduce((sum, posting) => sum + posting.amount, 0);
+        if (store.balance(account) + delta < 0) {
+          throw new BadRequestException("Insufficient balance");
+        }
+      }
+      store.postings.set(input.idempotencyKey, input.postings);
+      return { created: true };
+    },
+  } as unknown as LedgerService;
+}
+
+describe("ChallengesService", () => {
+  let store: InMemoryStore;
+  let service: ChallengesService;
+
+  const createChallenge = (overrides: Partial<Challenge> = {}) => {
+    store.challenge = Object.assign(new Challenge(), {
+      id: CHALLENGE_ID,
+      name: "July step battle",
+      format: ChallengeFormat.INDIVIDUAL,
+      rules: {
+        metric: ChallengeMetric.STEPS,
+        winCondition: ChallengeWinCondition.TOP,
+        prizeShares: [50, 30, 20],
+      } as ChallengeRules,
+      entryFee: 100,
+      prize: 1000,
+      startDate: "2025-07-14",
+      endDate: "2025-07-20",
+      status: ChallengeStatus.OPEN,
+      settledAt: null,
+      ...overrides,
+    });
+  };
+
+  // Joins with the entry fee moved to the escrow, as when joining the challenge
+  const join = (progress: number, teamId: string | null = null) => {
+    const participant = Object.assign(new ChallengeParticipant(), {
+      id: randomUUID(),
+      challengeId: CHALLENGE_ID,
+      userId: randomUUID(),
+      teamId,
+      entryFee: store.challenge.entryFee,
+      progress: null,
+      rank: null,
+      prize: 0,
+    });
+    store.participants.push(participant);
+    store.progress.set(participant.id, progress);
+    if (participant.entryFee > 0) {
+      store.postings.set(`challenge-entry:${participant.id}`, [
+        { account: LedgerAccounts.userWallet(participant.userId), amount: -participant.entryFee },
+        { account: ESCROW, amount: participant.entryFee },
+      ]);
+    }
+    return participant;
+  };
+
+  const wallet = (participant: ChallengeParticipant) => store.balance(LedgerAccounts.userWallet(participant.userId));
+
+  beforeEach(() => {
+    store = new InMemoryStore();
+    service = new ChallengesService(
+      store as unknown as DataSource,
+      {} as Repository<Challenge>,
+      {} as Repository<ChallengeParticipant>,
+      createLedger(store),
+      new ConfigService({}),
+    );
+    jest.spyOn(service, "findOne").mockImplementation(async () => ({}) as ChallengeResponseDto);
+    createChallenge();
+  });
+
+  describe("settle", () => {
+    it("pays the entry fees and the prize to the places by their shares", async () => {
+      const first = join(90000);
+      const third = join(50000);
+      const second = join(70000);
+      const last = join(20000);
+
+      await service.settle(CHALLENGE_ID);
+
+      // 400 coins of entry fees and 1000 coins of prize, split 50/30/20
+      expect([first, second, third, last].map(wallet)).toEqual([-100 + 700, -100 + 420, -100 + 280, -100]);
+      expect(store.balance(ESCROW)).toBe(0);
+      expect(store.balance(LedgerAccounts.CHALLENGE_PRIZES)).toBe(-1000);
+      expect(store.challenge.status).toBe(ChallengeStatus.SETTLED);
+      expect(store.participants.map(({ rank, prize }) => [rank, prize])).toEqual([
+        [1, 700],
+        [3, 280],
+        [2, 420],
+        [4, 0],
+      ]);
+    });
+
+    it("splits the pot of tied places and gives the coin lost to rounding to the first of them", async () => {
+      createChallenge({ prize: 1001, rules: { metric: ChallengeMetric.STEPS, winCondition: ChallengeWinCondition.TOP } });
+      const tied = [join(80000), join(80000)];
+      const behind = join(60000);
+
+      await service.settle(CHALLENGE_ID);
+
+      // 300 coins of entry fees and 1001 coins of prize shared by the two first places
+      expect(tied.map(wallet)).toEqual([-100 + 150 + 501, -100 + 150 + 500]);
+      expect(wallet(behind)).toBe(-100);
+      expect(tied.map((participant) => store.participants.find(({ id }) => id === participant.id).rank)).toEqual([1, 1]);
+      expect(store.balance(ESCROW)).toBe(0);
+    });
+
+    it("splits the pot of every participant reaching the target", async () => {
+      createChallenge({
+        prize: 0,
+        rules: { metric: ChallengeMetric.STEPS, winCondition: ChallengeWinCondition.TARGET, target: 70000 },
+      });
+      const winners = [join(70000), join(95000), join(71000)];
+      const loser = join(69999);
+
+      await service.settle(CHALLENGE_ID);
+
+      // 400 coins of entry fees split three ways
+      expect(winners.map(wallet)).toEqual([-100 + 134, -100 + 133, -100 + 133]);
+      expect(wallet(loser)).toBe(-100);
+      expect(store.balance(ESCROW)).toBe(0);
+    });
+
+    it("splits the share of the winning team equally among its members", async () => {
+      createChallenge({
+        format: ChallengeFormat.TEAM,
+        prize: 100,
+        rules: { metric: ChallengeMetric.STEPS, winCondition: ChallengeWinCondition.TOP },
+      });
+      store.teams = [
+        Object.assign(new ChallengeTeam(), { id: randomUUID(), challengeId: CHALLENGE_ID, name: "Red" }),
+        Object.assign(new ChallengeTeam(), { id: randomUUID(), challengeId: CHALLENGE_ID, name: "Blue" }),
+      ];
+      const [red, blue] = store.teams;
+      // Red wins on its total even though Blue has the best walker
+      const winners = [join(40000, red.id), join(40000, red.id), join(30000, red.id)];
+      const losers = [join(90000, blue.id), join(10000, blue.id)];
+
+      await service.settle(CHALLENGE_ID);
+
+      // 500 coins of entry fees and 100 coins of prize split three ways
+      expect(winners.map(wallet)).toEqual([-100 + 167 + 34, -100 + 167 + 33, -100 + 166 + 33]);
+      expect(losers.map(wallet)).toEqual([-100, -100]);
+      expect(store.balance(ESCROW)).toBe(0);
+    });
+
+    it("refunds the entry fees when nobody reaches the target", async () => {
+      createChallenge({
+        rules: { metric: ChallengeMetric.STEPS, winCondition: ChallengeWinCondition.TARGET, target: 70000 },
+      });
+      const participants = [join(50000), join(69999)];
+
+      await service.settle(CHALLENGE_ID);
+
+      expect(participants.map(wallet)).toEqual([0, 0]);
+      expect(store.balance(ESCROW)).toBe(0);
+      expect(store.balance(LedgerAccounts.CHALLENGE_PRIZES)).toBe(0);
+      expect(store.challenge.status).toBe(ChallengeStatus.SETTLED);
+    });
+
+    it("refunds the entry fees when nobody walked", async () => {
+      const participants = [join(0), join(0)];
+
+      await service.settle(CHALLENGE_ID);
+
+      expect(participants.map(wallet)).toEqual([0, 0]);
+      expect(store.balance(ESCROW)).toBe(0);
+    });
+
+    it("settles a challenge once", async () => {
+      join(50000);
+      await service.settle(CHALLENGE_ID);
+
+      await expect(service.settle(CHALLENGE_ID)).rejects.toThrow("A settled challenge cannot be settled");
+      expect(store.balance(LedgerAccounts.CHALLENGE_PRIZES)).toBe(-1000);
+    });
+
+    it("does not settle a challenge that has not ended", async () => {
+      createChallenge({ endDate: "2999-12-31" });
+      join(50000);
+
+      await expect(service.settle(CHALLENGE_ID)).rejects.toThrow("The challenge has not ended yet");
+      expect(store.balance(ESCROW)).toBe(100);
+    });
+  });
+
+  describe("cancel", () => {
+    it("refunds the entry fees", async () => {
+      const participants = [join(50000), join(70000)];
+
+      await service.cancel(CHALLENGE_ID);
+
+      expect(participants.map(wallet)).toEqual([0, 0]);
+      expect(store.balance(ESCROW)).toBe(0);
+      expect(store.balance(LedgerAccounts.CHALLENGE_PRIZES)).toBe(0);
+      expect(store.challenge.status).toBe(ChallengeStatus.CANCELLED);
+    });
+
+    it("skips participants of a free challenge", async () => {
+      createChallenge({ entryFee: 0 });
+      join(50000);
+
+      await service.cancel(CHALLENGE_ID);
+
+      expect(store.postings.size).toBe(0);
+      expect(store.challenge.status).toBe(ChallengeStatus.CANCELLED);
+    });
+
+    it("does not cancel a settled challenge", async () => {
+      const participant = join(50000);
+      await service.settle(CHALLENGE_ID);
+
+      await expect(service.cancel(CHALLENGE_ID)).rejects.toThrow("A settled challenge cannot be cancelled");
+      expect(wallet(participant)).toBe(-100 + 100 + 1000);
+    });
+  });
+});
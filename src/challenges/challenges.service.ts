@@ -0,0 +1,620 @@
+import { Injectable, BadRequestException, ConflictException, Logger, NotFoundException } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { InjectRepository } from "@nestjs/typeorm";
+import { DataSource, EntityManager, FindOptionsWhere, In, LessThan, LessThanOrEqual, MoreThan, MoreThanOrEqual, Repository } from "typeorm";
+import { HealthData, HealthReviewStatus } from "../health/entities/health-data.entity";
+import { User } from "../users/entities/user.entity";
+import { LedgerService } from "../wallet/ledger.service";
+import { LedgerAccounts } from "../wallet/ledger-accounts";
+import { LedgerTransactionType } from "../wallet/entities/ledger-transaction.entity";
+import { getLocalDate } from "../common/timezone.util";
+import { Challenge, ChallengeFormat, ChallengeRules, ChallengeStatus, ChallengeWinCondition } from "./entities/challenge.entity";
+import { ChallengeTeam } from "./entities/challenge-team.entity";
+import { ChallengeParticipant } from "./entities/challenge-participant.entity";
+import { getWinnerShares, rankCompetitors, splitCoins } from "./challenge-payouts";
+import {
+  ChallengePhase,
+  ChallengeResponseDto,
+  ChallengesQueryDto,
+  ChallengesResponseDto,
+  ChallengeStandingDto,
+  ChallengeStandingsResponseDto,
+  ChallengeTeamStandingDto,
+  CreateChallengeDto,
+  StandingsQueryDto,
+} from "./dto/challenge.dto";
+
+// Days are stored in the timezone of their user, so a challenge day starts once
+// it started in the earliest timezone and is over once it ended in the latest
+const EARLIEST_TIMEZONE = "Pacific/Kiritimati";
+const LATEST_TIMEZONE = "Etc/GMT+12";
+
+type Standing = ChallengeStandingDto & { id: string };
+
+/**
+ * Time-boxed challenges. Entry fees are moved to the challenge's escrow account
+ * when joining, and paid out to the winners together with the organizer's prize
+ * when the challenge is settled.
+ */
+@Injectable()
+export class ChallengesService {
+  private readonly logger = new Logger(ChallengesService.name);
+
+  constructor(
+    private dataSource: DataSource,
+    @InjectRepository(Challenge)
+    private challengeRepository: Repository<Challenge>,
+    @InjectRepository(ChallengeParticipant)
+    private participantRepository: Repository<ChallengeParticipant>,
+    private ledgerService: LedgerService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Hours to wait after a challenge ended before settling it automatically, so
+   * that days synced late still count
+   */
+  getSettlementGraceHours(): number {
+    return Number(this.configService.get("CHALLENGE_SETTLEMENT_GRACE_HOURS", 24));
+  }
+
+  /**
+   * Create a challenge with the rules defined by its organizer
+   * @param createChallengeDto Challenge details
+   * @returns The created challenge
+   */
+  async create(createChallengeDto: CreateChallengeDto): Promise<ChallengeResponseDto> {
+    const { rules, teams = [] } = createChallengeDto;
+
+    if (createChallengeDto.endDate < createChallengeDto.startDate) {
+      throw new BadRequestException("The end date must not be before the start date");
+    }
+    // Users can only join before the start, so a challenge that already started would stay empty
+    if (createChallengeDto.startDate <= this.getToday().earliest) {
+      throw new BadRequestException("The challenge must start in the future");
+    }
+    if (createChallengeDto.format === ChallengeFormat.INDIVIDUAL && teams.length) {
+      throw new BadRequestException("Individual challenges cannot have teams");
+    }
+
+    const challengeRules: ChallengeRules = { metric: rules.metric, winCondition: rules.winCondition };
+    if (rules.winCondition === ChallengeWinCondition.TARGET) {
+      challengeRules.target = rules.target;
+    } else if (rules.prizeShares) {
+      if (rules.prizeShares.reduce((sum, share) => sum + share, 0) !== 100) {
+        throw new BadRequestException("Prize shares must add up to 100");
+      }
+      challengeRules.prizeShares = rules.prizeShares;
+    }
+
+    const challenge = await this.challengeRepository.save(
+      this.challengeRepository.create({
+        name: createChallengeDto.name,
+        description: createChallengeDto.description,
+        format: createChallengeDto.format,
+        rules: challengeRules,
+        entryFee: createChallengeDto.entryFee ?? 0,
+        prize: createChallengeDto.prize ?? 0,
+        startDate: createChallengeDto.startDate,
+        endDate: createChallengeDto.endDate,
+        maxParticipants: createChallengeDto.maxParticipants ?? null,
+        teams: teams.map((name) => ({ name })),
+      }),
+    );
+
+    const [response] = await this.toResponses([challenge], null);
+    return response;
+  }
+
+  /**
+   * List challenges, the latest first
+   * @param userId ID of the calling user
+   * @param query Phase filter and pagination options
+   * @returns Paginated list of challenges
+   */
+  async findAll(userId: string, query: ChallengesQueryDto): Promise<ChallengesResponseDto> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+
+    const [challenges, total] = await this.challengeRepository.findAndCount({
+      where: this.getPhaseWhere(query.phase),
+      relations: { teams: true },
+      order: { startDate: "DESC", createdAt: "DESC", teams: { name: "ASC" } },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return { items: await this.toResponses(challenges, userId), total, page, limit };
+  }
+
+  async findOne(userId: string | null, id: string): Promise<ChallengeResponseDto> {
+    const challenge = await this.challengeRepository.findOne({
+      where: { id },
+      relations: { teams: true },
+      order: { teams: { name: "ASC" } },
+    });
+    if (!challenge) {
+      throw new NotFoundException("Challenge not found");
+    }
+
+    const [response] = await this.toResponses([challenge], userId);
+    return response;
+  }
+
+  /**
+   * Join a challenge, paying its entry fee from the wallet. Users can only join
+   * before the challenge starts, so that every participant competes on all of its days.
+   * @param userId User's ID
+   * @param id Challenge ID
+   * @param teamId Team to join, in team challenges
+   * @returns The joined challenge
+   */
+  async join(userId: string, id: string, teamId?: string): Promise<ChallengeResponseDto> {
+    await this.dataSource.transaction(async (manager) => {
+      const challenge = await this.lockChallenge(manager, id);
+
+      if (this.getPhase(challenge) !== ChallengePhase.UPCOMING) {
+        throw new BadRequestException("This challenge can no longer be joined");
+      }
+
+      if (await manager.exists(ChallengeParticipant, { where: { challengeId: id, userId } })) {
+        throw new ConflictException("You have already joined this challenge");
+      }
+      if (challenge.maxParticipants !== null) {
+        const participants = await manager.count(ChallengeParticipant, { where: { challengeId: id } });
+        if (participants >= challenge.maxParticipants) {
+          throw new ConflictException("This challenge is full");
+        }
+      }
+
+      if (challenge.format === ChallengeFormat.TEAM) {
+        if (!teamId || !(await manager.exists(ChallengeTeam, { where: { id: teamId, challengeId: id } }))) {
+          throw new BadRequestException("Choose one of the challenge's teams");
+        }
+      } else if (teamId) {
+        throw new BadRequestException("This challenge has no teams");
+      }
+
+      const participant = await manager.save(
+        manager.create(ChallengeParticipant, {
+          challengeId: id,
+          userId,
+          teamId: teamId ?? null,
+          entryFee: challenge.entryFee,
+        }),
+      );
+
+      if (participant.entryFee > 0) {
+        await this.ledgerService.post(
+          {
+            idempotencyKey: `challenge-entry:${participant.id}`,
+            userId,
+            type: LedgerTransactionType.CHALLENGE_ENTRY,
+            reference: participant.id,
+            description: `Joined ${challenge.name}`,
+            metadata: { challengeId: id },
+            postings: [
+              { account: LedgerAccounts.userWallet(userId), amount: -participant.entryFee },
+              { account: LedgerAccounts.challengeEscrow(id), amount: participant.entryFee },
+            ],
+            nonNegativeAccounts: [LedgerAccounts.userWallet(userId)],
+          },
+          manager,
+        );
+      }
+    });
+
+    return this.findOne(userId, id);
+  }
+
+  /**
+   * Leave a challenge before it starts, refunding its entry fee
+   * @param userId User's ID
+   * @param id Challenge ID
+   * @returns The challenge
+   */
+  async leave(userId: string, id: string): Promise<ChallengeResponseDto> {
+    await this.dataSource.transaction(async (manager) => {
+      const challenge = await this.lockChallenge(manager, id);
+
+      const participant = await manager.findOne(ChallengeParticipant, { where: { challengeId: id, userId } });
+      if (!participant) {
+        throw new NotFoundException("You have not joined this challenge");
+      }
+      if (this.getPhase(challenge) !== ChallengePhase.UPCOMING) {
+        throw new BadRequestException("You can only leave a challenge before it starts");
+      }
+
+      await this.refund(manager, challenge, participant, "Left");
+      await manager.remove(participant);
+    });
+
+    return this.findOne(userId, id);
+  }
+
+  /**
+   * Get the standings of a challenge. Progress is computed from the clean days
+   * of the participants until the challenge is settled, and final after that.
+   * @param userId ID of the calling user
+   * @param id Challenge ID
+   * @param query Number of top participants
+   * @returns Ranked participants and teams, and the caller's own standing
+   */
+  async getStandings(userId: string, id: string, query: StandingsQueryDto): Promise<ChallengeStandingsResponseDto> {
+    const challenge = await this.challengeRepository.findOne({ where: { id }, relations: { teams: true } });
+    if (!challenge) {
+      throw new NotFoundException("Challenge not found");
+    }
+
+    const standings = await this.getParticipantStandings(this.dataSource.manager, challenge);
+    const teams =
+      challenge.format === ChallengeFormat.TEAM
+        ? rankCompetitors(this.getTeamTotals(challenge.teams, standings)).map(
+            ({ id: teamId, rank, name, progress, members }): ChallengeTeamStandingDto => ({
+              rank,
+              teamId,
+              name,
+              progress,
+              members,
+            }),
+          )
+        : [];
+    const me = standings.find((standing) => standing.userId === userId);
+
+    return {
+      challengeId: challenge.id,
+      phase: this.getPhase(challenge),
+      total: standings.length,
+      teams,
+      entries: standings.slice(0, query.limit || 50).map((standing) => this.toStanding(standing)),
+      me: me ? this.toStanding(me) : null,
+    };
+  }
+
+  /**
+   * Settle an ended challenge: store the final standings and pay the entry fees
+   * and the prize to the winners. Without winners, the entry fees are refunded.
+   * @param id Challenge ID
+   * @returns The settled challenge
+   */
+  async settle(id: string): Promise<ChallengeResponseDto> {
+    await this.dataSource.transaction(async (manager) => {
+      const challenge = await this.lockChallenge(manager, id);
+      if (challenge.status !== ChallengeStatus.OPEN) {
+        throw new ConflictException(`A ${challenge.status} challenge cannot be settled`);
+      }
+      if (this.getPhase(challenge) !== ChallengePhase.ENDED) {
+        throw new BadRequestException("The challenge has not ended yet");
+      }
+
+      const teams = await manager.find(ChallengeTeam, { where: { challengeId: id } });
+      const participants = await manager.find(ChallengeParticipant, { where: { challengeId: id } });
+      const standings = new Map(
+        (await this.getParticipantStandings(manager, challenge)).map((standing) => [standing.id, standing]),
+      );
+      const shares = this.getParticipantShares(challenge, teams, [...standings.values()]);
+
+      const winners = participants.filter((participant) => shares.has(participant.id));
+      if (winners.length) {
+        const winnerShares = winners.map((participant) => shares.get(participant.id));
+        const fees = splitCoins(
+          await this.ledgerService.getAccountBalance(LedgerAccounts.challengeEscrow(id), manager),
+          winnerShares,
+        );
+        const prizes = splitCoins(challenge.prize, winnerShares);
+
+        for (const [index, participant] of winners.entries()) {
+          participant.prize = fees[index] + prizes[index];
+          await this.payPrize(manager, challenge, participant, fees[index], prizes[index]);
+        }
+      } else {
+        for (const participant of participants) {
+          await this.refund(manager, challenge, participant, "Nobody won");
+        }
+      }
+
+      for (const participant of participants) {
+        const standing = standings.get(participant.id);
+        participant.progress = standing.progress;
+        participant.rank = standing.rank;
+      }
+      await manager.save(participants);
+
+      challenge.status = ChallengeStatus.SETTLED;
+      challenge.settledAt = new Date();
+      await manager.save(challenge);
+    });
+
+    return this.findOne(null, id);
+  }
+
+  /**
+   * Cancel an open challenge, refunding the entry fees of its participants
+   * @param id Challenge ID
+   * @returns The cancelled challenge
+   */
+  async cancel(id: string): Promise<ChallengeResponseDto> {
+    await this.dataSource.transaction(async (manager) => {
+      const challenge = await this.lockChallenge(manager, id);
+      if (challenge.status !== ChallengeStatus.OPEN) {
+        throw new ConflictException(`A ${challenge.status} challenge cannot be cancelled`);
+      }
+
+      const participants = await manager.find(ChallengeParticipant, { where: { challengeId: id } });
+      for (const participant of participants) {
+        await this.refund(manager, challenge, participant, "Cancelled");
+      }
+
+      challenge.status = ChallengeStatus.CANCELLED;
+      challenge.settledAt = new Date();
+      await manager.save(challenge);
+    });
+
+    return this.findOne(null, id);
+  }
+
+  /**
+   * Settle the open challenges that ended more than the grace period ago.
+   * Challenges settled concurrently, e.g. by another instance, are skipped.
+   * @returns Number of settled challenges, and of challenges that failed to settle
+   */
+  async settleEnded(): Promise<{ settled: number; failed: number }> {
+    const cutoff = new Date(Date.now() - this.getSettlementGraceHours() * 60 * 60 * 1000);
+    const challenges = await this.challengeRepository.find({
+      select: { id: true },
+      where: { status: ChallengeStatus.OPEN, endDate: LessThan(getLocalDate(cutoff, LATEST_TIMEZONE)) },
+      order: { endDate: "ASC" },
+    });
+
+    let settled = 0;
+    let failed = 0;
+    for (const { id } of challenges) {
+      try {
+        await this.settle(id);
+        settled++;
+      } catch (error) {
+        if (!(error instanceof ConflictException)) {
+          failed++;
+          this.logger.error(`Failed to settle challenge ${id}: ${error.message}`, error.stack);
+        }
+      }
+    }
+
+    return { settled, failed };
+  }
+
+  /**
+   * Lock a challenge for the rest of the database transaction. It is locked
+   * before any ledger write of its participants, so that joins, settlement and
+   * cancellation never see each other's partial changes.
+   */
+  private async lockChallenge(manager: EntityManager, id: string): Promise<Challenge> {
+    const challenge = await manager.findOne(Challenge, { where: { id }, lock: { mode: "pessimistic_write" } });
+    if (!challenge) {
+      throw new NotFoundException("Challenge not found");
+    }
+    return challenge;
+  }
+
+  private async refund(
+    manager: EntityManager,
+    challenge: Challenge,
+    participant: ChallengeParticipant,
+    reason: string,
+  ): Promise<void> {
+    if (participant.entryFee <= 0) {
+      return;
+    }
+
+    await this.ledgerService.post(
+      {
+        idempotencyKey: `challenge-refund:${participant.id}`,
+        userId: participant.userId,
+        type: LedgerTransactionType.CHALLENGE_REFUND,
+        reference: participant.id,
+        description: `${reason}: ${challenge.name}`,
+        metadata: { challengeId: challenge.id },
+        postings: [
+          { account: LedgerAccounts.challengeEscrow(challenge.id), amount: -participant.entryFee },
+          { account: LedgerAccounts.userWallet(participant.userId), amount: participant.entryFee },
+        ],
+        nonNegativeAccounts: [LedgerAccounts.challengeEscrow(challenge.id)],
+      },
+      manager,
+    );
+  }
+
+  private async payPrize(
+    manager: EntityManager,
+    challenge: Challenge,
+    participant: ChallengeParticipant,
+    fees: number,
+    prize: number,
+  ): Promise<void> {
+    if (fees + prize <= 0) {
+      return;
+    }
+
+    await this.ledgerService.post(
+      {
+        idempotencyKey: `challenge-prize:${participant.id}`,
+        userId: participant.userId,
+        type: LedgerTransactionType.CHALLENGE_PRIZE,
+        reference: participant.id,
+        description: `Won ${challenge.name}`,
+        metadata: { challengeId: challenge.id, fees, prize },
+        postings: [
+          { account: LedgerAccounts.challengeEscrow(challenge.id), amount: -fees },
+          { account: LedgerAccounts.CHALLENGE_PRIZES, amount: -prize },
+          { account: LedgerAccounts.userWallet(participant.userId), amount: fees + prize },
+        ].filter((posting) => posting.amount !== 0),
+        nonNegativeAccounts: [LedgerAccounts.challengeEscrow(challenge.id)],
+      },
+      manager,
+    );
+  }
+
+  /**
+   * Rank the participants of a challenge, highest progress first. Once the
+   * challenge is settled, the stored progress is used.
+   */
+  private async getParticipantStandings(manager: EntityManager, challenge: Challenge): Promise<Standing[]> {
+    const rows = await manager
+      .createQueryBuilder(ChallengeParticipant, "participant")
+      .innerJoin(User, "account", "account.id = participant.user_id")
+      .leftJoin(
+        HealthData,
+        "health",
+        "health.user_id = participant.user_id AND health.date BETWEEN :startDate AND :endDate AND health.review_status = :clean",
+        { startDate: challenge.startDate, endDate: challenge.endDate, clean: HealthReviewStatus.CLEAN },
+      )
+      .select("participant.id", "id")
+      .addSelect("participant.user_id", "userId")
+      .addSelect("participant.team_id", "teamId")
+      .addSelect("participant.progress", "storedProgress")
+      .addSelect("participant.prize", "prize")
+      .addSelect("account.username", "username")
+      .addSelect("account.name", "name")
+      .addSelect("account.avatar", "avatar")
+      .addSelect(`COALESCE(SUM(health.${challenge.rules.metric}), 0)`, "progress")
+      .where("participant.challenge_id = :challengeId", { challengeId: challenge.id })
+      .groupBy("participant.id")
+      .addGroupBy("account.id")
+      .getRawMany();
+
+    const settled = challenge.status === ChallengeStatus.SETTLED;
+    return rankCompetitors(
+      rows.map((row) => ({
+        id: row.id,
+        userId: row.userId,
+        username: row.username,
+        name: row.name,
+        avatar: row.avatar,
+        teamId: row.teamId,
+        progress: Number(settled ? row.storedProgress : row.progress),
+        prize: row.prize,
+      })),
+    );
+  }
+
+  /**
+   * Decide each winning participant's share of the pot. In team challenges, the
+   * share of a winning team is split equally among its members.
+   */
+  private getParticipantShares(challenge: Challenge, teams: ChallengeTeam[], standings: Standing[]): Map<string, number> {
+    if (challenge.format === ChallengeFormat.INDIVIDUAL) {
+      return getWinnerShares(standings, challenge.rules);
+    }
+
+    const teamShares = getWinnerShares(this.getTeamTotals(teams, standings), challenge.rules);
+    const shares = new Map<string, number>();
+    for (const team of teams.filter((team) => teamShares.has(team.id))) {
+      const members = standings.filter((standing) => standing.teamId === team.id);
+      members.forEach((member) => shares.set(member.id, teamShares.get(team.id) / members.length));
+    }
+    return shares;
+  }
+
+  private getTeamTotals(teams: ChallengeTeam[], standings: Standing[]) {
+    return teams.map((team) => {
+      const members = standings.filter((standing) => standing.teamId === team.id);
+      return {
+        id: team.id,
+        name: team.name,
+        progress: members.reduce((sum, member) => sum + member.progress, 0),
+        members: members.length,
+      };
+    });
+  }
+
+  private getPhase(challenge: Challenge): ChallengePhase {
+    if (challenge.status === ChallengeStatus.SETTLED) {
+      return ChallengePhase.SETTLED;
+    }
+    if (challenge.status === ChallengeStatus.CANCELLED) {
+      return ChallengePhase.CANCELLED;
+    }
+
+    const { earliest, latest } = this.getToday();
+    if (challenge.startDate > earliest) {
+      return ChallengePhase.UPCOMING;
+    }
+    if (challenge.endDate < latest) {
+      return ChallengePhase.ENDED;
+    }
+    return ChallengePhase.ACTIVE;
+  }
+
+  private getPhaseWhere(phase?: ChallengePhase): FindOptionsWhere<Challenge> {
+    const { earliest, latest } = this.getToday();
+
+    switch (phase) {
+      case ChallengePhase.UPCOMING:
+        return { status: ChallengeStatus.OPEN, startDate: MoreThan(earliest) };
+      case ChallengePhase.ACTIVE:
+        return { status: ChallengeStatus.OPEN, startDate: LessThanOrEqual(earliest), endDate: MoreThanOrEqual(latest) };
+      case ChallengePhase.ENDED:
+        return { status: ChallengeStatus.OPEN, endDate: LessThan(latest) };
+      case ChallengePhase.SETTLED:
+        return { status: ChallengeStatus.SETTLED };
+      case ChallengePhase.CANCELLED:
+        return { status: ChallengeStatus.CANCELLED };
+      default:
+        return {};
+    }
+  }
+
+  /**
+   * Today's date in the earliest and the latest timezone
+   */
+  private getToday(): { earliest: string; latest: string } {
+    const now = new Date();
+    return { earliest: getLocalDate(now, EARLIEST_TIMEZONE), latest: getLocalDate(now, LATEST_TIMEZONE) };
+  }
+
+  private async toResponses(challenges: Challenge[], userId: string | null): Promise<ChallengeResponseDto[]> {
+    if (!challenges.length) {
+      return [];
+    }
+
+    const challengeIds = challenges.map((challenge) => challenge.id);
+    const counts = await this.participantRepository
+      .createQueryBuilder("participant")
+      .select("participant.challenge_id", "challengeId")
+      .addSelect("COUNT(*)", "count")
+      .where("participant.challenge_id IN (:...challengeIds)", { challengeIds })
+      .groupBy("participant.challenge_id")
+      .getRawMany();
+    const countsByChallenge = new Map(counts.map((row) => [row.challengeId, parseInt(row.count, 10)]));
+
+    const participations = userId
+      ? await this.participantRepository.find({ where: { userId, challengeId: In(challengeIds) } })
+      : [];
+    const participationsByChallenge = new Map(participations.map((participation) => [participation.challengeId, participation]));
+
+    return challenges.map((challenge) => {
+      const participation = participationsByChallenge.get(challenge.id);
+      return {
+        id: challenge.id,
+        name: challenge.name,
+        description: challenge.description,
+        format: challenge.format,
+        rules: challenge.rules,
+        entryFee: challenge.entryFee,
+        prize: challenge.prize,
+        startDate: challenge.startDate,
+        endDate: challenge.endDate,
+        maxParticipants: challenge.maxParticipants,
+        participants: countsByChallenge.get(challenge.id) || 0,
+        phase: this.getPhase(challenge),
+        teams: (challenge.teams || []).map((team) => ({ id: team.id, name: team.name })),
+        joined: !!participation,
+        teamId: participation?.teamId ?? null,
+      };
+    });
+  }
+
+  private toStanding({ rank, userId, username, name, avatar, teamId, progress, prize }: Standing): ChallengeStandingDto {
+    return { rank, userId, username, name, avatar, teamId, progress, prize };
+  }
+}
@@ -0,0 +1,492 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { Type } from "class-transformer";
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  ArrayUnique,
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from "class-validator";
+import { ChallengeFormat, ChallengeMetric, ChallengeWinCondition } from "../entities/challenge.entity";
+
+export enum ChallengePhase {
+  UPCOMING = "upcoming",
+  ACTIVE = "active",
+  // Over, waiting to be settled
+  ENDED = "ended",
+  SETTLED = "settled",
+  CANCELLED = "cancelled",
+}
+
+export class ChallengeRulesDto {
+  @ApiProperty({
+    description: "Health data total the participants compete on",
+    enum: ChallengeMetric,
+    example: ChallengeMetric.STEPS,
+  })
+  @IsEnum(ChallengeMetric)
+  metric: ChallengeMetric;
+
+  @ApiProperty({
+    description: "Whether everyone reaching the target wins, or the first places",
+    enum: ChallengeWinCondition,
+    example: ChallengeWinCondition.TARGET,
+  })
+  @IsEnum(ChallengeWinCondition)
+  winCondition: ChallengeWinCondition;
+
+  @ApiProperty({
+    description: "Total to reach per participant, or per team in team challenges (target challenges)",
+    example: 100000,
+    required: false,
+  })
+  @ValidateIf((dto) => dto.winCondition === ChallengeWinCondition.TARGET)
+  @Type(() => Number)
+  @IsNumber({}, { message: "Target must be a number" })
+  @Min(1, { message: "Target must be positive" })
+  target?: number;
+
+  @ApiProperty({
+    description: "Percentages of the pot for the first places, adding up to 100 (top challenges, default [100])",
+    example: [50, 30, 20],
+    type: [Number],
+    required: false,
+  })
+  @ValidateIf((dto) => dto.winCondition === ChallengeWinCondition.TOP && dto.prizeShares !== undefined)
+  @IsArray()
+  @ArrayMinSize(1, { message: "At least one prize share is required" })
+  @ArrayMaxSize(100)
+  @IsInt({ each: true, message: "Prize shares must be whole percentages" })
+  @Min(1, { each: true, message: "Prize shares must be positive" })
+  prizeShares?: number[];
+}
+
+export class CreateChallengeDto {
+  @ApiProperty({
+    description: "Name of the challenge",
+    example: "100k steps in 7 days",
+  })
+  @IsString()
+  @IsNotEmpty({ message: "Name is required" })
+  @MaxLength(200)
+  name: string;
+
+  @ApiProperty({
+    description: "Description of the challenge",
+    example: "Walk 100,000 steps this week and split the pot with everyone who makes it.",
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(5000)
+  description?: string;
+
+  @ApiProperty({
+    description: "Whether participants compete alone or in teams",
+    enum: ChallengeFormat,
+    example: ChallengeFormat.INDIVIDUAL,
+  })
+  @IsEnum(ChallengeFormat)
+  format: ChallengeFormat;
+
+  @ApiProperty({
+    description: "Metric, win condition and prize shares of the challenge",
+    type: ChallengeRulesDto,
+  })
+  @ValidateNested()
+  @Type(() => ChallengeRulesDto)
+  rules: ChallengeRulesDto;
+
+  @ApiProperty({
+    description: "Names of the teams (team challenges)",
+    example: ["Red", "Blue"],
+    type: [String],
+    required: false,
+  })
+  @ValidateIf((dto) => dto.format === ChallengeFormat.TEAM)
+  @IsArray()
+  @ArrayMinSize(2, { message: "Team challenges need at least two teams" })
+  @ArrayMaxSize(50)
+  @ArrayUnique({ message: "Team names must be unique" })
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true, message: "Team names cannot be empty" })
+  @MaxLength(50, { each: true })
+  teams?: string[];
+
+  @ApiProperty({
+    description: "Coins a participant pays to join",
+    example: 100,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: "Entry fee must be a whole number of coins" })
+  @Min(0, { message: "Entry fee cannot be negative" })
+  entryFee?: number;
+
+  @ApiProperty({
+    description: "Coins added to the entry fees by the organizer",
+    example: 1000,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: "Prize must be a whole number of coins" })
+  @Min(0, { message: "Prize cannot be negative" })
+  prize?: number;
+
+  @ApiProperty({
+    description: "First day counted (YYYY-MM-DD)",
+    example: "2025-08-04",
+  })
+  @IsDateString({ strict: true }, { message: "Start date must be a valid date (YYYY-MM-DD)" })
+  startDate: string;
+
+  @ApiProperty({
+    description: "Last day counted (YYYY-MM-DD)",
+    example: "2025-08-10",
+  })
+  @IsDateString({ strict: true }, { message: "End date must be a valid date (YYYY-MM-DD)" })
+  endDate: string;
+
+  @ApiProperty({
+    description: "How many users can join; leave empty for no limit",
+    example: 500,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: "Maximum participants must be an integer" })
+  @Min(2, { message: "Maximum participants must be at least 2" })
+  maxParticipants?: number;
+}
+
+export class ChallengesQueryDto {
+  @ApiProperty({
+    description: "Only list challenges in this phase",
+    enum: ChallengePhase,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(ChallengePhase)
+  phase?: ChallengePhase;
+
+  @ApiProperty({
+    description: "Page number (starting at 1)",
+    example: 1,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: "Page must be an integer" })
+  @Min(1, { message: "Page must be at least 1" })
+  page?: number = 1;
+
+  @ApiProperty({
+    description: "Number of challenges per page",
+    example: 20,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: "Limit must be an integer" })
+  @Min(1, { message: "Limit must be at least 1" })
+  @Max(100, { message: "Limit cannot exceed 100" })
+  limit?: number = 20;
+}
+
+export class JoinChallengeDto {
+  @ApiProperty({
+    description: "The team to join (team challenges)",
+    example: "0d9f7c2a-51b4-4e0e-9a63-2f1c8e7b4a10",
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID("4", { message: "Team ID must be a valid UUID" })
+  teamId?: string;
+}
+
+export class StandingsQueryDto {
+  @ApiProperty({
+    description: "Number of top participants",
+    example: 50,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: "Limit must be an integer" })
+  @Min(1, { message: "Limit must be at least 1" })
+  @Max(200, { message: "Limit cannot exceed 200" })
+  limit?: number = 50;
+}
+
+export class ChallengeTeamDto {
+  @ApiProperty({
+    description: "The unique identifier of the team",
+    example: "0d9f7c2a-51b4-4e0e-9a63-2f1c8e7b4a10",
+  })
+  id: string;
+
+  @ApiProperty({
+    description: "Name of the team",
+    example: "Red",
+  })
+  name: string;
+}
+
+export class ChallengeResponseDto {
+  @ApiProperty({
+    description: "The unique identifier of the challenge",
+    example: "6a1e2b7c-3d4f-4a5b-8c9d-0e1f2a3b4c5d",
+  })
+  id: string;
+
+  @ApiProperty({
+    description: "Name of the challenge",
+    example: "100k steps in 7 days",
+  })
+  name: string;
+
+  @ApiProperty({
+    description: "Description of the challenge",
+    required: false,
+  })
+  description: string;
+
+  @ApiProperty({
+    description: "Whether participants compete alone or in teams",
+    enum: ChallengeFormat,
+    example: ChallengeFormat.INDIVIDUAL,
+  })
+  format: ChallengeFormat;
+
+  @ApiProperty({
+    description: "Metric, win condition and prize shares of the challenge",
+    type: ChallengeRulesDto,
+  })
+  rules: ChallengeRulesDto;
+
+  @ApiProperty({
+    description: "Coins a participant pays to join",
+    example: 100,
+  })
+  entryFee: number;
+
+  @ApiProperty({
+    description: "Coins added to the entry fees by the organizer",
+    example: 1000,
+  })
+  prize: number;
+
+  @ApiProperty({
+    description: "First day counted (YYYY-MM-DD)",
+    example: "2025-08-04",
+  })
+  startDate: string;
+
+  @ApiProperty({
+    description: "Last day counted (YYYY-MM-DD)",
+    example: "2025-08-10",
+  })
+  endDate: string;
+
+  @ApiProperty({
+    description: "How many users can join; unlimited if not set",
+    example: 500,
+    required: false,
+  })
+  maxParticipants: number;
+
+  @ApiProperty({
+    description: "Number of users who joined",
+    example: 128,
+  })
+  participants: number;
+
+  @ApiProperty({
+    description: "Phase of the challenge",
+    enum: ChallengePhase,
+    example: ChallengePhase.UPCOMING,
+  })
+  phase: ChallengePhase;
+
+  @ApiProperty({
+    description: "Teams of the challenge; empty for individual challenges",
+    type: [ChallengeTeamDto],
+  })
+  teams: ChallengeTeamDto[];
+
+  @ApiProperty({
+    description: "Whether the caller joined the challenge",
+    example: true,
+  })
+  joined: boolean;
+
+  @ApiProperty({
+    description: "The team the caller joined, in team challenges",
+    required: false,
+    nullable: true,
+  })
+  teamId: string | null;
+}
+
+export class ChallengesResponseDto {
+  @ApiProperty({
+    description: "Challenges of the requested page",
+    type: [ChallengeResponseDto],
+  })
+  items: ChallengeResponseDto[];
+
+  @ApiProperty({
+    description: "Total number of challenges",
+    example: 12,
+  })
+  total: number;
+
+  @ApiProperty({
+    description: "Current page number",
+    example: 1,
+  })
+  page: number;
+
+  @ApiProperty({
+    description: "Number of challenges per page",
+    example: 20,
+  })
+  limit: number;
+}
+
+export class ChallengeStandingDto {
+  @ApiProperty({
+    description: "Rank of the participant; participants with the same progress share a rank",
+    example: 1,
+  })
+  rank: number;
+
+  @ApiProperty({
+    description: "The unique identifier of the user",
+    example: "3f0c1a52-6c1e-4a35-9d55-3c0f7d7e8b21",
+  })
+  userId: string;
+
+  @ApiProperty({
+    description: "The username of the user",
+    example: "janedoe",
+  })
+  username: string;
+
+  @ApiProperty({
+    description: "The full name of the user",
+    example: "Jane Doe",
+  })
+  name: string;
+
+  @ApiProperty({
+    description: "The avatar URL of the user",
+    required: false,
+  })
+  avatar: string;
+
+  @ApiProperty({
+    description: "The team of the participant, in team challenges",
+    required: false,
+    nullable: true,
+  })
+  teamId: string | null;
+
+  @ApiProperty({
+    description: "Total of the challenge's metric so far",
+    example: 84250,
+  })
+  progress: number;
+
+  @ApiProperty({
+    description: "Coins won; 0 until the challenge is settled",
+    example: 0,
+  })
+  prize: number;
+}
+
+export class ChallengeTeamStandingDto {
+  @ApiProperty({
+    description: "Rank of the team; teams with the same progress share a rank",
+    example: 1,
+  })
+  rank: number;
+
+  @ApiProperty({
+    description: "The unique identifier of the team",
+    example: "0d9f7c2a-51b4-4e0e-9a63-2f1c8e7b4a10",
+  })
+  teamId: string;
+
+  @ApiProperty({
+    description: "Name of the team",
+    example: "Red",
+  })
+  name: string;
+
+  @ApiProperty({
+    description: "Sum of the progress of the team's members",
+    example: 612400,
+  })
+  progress: number;
+
+  @ApiProperty({
+    description: "Number of members",
+    example: 9,
+  })
+  members: number;
+}
+
+export class ChallengeStandingsResponseDto {
+  @ApiProperty({
+    description: "The unique identifier of the challenge",
+    example: "6a1e2b7c-3d4f-4a5b-8c9d-0e1f2a3b4c5d",
+  })
+  challengeId: string;
+
+  @ApiProperty({
+    description: "Phase of the challenge; standings are final once it is settled",
+    enum: ChallengePhase,
+    example: ChallengePhase.ACTIVE,
+  })
+  phase: ChallengePhase;
+
+  @ApiProperty({
+    description: "Number of participants",
+    example: 128,
+  })
+  total: number;
+
+  @ApiProperty({
+    description: "Ranked teams, in team challenges",
+    type: [ChallengeTeamStandingDto],
+  })
+  teams: ChallengeTeamStandingDto[];
+
+  @ApiProperty({
+    description: "Top participants, highest progress first",
+    type: [ChallengeStandingDto],
+  })
+  entries: ChallengeStandingDto[];
+
+  @ApiProperty({
+    description: "The caller's own standing, or null if they didn't join",
+    type: ChallengeStandingDto,
+    nullable: true,
+  })
+  me: ChallengeStandingDto | null;
+}
@@ -0,0 +1,62 @@
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, ManyToOne, JoinColumn, Index } from "typeorm";
+import { ApiProperty } from "@nestjs/swagger";
+import { User } from "../../users/entities/user.entity";
+import { Challenge } from "./challenge.entity";
+import { ChallengeTeam } from "./challenge-team.entity";
+
+/**
+ * A user who joined a challenge. Progress, rank and prize are stored when the
+ * challenge is settled; until then they are computed from the health data.
+ */
+@Entity("challenge_participants")
+@Index("IDX_challenge_participants_challenge_id_user_id", ["challengeId", "userId"], { unique: true })
+export class ChallengeParticipant {
+  @PrimaryGeneratedColumn("uuid")
+  @ApiProperty({ description: "The unique identifier of the participation" })
+  id: string;
+
+  @ManyToOne(() => Challenge, (challenge) => challenge.participants, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "challenge_id" })
+  challenge: Challenge;
+
+  @Column({ name: "challenge_id" })
+  @ApiProperty({ description: "The ID of the challenge" })
+  challengeId: string;
+
+  @ManyToOne(() => User, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "user_id" })
+  user: User;
+
+  @Column({ name: "user_id" })
+  @Index("IDX_challenge_participants_user_id")
+  @ApiProperty({ description: "The ID of the user" })
+  userId: string;
+
+  @ManyToOne(() => ChallengeTeam, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "team_id" })
+  team: ChallengeTeam;
+
+  @Column({ name: "team_id", nullable: true })
+  @ApiProperty({ description: "The ID of the team the user joined, in team challenges" })
+  teamId: string | null;
+
+  @Column({ name: "entry_fee", type: "int" })
+  @ApiProperty({ description: "Coins paid to join" })
+  entryFee: number;
+
+  @Column({ type: "float", nullable: true })
+  @ApiProperty({ description: "Final total of the challenge's metric" })
+  progress: number | null;
+
+  @Column({ type: "int", nullable: true })
+  @ApiProperty({ description: "Final rank of the user among all participants" })
+  rank: number | null;
+
+  @Column({ type: "int", default: 0 })
+  @ApiProperty({ description: "Coins won" })
+  prize: number;
+
+  @CreateDateColumn({ name: "created_at" })
+  @ApiProperty({ description: "The date when the user joined" })
+  createdAt: Date;
+}
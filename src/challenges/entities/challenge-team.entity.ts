@@ -0,0 +1,23 @@
+import { Entity, Column, PrimaryGeneratedColumn, ManyToOne, JoinColumn, Index } from "typeorm";
+import { ApiProperty } from "@nestjs/swagger";
+import { Challenge } from "./challenge.entity";
+
+@Entity("challenge_teams")
+export class ChallengeTeam {
+  @PrimaryGeneratedColumn("uuid")
+  @ApiProperty({ description: "The unique identifier of the team" })
+  id: string;
+
+  @ManyToOne(() => Challenge, (challenge) => challenge.teams, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "challenge_id" })
+  challenge: Challenge;
+
+  @Column({ name: "challenge_id" })
+  @Index("IDX_challenge_teams_challenge_id")
+  @ApiProperty({ description: "The ID of the challenge" })
+  challengeId: string;
+
+  @Column()
+  @ApiProperty({ description: "Name of the team" })
+  name: string;
+}
@@ -0,0 +1,113 @@
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn, OneToMany, Index } from "typeorm";
+import { ApiProperty } from "@nestjs/swagger";
+import { ChallengeTeam } from "./challenge-team.entity";
+import { ChallengeParticipant } from "./challenge-participant.entity";
+
+export enum ChallengeFormat {
+  INDIVIDUAL = "individual",
+  // Participants join a team and teams compete with the sum of their members' progress
+  TEAM = "team",
+}
+
+// Named after the HealthData totals they are computed from
+export enum ChallengeMetric {
+  STEPS = "steps",
+  DISTANCE = "distance",
+  DURATION = "duration",
+  CALORIES = "calories",
+}
+
+export enum ChallengeWinCondition {
+  // Everyone reaching the target wins an equal share
+  TARGET = "target",
+  // The first places win their prize shares
+  TOP = "top",
+}
+
+export enum ChallengeStatus {
+  OPEN = "open",
+  SETTLED = "settled",
+  CANCELLED = "cancelled",
+}
+
+/**
+ * Rules of a challenge, defined by its organizer
+ */
+export interface ChallengeRules {
+  metric: ChallengeMetric;
+  winCondition: ChallengeWinCondition;
+  // Total to reach per participant, or per team in team challenges
+  target?: number;
+  // Percentages of the pot for the first places, adding up to 100
+  prizeShares?: number[];
+}
+
+/**
+ * A time-boxed competition. Entry fees are held in the challenge's escrow
+ * account until the challenge is settled or cancelled.
+ */
+@Entity("challenges")
+@Index("IDX_challenges_status_end_date", ["status", "endDate"])
+export class Challenge {
+  @PrimaryGeneratedColumn("uuid")
+  @ApiProperty({ description: "The unique identifier of the challenge" })
+  id: string;
+
+  @Column()
+  @ApiProperty({ description: "Name of the challenge" })
+  name: string;
+
+  @Column({ type: "text", nullable: true })
+  @ApiProperty({ description: "Description of the challenge" })
+  description: string;
+
+  @Column({ type: "enum", enum: ChallengeFormat })
+  @ApiProperty({ description: "Whether participants compete alone or in teams", enum: ChallengeFormat })
+  format: ChallengeFormat;
+
+  @Column({ type: "jsonb" })
+  @ApiProperty({ description: "Metric, win condition and prize shares of the challenge" })
+  rules: ChallengeRules;
+
+  @Column({ name: "entry_fee", type: "int", default: 0 })
+  @ApiProperty({ description: "Coins a participant pays to join" })
+  entryFee: number;
+
+  @Column({ type: "int", default: 0 })
+  @ApiProperty({ description: "Coins added to the entry fees by the organizer" })
+  prize: number;
+
+  @Column({ name: "start_date", type: "date" })
+  @ApiProperty({ description: "First day counted (YYYY-MM-DD)" })
+  startDate: string;
+
+  @Column({ name: "end_date", type: "date" })
+  @ApiProperty({ description: "Last day counted (YYYY-MM-DD)" })
+  endDate: string;
+
+  @Column({ name: "max_participants", type: "int", nullable: true })
+  @ApiProperty({ description: "How many users can join; unlimited if not set" })
+  maxParticipants: number;
+
+  @Column({ type: "enum", enum: ChallengeStatus, default: ChallengeStatus.OPEN })
+  @ApiProperty({ description: "Whether the challenge is open, settled or cancelled", enum: ChallengeStatus })
+  status: ChallengeStatus;
+
+  @Column({ name: "settled_at", nullable: true })
+  @ApiProperty({ description: "The date when the prizes were paid or the fees refunded" })
+  settledAt: Date;
+
+  @OneToMany(() => ChallengeTeam, (team) => team.challenge, { cascade: ["insert"] })
+  teams: ChallengeTeam[];
+
+  @OneToMany(() => ChallengeParticipant, (participant) => participant.challenge)
+  participants: ChallengeParticipant[];
+
+  @CreateDateColumn({ name: "created_at" })
+  @ApiProperty({ description: "The date when the challenge was created" })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: "updated_at" })
+  @ApiProperty({ description: "The date when the challenge was last updated" })
+  updatedAt: Date;
+}
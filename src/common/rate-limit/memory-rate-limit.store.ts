@@ -0,0 +1,40 @@
+import { RateLimitHit, RateLimitStore } from './rate-limit.store';
+
+// Expired counters are swept once the store holds this many keys
+const SWEEP_THRESHOLD = 10000;
+
+/**
+ * Rate limit counters kept in the memory of a single process, for tests and
+ * local development without Valkey
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly counters = new Map<string, { count: number; resetAt: number }>();
+
+  async hit(key: string, windowInSeconds: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    let counter = this.counters.get(key);
+
+    if (!counter || counter.resetAt <= now) {
+      if (this.counters.size >= SWEEP_THRESHOLD) {
+        this.sweep(now);
+      }
+      counter = { count: 0, resetAt: now + windowInSeconds * 1000 };
+      this.counters.set(key, counter);
+    }
+
+    counter.count++;
+    return { count: counter.count, resetInSeconds: Math.ceil((counter.resetAt - now) / 1000) };
+  }
+
+  reset(): void {
+    this.counters.clear();
+  }
+
+  private sweep(now: number): void {
+    for (const [key, counter] of this.counters) {
+      if (counter.resetAt <= now) {
+        this.counters.delete(key);
+      }
+    }
+  }
+}
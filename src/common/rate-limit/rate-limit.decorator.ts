@@ -0,0 +1,15 @@
+import { applyDecorators, SetMetadata, UseGuards } from '@nestjs/common';
+import { RateLimitGuard } from './rate-limit.guard';
+import { RATE_LIMIT_OPTIONS, RateLimitOptions } from './rate-limit.options';
+
+/**
+ * Limit how often a client can call a route. Responses carry RateLimit-Limit,
+ * RateLimit-Remaining and RateLimit-Reset headers, and requests over the limit
+ * get 429 Too Many Requests with a Retry-After header.
+ *
+ * For per-user limits the route must be authenticated by a guard that runs
+ * first, i.e. one applied to the controller or listed below this decorator.
+ */
+export function RateLimit(options: RateLimitOptions) {
+  return applyDecorators(SetMetadata(RATE_LIMIT_OPTIONS, options), UseGuards(RateLimitGuard));
+}
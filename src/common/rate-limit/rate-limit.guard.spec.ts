@@ -0,0 +1,136 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ExecutionContextHost } from '@nestjs/core/helpers/execution-context-host';
+import { HealthController } from '../../health/health.controller';
+import { RateLimit } from './rate-limit.decorator';
+import { RateLimitGuard } from './rate-limit.guard';
+import { MemoryRateLimitStore } from './memory-rate-limit.store';
+import { RateLimitStore } from './rate-limit.store';
+
+class ExampleController {
+  @RateLimit({ points: 2, window: 60 })
+  perIp() {}
+
+  @RateLimit({ points: 2, window: 60, key: 'user' })
+  perUser() {}
+
+  @RateLimit({ points: 2, window: 60, key: 'user', name: 'shared' })
+  sharedA() {}
+
+  @RateLimit({ points: 2, window: 60, key: 'user', name: 'shared' })
+  sharedB() {}
+
+  unlimited() {}
+}
+
+function createResponse() {
+  const headers: Record<string, unknown> = {};
+  return { headers, setHeader: (name: string, value: unknown) => (headers[name] = value) };
+}
+
+function createContext(
+  controller: new (...args: any[]) => any,
+  handler: string,
+  request: { ip?: string; user?: { userId: string } } = { ip: '203.0.113.7' },
+  response = createResponse(),
+) {
+  return new ExecutionContextHost([request, response], controller, controller.prototype[handler]);
+}
+
+async function hit(guard: RateLimitGuard, ...args: Parameters<typeof createContext>): Promise<number | null> {
+  try {
+    await guard.canActivate(createContext(...args));
+    return null;
+  } catch (error) {
+    return error instanceof HttpException ? error.getStatus() : -1;
+  }
+}
+
+describe('RateLimitGuard', () => {
+  let guard: RateLimitGuard;
+
+  beforeEach(() => {
+    guard = new RateLimitGuard(new Reflector(), new MemoryRateLimitStore());
+  });
+
+  it('lets requests through up to the limit and sets the rate limit headers', async () => {
+    const response = createResponse();
+    const context = createContext(ExampleController, 'perIp', { ip: '203.0.113.7' }, response);
+
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+    expect(response.headers).toEqual({ 'RateLimit-Limit': 2, 'RateLimit-Remaining': 1, 'RateLimit-Reset': 60 });
+  });
+
+  it('rejects requests over the limit with 429 and Retry-After', async () => {
+    const response = createResponse();
+
+    expect(await hit(guard, ExampleController, 'perIp')).toBeNull();
+    expect(await hit(guard, ExampleController, 'perIp')).toBeNull();
+    await expect(
+      guard.canActivate(createContext(ExampleController, 'perIp', { ip: '203.0.113.7' }, response)),
+    ).rejects.toThrow('Too many requests');
+    expect(response.headers['RateLimit-Remaining']).toBe(0);
+    expect(response.headers['Retry-After']).toBe(60);
+  });
+
+  it('counts each IP address separately', async () => {
+    await hit(guard, ExampleController, 'perIp', { ip: '203.0.113.7' });
+    await hit(guard, ExampleController, 'perIp', { ip: '203.0.113.7' });
+
+    expect(await hit(guard, ExampleController, 'perIp', { ip: '203.0.113.7' })).toBe(HttpStatus.TOO_MANY_REQUESTS);
+    expect(await hit(guard, ExampleController, 'perIp', { ip: '198.51.100.1' })).toBeNull();
+  });
+
+  it('counts per user across IP addresses', async () => {
+    const user = { userId: 'user-1' };
+    await hit(guard, ExampleController, 'perUser', { ip: '203.0.113.7', user });
+    await hit(guard, ExampleController, 'perUser', { ip: '198.51.100.1', user });
+
+    expect(await hit(guard, ExampleController, 'perUser', { ip: '192.0.2.1', user })).toBe(
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+    expect(await hit(guard, ExampleController, 'perUser', { user: { userId: 'user-2' } })).toBeNull();
+  });
+
+  it('counts per IP address when a per-user route has no user', async () => {
+    await hit(guard, ExampleController, 'perUser', { ip: '203.0.113.7', user: { userId: 'user-1' } });
+    await hit(guard, ExampleController, 'perUser', { ip: '203.0.113.7', user: { userId: 'user-1' } });
+
+    expect(await hit(guard, ExampleController, 'perUser', { ip: '203.0.113.7' })).toBeNull();
+  });
+
+  it('shares a named limit between routes', async () => {
+    const user = { userId: 'user-1' };
+    await hit(guard, ExampleController, 'sharedA', { user });
+    await hit(guard, ExampleController, 'sharedB', { user });
+
+    expect(await hit(guard, ExampleController, 'sharedA', { user })).toBe(HttpStatus.TOO_MANY_REQUESTS);
+  });
+
+  it('ignores routes without a limit', async () => {
+    const response = createResponse();
+
+    await expect(guard.canActivate(createContext(ExampleController, 'unlimited', {}, response))).resolves.toBe(true);
+    expect(response.headers).toEqual({});
+  });
+
+  it('lets requests through when the store fails', async () => {
+    const failingStore: RateLimitStore = { hit: () => Promise.reject(new Error('connection refused')) };
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await expect(
+      new RateLimitGuard(new Reflector(), failingStore).canActivate(createContext(ExampleController, 'perIp')),
+    ).resolves.toBe(true);
+    errorSpy.mockRestore();
+  });
+
+  it.each(['create', 'createSamples'])('limits HealthController.%s to 30 requests per user', async (handler) => {
+    const user = { userId: 'user-1' };
+    for (let i = 0; i < 30; i++) {
+      expect(await hit(guard, HealthController, handler, { user })).toBeNull();
+    }
+
+    expect(await hit(guard, HealthController, handler, { user })).toBe(HttpStatus.TOO_MANY_REQUESTS);
+    expect(await hit(guard, HealthController, handler, { user: { userId: 'user-2' } })).toBeNull();
+  });
+});
@@ -0,0 +1,56 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { RATE_LIMIT_OPTIONS, RateLimitOptions } from './rate-limit.options';
+import { RATE_LIMIT_STORE, RateLimitHit, RateLimitStore } from './rate-limit.store';
+
+@Injectable()
+export class RateLimitGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    @Inject(RATE_LIMIT_STORE) private store: RateLimitStore
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const options = this.reflector.getAllAndOverride<RateLimitOptions>(RATE_LIMIT_OPTIONS, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (!options) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const response = context.switchToHttp().getResponse();
+
+    const name = options.name || `${context.getClass().name}.${context.getHandler().name}`;
+    const userId = request.user?.userId;
+    const client = options.key === 'user' && userId ? `user:${userId}` : `ip:${request.ip}`;
+
+    let hit: RateLimitHit;
+    try {
+      hit = await this.store.hit(`ratelimit:${name}:${client}`, options.window);
+    } catch (error) {
+      // Don't take the route down with the store; the limit is only a safeguard
+      console.error('Failed to check rate limit:', error.message);
+      return true;
+    }
+
+    response.setHeader('RateLimit-Limit', options.points);
+    response.setHeader('RateLimit-Remaining', Math.max(options.points - hit.count, 0));
+    response.setHeader('RateLimit-Reset', hit.resetInSeconds);
+
+    if (hit.count > options.points) {
+      response.setHeader('Retry-After', hit.resetInSeconds);
+      throw new HttpException('Too many requests. Please try again later.', HttpStatus.TOO_MANY_REQUESTS);
+    }
+
+    return true;
+  }
+}
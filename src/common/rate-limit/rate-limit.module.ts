@@ -0,0 +1,28 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ServicesModule } from '../../services/services.module';
+import { ValkeyService } from '../../services/valkey.service';
+import { RATE_LIMIT_STORE } from './rate-limit.store';
+import { ValkeyRateLimitStore } from './valkey-rate-limit.store';
+import { MemoryRateLimitStore } from './memory-rate-limit.store';
+
+/**
+ * Provides the counter store for @RateLimit routes in every module.
+ * Set RATE_LIMIT_STORE=memory to keep counters in process memory instead of Valkey.
+ */
+@Global()
+@Module({
+  imports: [ServicesModule],
+  providers: [
+    {
+      provide: RATE_LIMIT_STORE,
+      inject: [ConfigService, ValkeyService],
+      useFactory: (configService: ConfigService, valkeyService: ValkeyService) =>
+        configService.get('RATE_LIMIT_STORE', 'valkey') === 'memory'
+          ? new MemoryRateLimitStore()
+          : new ValkeyRateLimitStore(valkeyService),
+    },
+  ],
+  exports: [RATE_LIMIT_STORE],
+})
+export class RateLimitModule {}
@@ -0,0 +1,13 @@
+export const RATE_LIMIT_OPTIONS = 'rateLimitOptions';
+
+export interface RateLimitOptions {
+  // Requests allowed per window
+  points: number;
+  // Length of the window in seconds
+  window: number;
+  // Count requests per client IP address, or per authenticated user. Requests
+  // without a user are counted by IP address.
+  key?: 'ip' | 'user';
+  // Counter name, so that several routes can share one limit. Defaults to the route's handler.
+  name?: string;
+}
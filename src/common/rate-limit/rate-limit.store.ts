@@ -0,0 +1,16 @@
+export const RATE_LIMIT_STORE = 'RATE_LIMIT_STORE';
+
+export interface RateLimitHit {
+  // Number of requests counted in the current window, including this one
+  count: number;
+  // Seconds until the current window ends and the count starts over
+  resetInSeconds: number;
+}
+
+/**
+ * Storage for rate limit counters. Each key is counted in fixed windows that
+ * start with its first request.
+ */
+export interface RateLimitStore {
+  hit(key: string, windowInSeconds: number): Promise<RateLimitHit>;
+}
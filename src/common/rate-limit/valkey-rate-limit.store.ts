@@ -0,0 +1,18 @@
+import { Injectable } from '@nestjs/common';
+import { ValkeyService } from '../../services/valkey.service';
+import { RateLimitHit, RateLimitStore } from './rate-limit.store';
+
+/**
+ * Rate limit counters shared by all instances of the API
+ */
+@Injectable()
+export class ValkeyRateLimitStore implements RateLimitStore {
+  constructor(private valkeyService: ValkeyService) {}
+
+  async hit(key: string, windowInSeconds: number): Promise<RateLimitHit> {
+    const count = await this.valkeyService.incrementCounter(key, windowInSeconds);
+    const ttl = await this.valkeyService.getTtl(key);
+
+    return { count, resetInSeconds: ttl ?? windowInSeconds };
+  }
+}
@@ -0,0 +1,97 @@
+import { addDays, diffDays, getISOWeek, getLocalDate, getLocalHour, isValidTimeZone, pickTimeZone } from './timezone.util';
+
+describe('timezone.util', () => {
+  describe('America/New_York daylight saving time', () => {
+    const timeZone = 'America/New_York';
+
+    it('skips the hour from 2:00 to 3:00 when DST starts in March', () => {
+      expect(getLocalHour(new Date('2025-03-09T06:59:00Z'), timeZone)).toBe('2025-03-09T01:00');
+      expect(getLocalHour(new Date('2025-03-09T07:00:00Z'), timeZone)).toBe('2025-03-09T03:00');
+    });
+
+    it('moves local midnight to 04:00 UTC after DST starts', () => {
+      expect(getLocalDate(new Date('2025-03-09T04:59:00Z'), timeZone)).toBe('2025-03-08');
+      expect(getLocalDate(new Date('2025-03-09T05:00:00Z'), timeZone)).toBe('2025-03-09');
+      expect(getLocalDate(new Date('2025-03-10T03:59:00Z'), timeZone)).toBe('2025-03-09');
+      expect(getLocalDate(new Date('2025-03-10T04:00:00Z'), timeZone)).toBe('2025-03-10');
+    });
+
+    it('repeats the hour from 1:00 to 2:00 when DST ends in November', () => {
+      expect(getLocalHour(new Date('2025-11-02T05:30:00Z'), timeZone)).toBe('2025-11-02T01:00');
+      expect(getLocalHour(new Date('2025-11-02T06:30:00Z'), timeZone)).toBe('2025-11-02T01:00');
+      expect(getLocalHour(new Date('2025-11-02T07:00:00Z'), timeZone)).toBe('2025-11-02T02:00');
+    });
+
+    it('moves local midnight to 05:00 UTC after DST ends', () => {
+      expect(getLocalDate(new Date('2025-11-02T03:59:00Z'), timeZone)).toBe('2025-11-01');
+      expect(getLocalDate(new Date('2025-11-02T04:00:00Z'), timeZone)).toBe('2025-11-02');
+      expect(getLocalDate(new Date('2025-11-03T04:59:00Z'), timeZone)).toBe('2025-11-02');
+      expect(getLocalDate(new Date('2025-11-03T05:00:00Z'), timeZone)).toBe('2025-11-03');
+    });
+  });
+
+  describe('around the date line', () => {
+    const instant = new Date('2025-07-01T10:30:00Z');
+
+    it('is already the next day in Pacific/Kiritimati (UTC+14)', () => {
+      expect(getLocalHour(instant, 'Pacific/Kiritimati')).toBe('2025-07-02T00:00');
+    });
+
+    it('is still the previous day in Pacific/Pago_Pago (UTC-11)', () => {
+      expect(getLocalHour(instant, 'Pacific/Pago_Pago')).toBe('2025-06-30T23:00');
+    });
+
+    it('puts the same instant on dates two days apart', () => {
+      const ahead = getLocalDate(instant, 'Pacific/Kiritimati');
+      const behind = getLocalDate(instant, 'Pacific/Pago_Pago');
+
+      expect(diffDays(behind, ahead)).toBe(2);
+    });
+  });
+
+  describe('isValidTimeZone', () => {
+    it.each(['UTC', 'Asia/Bangkok', 'America/New_York', 'Pacific/Kiritimati'])('accepts %s', (timeZone) => {
+      expect(isValidTimeZone(timeZone)).toBe(true);
+    });
+
+    it.each(['', 'Mars/Olympus_Mons', 'Asia/Bangkok; DROP TABLE', '+25:00'])('rejects "%s"', (timeZone) => {
+      expect(isValidTimeZone(timeZone)).toBe(false);
+    });
+  });
+
+  describe('pickTimeZone', () => {
+    it('prefers the first valid timezone', () => {
+      expect(pickTimeZone('Asia/Bangkok', 'America/New_York')).toBe('Asia/Bangkok');
+      expect(pickTimeZone(null, 'America/New_York')).toBe('America/New_York');
+    });
+
+    it('skips an invalid timezone', () => {
+      expect(pickTimeZone('Not/A_Zone', 'Asia/Bangkok')).toBe('Asia/Bangkok');
+    });
+
+    it('falls back to UTC when no timezone is valid', () => {
+      expect(pickTimeZone(null, 'Not/A_Zone')).toBe('UTC');
+      expect(pickTimeZone(undefined, undefined)).toBe('UTC');
+      expect(pickTimeZone()).toBe('UTC');
+    });
+  });
+
+  describe('calendar dates', () => {
+    it('adds days across month and year ends', () => {
+      expect(addDays('2025-02-28', 1)).toBe('2025-03-01');
+      expect(addDays('2024-02-28', 1)).toBe('2024-02-29');
+      expect(addDays('2025-01-01', -1)).toBe('2024-12-31');
+    });
+
+    it('counts days across a DST change without drift', () => {
+      expect(diffDays('2025-03-08', '2025-03-10')).toBe(2);
+      expect(diffDays('2025-11-03', '2025-11-01')).toBe(-2);
+    });
+
+    it('assigns days at the turn of the year to their ISO week', () => {
+      expect(getISOWeek('2024-12-30')).toEqual({ year: 2025, week: 1 });
+      expect(getISOWeek('2021-01-03')).toEqual({ year: 2020, week: 53 });
+      expect(getISOWeek('2025-07-21')).toEqual({ year: 2025, week: 30 });
+    });
+  });
+});
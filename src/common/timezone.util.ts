@@ -0,0 +1,126 @@
+/**
+ * Date helpers for bucketing instants into calendar days of a user's IANA timezone.
+ * Calendar dates are handled as YYYY-MM-DD strings so that no step depends on the
+ * server's own timezone.
+ */
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function getParts(instant: Date, timeZone: string): Record<string, string> {
+  const parts: Record<string, string> = {};
+  getFormatter(timeZone)
+    .formatToParts(instant)
+    .forEach((part) => (parts[part.type] = part.value));
+  return parts;
+}
+
+/**
+ * Check whether a string is an IANA timezone supported by the runtime
+ * @param timeZone Timezone name, e.g. "Asia/Bangkok"
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!timeZone) {
+    return false;
+  }
+
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Pick the first valid timezone, in order of preference. Invalid names, such as an
+ * unknown zone sent by an outdated device, are skipped rather than rejected.
+ * @param timeZones Candidate timezones, e.g. the profile timezone and the client's
+ * @returns IANA timezone, UTC if none of the candidates is valid
+ */
+export function pickTimeZone(...timeZones: (string | null | undefined)[]): string {
+  return timeZones.find((timeZone) => isValidTimeZone(timeZone)) || DEFAULT_TIMEZONE;
+}
+
+/**
+ * Get the calendar date of an instant in a timezone
+ * @param instant Point in time
+ * @param timeZone IANA timezone
+ * @returns Local date (YYYY-MM-DD)
+ */
+export function getLocalDate(instant: Date, timeZone: string): string {
+  const { year, month, day } = getParts(instant, timeZone);
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Get the local hour an instant falls into
+ * @param instant Point in time
+ * @param timeZone IANA timezone
+ * @returns Local hour label (YYYY-MM-DDTHH:00)
+ */
+export function getLocalHour(instant: Date, timeZone: string): string {
+  const { year, month, day, hour } = getParts(instant, timeZone);
+  return `${year}-${month}-${day}T${hour}:00`;
+}
+
+/**
+ * Add days to a calendar date
+ * @param date Date (YYYY-MM-DD)
+ * @param days Number of days, may be negative
+ * @returns Resulting date (YYYY-MM-DD)
+ */
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+}
+
+/**
+ * Count the days from one calendar date to another
+ * @param from Date (YYYY-MM-DD)
+ * @param to Date (YYYY-MM-DD)
+ * @returns Number of days, negative if `to` is before `from`
+ */
+export function diffDays(from: string, to: string): number {
+  const [fromYear, fromMonth, fromDay] = from.split('-').map(Number);
+  const [toYear, toMonth, toDay] = to.split('-').map(Number);
+  return Math.round((Date.UTC(toYear, toMonth - 1, toDay) - Date.UTC(fromYear, fromMonth - 1, fromDay)) / 86400000);
+}
+
+/**
+ * Get the ISO 8601 week of a calendar date. Days at the turn of the year can
+ * belong to a week of the previous or next year, which is returned as the year.
+ * @param date Date (YYYY-MM-DD)
+ * @returns ISO week-numbering year and week number
+ */
+export function getISOWeek(date: string): { year: number; week: number } {
+  const [year, month, day] = date.split('-').map(Number);
+  const utcDate = new Date(Date.UTC(year, month - 1, day));
+
+  // The Thursday of the same week decides which year the week belongs to
+  const dayOfWeek = utcDate.getUTCDay() || 7;
+  utcDate.setUTCDate(utcDate.getUTCDate() + 4 - dayOfWeek);
+
+  const weekYear = utcDate.getUTCFullYear();
+  const yearStart = Date.UTC(weekYear, 0, 1);
+  const week = Math.ceil(((utcDate.getTime() - yearStart) / 86400000 + 1) / 7);
+
+  return { year: weekYear, week };
+}
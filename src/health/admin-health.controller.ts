@@ -0,0 +1,63 @@
+import { Controller, Get, HttpCode, HttpStatus, Param, ParseUUIDPipe, Post, Query, Request, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../users/entities/user.entity';
+import { HealthService } from './health.service';
+import { HealthData } from './entities/health-data.entity';
+import { HeldHealthDataQueryDto, HeldHealthDataResponseDto } from './dto/health-review.dto';
+
+@ApiTags('admin')
+@Controller('admin/health')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@ApiBearerAuth()
+export class AdminHealthController {
+  constructor(private readonly healthService: HealthService) {}
+
+  @Get('held')
+  @ApiOperation({ summary: 'List flagged and quarantined days waiting for review' })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the held days, oldest first',
+    type: HeldHealthDataResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Not an admin' })
+  findHeld(@Query() query: HeldHealthDataQueryDto): Promise<HeldHealthDataResponseDto> {
+    return this.healthService.findHeld(query);
+  }
+
+  @Post(':id/approve')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Approve a held day and credit its held rewards' })
+  @ApiResponse({
+    status: 200,
+    description: 'The day is clean and its rewards are credited',
+    type: HealthData,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Not an admin' })
+  @ApiResponse({ status: 404, description: 'Health data not found' })
+  @ApiResponse({ status: 409, description: 'The day is not held for review' })
+  approve(@Request() req, @Param('id', ParseUUIDPipe) id: string): Promise<HealthData> {
+    return this.healthService.approveHeld(id, req.user.userId);
+  }
+
+  @Post(':id/reject')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Reject a held day, so that its rewards are never credited' })
+  @ApiResponse({
+    status: 200,
+    description: 'The day stays held and leaves the review queue',
+    type: HealthData,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Not an admin' })
+  @ApiResponse({ status: 404, description: 'Health data not found' })
+  @ApiResponse({ status: 409, description: 'The day is not held for review' })
+  reject(@Request() req, @Param('id', ParseUUIDPipe) id: string): Promise<HealthData> {
+    return this.healthService.rejectHeld(id, req.user.userId);
+  }
+}
@@ -0,0 +1,32 @@
+import { User } from '../../users/entities/user.entity';
+import { HealthData } from '../entities/health-data.entity';
+import { HealthSample } from '../entities/health-sample.entity';
+
+// Injection token of the list of checks run by AntiCheatService
+export const ANOMALY_CHECKS = 'ANOMALY_CHECKS';
+
+export interface AnomalyReason {
+  // Machine readable code of the check that raised the reason
+  code: string;
+  message: string;
+  // Contribution to the record's anomaly score
+  score: number;
+}
+
+export interface AnomalyCheckContext {
+  // Totals of the submitted day
+  record: Pick<HealthData, 'date' | 'steps' | 'duration' | 'calories' | 'distance'>;
+  user: User | null;
+  // Earlier days of the same user, most recent first
+  history: HealthData[];
+  // Intraday samples of the day, empty for daily submissions
+  samples: Pick<HealthSample, 'startTime' | 'endTime' | 'steps'>[];
+}
+
+/**
+ * A single anti-cheat rule. Checks report reasons instead of throwing, so that
+ * suspicious days are held for review rather than rejected.
+ */
+export interface AnomalyCheck {
+  evaluate(context: AnomalyCheckContext): AnomalyReason[];
+}
@@ -0,0 +1,113 @@
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { UsersService } from '../../users/users.service';
+import { HealthData, HealthReviewStatus } from '../entities/health-data.entity';
+import { AntiCheatService } from './anti-cheat.service';
+import { BurstCheck } from './checks/burst.check';
+import { CadenceCheck } from './checks/cadence.check';
+import { CaloriesCheck } from './checks/calories.check';
+import { HistoryCheck } from './checks/history.check';
+import { MissingActivityCheck } from './checks/missing-activity.check';
+import { PaceCheck } from './checks/pace.check';
+import { StrideLengthCheck } from './checks/stride-length.check';
+
+const USER_ID = '3f0c1a52-6c1e-4a35-9d55-3c0f7d7e8b21';
+
+describe('AntiCheatService', () => {
+  let history: HealthData[];
+  let find: jest.Mock;
+  let service: AntiCheatService;
+
+  beforeEach(() => {
+    history = [];
+    find = jest.fn(async () => history);
+    service = new AntiCheatService(
+      [
+        new StrideLengthCheck(),
+        new PaceCheck(),
+        new CadenceCheck(),
+        new CaloriesCheck(),
+        new HistoryCheck(),
+        new BurstCheck(),
+        new MissingActivityCheck(),
+      ],
+      { find } as unknown as Repository<HealthData>,
+      { findById: async () => ({ id: USER_ID, height: 175, weight: 70 }) as User } as unknown as UsersService,
+      new ConfigService({}),
+    );
+  });
+
+  it('passes an ordinary day as clean', async () => {
+    const assessment = await service.assess(USER_ID, {
+      date: '2025-07-24',
+      steps: 12000,
+      duration: 7200,
+      calories: 600,
+      distance: 9000,
+    });
+
+    expect(assessment).toEqual({ reviewStatus: HealthReviewStatus.CLEAN, anomalyScore: 0, anomalyReasons: null });
+  });
+
+  it('compares the day with the 28 days before it', async () => {
+    await service.assess(USER_ID, { date: '2025-07-24', steps: 0, duration: 0, calories: 0, distance: 0 });
+
+    const [{ where }] = find.mock.calls[0];
+    expect(where.userId).toBe(USER_ID);
+    expect(where.date.value).toEqual(['2025-06-26', '2025-07-23']);
+  });
+
+  it('quarantines a new account submitting many steps without distance or duration', async () => {
+    const assessment = await service.assess(USER_ID, {
+      date: '2025-07-24',
+      steps: 100000,
+      duration: 0,
+      calories: 0,
+      distance: 0,
+    });
+
+    expect(assessment.reviewStatus).toBe(HealthReviewStatus.QUARANTINED);
+    expect(assessment.anomalyReasons.map((reason) => reason.code).sort()).toEqual(['history', 'missing_activity']);
+    expect(assessment.anomalyScore).toBe(150);
+  });
+
+  it('flags a day when the scores reach the flag score', async () => {
+    const assessment = await service.assess(USER_ID, {
+      date: '2025-07-24',
+      steps: 12000,
+      duration: 7200,
+      calories: 600,
+      distance: 0,
+    });
+
+    expect(assessment).toMatchObject({ reviewStatus: HealthReviewStatus.FLAGGED, anomalyScore: 50 });
+  });
+
+  it('adds up the scores of all checks', async () => {
+    // Too long a stride (40) and calories off the distance (20)
+    const assessment = await service.assess(USER_ID, {
+      date: '2025-07-24',
+      steps: 10000,
+      duration: 7200,
+      calories: 10,
+      distance: 25000,
+    });
+
+    expect(assessment.anomalyReasons.map((reason) => reason.code)).toEqual(['stride_length', 'calories']);
+    expect(assessment).toMatchObject({ reviewStatus: HealthReviewStatus.FLAGGED, anomalyScore: 60 });
+  });
+
+  it('keeps a day below the flag score clean, but records its reasons', async () => {
+    const assessment = await service.assess(USER_ID, {
+      date: '2025-07-24',
+      steps: 12000,
+      duration: 7200,
+      calories: 10,
+      distance: 9000,
+    });
+
+    expect(assessment).toMatchObject({ reviewStatus: HealthReviewStatus.CLEAN, anomalyScore: 20 });
+    expect(assessment.anomalyReasons).toHaveLength(1);
+  });
+});
@@ -0,0 +1,76 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Between, Repository } from 'typeorm';
+import { HealthData, HealthReviewStatus } from '../entities/health-data.entity';
+import { UsersService } from '../../users/users.service';
+import { addDays } from '../../common/timezone.util';
+import { ANOMALY_CHECKS, AnomalyCheck, AnomalyCheckContext, AnomalyReason } from './anomaly-check';
+
+export interface AnomalyAssessment {
+  reviewStatus: HealthReviewStatus;
+  anomalyScore: number;
+  anomalyReasons: AnomalyReason[] | null;
+}
+
+@Injectable()
+export class AntiCheatService {
+  // Days of history compared against
+  private readonly HISTORY_DAYS = 28;
+
+  constructor(
+    @Inject(ANOMALY_CHECKS)
+    private checks: AnomalyCheck[],
+    @InjectRepository(HealthData)
+    private healthDataRepository: Repository<HealthData>,
+    private usersService: UsersService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Score a day's totals with all anomaly checks
+   * @param userId User's ID
+   * @param record Totals of the submitted day
+   * @param samples Intraday samples of the day, if any
+   * @returns Review status, score and reasons to store with the day
+   */
+  async assess(
+    userId: string,
+    record: AnomalyCheckContext['record'],
+    samples: AnomalyCheckContext['samples'] = [],
+  ): Promise<AnomalyAssessment> {
+    const [user, history] = await Promise.all([
+      this.usersService.findById(userId),
+      this.healthDataRepository.find({
+        where: {
+          userId,
+          date: Between(addDays(record.date, -this.HISTORY_DAYS), addDays(record.date, -1)),
+        },
+        order: { date: 'DESC' },
+      }),
+    ]);
+
+    const context: AnomalyCheckContext = { record, user, history, samples };
+    const reasons = this.checks.flatMap((check) => check.evaluate(context));
+    const score = reasons.reduce((sum, reason) => sum + reason.score, 0);
+
+    return {
+      reviewStatus: this.getReviewStatus(score),
+      anomalyScore: score,
+      anomalyReasons: reasons.length > 0 ? reasons : null,
+    };
+  }
+
+  private getReviewStatus(score: number): HealthReviewStatus {
+    const flagScore = Number(this.configService.get('ANTI_CHEAT_FLAG_SCORE', 50));
+    const quarantineScore = Number(this.configService.get('ANTI_CHEAT_QUARANTINE_SCORE', 100));
+
+    if (score >= quarantineScore) {
+      return HealthReviewStatus.QUARANTINED;
+    }
+    if (score >= flagScore) {
+      return HealthReviewStatus.FLAGGED;
+    }
+    return HealthReviewStatus.CLEAN;
+  }
+}
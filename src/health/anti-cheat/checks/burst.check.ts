@@ -0,0 +1,35 @@
+import { Injectable } from '@nestjs/common';
+import { AnomalyCheck, AnomalyCheckContext, AnomalyReason } from '../anomaly-check';
+
+/**
+ * Flags intraday samples with more steps per minute than a person can take
+ */
+@Injectable()
+export class BurstCheck implements AnomalyCheck {
+  // Sustained sprinting
+  private readonly SUSPICIOUS_STEPS_PER_MINUTE = 200;
+  // Faster than any human cadence
+  private readonly IMPOSSIBLE_STEPS_PER_MINUTE = 250;
+
+  evaluate({ samples }: AnomalyCheckContext): AnomalyReason[] {
+    let peak: { steps: number; startTime: Date; rate: number } | null = null;
+
+    for (const sample of samples) {
+      const minutes = (sample.endTime.getTime() - sample.startTime.getTime()) / 60000;
+      const rate = minutes > 0 ? sample.steps / minutes : 0;
+      if (!peak || rate > peak.rate) {
+        peak = { steps: sample.steps, startTime: sample.startTime, rate };
+      }
+    }
+
+    if (!peak || peak.rate <= this.SUSPICIOUS_STEPS_PER_MINUTE) {
+      return [];
+    }
+
+    return [{
+      code: 'burst',
+      message: `${peak.steps} steps in the bucket starting ${peak.startTime.toISOString()} (${Math.round(peak.rate)} per minute)`,
+      score: peak.rate > this.IMPOSSIBLE_STEPS_PER_MINUTE ? 100 : 50,
+    }];
+  }
+}
@@ -0,0 +1,29 @@
+import { Injectable } from '@nestjs/common';
+import { AnomalyCheck, AnomalyCheckContext, AnomalyReason } from '../anomaly-check';
+
+/**
+ * Flags more steps per active minute than a person can sustain
+ */
+@Injectable()
+export class CadenceCheck implements AnomalyCheck {
+  private readonly MIN_STEPS = 1000;
+  // Elite runners reach about 200 steps per minute
+  private readonly MAX_STEPS_PER_MINUTE = 220;
+
+  evaluate({ record }: AnomalyCheckContext): AnomalyReason[] {
+    if (record.steps < this.MIN_STEPS || record.duration <= 0) {
+      return [];
+    }
+
+    const cadence = record.steps / (record.duration / 60);
+    if (cadence > this.MAX_STEPS_PER_MINUTE) {
+      return [{
+        code: 'cadence',
+        message: `Cadence of ${Math.round(cadence)} steps per active minute is implausible`,
+        score: 60,
+      }];
+    }
+
+    return [];
+  }
+}
@@ -0,0 +1,33 @@
+import { Injectable } from '@nestjs/common';
+import { AnomalyCheck, AnomalyCheckContext, AnomalyReason } from '../anomaly-check';
+
+/**
+ * Compares the calories with the energy needed to cover the distance at the user's weight
+ */
+@Injectable()
+export class CaloriesCheck implements AnomalyCheck {
+  private readonly MIN_DISTANCE_METERS = 1000;
+  // Walking and running cost roughly 1 kcal per kg of body weight per km
+  private readonly KCAL_PER_KG_PER_KM = 1;
+  // Wide bounds since sources differ in whether resting energy is included
+  private readonly MIN_RATIO = 0.1;
+  private readonly MAX_RATIO = 5;
+
+  evaluate({ record, user }: AnomalyCheckContext): AnomalyReason[] {
+    if (!user?.weight || record.distance < this.MIN_DISTANCE_METERS) {
+      return [];
+    }
+
+    const expectedCalories = user.weight * (record.distance / 1000) * this.KCAL_PER_KG_PER_KM;
+    const ratio = record.calories / expectedCalories;
+    if (ratio < this.MIN_RATIO || ratio > this.MAX_RATIO) {
+      return [{
+        code: 'calories',
+        message: `${Math.round(record.calories)} kcal doesn't match the ${Math.round(expectedCalories)} kcal expected for the distance`,
+        score: 20,
+      }];
+    }
+
+    return [];
+  }
+}
@@ -0,0 +1,165 @@
+import { User } from '../../../users/entities/user.entity';
+import { HealthData } from '../../entities/health-data.entity';
+import { AnomalyCheckContext } from '../anomaly-check';
+import { BurstCheck } from './burst.check';
+import { CadenceCheck } from './cadence.check';
+import { CaloriesCheck } from './calories.check';
+import { HistoryCheck } from './history.check';
+import { MissingActivityCheck } from './missing-activity.check';
+import { PaceCheck } from './pace.check';
+import { StrideLengthCheck } from './stride-length.check';
+
+// 12,000 steps over 2 hours and 9 km: an ordinary long walk
+function context(
+  record: Partial<AnomalyCheckContext['record']> = {},
+  extra: Partial<Omit<AnomalyCheckContext, 'record'>> = {},
+): AnomalyCheckContext {
+  return {
+    record: { date: '2025-07-24', steps: 12000, duration: 7200, calories: 600, distance: 9000, ...record },
+    user: { height: 175, weight: 70 } as User,
+    history: [],
+    samples: [],
+    ...extra,
+  };
+}
+
+function history(...steps: number[]): HealthData[] {
+  return steps.map((value) => ({ steps: value }) as HealthData);
+}
+
+function codes(reasons: { code: string }[]): string[] {
+  return reasons.map((reason) => reason.code);
+}
+
+describe('anomaly checks', () => {
+  describe('StrideLengthCheck', () => {
+    const check = new StrideLengthCheck();
+
+    it('accepts a stride that fits the height', () => {
+      expect(check.evaluate(context())).toEqual([]);
+    });
+
+    it('flags a stride too long for the height', () => {
+      expect(codes(check.evaluate(context({ distance: 30000 })))).toEqual(['stride_length']);
+    });
+
+    it('flags a stride too short for the height', () => {
+      expect(codes(check.evaluate(context({ distance: 2000 })))).toEqual(['stride_length']);
+    });
+
+    it('uses fixed bounds when the height is unknown', () => {
+      expect(codes(check.evaluate(context({ distance: 30000 }, { user: null })))).toEqual(['stride_length']);
+    });
+  });
+
+  describe('PaceCheck', () => {
+    const check = new PaceCheck();
+
+    it('accepts running speed', () => {
+      expect(check.evaluate(context({ distance: 20000, duration: 3600 }))).toEqual([]);
+    });
+
+    it('flags speeds faster than running', () => {
+      expect(codes(check.evaluate(context({ distance: 40000, duration: 3600 })))).toEqual(['pace']);
+    });
+  });
+
+  describe('CadenceCheck', () => {
+    const check = new CadenceCheck();
+
+    it('accepts a walking cadence', () => {
+      expect(check.evaluate(context())).toEqual([]);
+    });
+
+    it('flags more steps per active minute than a person can take', () => {
+      expect(codes(check.evaluate(context({ steps: 30000, duration: 3600 })))).toEqual(['cadence']);
+    });
+  });
+
+  describe('CaloriesCheck', () => {
+    const check = new CaloriesCheck();
+
+    it('accepts calories that match the distance', () => {
+      expect(check.evaluate(context())).toEqual([]);
+    });
+
+    it('flags calories far off the distance', () => {
+      expect(codes(check.evaluate(context({ calories: 10 })))).toEqual(['calories']);
+      expect(codes(check.evaluate(context({ calories: 5000 })))).toEqual(['calories']);
+    });
+
+    it('skips users without a weight', () => {
+      expect(check.evaluate(context({ calories: 10 }, { user: null }))).toEqual([]);
+    });
+  });
+
+  describe('HistoryCheck', () => {
+    const check = new HistoryCheck();
+
+    it('flags a day far above the usual step counts', () => {
+      const reasons = check.evaluate(
+        context({ steps: 40000 }, { history: history(5000, 6000, 5500, 7000, 6500, 5000, 6000) }),
+      );
+
+      expect(codes(reasons)).toEqual(['history']);
+    });
+
+    it('accepts an ordinary active day, whatever the baseline', () => {
+      expect(
+        check.evaluate(context({ steps: 14000 }, { history: history(1000, 1000, 1000, 1000, 1000, 1000, 1000) })),
+      ).toEqual([]);
+    });
+
+    it('flags a very active day of a new account', () => {
+      expect(codes(check.evaluate(context({ steps: 35000 }, { history: history(5000) })))).toEqual(['history']);
+    });
+
+    it('accepts an active day of a new account', () => {
+      expect(check.evaluate(context({ steps: 25000 }))).toEqual([]);
+    });
+  });
+
+  describe('BurstCheck', () => {
+    const check = new BurstCheck();
+    const sample = (steps: number) => ({
+      startTime: new Date('2025-07-24T08:00:00Z'),
+      endTime: new Date('2025-07-24T08:10:00Z'),
+      steps,
+    });
+
+    it('accepts a walking pace', () => {
+      expect(check.evaluate(context({}, { samples: [sample(1200)] }))).toEqual([]);
+    });
+
+    it('scores sprinting and impossible rates differently', () => {
+      expect(check.evaluate(context({}, { samples: [sample(2200)] }))).toMatchObject([{ code: 'burst', score: 50 }]);
+      expect(check.evaluate(context({}, { samples: [sample(3000)] }))).toMatchObject([{ code: 'burst', score: 100 }]);
+    });
+  });
+
+  describe('MissingActivityCheck', () => {
+    const check = new MissingActivityCheck();
+
+    it('accepts steps with distance and duration', () => {
+      expect(check.evaluate(context())).toEqual([]);
+    });
+
+    it('accepts few steps without distance or duration', () => {
+      expect(check.evaluate(context({ steps: 5000, distance: 0, duration: 0 }))).toEqual([]);
+    });
+
+    it('flags many steps without a distance', () => {
+      expect(check.evaluate(context({ distance: 0 }))).toMatchObject([{ code: 'missing_activity', score: 50 }]);
+    });
+
+    it('flags many steps without an active duration', () => {
+      expect(check.evaluate(context({ duration: 0 }))).toMatchObject([{ code: 'missing_activity', score: 50 }]);
+    });
+
+    it('scores many steps with neither as fabricated', () => {
+      expect(check.evaluate(context({ steps: 100000, distance: 0, duration: 0 }))).toMatchObject([
+        { code: 'missing_activity', score: 100 },
+      ]);
+    });
+  });
+});
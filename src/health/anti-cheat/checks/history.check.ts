@@ -0,0 +1,51 @@
+import { Injectable } from '@nestjs/common';
+import { AnomalyCheck, AnomalyCheckContext, AnomalyReason } from '../anomaly-check';
+
+/**
+ * Flags days far above the user's own recent step counts
+ */
+@Injectable()
+export class HistoryCheck implements AnomalyCheck {
+  // Days of history needed before the user's baseline is trusted
+  private readonly MIN_HISTORY_DAYS = 7;
+  private readonly MEDIAN_MULTIPLIER = 3;
+  private readonly STANDARD_DEVIATIONS = 4;
+  // Ordinary active days are never flagged, whatever the baseline
+  private readonly MIN_STEPS = 15000;
+  // Until there is a baseline, e.g. for new accounts, only very active days are flagged
+  private readonly MAX_STEPS_WITHOUT_BASELINE = 30000;
+
+  evaluate({ record, history }: AnomalyCheckContext): AnomalyReason[] {
+    if (record.steps < this.MIN_STEPS) {
+      return [];
+    }
+
+    if (history.length < this.MIN_HISTORY_DAYS) {
+      if (record.steps <= this.MAX_STEPS_WITHOUT_BASELINE) {
+        return [];
+      }
+      return [{
+        code: 'history',
+        message: `${record.steps} steps before there are ${this.MIN_HISTORY_DAYS} days of history to compare with`,
+        score: 50,
+      }];
+    }
+
+    const steps = history.map((day) => day.steps).sort((a, b) => a - b);
+    const middle = Math.floor(steps.length / 2);
+    const median = steps.length % 2 ? steps[middle] : (steps[middle - 1] + steps[middle]) / 2;
+    const mean = steps.reduce((sum, value) => sum + value, 0) / steps.length;
+    const deviation = Math.sqrt(steps.reduce((sum, value) => sum + (value - mean) ** 2, 0) / steps.length);
+
+    const threshold = Math.max(median * this.MEDIAN_MULTIPLIER, mean + deviation * this.STANDARD_DEVIATIONS);
+    if (record.steps > threshold) {
+      return [{
+        code: 'history',
+        message: `${record.steps} steps is far above the usual ${Math.round(median)} steps per day`,
+        score: 50,
+      }];
+    }
+
+    return [];
+  }
+}
@@ -0,0 +1,32 @@
+import { Injectable } from '@nestjs/common';
+import { AnomalyCheck, AnomalyCheckContext, AnomalyReason } from '../anomaly-check';
+
+/**
+ * Flags high step counts without the distance or active duration needed to walk them.
+ * The other consistency checks skip days without these, so they are checked here.
+ */
+@Injectable()
+export class MissingActivityCheck implements AnomalyCheck {
+  // Enough steps to earn the full daily reward
+  private readonly MIN_STEPS = 10000;
+
+  evaluate({ record }: AnomalyCheckContext): AnomalyReason[] {
+    if (record.steps < this.MIN_STEPS) {
+      return [];
+    }
+
+    const missing = [
+      ...(record.distance > 0 ? [] : ['distance']),
+      ...(record.duration > 0 ? [] : ['active duration']),
+    ];
+    if (missing.length === 0) {
+      return [];
+    }
+
+    return [{
+      code: 'missing_activity',
+      message: `${record.steps} steps without any ${missing.join(' or ')}`,
+      score: missing.length === 2 ? 100 : 50,
+    }];
+  }
+}
@@ -0,0 +1,29 @@
+import { Injectable } from '@nestjs/common';
+import { AnomalyCheck, AnomalyCheckContext, AnomalyReason } from '../anomaly-check';
+
+/**
+ * Flags average speeds over the active duration that are faster than running
+ */
+@Injectable()
+export class PaceCheck implements AnomalyCheck {
+  private readonly MIN_DISTANCE_METERS = 1000;
+  // 25 km/h sustained over the whole active duration
+  private readonly MAX_SPEED_METERS_PER_SECOND = 7;
+
+  evaluate({ record }: AnomalyCheckContext): AnomalyReason[] {
+    if (record.distance < this.MIN_DISTANCE_METERS || record.duration <= 0) {
+      return [];
+    }
+
+    const speed = record.distance / record.duration;
+    if (speed > this.MAX_SPEED_METERS_PER_SECOND) {
+      return [{
+        code: 'pace',
+        message: `Average speed of ${(speed * 3.6).toFixed(1)} km/h is faster than running`,
+        score: 60,
+      }];
+    }
+
+    return [];
+  }
+}
@@ -0,0 +1,39 @@
+import { Injectable } from '@nestjs/common';
+import { AnomalyCheck, AnomalyCheckContext, AnomalyReason } from '../anomaly-check';
+
+/**
+ * Compares the average stride (distance per step) with what the user's height allows
+ */
+@Injectable()
+export class StrideLengthCheck implements AnomalyCheck {
+  // Strides are only meaningful once enough steps were taken
+  private readonly MIN_STEPS = 1000;
+  // Plausible stride as a fraction of body height, from a slow shuffle to a sprint
+  private readonly MIN_STRIDE_HEIGHT_RATIO = 0.25;
+  private readonly MAX_STRIDE_HEIGHT_RATIO = 1.3;
+  // Fallback bounds in meters when the height is unknown
+  private readonly MIN_STRIDE_METERS = 0.3;
+  private readonly MAX_STRIDE_METERS = 2.0;
+
+  evaluate({ record, user }: AnomalyCheckContext): AnomalyReason[] {
+    // Some sources don't report a distance at all
+    if (record.steps < this.MIN_STEPS || record.distance <= 0) {
+      return [];
+    }
+
+    const stride = record.distance / record.steps;
+    const heightMeters = user?.height ? user.height / 100 : null;
+    const minStride = heightMeters ? heightMeters * this.MIN_STRIDE_HEIGHT_RATIO : this.MIN_STRIDE_METERS;
+    const maxStride = heightMeters ? heightMeters * this.MAX_STRIDE_HEIGHT_RATIO : this.MAX_STRIDE_METERS;
+
+    if (stride < minStride || stride > maxStride) {
+      return [{
+        code: 'stride_length',
+        message: `Average stride of ${stride.toFixed(2)} m is outside ${minStride.toFixed(2)}-${maxStride.toFixed(2)} m`,
+        score: 40,
+      }];
+    }
+
+    return [];
+  }
+}
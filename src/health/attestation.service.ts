@@ -1,7 +1,16 @@
-import { Injectable, BadRequestException, UnauthorizedException } from '@nestjs/common';
+import { Injectable, BadRequestException, ConflictException, UnauthorizedException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThan, Repository } from 'typeorm';
 import { randomBytes } from 'crypto';
 import { ValkeyService } from '../services/valkey.service';
-import { AttestationNonceResponseDto } from './dto/attestation-nonce.dto';
+import {
+  AttestationNonceResponseDto,
+  RegisterAppAttestKeyDto,
+  RegisterAppAttestKeyResponseDto,
+} from './dto/attestation-nonce.dto';
+import { AppAttestKey } from './entities/app-attest-key.entity';
+import { PlayIntegrityVerifier } from './attestation/play-integrity.verifier';
+import { AppAttestVerifier } from './attestation/app-attest.verifier';
 
 @Injectable()
 export class AttestationService {
@@ -9,7 +18,11 @@ export class AttestationService {
   private readonly NONCE_EXPIRATION_MINUTES = 5;
 
   constructor(
-    private valkeyService: ValkeyService
+    @InjectRepository(AppAttestKey)
+    private appAttestKeyRepository: Repository<AppAttestKey>,
+    private valkeyService: ValkeyService,
+    private playIntegrityVerifier: PlayIntegrityVerifier,
+    private appAttestVerifier: AppAttestVerifier
   ) {}
 
   /**
@@ -66,44 +79,91 @@ export class AttestationService {
 
   /**
    * Verify Android attestation using Play Integrity API
+   * https://developer.android.com/google/play/integrity/verdict
    */
   async verifyAndroidAttestation(attestationToken: string, nonce: string): Promise<boolean> {
-    // In a real implementation, this would call the Play Integrity API to verify the token
-    // For now, we'll just return true for demonstration purposes
-    
-    // TODO: Implement actual verification using Google Play Integrity API
-    // https://developer.android.com/google/play/integrity/verdict
-    
-    console.log(`Verifying Android attestation with token: ${attestationToken.substring(0, 20)}... and nonce: ${nonce}`);
-    
-    // Simulating verification
+    // Throws if the token can't be decrypted/verified or the verdict doesn't meet the policy
+    this.playIntegrityVerifier.verify(attestationToken, nonce);
     return true;
   }
 
   /**
-   * Verify iOS attestation using App Attest
+   * Register an App Attest key after verifying its attestation object.
+   * The attestation's challenge is a nonce from generateNonce.
    */
-  async verifyIOSAttestation(attestationToken: string, nonce: string): Promise<boolean> {
-    // In a real implementation, this would call the App Attest API to verify the assertion
-    // For now, we'll just return true for demonstration purposes
-    
-    // TODO: Implement actual verification using Apple's App Attest
-    // https://developer.apple.com/documentation/devicecheck/validating_apps_that_connect_to_your_server
-    
-    console.log(`Verifying iOS attestation with token: ${attestationToken.substring(0, 20)}... and nonce: ${nonce}`);
-    
-    // Simulating verification
+  async registerAppAttestKey(userId: string, dto: RegisterAppAttestKeyDto): Promise<RegisterAppAttestKeyResponseDto> {
+    await this.validateAndUseNonce(userId, dto.nonce);
+
+    // Throws if the attestation isn't signed by Apple for this app and key
+    const verifiedKey = this.appAttestVerifier.verifyAttestation(dto.keyId, dto.attestationObject, dto.nonce);
+
+    const existingKey = await this.appAttestKeyRepository.findOne({ where: { keyId: dto.keyId } });
+    if (existingKey) {
+      throw new ConflictException('App Attest key is already registered');
+    }
+
+    try {
+      await this.appAttestKeyRepository.save(
+        this.appAttestKeyRepository.create({
+          userId,
+          keyId: dto.keyId,
+          ...verifiedKey,
+        })
+      );
+    } catch (error) {
+      // Unique constraint on key_id lost a race with a concurrent registration
+      if (error.code === '23505') {
+        throw new ConflictException('App Attest key is already registered');
+      }
+      throw error;
+    }
+
+    return { keyId: dto.keyId, environment: verifiedKey.environment };
+  }
+
+  /**
+   * Verify iOS assertion using a registered App Attest key
+   * https://developer.apple.com/documentation/devicecheck/validating_apps_that_connect_to_your_server
+   */
+  async verifyIOSAttestation(userId: string, keyId: string, attestationToken: string, nonce: string): Promise<boolean> {
+    if (!keyId) {
+      throw new BadRequestException('keyId is required for iOS attestation');
+    }
+
+    const key = await this.appAttestKeyRepository.findOne({ where: { keyId, userId } });
+    if (!key) {
+      throw new UnauthorizedException('App Attest key is not registered');
+    }
+
+    // Throws if the signature, app ID or counter doesn't check out
+    const signCount = this.appAttestVerifier.verifyAssertion(attestationToken, nonce, key.publicKey, key.signCount);
+
+    // Only move the counter forward, so concurrent replays of one assertion can't both pass
+    const result = await this.appAttestKeyRepository.update(
+      { id: key.id, signCount: LessThan(signCount) },
+      { signCount }
+    );
+    if (!result.affected) {
+      throw new UnauthorizedException('App Attest counter did not increase');
+    }
+
     return true;
   }
 
   /**
    * Verify attestation based on platform
    */
-  async verifyAttestation(platform: string, attestationToken: string, nonce: string): Promise<boolean> {
+  async verifyAttestation(
+    userId: string,
+    platform: string,
+    attestationToken: string,
+    nonce: string,
+    keyId?: string
+  ): Promise<boolean> {
     if (platform.toLowerCase() === 'android') {
       return this.verifyAndroidAttestation(attestationToken, nonce);
     } else if (platform.toLowerCase() === 'ios') {
-      return this.verifyIOSAttestation(attestationToken, nonce);
+      return this.verifyIOSAttestation(userId, keyId, attestationToken, nonce);
     } else {
       throw new BadRequestException(`Unsupported platform: ${platform}`);
     }
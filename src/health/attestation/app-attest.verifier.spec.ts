@@ -0,0 +1,162 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { createHash, createPrivateKey, sign, X509Certificate } from 'crypto';
+import { AppAttestVerifier } from './app-attest.verifier';
+import {
+  APP_ID,
+  CHALLENGE,
+  CREDENTIAL_PRIVATE_KEY,
+  DEVELOPMENT_AUTH_DATA,
+  DEVELOPMENT_CREDENTIAL_CERTIFICATE,
+  encodeCbor,
+  INTERMEDIATE_CERTIFICATE,
+  KEY_ID,
+  OTHER_ROOT_CERTIFICATE,
+  PRODUCTION_AUTH_DATA,
+  PRODUCTION_CREDENTIAL_CERTIFICATE,
+  ROOT_CERTIFICATE,
+} from './app-attest.fixtures';
+
+const NOW = new Date('2027-01-01T00:00:00Z');
+
+function createVerifier(options: { appId?: string; root?: string; allowDevelopment?: boolean; now?: Date } = {}) {
+  return new AppAttestVerifier(
+    {
+      appId: options.appId ?? APP_ID,
+      rootCertificate: new X509Certificate(options.root ?? ROOT_CERTIFICATE),
+      allowDevelopment: options.allowDevelopment ?? false,
+    },
+    () => options.now ?? NOW,
+  );
+}
+
+function der(pem: string): Buffer {
+  return new X509Certificate(pem).raw;
+}
+
+function attestationObject(
+  x5c: unknown[] = [der(PRODUCTION_CREDENTIAL_CERTIFICATE), der(INTERMEDIATE_CERTIFICATE)],
+  authData: Buffer = PRODUCTION_AUTH_DATA,
+): string {
+  return encodeCbor({ fmt: 'apple-appattest', attStmt: { x5c, receipt: Buffer.from('receipt') }, authData }).toString(
+    'base64',
+  );
+}
+
+function assertion(clientData: string, signCount: number, appId = APP_ID): string {
+  const authenticatorData = Buffer.alloc(37);
+  createHash('sha256').update(appId).digest().copy(authenticatorData, 0);
+  authenticatorData.writeUInt32BE(signCount, 33);
+
+  const clientDataHash = createHash('sha256').update(clientData).digest();
+  const nonce = createHash('sha256').update(Buffer.concat([authenticatorData, clientDataHash])).digest();
+  const signature = sign('sha256', nonce, createPrivateKey(CREDENTIAL_PRIVATE_KEY));
+
+  return encodeCbor({ signature, authenticatorData }).toString('base64');
+}
+
+describe('AppAttestVerifier', () => {
+  describe('verifyAttestation', () => {
+    it('accepts a production attestation chaining to the root', () => {
+      const key = createVerifier().verifyAttestation(KEY_ID, attestationObject(), CHALLENGE);
+
+      expect(key.environment).toBe('production');
+      expect(key.signCount).toBe(0);
+      expect(key.publicKey).toContain('BEGIN PUBLIC KEY');
+      expect(key.receipt).toBe(Buffer.from('receipt').toString('base64'));
+    });
+
+    it('rejects a chain that does not lead to the configured root', () => {
+      const verifier = createVerifier({ root: OTHER_ROOT_CERTIFICATE });
+
+      expect(() => verifier.verifyAttestation(KEY_ID, attestationObject(), CHALLENGE)).toThrow(
+        'App Attest certificate chain is not trusted',
+      );
+    });
+
+    it('rejects certificates outside their validity period', () => {
+      const verifier = createVerifier({ now: new Date('2040-01-01T00:00:00Z') });
+
+      expect(() => verifier.verifyAttestation(KEY_ID, attestationObject(), CHALLENGE)).toThrow(
+        'App Attest certificate is not valid at this time',
+      );
+    });
+
+    it('rejects a nonce extension that does not match the challenge', () => {
+      expect(() => createVerifier().verifyAttestation(KEY_ID, attestationObject(), 'another-challenge')).toThrow(
+        'App Attest nonce mismatch',
+      );
+    });
+
+    it('rejects an attestation for another app', () => {
+      const verifier = createVerifier({ appId: 'TEAMID1234.com.example.other' });
+
+      expect(() => verifier.verifyAttestation(KEY_ID, attestationObject(), CHALLENGE)).toThrow(
+        'App Attest app ID mismatch',
+      );
+    });
+
+    it('rejects a key identifier that is not the hash of the public key', () => {
+      const keyId = Buffer.alloc(32, 1).toString('base64');
+
+      expect(() => createVerifier().verifyAttestation(keyId, attestationObject(), CHALLENGE)).toThrow(
+        'App Attest key identifier mismatch',
+      );
+    });
+
+    it('only accepts the development aaguid when allowed', () => {
+      const object = attestationObject(
+        [der(DEVELOPMENT_CREDENTIAL_CERTIFICATE), der(INTERMEDIATE_CERTIFICATE)],
+        DEVELOPMENT_AUTH_DATA,
+      );
+
+      expect(() => createVerifier().verifyAttestation(KEY_ID, object, CHALLENGE)).toThrow(
+        'App Attest environment is not accepted',
+      );
+      expect(createVerifier({ allowDevelopment: true }).verifyAttestation(KEY_ID, object, CHALLENGE).environment).toBe(
+        'development',
+      );
+    });
+
+    it.each([
+      ['unparsable certificates', [Buffer.from('not a certificate'), Buffer.from('neither')]],
+      ['non-binary certificates', [42, 'text']],
+    ])('rejects %s as unauthorized', (_, x5c) => {
+      const verify = () => createVerifier().verifyAttestation(KEY_ID, attestationObject(x5c), CHALLENGE);
+
+      expect(verify).toThrow(UnauthorizedException);
+      expect(verify).toThrow('Invalid attestation');
+    });
+
+    it('rejects data that is not CBOR', () => {
+      expect(() => createVerifier().verifyAttestation(KEY_ID, 'bm90IGNib3I=', CHALLENGE)).toThrow(UnauthorizedException);
+    });
+  });
+
+  describe('verifyAssertion', () => {
+    const publicKey = new X509Certificate(PRODUCTION_CREDENTIAL_CERTIFICATE).publicKey
+      .export({ format: 'pem', type: 'spki' })
+      .toString();
+
+    it('accepts a signed assertion with a higher counter', () => {
+      expect(createVerifier().verifyAssertion(assertion('nonce', 5), 'nonce', publicKey, 4)).toBe(5);
+    });
+
+    it('rejects an assertion over other client data', () => {
+      expect(() => createVerifier().verifyAssertion(assertion('nonce', 5), 'other-nonce', publicKey, 4)).toThrow(
+        'Invalid App Attest assertion signature',
+      );
+    });
+
+    it('rejects a replayed counter', () => {
+      expect(() => createVerifier().verifyAssertion(assertion('nonce', 4), 'nonce', publicKey, 4)).toThrow(
+        'App Attest counter did not increase',
+      );
+    });
+
+    it('rejects an assertion for another app', () => {
+      expect(() =>
+        createVerifier().verifyAssertion(assertion('nonce', 5, 'TEAMID1234.com.example.other'), 'nonce', publicKey, 4),
+      ).toThrow('App Attest app ID mismatch');
+    });
+  });
+});
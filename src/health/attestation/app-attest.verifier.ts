@@ -0,0 +1,304 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, createPublicKey, timingSafeEqual, verify, X509Certificate } from 'crypto';
+import { decodeCbor } from './cbor';
+
+// DER encoding of the App Attest nonce extension OID 1.2.840.113635.100.8.2
+const NONCE_EXTENSION_OID = Buffer.from('06092a864886f763640802', 'hex');
+
+const PRODUCTION_AAGUID = Buffer.concat([Buffer.from('appattest'), Buffer.alloc(7)]);
+const DEVELOPMENT_AAGUID = Buffer.from('appattestdevelop');
+
+export type AppAttestEnvironment = 'production' | 'development';
+
+export interface AppAttestConfig {
+  // <Team ID>.<Bundle ID> of the iOS app
+  appId: string;
+  // Apple App Attestation Root CA
+  rootCertificate: X509Certificate | null;
+  allowDevelopment: boolean;
+}
+
+export interface VerifiedAppAttestKey {
+  publicKey: string;
+  signCount: number;
+  environment: AppAttestEnvironment;
+  receipt: string | null;
+}
+
+interface AuthenticatorData {
+  rpIdHash: Buffer;
+  signCount: number;
+  aaguid?: Buffer;
+  credentialId?: Buffer;
+}
+
+/**
+ * Verifies App Attest key attestations and assertions offline, following
+ * https://developer.apple.com/documentation/devicecheck/validating_apps_that_connect_to_your_server
+ */
+export class AppAttestVerifier {
+  constructor(
+    private readonly config: AppAttestConfig,
+    private readonly now: () => Date = () => new Date(),
+  ) {}
+
+  /**
+   * Build a verifier from the application configuration
+   */
+  static fromConfig(configService: ConfigService): AppAttestVerifier {
+    const rootCertificate = configService.get<string>('APPLE_APP_ATTEST_ROOT_CA');
+    if (!rootCertificate) {
+      console.warn('App Attest verification is disabled due to missing root certificate');
+    }
+
+    return new AppAttestVerifier({
+      appId: `${configService.get('APPLE_TEAM_ID', '')}.${configService.get('IOS_BUNDLE_ID', '')}`,
+      rootCertificate: rootCertificate ? new X509Certificate(rootCertificate.replace(/\\n/g, '\n')) : null,
+      allowDevelopment: configService.get('APP_ATTEST_ALLOW_DEVELOPMENT', 'false') === 'true',
+    });
+  }
+
+  /**
+   * Verify the attestation object of a newly generated App Attest key
+   * @param keyId Base64 key identifier returned by DCAppAttestService.generateKey
+   * @param attestationObject Base64 attestation object returned by attestKey
+   * @param challenge Nonce issued by AttestationService.generateNonce
+   * @returns The verified public key and its initial state
+   */
+  verifyAttestation(keyId: string, attestationObject: string, challenge: string): VerifiedAppAttestKey {
+    if (!this.config.rootCertificate) {
+      throw new UnauthorizedException('App Attest verification is not configured');
+    }
+
+    const attestation = this.decode(attestationObject);
+    const { fmt, attStmt, authData } = attestation;
+    if (fmt !== 'apple-appattest' || !Array.isArray(attStmt?.x5c) || attStmt.x5c.length < 2 || !Buffer.isBuffer(authData)) {
+      throw new UnauthorizedException('Malformed App Attest attestation');
+    }
+
+    // 1. The certificate chain must lead to Apple's App Attestation root
+    const credentialCertificate = this.verifyCertificateChain(attStmt.x5c);
+
+    // 2-4. The credential certificate must commit to the authenticator data and our challenge
+    const clientDataHash = sha256(Buffer.from(challenge, 'utf8'));
+    const expectedNonce = sha256(Buffer.concat([authData, clientDataHash]));
+    const certificateNonce = this.extractNonce(credentialCertificate);
+    if (!certificateNonce || !safeEqual(certificateNonce, expectedNonce)) {
+      throw new UnauthorizedException('App Attest nonce mismatch');
+    }
+
+    // 5. The key identifier is the hash of the credential's public key
+    const publicKey = credentialCertificate.publicKey;
+    if (publicKey.asymmetricKeyType !== 'ec') {
+      throw new UnauthorizedException('Invalid attestation');
+    }
+    const jwk = publicKey.export({ format: 'jwk' });
+    const publicKeyPoint = Buffer.concat([
+      Buffer.from([0x04]),
+      Buffer.from(jwk.x, 'base64url'),
+      Buffer.from(jwk.y, 'base64url'),
+    ]);
+    const keyIdBytes = Buffer.from(keyId, 'base64');
+    if (!safeEqual(sha256(publicKeyPoint), keyIdBytes)) {
+      throw new UnauthorizedException('App Attest key identifier mismatch');
+    }
+
+    const authenticatorData = this.parseAuthenticatorData(authData, true);
+
+    // 6. The attestation must be for our app
+    this.verifyRpIdHash(authenticatorData.rpIdHash);
+
+    // 7. A fresh key has not signed anything yet
+    if (authenticatorData.signCount !== 0) {
+      throw new UnauthorizedException('App Attest counter must be zero');
+    }
+
+    // 8. Development keys are only accepted when explicitly allowed
+    let environment: AppAttestEnvironment;
+    if (authenticatorData.aaguid.equals(PRODUCTION_AAGUID)) {
+      environment = 'production';
+    } else if (authenticatorData.aaguid.equals(DEVELOPMENT_AAGUID) && this.config.allowDevelopment) {
+      environment = 'development';
+    } else {
+      throw new UnauthorizedException('App Attest environment is not accepted');
+    }
+
+    // 9. The credential ID is the key identifier
+    if (!safeEqual(authenticatorData.credentialId, keyIdBytes)) {
+      throw new UnauthorizedException('App Attest credential ID mismatch');
+    }
+
+    return {
+      publicKey: publicKey.export({ format: 'pem', type: 'spki' }).toString(),
+      signCount: 0,
+      environment,
+      receipt: Buffer.isBuffer(attStmt.receipt) ? attStmt.receipt.toString('base64') : null,
+    };
+  }
+
+  /**
+   * Verify an assertion generated with a registered App Attest key
+   * @param assertion Base64 assertion returned by DCAppAttestService.generateAssertion
+   * @param clientData The data the client signed (the attestation nonce)
+   * @param publicKey PEM public key stored when the key was registered
+   * @param previousSignCount Counter of the last accepted assertion
+   * @returns The counter of this assertion
+   */
+  verifyAssertion(assertion: string, clientData: string, publicKey: string, previousSignCount: number): number {
+    const { signature, authenticatorData } = this.decode(assertion);
+    if (!Buffer.isBuffer(signature) || !Buffer.isBuffer(authenticatorData)) {
+      throw new UnauthorizedException('Malformed App Attest assertion');
+    }
+
+    // 1-3. The signature covers the authenticator data and the hash of our client data
+    const clientDataHash = sha256(Buffer.from(clientData, 'utf8'));
+    const nonce = sha256(Buffer.concat([authenticatorData, clientDataHash]));
+    if (!verify('sha256', nonce, createPublicKey(publicKey), signature)) {
+      throw new UnauthorizedException('Invalid App Attest assertion signature');
+    }
+
+    const parsed = this.parseAuthenticatorData(authenticatorData, false);
+
+    // 4. The assertion must be for our app
+    this.verifyRpIdHash(parsed.rpIdHash);
+
+    // 5. The counter must strictly increase, otherwise the assertion is replayed
+    if (parsed.signCount <= previousSignCount) {
+      throw new UnauthorizedException('App Attest counter did not increase');
+    }
+
+    return parsed.signCount;
+  }
+
+  private decode(value: string): any {
+    try {
+      return decodeCbor(Buffer.from(value, 'base64'));
+    } catch (error) {
+      throw new UnauthorizedException('Malformed App Attest data');
+    }
+  }
+
+  /**
+   * Parse the client's certificate chain and verify it against the root
+   * @returns The credential certificate
+   */
+  private verifyCertificateChain(x5c: unknown[]): X509Certificate {
+    const root = this.config.rootCertificate;
+    const now = this.now();
+
+    // The chain comes from the client: anything that does not parse is rejected, not a server error
+    try {
+      if (!x5c.every((der) => Buffer.isBuffer(der))) {
+        throw new UnauthorizedException('Invalid attestation');
+      }
+      const [credentialCertificate, intermediateCertificate] = (x5c as Buffer[]).map((der) => new X509Certificate(der));
+
+      for (const certificate of [credentialCertificate, intermediateCertificate]) {
+        if (now < new Date(certificate.validFrom) || now > new Date(certificate.validTo)) {
+          throw new UnauthorizedException('App Attest certificate is not valid at this time');
+        }
+      }
+
+      const chainIsValid =
+        intermediateCertificate.checkIssued(root) &&
+        intermediateCertificate.verify(root.publicKey) &&
+        credentialCertificate.checkIssued(intermediateCertificate) &&
+        credentialCertificate.verify(intermediateCertificate.publicKey);
+
+      if (!chainIsValid) {
+        throw new UnauthorizedException('App Attest certificate chain is not trusted');
+      }
+
+      return credentialCertificate;
+    } catch (error) {
+      if (error instanceof UnauthorizedException) {
+        throw error;
+      }
+      throw new UnauthorizedException('Invalid attestation');
+    }
+  }
+
+  /**
+   * Read the nonce from the credential certificate's 1.2.840.113635.100.8.2 extension,
+   * a SEQUENCE containing an explicitly tagged [1] OCTET STRING
+   */
+  private extractNonce(certificate: X509Certificate): Buffer | null {
+    const der = certificate.raw;
+    const oidIndex = der.indexOf(NONCE_EXTENSION_OID);
+    if (oidIndex < 0) {
+      return null;
+    }
+
+    try {
+      let tlv = readDerTlv(der, oidIndex + NONCE_EXTENSION_OID.length);
+      if (tlv.tag === 0x01) {
+        // Skip the optional "critical" flag
+        tlv = readDerTlv(der, tlv.end);
+      }
+      if (tlv.tag !== 0x04) {
+        return null;
+      }
+
+      const sequence = readDerTlv(tlv.value, 0);
+      const tagged = sequence.tag === 0x30 ? readDerTlv(sequence.value, 0) : null;
+      const octetString = tagged?.tag === 0xa1 ? readDerTlv(tagged.value, 0) : null;
+      return octetString?.tag === 0x04 ? octetString.value : null;
+    } catch (error) {
+      // Lengths running past the end of the certificate
+      return null;
+    }
+  }
+
+  private parseAuthenticatorData(authData: Buffer, withCredential: boolean): AuthenticatorData {
+    if (authData.length < 37) {
+      throw new UnauthorizedException('Malformed App Attest authenticator data');
+    }
+
+    const parsed: AuthenticatorData = {
+      rpIdHash: authData.subarray(0, 32),
+      signCount: authData.readUInt32BE(33),
+    };
+
+    if (withCredential) {
+      if (authData.length < 55) {
+        throw new UnauthorizedException('Malformed App Attest authenticator data');
+      }
+      const credentialIdLength = authData.readUInt16BE(53);
+      parsed.aaguid = authData.subarray(37, 53);
+      parsed.credentialId = authData.subarray(55, 55 + credentialIdLength);
+    }
+
+    return parsed;
+  }
+
+  private verifyRpIdHash(rpIdHash: Buffer): void {
+    if (!safeEqual(rpIdHash, sha256(Buffer.from(this.config.appId, 'utf8')))) {
+      throw new UnauthorizedException('App Attest app ID mismatch');
+    }
+  }
+}
+
+function sha256(data: Buffer): Buffer {
+  return createHash('sha256').update(data).digest();
+}
+
+function safeEqual(a: Buffer, b: Buffer): boolean {
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+function readDerTlv(buffer: Buffer, offset: number): { tag: number; value: Buffer; end: number } {
+  const tag = buffer[offset];
+  let length = buffer[offset + 1];
+  let headerLength = 2;
+
+  // Long form: the low bits give the number of length bytes
+  if (length & 0x80) {
+    const lengthBytes = length & 0x7f;
+    length = buffer.readUIntBE(offset + 2, lengthBytes);
+    headerLength += lengthBytes;
+  }
+
+  const start = offset + headerLength;
+  return { tag, value: buffer.subarray(start, start + length), end: start + length };
+}
@@ -0,0 +1,95 @@
+/**
+ * Minimal CBOR (RFC 8949) decoder covering what App Attest objects use:
+ * integers, byte/text strings, arrays, maps, tags and simple values.
+ * Maps are decoded into plain objects keyed by the stringified map key.
+ */
+export function decodeCbor(input: Buffer): any {
+  const { value, offset } = decodeItem(input, 0);
+  if (offset !== input.length) {
+    throw new Error('Unexpected trailing bytes in CBOR data');
+  }
+  return value;
+}
+
+function decodeItem(buffer: Buffer, offset: number): { value: any; offset: number } {
+  if (offset >= buffer.length) {
+    throw new Error('Unexpected end of CBOR data');
+  }
+
+  const initialByte = buffer[offset];
+  const majorType = initialByte >> 5;
+  const additionalInfo = initialByte & 0x1f;
+  const { length, offset: dataOffset } = readLength(buffer, offset + 1, additionalInfo);
+
+  switch (majorType) {
+    case 0: // unsigned integer
+      return { value: length, offset: dataOffset };
+    case 1: // negative integer
+      return { value: -1 - length, offset: dataOffset };
+    case 2: // byte string
+      return { value: Buffer.from(readBytes(buffer, dataOffset, length)), offset: dataOffset + length };
+    case 3: // text string
+      return { value: readBytes(buffer, dataOffset, length).toString('utf8'), offset: dataOffset + length };
+    case 4: { // array
+      const items = [];
+      let itemOffset = dataOffset;
+      for (let i = 0; i < length; i++) {
+        const item = decodeItem(buffer, itemOffset);
+        items.push(item.value);
+        itemOffset = item.offset;
+      }
+      return { value: items, offset: itemOffset };
+    }
+    case 5: { // map
+      const map = {};
+      let entryOffset = dataOffset;
+      for (let i = 0; i < length; i++) {
+        const key = decodeItem(buffer, entryOffset);
+        const value = decodeItem(buffer, key.offset);
+        map[String(key.value)] = value.value;
+        entryOffset = value.offset;
+      }
+      return { value: map, offset: entryOffset };
+    }
+    case 6: // tag, the tagged item is returned as is
+      return decodeItem(buffer, dataOffset);
+    default: // simple values
+      switch (additionalInfo) {
+        case 20:
+          return { value: false, offset: dataOffset };
+        case 21:
+          return { value: true, offset: dataOffset };
+        case 22:
+        case 23:
+          return { value: null, offset: dataOffset };
+        default:
+          throw new Error(`Unsupported CBOR simple value ${additionalInfo}`);
+      }
+  }
+}
+
+function readLength(buffer: Buffer, offset: number, additionalInfo: number): { length: number; offset: number } {
+  if (additionalInfo < 24) {
+    return { length: additionalInfo, offset };
+  }
+
+  switch (additionalInfo) {
+    case 24:
+      return { length: readBytes(buffer, offset, 1).readUInt8(0), offset: offset + 1 };
+    case 25:
+      return { length: readBytes(buffer, offset, 2).readUInt16BE(0), offset: offset + 2 };
+    case 26:
+      return { length: readBytes(buffer, offset, 4).readUInt32BE(0), offset: offset + 4 };
+    case 27:
+      return { length: Number(readBytes(buffer, offset, 8).readBigUInt64BE(0)), offset: offset + 8 };
+    default:
+      throw new Error('Indefinite length CBOR items are not supported');
+  }
+}
+
+function readBytes(buffer: Buffer, offset: number, length: number): Buffer {
+  if (offset + length > buffer.length) {
+    throw new Error('Unexpected end of CBOR data');
+  }
+  return buffer.subarray(offset, offset + length);
+}
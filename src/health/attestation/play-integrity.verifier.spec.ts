@@ -0,0 +1,181 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { createCipheriv, generateKeyPairSync, KeyObject, randomBytes, sign } from 'crypto';
+import { PlayIntegrityPayload, PlayIntegrityPolicy, PlayIntegrityVerifier } from './play-integrity.verifier';
+
+const NOW = Date.parse('2025-08-01T12:00:00Z');
+const NONCE = 'attestation-nonce';
+const PACKAGE_NAME = 'com.cashpop.app';
+const CERTIFICATE_DIGEST = 'c2lnbmluZy1jZXJ0aWZpY2F0ZS1kaWdlc3Q';
+
+const POLICY: PlayIntegrityPolicy = {
+  packageName: PACKAGE_NAME,
+  certificateDigests: [CERTIFICATE_DIGEST],
+  minimumDeviceVerdict: 'MEETS_DEVICE_INTEGRITY',
+  requirePlayRecognized: true,
+  requireLicensed: false,
+  maxTokenAgeSeconds: 300,
+};
+
+const decryptionKey = randomBytes(32);
+const { privateKey: signingKey, publicKey: verificationKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+
+function buildPayload(overrides: Partial<PlayIntegrityPayload> = {}): PlayIntegrityPayload {
+  return {
+    requestDetails: {
+      requestPackageName: PACKAGE_NAME,
+      nonce: Buffer.from(NONCE).toString('base64url'),
+      timestampMillis: String(NOW - 10 * 1000),
+    },
+    appIntegrity: {
+      appRecognitionVerdict: 'PLAY_RECOGNIZED',
+      packageName: PACKAGE_NAME,
+      certificateSha256Digest: [CERTIFICATE_DIGEST],
+      versionCode: '42',
+    },
+    deviceIntegrity: {
+      deviceRecognitionVerdict: ['MEETS_BASIC_INTEGRITY', 'MEETS_DEVICE_INTEGRITY'],
+    },
+    accountDetails: {
+      appLicensingVerdict: 'LICENSED',
+    },
+    ...overrides,
+  };
+}
+
+function base64url(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+/**
+ * Sign a payload (JWS, ES256) and encrypt it (JWE, A256KW + A256GCM) the way Google Play does
+ */
+function buildToken(payload: object, key: KeyObject = signingKey, kek: Buffer = decryptionKey): string {
+  const jwsSigningInput = `${base64url({ alg: 'ES256' })}.${base64url(payload)}`;
+  const signature = sign('sha256', Buffer.from(jwsSigningInput), { key, dsaEncoding: 'ieee-p1363' });
+  const jws = `${jwsSigningInput}.${signature.toString('base64url')}`;
+
+  const protectedHeader = base64url({ alg: 'A256KW', enc: 'A256GCM' });
+  const contentKey = randomBytes(32);
+  const wrap = createCipheriv('id-aes256-wrap', kek, Buffer.from('A6A6A6A6A6A6A6A6', 'hex'));
+  const encryptedKey = Buffer.concat([wrap.update(contentKey), wrap.final()]);
+
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', contentKey, iv);
+  cipher.setAAD(Buffer.from(protectedHeader, 'ascii'));
+  const ciphertext = Buffer.concat([cipher.update(jws, 'utf8'), cipher.final()]);
+
+  return [protectedHeader, encryptedKey, iv, ciphertext, cipher.getAuthTag()]
+    .map((part) => (typeof part === 'string' ? part : part.toString('base64url')))
+    .join('.');
+}
+
+function createVerifier(policy: Partial<PlayIntegrityPolicy> = {}): PlayIntegrityVerifier {
+  return new PlayIntegrityVerifier({ decryptionKey, verificationKey }, { ...POLICY, ...policy }, () => NOW);
+}
+
+describe('PlayIntegrityVerifier', () => {
+  it('accepts a valid token', () => {
+    const payload = buildPayload();
+
+    expect(createVerifier().verify(buildToken(payload), NONCE)).toEqual(payload);
+  });
+
+  it('accepts the nonce as issued as well as base64url encoded', () => {
+    const payload = buildPayload({ requestDetails: { ...buildPayload().requestDetails, nonce: NONCE } });
+
+    expect(createVerifier().verify(buildToken(payload), NONCE)).toEqual(payload);
+  });
+
+  it('rejects a token for another nonce', () => {
+    expect(() => createVerifier().verify(buildToken(buildPayload()), 'another-nonce')).toThrow(
+      'Play Integrity nonce mismatch',
+    );
+  });
+
+  it('rejects a token requested by another package', () => {
+    const payload = buildPayload({
+      requestDetails: { ...buildPayload().requestDetails, requestPackageName: 'com.example.other' },
+    });
+
+    expect(() => createVerifier().verify(buildToken(payload), NONCE)).toThrow('Play Integrity package name mismatch');
+  });
+
+  it('rejects an app integrity verdict for another package', () => {
+    const payload = buildPayload({ appIntegrity: { ...buildPayload().appIntegrity, packageName: 'com.example.other' } });
+
+    expect(() => createVerifier().verify(buildToken(payload), NONCE)).toThrow('Play Integrity package name mismatch');
+  });
+
+  it('rejects a stale token', () => {
+    const payload = buildPayload({
+      requestDetails: { ...buildPayload().requestDetails, timestampMillis: String(NOW - 301 * 1000) },
+    });
+
+    expect(() => createVerifier().verify(buildToken(payload), NONCE)).toThrow('Play Integrity token is too old');
+  });
+
+  it('rejects a token signed with another key', () => {
+    const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+
+    expect(() => createVerifier().verify(buildToken(buildPayload(), privateKey), NONCE)).toThrow(
+      'Invalid Play Integrity token signature',
+    );
+  });
+
+  it('rejects a tampered ciphertext', () => {
+    const parts = buildToken(buildPayload()).split('.');
+    const ciphertext = Buffer.from(parts[3], 'base64url');
+    ciphertext[0] ^= 0xff;
+    parts[3] = ciphertext.toString('base64url');
+
+    const verify = () => createVerifier().verify(parts.join('.'), NONCE);
+    expect(verify).toThrow(UnauthorizedException);
+    expect(verify).toThrow('Malformed Play Integrity token');
+  });
+
+  it('rejects a token encrypted with another key', () => {
+    expect(() => createVerifier().verify(buildToken(buildPayload(), signingKey, randomBytes(32)), NONCE)).toThrow(
+      'Malformed Play Integrity token',
+    );
+  });
+
+  it('rejects a device below the minimum verdict', () => {
+    const payload = buildPayload({ deviceIntegrity: { deviceRecognitionVerdict: ['MEETS_BASIC_INTEGRITY'] } });
+
+    expect(() => createVerifier().verify(buildToken(payload), NONCE)).toThrow(
+      'Device does not meet integrity requirements',
+    );
+  });
+
+  it('rejects a device without any verdict', () => {
+    const payload = buildPayload({ deviceIntegrity: {} });
+
+    expect(() => createVerifier().verify(buildToken(payload), NONCE)).toThrow(
+      'Device does not meet integrity requirements',
+    );
+  });
+
+  it('rejects an app signed with an unknown certificate', () => {
+    const payload = buildPayload({
+      appIntegrity: { ...buildPayload().appIntegrity, certificateSha256Digest: ['b3RoZXItZGlnZXN0'] },
+    });
+
+    expect(() => createVerifier().verify(buildToken(payload), NONCE)).toThrow('App signing certificate mismatch');
+  });
+
+  it('rejects unlicensed accounts when licensing is required', () => {
+    const payload = buildPayload({ accountDetails: { appLicensingVerdict: 'UNLICENSED' } });
+
+    expect(() => createVerifier({ requireLicensed: true }).verify(buildToken(payload), NONCE)).toThrow(
+      'App is not licensed for this account',
+    );
+  });
+
+  it('rejects tokens when no keys are configured', () => {
+    const verifier = new PlayIntegrityVerifier(null, POLICY, () => NOW);
+
+    expect(() => verifier.verify(buildToken(buildPayload()), NONCE)).toThrow(
+      'Play Integrity verification is not configured',
+    );
+  });
+});
@@ -0,0 +1,225 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createDecipheriv, createPublicKey, KeyObject, verify } from 'crypto';
+
+// Device verdicts from weakest to strongest
+const DEVICE_VERDICT_LEVELS = ['MEETS_BASIC_INTEGRITY', 'MEETS_DEVICE_INTEGRITY', 'MEETS_STRONG_INTEGRITY'];
+
+// Default initial value of the AES key wrap algorithm (RFC 3394)
+const AES_KEY_WRAP_IV = Buffer.from('A6A6A6A6A6A6A6A6', 'hex');
+
+export interface PlayIntegrityKeys {
+  // AES-256 key used to decrypt the integrity token (JWE, A256KW + A256GCM)
+  decryptionKey: Buffer;
+  // EC public key used to verify the decrypted token (JWS, ES256)
+  verificationKey: KeyObject;
+}
+
+export interface PlayIntegrityPolicy {
+  packageName: string;
+  // Base64url encoded SHA-256 digests of the app signing certificates
+  certificateDigests: string[];
+  // Weakest device verdict that is still accepted
+  minimumDeviceVerdict: string;
+  requirePlayRecognized: boolean;
+  requireLicensed: boolean;
+  maxTokenAgeSeconds: number;
+}
+
+export interface PlayIntegrityPayload {
+  requestDetails: {
+    requestPackageName: string;
+    nonce: string;
+    timestampMillis: string;
+  };
+  appIntegrity: {
+    appRecognitionVerdict: string;
+    packageName?: string;
+    certificateSha256Digest?: string[];
+    versionCode?: string;
+  };
+  deviceIntegrity: {
+    deviceRecognitionVerdict?: string[];
+  };
+  accountDetails: {
+    appLicensingVerdict: string;
+  };
+}
+
+/**
+ * Decrypts and verifies Google Play Integrity tokens locally with the keys
+ * downloaded from the Play Console, then checks the verdict against a policy.
+ */
+export class PlayIntegrityVerifier {
+  constructor(
+    private readonly keys: PlayIntegrityKeys | null,
+    private readonly policy: PlayIntegrityPolicy,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  /**
+   * Build a verifier from the application configuration
+   */
+  static fromConfig(configService: ConfigService): PlayIntegrityVerifier {
+    const decryptionKey = configService.get<string>('PLAY_INTEGRITY_DECRYPTION_KEY');
+    const verificationKey = configService.get<string>('PLAY_INTEGRITY_VERIFICATION_KEY');
+
+    let keys: PlayIntegrityKeys | null = null;
+    if (decryptionKey && verificationKey) {
+      keys = {
+        decryptionKey: Buffer.from(decryptionKey, 'base64'),
+        verificationKey: createPublicKey({
+          key: Buffer.from(verificationKey, 'base64'),
+          format: 'der',
+          type: 'spki',
+        }),
+      };
+    } else {
+      console.warn('Play Integrity verification is disabled due to missing keys');
+    }
+
+    return new PlayIntegrityVerifier(keys, {
+      packageName: configService.get('ANDROID_PACKAGE_NAME', ''),
+      certificateDigests: configService
+        .get<string>('ANDROID_CERTIFICATE_SHA256_DIGESTS', '')
+        .split(',')
+        .map((digest) => digest.trim())
+        .filter(Boolean),
+      minimumDeviceVerdict: configService.get('PLAY_INTEGRITY_MINIMUM_DEVICE_VERDICT', 'MEETS_DEVICE_INTEGRITY'),
+      requirePlayRecognized: configService.get('PLAY_INTEGRITY_REQUIRE_PLAY_RECOGNIZED', 'true') === 'true',
+      requireLicensed: configService.get('PLAY_INTEGRITY_REQUIRE_LICENSED', 'false') === 'true',
+      maxTokenAgeSeconds: Number(configService.get('PLAY_INTEGRITY_MAX_TOKEN_AGE_SECONDS', 300)),
+    });
+  }
+
+  /**
+   * Verify an integrity token and its verdicts
+   * @param integrityToken Encrypted integrity token from the Play Integrity API
+   * @param expectedNonce Nonce issued by AttestationService.generateNonce
+   * @returns The verified token payload
+   */
+  verify(integrityToken: string, expectedNonce: string): PlayIntegrityPayload {
+    const payload = this.decode(integrityToken);
+    const { requestDetails, appIntegrity, deviceIntegrity, accountDetails } = payload;
+
+    if (!requestDetails || !this.nonceMatches(requestDetails.nonce, expectedNonce)) {
+      throw new UnauthorizedException('Play Integrity nonce mismatch');
+    }
+
+    if (requestDetails.requestPackageName !== this.policy.packageName) {
+      throw new UnauthorizedException('Play Integrity package name mismatch');
+    }
+
+    const tokenAgeMs = this.now() - Number(requestDetails.timestampMillis);
+    if (!(tokenAgeMs <= this.policy.maxTokenAgeSeconds * 1000)) {
+      throw new UnauthorizedException('Play Integrity token is too old');
+    }
+
+    if (this.policy.requirePlayRecognized && appIntegrity?.appRecognitionVerdict !== 'PLAY_RECOGNIZED') {
+      throw new UnauthorizedException('App is not recognized by Google Play');
+    }
+
+    // Unevaluated verdicts carry no package name or certificate digests
+    if (appIntegrity?.appRecognitionVerdict !== 'UNEVALUATED') {
+      if (appIntegrity?.packageName !== this.policy.packageName) {
+        throw new UnauthorizedException('Play Integrity package name mismatch');
+      }
+
+      const digests = appIntegrity.certificateSha256Digest || [];
+      if (!digests.some((digest) => this.policy.certificateDigests.includes(digest))) {
+        throw new UnauthorizedException('App signing certificate mismatch');
+      }
+    }
+
+    if (!this.meetsDeviceVerdict(deviceIntegrity?.deviceRecognitionVerdict || [])) {
+      throw new UnauthorizedException('Device does not meet integrity requirements');
+    }
+
+    if (this.policy.requireLicensed && accountDetails?.appLicensingVerdict !== 'LICENSED') {
+      throw new UnauthorizedException('App is not licensed for this account');
+    }
+
+    return payload;
+  }
+
+  /**
+   * Decrypt an integrity token and verify its signature
+   * @param integrityToken Encrypted integrity token (compact JWE)
+   * @returns The token payload
+   */
+  decode(integrityToken: string): PlayIntegrityPayload {
+    if (!this.keys) {
+      throw new UnauthorizedException('Play Integrity verification is not configured');
+    }
+
+    try {
+      const jws = this.decrypt(integrityToken, this.keys.decryptionKey);
+      return this.verifySignature(jws, this.keys.verificationKey);
+    } catch (error) {
+      if (error instanceof UnauthorizedException) {
+        throw error;
+      }
+      throw new UnauthorizedException('Malformed Play Integrity token');
+    }
+  }
+
+  private decrypt(jwe: string, decryptionKey: Buffer): string {
+    const [protectedHeader, encryptedKey, iv, ciphertext, tag] = jwe.split('.');
+    if (!tag) {
+      throw new UnauthorizedException('Malformed Play Integrity token');
+    }
+
+    const header = JSON.parse(Buffer.from(protectedHeader, 'base64url').toString('utf8'));
+    if (header.alg !== 'A256KW' || header.enc !== 'A256GCM') {
+      throw new UnauthorizedException('Unsupported Play Integrity token encryption');
+    }
+
+    // Unwrap the content encryption key with the decryption key
+    const unwrap = createDecipheriv('id-aes256-wrap', decryptionKey, AES_KEY_WRAP_IV);
+    const contentKey = Buffer.concat([unwrap.update(Buffer.from(encryptedKey, 'base64url')), unwrap.final()]);
+
+    const decipher = createDecipheriv('aes-256-gcm', contentKey, Buffer.from(iv, 'base64url'));
+    decipher.setAAD(Buffer.from(protectedHeader, 'ascii'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()]).toString('utf8');
+  }
+
+  private verifySignature(jws: string, verificationKey: KeyObject): PlayIntegrityPayload {
+    const [header, payload, signature] = jws.split('.');
+    if (!signature) {
+      throw new UnauthorizedException('Malformed Play Integrity token');
+    }
+
+    const { alg } = JSON.parse(Buffer.from(header, 'base64url').toString('utf8'));
+    if (alg !== 'ES256') {
+      throw new UnauthorizedException('Unsupported Play Integrity token signature');
+    }
+
+    const isValid = verify(
+      'sha256',
+      Buffer.from(`${header}.${payload}`, 'ascii'),
+      { key: verificationKey, dsaEncoding: 'ieee-p1363' },
+      Buffer.from(signature, 'base64url'),
+    );
+    if (!isValid) {
+      throw new UnauthorizedException('Invalid Play Integrity token signature');
+    }
+
+    return JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  }
+
+  private nonceMatches(tokenNonce: string, expectedNonce: string): boolean {
+    if (!tokenNonce) {
+      return false;
+    }
+
+    // Clients may pass the nonce as issued or base64 (url-safe) encoded
+    return tokenNonce === expectedNonce || Buffer.from(tokenNonce, 'base64url').toString('utf8') === expectedNonce;
+  }
+
+  private meetsDeviceVerdict(verdicts: string[]): boolean {
+    const minimumLevel = DEVICE_VERDICT_LEVELS.indexOf(this.policy.minimumDeviceVerdict);
+    return verdicts.some((verdict) => DEVICE_VERDICT_LEVELS.indexOf(verdict) >= minimumLevel && minimumLevel >= 0);
+  }
+}
@@ -43,4 +43,44 @@ export class VerifyAttestationDto {
   @IsString()
   @IsNotEmpty()
   platform: string;
-}
\ No newline at end of file
+}
+
+export class RegisterAppAttestKeyDto {
+  @ApiProperty({
+    description: "Base64 key identifier returned by DCAppAttestService.generateKey",
+    example: "bSrEhF8TIzIvWSPwvZ0i2+UOBre4ASH84rK15m6emNY=",
+  })
+  @IsString()
+  @IsNotEmpty({ message: "Key ID is required" })
+  keyId: string;
+
+  @ApiProperty({
+    description: "Base64 attestation object returned by DCAppAttestService.attestKey",
+    example: "o2NmbXRvYXBwbGUtYXBwYXR0ZXN0Z2F0dFN0bXSiY3g1Y4JZAy...",
+  })
+  @IsString()
+  @IsNotEmpty({ message: "Attestation object is required" })
+  attestationObject: string;
+
+  @ApiProperty({
+    description: "The nonce used as the attestation challenge",
+    example: "a1b2c3d4e5f6g7h8i9j0k1l2m3n4o5p6",
+  })
+  @IsString()
+  @IsNotEmpty({ message: "Nonce is required" })
+  nonce: string;
+}
+
+export class RegisterAppAttestKeyResponseDto {
+  @ApiProperty({
+    description: "The registered key identifier",
+    example: "bSrEhF8TIzIvWSPwvZ0i2+UOBre4ASH84rK15m6emNY=",
+  })
+  keyId: string;
+
+  @ApiProperty({
+    description: "App Attest environment of the key",
+    example: "production",
+  })
+  environment: string;
+}
@@ -0,0 +1,43 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { IsNotEmpty, IsString, IsOptional } from "class-validator";
+
+/**
+ * Attestation fields shared by all health data submissions
+ */
+export class AttestedSubmissionDto {
+  @ApiProperty({
+    description: "The nonce value that was used for attestation",
+    example: "a1b2c3d4e5f6g7h8i9j0k1l2m3n4o5p6",
+    required: true,
+  })
+  @IsString()
+  @IsNotEmpty({ message: "Nonce is required" })
+  nonce: string;
+
+  @ApiProperty({
+    description: "The attestation token from Play Integrity API (Android) or assertion from App Attest (iOS)",
+    example: "eyJhbGciOiJSUzI1NiIsImtpZCI6IjEiLCJ0eXAiOiJKV1QifQ...",
+    required: true,
+  })
+  @IsString()
+  @IsNotEmpty({ message: "Attestation token is required" })
+  attestationToken: string;
+
+  @ApiProperty({
+    description: "The source platform of the attestation (android or ios)",
+    example: "android",
+    required: true,
+  })
+  @IsString()
+  @IsNotEmpty({ message: "Platform is required" })
+  platform: string;
+
+  @ApiProperty({
+    description: "Base64 identifier of the App Attest key registered via POST /health/app-attest/register (required for iOS)",
+    example: "bSrEhF8TIzIvWSPwvZ0i2+UOBre4ASH84rK15m6emNY=",
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  keyId?: string;
+}
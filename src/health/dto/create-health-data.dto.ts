@@ -1,33 +1,8 @@
 import { ApiProperty } from "@nestjs/swagger";
 import { IsNotEmpty, IsNumber, IsString, Min, IsOptional, IsDateString } from "class-validator";
+import { AttestedSubmissionDto } from "./attested-submission.dto";
 
-export class CreateHealthDataDto {
-  @ApiProperty({
-    description: "The nonce value that was used for attestation",
-    example: "a1b2c3d4e5f6g7h8i9j0k1l2m3n4o5p6",
-    required: true,
-  })
-  @IsString()
-  @IsNotEmpty({ message: "Nonce is required" })
-  nonce: string;
-
-  @ApiProperty({
-    description: "The attestation token from Play Integrity API (Android) or assertion from App Attest (iOS)",
-    example: "eyJhbGciOiJSUzI1NiIsImtpZCI6IjEiLCJ0eXAiOiJKV1QifQ...",
-    required: true,
-  })
-  @IsString()
-  @IsNotEmpty({ message: "Attestation token is required" })
-  attestationToken: string;
-
-  @ApiProperty({
-    description: "The source platform of the attestation (android or ios)",
-    example: "android",
-    required: true,
-  })
-  @IsString()
-  @IsNotEmpty({ message: "Platform is required" })
-  platform: string;
+export class CreateHealthDataDto extends AttestedSubmissionDto {
   @ApiProperty({
     description: "Number of steps taken",
     example: 8500,
@@ -78,7 +53,7 @@ export class CreateHealthDataDto {
   source: string;
 
   @ApiProperty({
-    description: "The date of the health data (YYYY-MM-DD)",
+    description: "The date of the health data (YYYY-MM-DD), today or yesterday in the user's timezone",
     example: "2025-07-24",
     required: false,
   })
@@ -0,0 +1,98 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { Type } from "class-transformer";
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsISO8601,
+  IsNotEmpty,
+  IsNumber,
+  IsString,
+  Min,
+  ValidateNested,
+} from "class-validator";
+import { AttestedSubmissionDto } from "./attested-submission.dto";
+import { HealthStatisticsItemDto } from "./health-statistics.dto";
+
+export class HealthSampleDto {
+  @ApiProperty({
+    description: "Start of the time bucket (ISO 8601)",
+    example: "2025-07-24T08:00:00Z",
+  })
+  @IsISO8601({ strict: true })
+  startTime: string;
+
+  @ApiProperty({
+    description: "End of the time bucket (ISO 8601), at most one hour after the start",
+    example: "2025-07-24T08:15:00Z",
+  })
+  @IsISO8601({ strict: true })
+  endTime: string;
+
+  @ApiProperty({
+    description: "Number of steps taken in the bucket",
+    example: 1200,
+  })
+  @IsNumber()
+  @Min(0, { message: "Steps must be a positive number" })
+  steps: number;
+
+  @ApiProperty({
+    description: "Duration of activity in seconds in the bucket",
+    example: 600,
+  })
+  @IsNumber()
+  @Min(0, { message: "Duration must be a positive number" })
+  duration: number;
+
+  @ApiProperty({
+    description: "Calories burned in the bucket",
+    example: 48.2,
+  })
+  @IsNumber()
+  @Min(0, { message: "Calories must be a positive number" })
+  calories: number;
+
+  @ApiProperty({
+    description: "Distance covered in meters in the bucket",
+    example: 850.5,
+  })
+  @IsNumber()
+  @Min(0, { message: "Distance must be a positive number" })
+  distance: number;
+}
+
+export class CreateHealthSamplesDto extends AttestedSubmissionDto {
+  @ApiProperty({
+    description: "Source of the health data",
+    example: "ios_health",
+  })
+  @IsString()
+  @IsNotEmpty({ message: "Source is required" })
+  source: string;
+
+  @ApiProperty({
+    description: "Time-bucketed samples (e.g. 15-minute or hourly buckets)",
+    type: [HealthSampleDto],
+  })
+  @IsArray()
+  @ArrayMinSize(1, { message: "At least one sample is required" })
+  @ArrayMaxSize(500, { message: "At most 500 samples can be submitted at once" })
+  @ValidateNested({ each: true })
+  @Type(() => HealthSampleDto)
+  samples: HealthSampleDto[];
+}
+
+export class HealthSamplesResponseDto {
+  @ApiProperty({
+    description: "Number of samples stored",
+    example: 4,
+  })
+  accepted: number;
+
+  @ApiProperty({
+    description: "Daily totals recalculated from the samples of each affected day",
+    type: [HealthStatisticsItemDto],
+  })
+  days: HealthStatisticsItemDto[];
+}
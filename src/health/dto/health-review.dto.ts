@@ -0,0 +1,64 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { Type } from "class-transformer";
+import { IsIn, IsInt, IsOptional, Max, Min } from "class-validator";
+import { HealthData, HealthReviewStatus } from "../entities/health-data.entity";
+
+export class HeldHealthDataQueryDto {
+  @ApiProperty({
+    description: "Page number (starting at 1)",
+    example: 1,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: "Page must be an integer" })
+  @Min(1, { message: "Page must be at least 1" })
+  page?: number = 1;
+
+  @ApiProperty({
+    description: "Number of days per page",
+    example: 20,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: "Limit must be an integer" })
+  @Min(1, { message: "Limit must be at least 1" })
+  @Max(100, { message: "Limit cannot exceed 100" })
+  limit?: number = 20;
+
+  @ApiProperty({
+    description: "Only return days with this review status",
+    enum: [HealthReviewStatus.FLAGGED, HealthReviewStatus.QUARANTINED],
+    required: false,
+  })
+  @IsOptional()
+  @IsIn([HealthReviewStatus.FLAGGED, HealthReviewStatus.QUARANTINED])
+  status?: HealthReviewStatus;
+}
+
+export class HeldHealthDataResponseDto {
+  @ApiProperty({
+    description: "Held days of the requested page that were not reviewed yet, oldest first",
+    type: [HealthData],
+  })
+  items: HealthData[];
+
+  @ApiProperty({
+    description: "Total number of held days waiting for review",
+    example: 3,
+  })
+  total: number;
+
+  @ApiProperty({
+    description: "Current page number",
+    example: 1,
+  })
+  page: number;
+
+  @ApiProperty({
+    description: "Number of days per page",
+    example: 20,
+  })
+  limit: number;
+}
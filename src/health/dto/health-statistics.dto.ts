@@ -2,6 +2,7 @@ import { ApiProperty } from "@nestjs/swagger";
 import { IsEnum, IsOptional, IsDateString } from "class-validator";
 
 export enum StatisticsPeriod {
+  HOUR = 'hour',
   DAY = 'day',
   WEEK = 'week',
   MONTH = 'month'
@@ -0,0 +1,68 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+export class StreakMilestoneDto {
+  @ApiProperty({
+    description: "Length of the streak in days",
+    example: 30,
+  })
+  days: number;
+
+  @ApiProperty({
+    description: "Bonus coins for reaching the milestone",
+    example: 300,
+  })
+  coins: number;
+}
+
+export class StreakResponseDto {
+  @ApiProperty({
+    description: "Days in a row the step goal was reached; missed days covered by freezes keep the streak without counting",
+    example: 12,
+  })
+  currentStreak: number;
+
+  @ApiProperty({
+    description: "Longest streak ever",
+    example: 45,
+  })
+  longestStreak: number;
+
+  @ApiProperty({
+    description: "The first day of the current streak (YYYY-MM-DD), null without a streak",
+    example: "2025-07-13",
+    nullable: true,
+  })
+  streakStartDate: string | null;
+
+  @ApiProperty({
+    description: "Whether today's step goal has been reached",
+    example: false,
+  })
+  todayCompleted: boolean;
+
+  @ApiProperty({
+    description: "Today's step goal",
+    example: 10000,
+  })
+  goal: number;
+
+  @ApiProperty({
+    description: "Freezes that will cover missed days, so that the streak is kept",
+    example: 1,
+  })
+  freezesAvailable: number;
+
+  @ApiProperty({
+    description: "Missed days of the current streak covered by freezes (YYYY-MM-DD)",
+    example: ["2025-07-19"],
+    type: [String],
+  })
+  frozenDates: string[];
+
+  @ApiProperty({
+    description: "The next milestone of the current streak, null after the last one",
+    type: StreakMilestoneDto,
+    nullable: true,
+  })
+  nextMilestone: StreakMilestoneDto | null;
+}
@@ -32,8 +32,27 @@ export class TodayHealthDataDto {
   distance: number;
 
   @ApiProperty({
-    description: "Last update timestamp",
+    description: "Daily step goal",
+    example: 10000,
+  })
+  goal: number;
+
+  @ApiProperty({
+    description: "Progress towards the daily step goal in percent (0-100)",
+    example: 85,
+  })
+  progress: number;
+
+  @ApiProperty({
+    description: "Coins earned for today's steps",
+    example: 85,
+  })
+  coinsEarned: number;
+
+  @ApiProperty({
+    description: "Last update timestamp, null if nothing was synced today",
     example: "2025-07-24T21:45:30Z",
+    nullable: true,
   })
-  lastUpdated: Date;
+  lastUpdated: Date | null;
 }
\ No newline at end of file
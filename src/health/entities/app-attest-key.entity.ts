@@ -0,0 +1,56 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from "typeorm";
+import { ApiProperty } from "@nestjs/swagger";
+import { User } from "../../users/entities/user.entity";
+
+@Entity("app_attest_keys")
+export class AppAttestKey {
+  @PrimaryGeneratedColumn("uuid")
+  @ApiProperty({ description: "The unique identifier of the App Attest key record" })
+  id: string;
+
+  @ManyToOne(() => User, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "user_id" })
+  user: User;
+
+  @Column({ name: "user_id" })
+  @Index("IDX_app_attest_keys_user_id")
+  @ApiProperty({ description: "The ID of the user who registered the key" })
+  userId: string;
+
+  @Column({ name: "key_id", type: "varchar", length: 64, unique: true })
+  @ApiProperty({ description: "Base64 key identifier generated by DCAppAttestService" })
+  keyId: string;
+
+  @Column({ name: "public_key", type: "text" })
+  @ApiProperty({ description: "PEM encoded public key of the attested key" })
+  publicKey: string;
+
+  @Column({ name: "sign_count", type: "bigint", default: 0, transformer: { to: (value) => value, from: (value) => Number(value) } })
+  @ApiProperty({ description: "Counter of the last accepted assertion" })
+  signCount: number;
+
+  @Column({ type: "varchar", length: 20 })
+  @ApiProperty({ description: "App Attest environment of the key (production or development)" })
+  environment: string;
+
+  @Column({ type: "text", nullable: true })
+  @ApiProperty({ description: "Base64 App Attest receipt, usable to request fraud metrics from Apple", required: false })
+  receipt: string | null;
+
+  @CreateDateColumn({ name: "created_at" })
+  @ApiProperty({ description: "The date when the key was registered" })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: "updated_at" })
+  @ApiProperty({ description: "The date when the key was last used" })
+  updatedAt: Date;
+}
@@ -11,6 +11,14 @@ import {
 import { ApiProperty } from "@nestjs/swagger";
 import { User } from "../../users/entities/user.entity";
 
+export enum HealthReviewStatus {
+  CLEAN = "clean",
+  // Suspicious, rewards are held until the day is reviewed
+  FLAGGED = "flagged",
+  // Almost certainly fabricated, rewards are held as well
+  QUARANTINED = "quarantined",
+}
+
 @Entity("health_data")
 export class HealthData {
   @PrimaryGeneratedColumn("uuid")
@@ -48,10 +56,35 @@ export class HealthData {
   @ApiProperty({ description: "Total distance covered in meters" })
   distance: number;
 
+  @Column({ type: "int", nullable: true })
+  @ApiProperty({ description: "The step goal of the user on that day", required: false })
+  goal: number | null;
+
   @Column({ type: "varchar", length: 50 })
   @ApiProperty({ description: "Source of the health data (e.g., 'ios_health', 'android_health')" })
   source: string;
 
+  @Column({ name: "review_status", type: "enum", enum: HealthReviewStatus, default: HealthReviewStatus.CLEAN })
+  @Index("IDX_health_data_review_status")
+  @ApiProperty({ description: "Anti-cheat review status of the day", enum: HealthReviewStatus })
+  reviewStatus: HealthReviewStatus;
+
+  @Column({ name: "anomaly_score", type: "int", default: 0 })
+  @ApiProperty({ description: "Sum of the scores of the anomaly reasons" })
+  anomalyScore: number;
+
+  @Column({ name: "anomaly_reasons", type: "jsonb", nullable: true })
+  @ApiProperty({ description: "Reasons the day was flagged by the anti-cheat checks", required: false })
+  anomalyReasons: { code: string; message: string; score: number }[] | null;
+
+  @Column({ name: "reviewed_by", type: "uuid", nullable: true })
+  @ApiProperty({ description: "The ID of the admin who reviewed the held day", required: false })
+  reviewedBy: string | null;
+
+  @Column({ name: "reviewed_at", type: "timestamp", nullable: true })
+  @ApiProperty({ description: "The date when the held day was reviewed", required: false })
+  reviewedAt: Date | null;
+
   @CreateDateColumn()
   @ApiProperty({ description: "The date when the record was created" })
   createdAt: Date;
@@ -0,0 +1,69 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from "typeorm";
+import { ApiProperty } from "@nestjs/swagger";
+import { User } from "../../users/entities/user.entity";
+
+@Entity("health_samples")
+@Index("IDX_health_samples_user_id_start_time", ["userId", "startTime"], { unique: true })
+@Index("IDX_health_samples_user_id_date", ["userId", "date"])
+export class HealthSample {
+  @PrimaryGeneratedColumn("uuid")
+  @ApiProperty({ description: "The unique identifier of the health sample" })
+  id: string;
+
+  @ManyToOne(() => User, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "user_id" })
+  user: User;
+
+  @Column({ name: "user_id" })
+  @ApiProperty({ description: "The ID of the user associated with this sample" })
+  userId: string;
+
+  @Column({ type: "date" })
+  @ApiProperty({ description: "The day the sample counts towards (YYYY-MM-DD)" })
+  date: string;
+
+  @Column({ name: "start_time", type: "timestamptz" })
+  @ApiProperty({ description: "Start of the time bucket" })
+  startTime: Date;
+
+  @Column({ name: "end_time", type: "timestamptz" })
+  @ApiProperty({ description: "End of the time bucket" })
+  endTime: Date;
+
+  @Column({ type: "int", default: 0 })
+  @ApiProperty({ description: "Number of steps taken in the bucket" })
+  steps: number;
+
+  @Column({ type: "int", default: 0 })
+  @ApiProperty({ description: "Duration of activity in seconds in the bucket" })
+  duration: number;
+
+  @Column({ type: "float", default: 0 })
+  @ApiProperty({ description: "Calories burned in the bucket" })
+  calories: number;
+
+  @Column({ type: "float", default: 0 })
+  @ApiProperty({ description: "Distance covered in meters in the bucket" })
+  distance: number;
+
+  @Column({ type: "varchar", length: 50 })
+  @ApiProperty({ description: "Source of the sample (e.g., 'ios_health', 'android_health')" })
+  source: string;
+
+  @CreateDateColumn({ name: "created_at" })
+  @ApiProperty({ description: "The date when the sample was first received" })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: "updated_at" })
+  @ApiProperty({ description: "The date when the sample was last updated" })
+  updatedAt: Date;
+}
@@ -0,0 +1,38 @@
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, ManyToOne, JoinColumn, Index } from "typeorm";
+import { ApiProperty } from "@nestjs/swagger";
+import { User } from "../../users/entities/user.entity";
+
+/**
+ * A streak milestone a user was paid a bonus for
+ */
+@Entity("streak_milestones")
+@Index("IDX_streak_milestones_user_id_days_reached_on", ["userId", "days", "reachedOn"], { unique: true })
+export class StreakMilestone {
+  @PrimaryGeneratedColumn("uuid")
+  @ApiProperty({ description: "The unique identifier of the milestone" })
+  id: string;
+
+  @ManyToOne(() => User, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "user_id" })
+  user: User;
+
+  @Column({ name: "user_id" })
+  @ApiProperty({ description: "The ID of the user" })
+  userId: string;
+
+  @Column({ type: "int" })
+  @ApiProperty({ description: "Length of the streak in days" })
+  days: number;
+
+  @Column({ name: "reached_on", type: "date" })
+  @ApiProperty({ description: "The day the streak reached the milestone (YYYY-MM-DD)" })
+  reachedOn: string;
+
+  @Column({ type: "int" })
+  @ApiProperty({ description: "Coins paid for the milestone" })
+  coins: number;
+
+  @CreateDateColumn({ name: "created_at" })
+  @ApiProperty({ description: "The date when the bonus was paid" })
+  createdAt: Date;
+}
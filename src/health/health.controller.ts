@@ -6,7 +6,7 @@ import {
   Query,
   UseGuards,
   Request,
-  BadRequestException,
+  Headers,
   UnauthorizedException,
 } from '@nestjs/common';
 import {
@@ -16,14 +16,23 @@ import {
   ApiBody,
   ApiBearerAuth,
   ApiQuery,
+  ApiHeader,
 } from '@nestjs/swagger';
 import { HealthService } from './health.service';
 import { CreateHealthDataDto } from './dto/create-health-data.dto';
+import { CreateHealthSamplesDto, HealthSamplesResponseDto } from './dto/create-health-samples.dto';
+import { AttestedSubmissionDto } from './dto/attested-submission.dto';
 import { HealthStatisticsQueryDto, HealthStatisticsResponseDto, StatisticsPeriod } from './dto/health-statistics.dto';
 import { TodayHealthDataDto } from './dto/today-health-data.dto';
+import { StreakResponseDto } from './dto/streak.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RateLimit } from '../common/rate-limit/rate-limit.decorator';
 import { AttestationService } from './attestation.service';
-import { AttestationNonceResponseDto } from './dto/attestation-nonce.dto';
+import {
+  AttestationNonceResponseDto,
+  RegisterAppAttestKeyDto,
+  RegisterAppAttestKeyResponseDto,
+} from './dto/attestation-nonce.dto';
 
 @ApiTags('health')
 @Controller('health')
@@ -36,7 +45,13 @@ export class HealthController {
   ) {}
 
   @Post()
+  @RateLimit({ points: 30, window: 10 * 60, key: 'user' })
   @ApiOperation({ summary: 'Submit health data from mobile device with attestation' })
+  @ApiHeader({
+    name: 'X-Timezone',
+    required: false,
+    description: 'IANA timezone of the device (e.g. Asia/Bangkok), used when the profile has no timezone',
+  })
   @ApiBody({ type: CreateHealthDataDto })
   @ApiResponse({
     status: 201,
@@ -44,73 +59,107 @@ export class HealthController {
   })
   @ApiResponse({
     status: 400,
-    description: 'Invalid attestation or nonce',
+    description: 'Invalid attestation or nonce, or a date outside the submission window',
   })
   @ApiResponse({
     status: 401,
     description: 'Unauthorized - attestation verification failed',
   })
-  async create(@Request() req, @Body() createHealthDataDto: CreateHealthDataDto) {
+  @ApiResponse({
+    status: 429,
+    description: 'Too many requests',
+  })
+  async create(
+    @Request() req,
+    @Body() createHealthDataDto: CreateHealthDataDto,
+    @Headers('x-timezone') clientTimeZone?: string,
+  ) {
     const userId = req.user.userId;
-    
+    const timeZone = await this.healthService.resolveTimeZone(userId, clientTimeZone);
+
+    await this.verifySubmission(userId, createHealthDataDto);
+
+    // Submit the health data
+    return this.healthService.create(userId, createHealthDataDto, timeZone);
+  }
+
+  @Post('samples')
+  @RateLimit({ points: 30, window: 10 * 60, key: 'user' })
+  @ApiOperation({ summary: 'Submit a batch of intraday (e.g. 15-minute or hourly) health samples with attestation' })
+  @ApiHeader({
+    name: 'X-Timezone',
+    required: false,
+    description: 'IANA timezone of the device (e.g. Asia/Bangkok), used when the profile has no timezone',
+  })
+  @ApiBody({ type: CreateHealthSamplesDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Samples have been stored and the daily totals recalculated',
+    type: HealthSamplesResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid attestation, nonce or samples, or samples outside the submission window',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - attestation verification failed',
+  })
+  @ApiResponse({
+    status: 429,
+    description: 'Too many requests',
+  })
+  async createSamples(
+    @Request() req,
+    @Body() createHealthSamplesDto: CreateHealthSamplesDto,
+    @Headers('x-timezone') clientTimeZone?: string,
+  ) {
+    const userId = req.user.userId;
+    const timeZone = await this.healthService.resolveTimeZone(userId, clientTimeZone);
+
+    await this.verifySubmission(userId, createHealthSamplesDto);
+
+    return this.healthService.createSamples(userId, createHealthSamplesDto, timeZone);
+  }
+
+  /**
+   * Consume the submission's nonce and verify its device attestation
+   */
+  private async verifySubmission(userId: string, submission: AttestedSubmissionDto): Promise<void> {
     // Validate and use the nonce
     await this.attestationService.validateAndUseNonce(
       userId, 
-      createHealthDataDto.nonce
+      submission.nonce
     );
     
     // Verify the attestation
     const isAttestationValid = await this.attestationService.verifyAttestation(
-      createHealthDataDto.platform,
-      createHealthDataDto.attestationToken,
-      createHealthDataDto.nonce
+      userId,
+      submission.platform,
+      submission.attestationToken,
+      submission.nonce,
+      submission.keyId
     );
     
     if (!isAttestationValid) {
       throw new UnauthorizedException('Attestation verification failed');
     }
-    
-    // Check for implausible health data
-    this.validateHealthDataPlausibility(createHealthDataDto);
-    
-    // Submit the health data
-    return this.healthService.create(userId, createHealthDataDto);
-  }
-  
-  /**
-   * Validate health data for plausibility
-   */
-  private validateHealthDataPlausibility(data: CreateHealthDataDto): void {
-    // Check for unreasonably high step counts (e.g., more than 100,000 steps in a day)
-    if (data.steps > 100000) {
-      throw new BadRequestException('Step count is implausibly high');
-    }
-    
-    // Check for unreasonably high calorie burn (e.g., more than 10,000 calories in a day)
-    if (data.calories > 10000) {
-      throw new BadRequestException('Calorie count is implausibly high');
-    }
-    
-    // Check for unreasonably high distance (e.g., more than 100 km in a day)
-    if (data.distance > 100000) { // 100 km in meters
-      throw new BadRequestException('Distance is implausibly high');
-    }
-    
-    // Check for unreasonably high duration (e.g., more than 24 hours in a day)
-    if (data.duration > 86400) { // 24 hours in seconds
-      throw new BadRequestException('Duration is implausibly high');
-    }
   }
 
   @Get('statistics')
   @ApiOperation({ summary: 'Get health statistics by period' })
+  @ApiHeader({
+    name: 'X-Timezone',
+    required: false,
+    description: 'IANA timezone of the device (e.g. Asia/Bangkok), used when the profile has no timezone',
+  })
   @ApiQuery({ name: 'startDate', required: false, type: String, description: 'Start date (YYYY-MM-DD)' })
   @ApiQuery({ name: 'endDate', required: false, type: String, description: 'End date (YYYY-MM-DD)' })
   @ApiQuery({ 
     name: 'period', 
     required: false, 
     enum: StatisticsPeriod,
-    description: 'Aggregation period (day, week, month)' 
+    description: 'Aggregation period (hour, day, week, month); hour requires intraday samples' 
   })
   @ApiResponse({
     status: 200,
@@ -120,18 +169,83 @@ export class HealthController {
   async getStatistics(
     @Request() req,
     @Query() query: HealthStatisticsQueryDto,
+    @Headers('x-timezone') clientTimeZone?: string,
   ) {
-    return this.healthService.getStatistics(req.user.userId, query);
+    const timeZone = await this.healthService.resolveTimeZone(req.user.userId, clientTimeZone);
+    return this.healthService.getStatistics(req.user.userId, query, timeZone);
+  }
+
+  @Get('today')
+  @ApiOperation({ summary: "Get today's activity, goal progress and earned coins" })
+  @ApiHeader({
+    name: 'X-Timezone',
+    required: false,
+    description: 'IANA timezone of the device (e.g. Asia/Bangkok), used when the profile has no timezone',
+  })
+  @ApiResponse({
+    status: 200,
+    description: "Returns today's totals, zeroes if nothing was synced yet",
+    type: TodayHealthDataDto,
+  })
+  async getToday(@Request() req, @Headers('x-timezone') clientTimeZone?: string) {
+    const timeZone = await this.healthService.resolveTimeZone(req.user.userId, clientTimeZone);
+    return this.healthService.getToday(req.user.userId, timeZone);
+  }
+
+  @Get('streak')
+  @ApiOperation({ summary: 'Get the streak of days on which the step goal was reached' })
+  @ApiHeader({
+    name: 'X-Timezone',
+    required: false,
+    description: 'IANA timezone of the device (e.g. Asia/Bangkok), used when the profile has no timezone',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the current and longest streak, freezes and the next milestone',
+    type: StreakResponseDto,
+  })
+  async getStreak(@Request() req, @Headers('x-timezone') clientTimeZone?: string) {
+    const timeZone = await this.healthService.resolveTimeZone(req.user.userId, clientTimeZone);
+    return this.healthService.getStreak(req.user.userId, timeZone);
   }
 
   @Get('attestation-nonce')
+  @RateLimit({ points: 60, window: 10 * 60, key: 'user' })
   @ApiOperation({ summary: 'Get a new attestation nonce for device integrity verification' })
   @ApiResponse({
     status: 200,
     description: 'Returns a new attestation nonce',
     type: AttestationNonceResponseDto,
   })
+  @ApiResponse({
+    status: 429,
+    description: 'Too many requests',
+  })
   async getAttestationNonce(@Request() req) {
     return this.attestationService.generateNonce(req.user.userId);
   }
+
+  @Post('app-attest/register')
+  @ApiOperation({ summary: 'Register an iOS App Attest key (once per app install)' })
+  @ApiBody({ type: RegisterAppAttestKeyDto })
+  @ApiResponse({
+    status: 201,
+    description: 'The App Attest key has been verified and registered',
+    type: RegisterAppAttestKeyResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid nonce',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - attestation verification failed',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'The key is already registered',
+  })
+  async registerAppAttestKey(@Request() req, @Body() registerAppAttestKeyDto: RegisterAppAttestKeyDto) {
+    return this.attestationService.registerAppAttestKey(req.user.userId, registerAppAttestKeyDto);
+  }
 }
\ No newline at end of file
@@ -1,18 +1,75 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
 import { HealthService } from './health.service';
 import { HealthController } from './health.controller';
+import { AdminHealthController } from './admin-health.controller';
 import { HealthData } from './entities/health-data.entity';
+import { HealthSample } from './entities/health-sample.entity';
+import { StreakMilestone } from './entities/streak-milestone.entity';
+import { AppAttestKey } from './entities/app-attest-key.entity';
 import { AttestationService } from './attestation.service';
+import { StreakService } from './streak.service';
+import { PlayIntegrityVerifier } from './attestation/play-integrity.verifier';
+import { AppAttestVerifier } from './attestation/app-attest.verifier';
 import { ServicesModule } from '../services/services.module';
+import { WalletModule } from '../wallet/wallet.module';
+import { ReferralsModule } from '../referrals/referrals.module';
+import { UsersModule } from '../users/users.module';
+import { LeaderboardsModule } from '../leaderboards/leaderboards.module';
+import { AntiCheatService } from './anti-cheat/anti-cheat.service';
+import { ANOMALY_CHECKS } from './anti-cheat/anomaly-check';
+import { StrideLengthCheck } from './anti-cheat/checks/stride-length.check';
+import { PaceCheck } from './anti-cheat/checks/pace.check';
+import { CadenceCheck } from './anti-cheat/checks/cadence.check';
+import { CaloriesCheck } from './anti-cheat/checks/calories.check';
+import { HistoryCheck } from './anti-cheat/checks/history.check';
+import { BurstCheck } from './anti-cheat/checks/burst.check';
+import { MissingActivityCheck } from './anti-cheat/checks/missing-activity.check';
+
+// Anti-cheat checks run on every submitted day; add new checks here
+const anomalyChecks = [
+  StrideLengthCheck,
+  PaceCheck,
+  CadenceCheck,
+  CaloriesCheck,
+  HistoryCheck,
+  BurstCheck,
+  MissingActivityCheck,
+];
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([HealthData]),
-    ServicesModule
+    TypeOrmModule.forFeature([HealthData, HealthSample, AppAttestKey, StreakMilestone]),
+    ServicesModule,
+    WalletModule,
+    ReferralsModule,
+    UsersModule,
+    LeaderboardsModule,
+  ],
+  controllers: [HealthController, AdminHealthController],
+  providers: [
+    HealthService,
+    AttestationService,
+    StreakService,
+    AntiCheatService,
+    ...anomalyChecks,
+    {
+      provide: ANOMALY_CHECKS,
+      inject: anomalyChecks,
+      useFactory: (...checks) => checks,
+    },
+    {
+      provide: PlayIntegrityVerifier,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => PlayIntegrityVerifier.fromConfig(configService),
+    },
+    {
+      provide: AppAttestVerifier,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => AppAttestVerifier.fromConfig(configService),
+    },
   ],
-  controllers: [HealthController],
-  providers: [HealthService, AttestationService],
   exports: [HealthService, AttestationService],
 })
 export class HealthModule {}
\ No newline at end of file
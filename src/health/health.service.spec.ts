@@ -0,0 +1,173 @@
+import { ConfigService } from '@nestjs/config';
+import { DataSource, FindOperator, Repository } from 'typeorm';
+import { HealthData, HealthReviewStatus } from './entities/health-data.entity';
+import { HealthSample } from './entities/health-sample.entity';
+import { HealthService } from './health.service';
+import { StreakService } from './streak.service';
+import { AntiCheatService } from './anti-cheat/anti-cheat.service';
+import { StepRewardService } from '../wallet/step-reward.service';
+import { ReferralsService } from '../referrals/referrals.service';
+import { UsersService } from '../users/users.service';
+import { LeaderboardsService } from '../leaderboards/leaderboards.service';
+import { ValkeyService } from '../services/valkey.service';
+import { LedgerService } from '../wallet/ledger.service';
+import { addDays, getLocalDate } from '../common/timezone.util';
+import { CreateHealthDataDto } from './dto/create-health-data.dto';
+
+const USER_ID = '3f0c1a52-6c1e-4a35-9d55-3c0f7d7e8b21';
+const ADMIN_ID = '9b2d7e41-0c3a-4f6e-8a1b-5d4c3b2a1f00';
+const DAY_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+
+/**
+ * Matches a day against the where options of the review queries
+ */
+function matches(record: HealthData, where: Record<string, any>): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    const value = record[key as keyof HealthData];
+    if (!(condition instanceof FindOperator)) {
+      return value === condition;
+    }
+    return condition.type === 'isNull' ? value == null : (condition.value as unknown[]).includes(value);
+  });
+}
+
+function createService(overrides: { healthDataRepository?: object; config?: Record<string, any> } = {}) {
+  return new HealthService(
+    {} as DataSource,
+    (overrides.healthDataRepository || {}) as Repository<HealthData>,
+    {} as Repository<HealthSample>,
+    {} as StepRewardService,
+    {} as ReferralsService,
+    {} as UsersService,
+    {} as AntiCheatService,
+    {} as ValkeyService,
+    {} as LedgerService,
+    {} as StreakService,
+    {} as LeaderboardsService,
+    new ConfigService(overrides.config || {}),
+  );
+}
+
+describe('HealthService', () => {
+  describe('submission window', () => {
+    const timeZone = 'Asia/Bangkok';
+    const today = getLocalDate(new Date(), timeZone);
+    const day = (date: string) =>
+      ({
+        steps: 12000,
+        duration: 7200,
+        calories: 600,
+        distance: 9000,
+        source: 'apple_health',
+        date,
+      }) as CreateHealthDataDto;
+
+    it('rejects a day before yesterday', async () => {
+      await expect(createService().create(USER_ID, day(addDays(today, -2)), timeZone)).rejects.toThrow(
+        `Health data can only be submitted for dates from ${addDays(today, -1)}`,
+      );
+    });
+
+    it('rejects a future day', async () => {
+      await expect(createService().create(USER_ID, day(addDays(today, 1)), timeZone)).rejects.toThrow(
+        'Health data cannot be submitted for a future date',
+      );
+    });
+
+    it('takes the window from the configuration', async () => {
+      const service = createService({ config: { HEALTH_MAX_BACKFILL_DAYS: 0 } });
+
+      await expect(service.create(USER_ID, day(addDays(today, -1)), timeZone)).rejects.toThrow(
+        `Health data can only be submitted for dates from ${today}`,
+      );
+    });
+  });
+
+  describe('review of held days', () => {
+    let days: Map<string, HealthData>;
+    let stepRewardService: { creditDailySteps: jest.Mock };
+    let leaderboardsService: { recordDay: jest.Mock };
+    let streakService: { awardMilestones: jest.Mock };
+    let service: HealthService;
+
+    beforeEach(() => {
+      days = new Map([
+        [
+          DAY_ID,
+          Object.assign(new HealthData(), {
+            id: DAY_ID,
+            userId: USER_ID,
+            date: '2025-07-24',
+            steps: 12000,
+            reviewStatus: HealthReviewStatus.FLAGGED,
+            reviewedBy: null,
+            reviewedAt: null,
+          }),
+        ],
+      ]);
+      stepRewardService = { creditDailySteps: jest.fn(async () => 100) };
+      leaderboardsService = { recordDay: jest.fn() };
+      streakService = { awardMilestones: jest.fn(async () => 0) };
+
+      service = new HealthService(
+        {} as DataSource,
+        {
+          findOne: async ({ where }) => (days.has(where.id) ? { ...days.get(where.id) } : null),
+          update: async (where: Record<string, any>, values: Partial<HealthData>) => {
+            const updated = [...days.values()].filter((record) => matches(record, where));
+            updated.forEach((record) => Object.assign(record, values));
+            return { affected: updated.length };
+          },
+        } as unknown as Repository<HealthData>,
+        {} as Repository<HealthSample>,
+        stepRewardService as unknown as StepRewardService,
+        { handleDailySteps: jest.fn() } as unknown as ReferralsService,
+        { findById: async () => ({ id: USER_ID, timezone: 'Asia/Bangkok' }) } as unknown as UsersService,
+        {} as AntiCheatService,
+        { delete: jest.fn() } as unknown as ValkeyService,
+        {} as LedgerService,
+        streakService as unknown as StreakService,
+        leaderboardsService as unknown as LeaderboardsService,
+        new ConfigService({}),
+      );
+    });
+
+    it('credits the held rewards of an approved day', async () => {
+      const approved = await service.approveHeld(DAY_ID, ADMIN_ID);
+
+      expect(approved).toMatchObject({ reviewStatus: HealthReviewStatus.CLEAN, reviewedBy: ADMIN_ID });
+      expect(approved.reviewedAt).toBeInstanceOf(Date);
+      expect(stepRewardService.creditDailySteps).toHaveBeenCalledWith(USER_ID, '2025-07-24', 12000);
+      expect(leaderboardsService.recordDay).toHaveBeenCalledWith(USER_ID, '2025-07-24', 12000);
+      expect(streakService.awardMilestones).toHaveBeenCalled();
+    });
+
+    it('approves a day once', async () => {
+      await service.approveHeld(DAY_ID, ADMIN_ID);
+
+      await expect(service.approveHeld(DAY_ID, ADMIN_ID)).rejects.toThrow('The day is not held for review');
+      expect(stepRewardService.creditDailySteps).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps the rewards of a rejected day held', async () => {
+      const rejected = await service.rejectHeld(DAY_ID, ADMIN_ID);
+
+      expect(rejected).toMatchObject({ reviewStatus: HealthReviewStatus.FLAGGED, reviewedBy: ADMIN_ID });
+      expect(stepRewardService.creditDailySteps).not.toHaveBeenCalled();
+      await expect(service.approveHeld(DAY_ID, ADMIN_ID)).rejects.toThrow('The day is not held for review');
+    });
+
+    it('does not review a clean day', async () => {
+      days.get(DAY_ID).reviewStatus = HealthReviewStatus.CLEAN;
+
+      await expect(service.approveHeld(DAY_ID, ADMIN_ID)).rejects.toThrow('The day is not held for review');
+      expect(stepRewardService.creditDailySteps).not.toHaveBeenCalled();
+    });
+
+    it('answers an unknown day with not found', async () => {
+      await expect(service.rejectHeld('00000000-0000-4000-8000-000000000000', ADMIN_ID)).rejects.toThrow(
+        'Health data not found',
+      );
+    });
+  });
+});
@@ -1,24 +1,113 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
-import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, Between, MoreThanOrEqual } from 'typeorm';
-import { HealthData } from './entities/health-data.entity';
+import { Injectable, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectDataSource, InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, Repository, Between, In, IsNull, MoreThanOrEqual } from 'typeorm';
+import { HealthData, HealthReviewStatus } from './entities/health-data.entity';
+import { HealthSample } from './entities/health-sample.entity';
 import { CreateHealthDataDto } from './dto/create-health-data.dto';
+import { CreateHealthSamplesDto, HealthSampleDto, HealthSamplesResponseDto } from './dto/create-health-samples.dto';
 import { HealthStatisticsQueryDto, HealthStatisticsResponseDto, HealthStatisticsItemDto, StatisticsPeriod } from './dto/health-statistics.dto';
 import { TodayHealthDataDto } from './dto/today-health-data.dto';
+import { StreakResponseDto } from './dto/streak.dto';
+import { HeldHealthDataQueryDto, HeldHealthDataResponseDto } from './dto/health-review.dto';
+import { StreakService } from './streak.service';
+import { resolveDailyStepGoal } from './step-goal';
+import { StepRewardService } from '../wallet/step-reward.service';
+import { ReferralsService } from '../referrals/referrals.service';
+import { UsersService } from '../users/users.service';
+import { LeaderboardsService } from '../leaderboards/leaderboards.service';
+import { AntiCheatService, AnomalyAssessment } from './anti-cheat/anti-cheat.service';
+import { ValkeyService } from '../services/valkey.service';
+import { LedgerService } from '../wallet/ledger.service';
+import { LedgerAccounts } from '../wallet/ledger-accounts';
+import { LedgerTransactionType } from '../wallet/entities/ledger-transaction.entity';
+import { addDays, getISOWeek, getLocalDate, getLocalHour, pickTimeZone } from '../common/timezone.util';
+
+type HealthTotals = Pick<HealthData, 'steps' | 'duration' | 'calories' | 'distance'>;
+type SampleValues = Omit<HealthSample, 'id' | 'user' | 'createdAt' | 'updatedAt'>;
+
+// Review statuses whose rewards are held until an admin reviews the day
+const HELD_REVIEW_STATUSES = [HealthReviewStatus.FLAGGED, HealthReviewStatus.QUARANTINED];
 
 @Injectable()
 export class HealthService {
+  // Longest time bucket accepted for a single sample
+  private readonly MAX_SAMPLE_SECONDS = 3600;
+  // Tolerated clock skew for samples ending in the future
+  private readonly MAX_CLOCK_SKEW_SECONDS = 300;
+
   constructor(
+    @InjectDataSource()
+    private dataSource: DataSource,
     @InjectRepository(HealthData)
     private healthDataRepository: Repository<HealthData>,
+    @InjectRepository(HealthSample)
+    private healthSampleRepository: Repository<HealthSample>,
+    private stepRewardService: StepRewardService,
+    private referralsService: ReferralsService,
+    private usersService: UsersService,
+    private antiCheatService: AntiCheatService,
+    private valkeyService: ValkeyService,
+    private ledgerService: LedgerService,
+    private streakService: StreakService,
+    private leaderboardsService: LeaderboardsService,
+    private configService: ConfigService,
   ) {}
 
   /**
-   * Create a new health data record
+   * Resolve the timezone a user's health data is bucketed in: the profile
+   * timezone, else the timezone reported by the client, else UTC. An invalid
+   * timezone is ignored rather than failing the request.
+   * @param userId User's ID
+   * @param clientTimeZone Timezone sent in the X-Timezone header
+   * @returns IANA timezone
+   */
+  async resolveTimeZone(userId: string, clientTimeZone?: string): Promise<string> {
+    const user = await this.usersService.findById(userId);
+    return pickTimeZone(user?.timezone, clientTimeZone);
+  }
+
+  /**
+   * Get the daily step goal of a user
+   * @param userId User's ID
+   * @param today Today's date in the user's timezone (YYYY-MM-DD)
+   * @returns The user's own goal, else a goal derived from their profile
+   */
+  async getDailyStepGoal(userId: string, today: string): Promise<number> {
+    const user = await this.usersService.findById(userId);
+    return resolveDailyStepGoal(user, Number(this.configService.get('DEFAULT_DAILY_STEP_GOAL', 10000)), today);
+  }
+
+  /**
+   * Create a new health data record and credit the coins earned for the day
    */
-  async create(userId: string, createHealthDataDto: CreateHealthDataDto): Promise<HealthData> {
-    // If date is not provided, use today's date
-    const date = createHealthDataDto.date || new Date().toISOString().split('T')[0];
+  async create(userId: string, createHealthDataDto: CreateHealthDataDto, timeZone: string): Promise<HealthData> {
+    // If date is not provided, use the user's local date
+    const today = getLocalDate(new Date(), timeZone);
+    const date = createHealthDataDto.date || today;
+
+    if (date > today) {
+      throw new BadRequestException('Health data cannot be submitted for a future date');
+    }
+    this.assertRecentDate(date, today);
+
+    this.validatePlausibility(createHealthDataDto);
+    const goal = await this.getDailyStepGoal(userId, today);
+
+    // Days with intraday samples get their totals from the samples only
+    const sampleCount = await this.healthSampleRepository.count({ where: { userId, date } });
+    if (sampleCount > 0) {
+      throw new ConflictException('Daily totals for this date are derived from intraday samples');
+    }
+
+    // Suspicious days are stored but held for review instead of being rejected
+    const assessment = await this.antiCheatService.assess(userId, {
+      date,
+      steps: createHealthDataDto.steps,
+      duration: createHealthDataDto.duration,
+      calories: createHealthDataDto.calories,
+      distance: createHealthDataDto.distance,
+    });
     
     // Check if a record for this user and date already exists
     const existingRecord = await this.healthDataRepository.findOne({
@@ -28,24 +117,383 @@ export class HealthService {
       },
     });
 
+    let record: HealthData;
     if (existingRecord) {
       // Update existing record
       existingRecord.steps = createHealthDataDto.steps;
       existingRecord.duration = createHealthDataDto.duration;
       existingRecord.calories = createHealthDataDto.calories;
       existingRecord.distance = createHealthDataDto.distance;
+      existingRecord.goal = this.getGoalSnapshot(existingRecord, date, today, goal);
+      // New totals need a new review
+      Object.assign(existingRecord, assessment, { reviewedBy: null, reviewedAt: null });
       
-      return this.healthDataRepository.save(existingRecord);
+      record = await this.healthDataRepository.save(existingRecord);
+    } else {
+      // Create a new record
+      const healthData = this.healthDataRepository.create({
+        userId,
+        date,
+        ...createHealthDataDto,
+        ...assessment,
+        goal,
+      });
+
+      record = await this.healthDataRepository.save(healthData);
+    }
+
+    await this.handleSubmittedDay(record);
+    await this.streakService.awardMilestones(userId, today, goal);
+    await this.invalidateTodayCache(userId);
+    return record;
+  }
+
+  /**
+   * Store a batch of intraday samples and recalculate the totals of each affected day.
+   * A sample replaces an earlier one with the same start time; overlapping buckets are rejected.
+   */
+  async createSamples(
+    userId: string,
+    createHealthSamplesDto: CreateHealthSamplesDto,
+    timeZone: string,
+  ): Promise<HealthSamplesResponseDto> {
+    const { source } = createHealthSamplesDto;
+    const incoming = createHealthSamplesDto.samples.map((sample) => this.toSample(userId, source, sample, timeZone));
+    const dates = [...new Set(incoming.map((sample) => sample.date))];
+    const today = getLocalDate(new Date(), timeZone);
+    dates.forEach((date) => this.assertRecentDate(date, today));
+    const goal = await this.getDailyStepGoal(userId, today);
+
+    const records = await this.dataSource.transaction(async (manager) => {
+      // Serialize batches of the same user so the overlap check sees committed samples
+      await manager.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`health:${userId}`]);
+
+      const existing = await manager.find(HealthSample, { where: { userId, date: In(dates) } });
+      const samplesByDate = this.mergeSamples(existing, incoming);
+
+      const totalsByDate = new Map<string, HealthTotals>();
+      for (const [date, samples] of samplesByDate) {
+        const totals = this.sumTotals(samples);
+        this.validatePlausibility(totals);
+        totalsByDate.set(date, totals);
+      }
+
+      await manager.upsert(HealthSample, incoming, ['userId', 'startTime']);
+
+      const updatedRecords: HealthData[] = [];
+      for (const date of dates) {
+        const totals = totalsByDate.get(date);
+        const assessment = await this.antiCheatService.assess(userId, { date, ...totals }, samplesByDate.get(date));
+        updatedRecords.push(
+          await this.saveDailyTotals(manager, userId, date, source, totals, assessment, { today, goal }),
+        );
+      }
+      return updatedRecords;
+    });
+
+    for (const record of records) {
+      await this.handleSubmittedDay(record);
+    }
+    await this.streakService.awardMilestones(userId, today, goal);
+    await this.invalidateTodayCache(userId);
+
+    return {
+      accepted: incoming.length,
+      days: records.map((record) => ({
+        date: record.date,
+        steps: record.steps,
+        duration: record.duration,
+        calories: record.calories,
+        distance: record.distance,
+      })),
+    };
+  }
+
+  private toSample(userId: string, source: string, sample: HealthSampleDto, timeZone: string): SampleValues {
+    const startTime = new Date(sample.startTime);
+    const endTime = new Date(sample.endTime);
+    const bucketSeconds = (endTime.getTime() - startTime.getTime()) / 1000;
+    const date = getLocalDate(startTime, timeZone);
+
+    if (bucketSeconds <= 0 || bucketSeconds > this.MAX_SAMPLE_SECONDS) {
+      throw new BadRequestException('Sample buckets must end after they start and last at most one hour');
+    }
+
+    if (getLocalDate(new Date(endTime.getTime() - 1), timeZone) !== date) {
+      throw new BadRequestException('Sample buckets must not span local midnight');
+    }
+
+    if (endTime.getTime() > Date.now() + this.MAX_CLOCK_SKEW_SECONDS * 1000) {
+      throw new BadRequestException('Samples must not end in the future');
+    }
+
+    if (sample.duration > bucketSeconds) {
+      throw new BadRequestException('Sample duration is longer than its bucket');
     }
 
-    // Create a new record
-    const healthData = this.healthDataRepository.create({
+    return {
       userId,
       date,
-      ...createHealthDataDto,
+      startTime,
+      endTime,
+      steps: sample.steps,
+      duration: sample.duration,
+      calories: sample.calories,
+      distance: sample.distance,
+      source,
+    };
+  }
+
+  /**
+   * Merge incoming samples into the stored ones, grouped by day
+   */
+  private mergeSamples(
+    existing: HealthSample[],
+    incoming: SampleValues[],
+  ): Map<string, SampleValues[]> {
+    const samplesByStart = new Map<number, SampleValues>();
+    existing.forEach((sample) => samplesByStart.set(sample.startTime.getTime(), sample));
+
+    const incomingStarts = new Set<number>();
+    incoming.forEach((sample) => {
+      const start = sample.startTime.getTime();
+      if (incomingStarts.has(start)) {
+        throw new BadRequestException('Samples must have distinct start times');
+      }
+      incomingStarts.add(start);
+      samplesByStart.set(start, sample);
+    });
+
+    const samples = Array.from(samplesByStart.values()).sort(
+      (a, b) => a.startTime.getTime() - b.startTime.getTime(),
+    );
+
+    const samplesByDate = new Map<string, SampleValues[]>();
+    samples.forEach((sample, index) => {
+      if (index > 0 && sample.startTime < samples[index - 1].endTime) {
+        throw new BadRequestException('Samples must not overlap');
+      }
+
+      if (!samplesByDate.has(sample.date)) {
+        samplesByDate.set(sample.date, []);
+      }
+      samplesByDate.get(sample.date).push(sample);
     });
 
-    return this.healthDataRepository.save(healthData);
+    return samplesByDate;
+  }
+
+  private sumTotals(items: HealthTotals[]): HealthTotals {
+    return {
+      steps: items.reduce((sum, item) => sum + item.steps, 0),
+      duration: items.reduce((sum, item) => sum + item.duration, 0),
+      calories: items.reduce((sum, item) => sum + item.calories, 0),
+      distance: items.reduce((sum, item) => sum + item.distance, 0),
+    };
+  }
+
+  private async saveDailyTotals(
+    manager: EntityManager,
+    userId: string,
+    date: string,
+    source: string,
+    totals: HealthTotals,
+    assessment: AnomalyAssessment,
+    goalSnapshot: { today: string; goal: number },
+  ): Promise<HealthData> {
+    const existingRecord = await manager.findOne(HealthData, { where: { userId, date } });
+    const record = existingRecord || manager.create(HealthData, { userId, date });
+
+    Object.assign(record, totals, assessment, { source, reviewedBy: null, reviewedAt: null });
+    record.goal = this.getGoalSnapshot(existingRecord, date, goalSnapshot.today, goalSnapshot.goal);
+    return manager.save(record);
+  }
+
+  /**
+   * Get the step goal to store with a day. Today's goal follows changes made
+   * during the day, while past days keep the goal they were first stored with.
+   */
+  private getGoalSnapshot(existingRecord: HealthData | null, date: string, today: string, goal: number): number {
+    if (date === today || existingRecord?.goal == null) {
+      return goal;
+    }
+    return existingRecord.goal;
+  }
+
+  /**
+   * Reject days further back than the submission window, so that old days
+   * cannot be filled in just to collect their rewards
+   */
+  private assertRecentDate(date: string, today: string): void {
+    const maxBackfillDays = Number(this.configService.get('HEALTH_MAX_BACKFILL_DAYS', 1));
+    const earliestDate = addDays(today, -maxBackfillDays);
+    if (date < earliestDate) {
+      throw new BadRequestException(`Health data can only be submitted for dates from ${earliestDate}`);
+    }
+  }
+
+  /**
+   * Validate daily totals for plausibility
+   */
+  private validatePlausibility(data: HealthTotals): void {
+    // Check for unreasonably high step counts (e.g., more than 100,000 steps in a day)
+    if (data.steps > 100000) {
+      throw new BadRequestException('Step count is implausibly high');
+    }
+    
+    // Check for unreasonably high calorie burn (e.g., more than 10,000 calories in a day)
+    if (data.calories > 10000) {
+      throw new BadRequestException('Calorie count is implausibly high');
+    }
+    
+    // Check for unreasonably high distance (e.g., more than 100 km in a day)
+    if (data.distance > 100000) { // 100 km in meters
+      throw new BadRequestException('Distance is implausibly high');
+    }
+    
+    // Check for unreasonably high duration (e.g., more than 24 hours in a day)
+    if (data.duration > 86400) { // 24 hours in seconds
+      throw new BadRequestException('Duration is implausibly high');
+    }
+  }
+
+  /**
+   * Run the rewards and rankings that depend on a day's attested totals
+   */
+  private async handleSubmittedDay(record: HealthData): Promise<void> {
+    // Flagged and quarantined days are held until they are reviewed
+    const isClean = record.reviewStatus === HealthReviewStatus.CLEAN;
+    await this.leaderboardsService.recordDay(record.userId, record.date, isClean ? record.steps : 0);
+    if (!isClean) {
+      return;
+    }
+
+    await this.stepRewardService.creditDailySteps(record.userId, record.date, record.steps);
+    await this.referralsService.handleDailySteps(record.userId, record.steps);
+  }
+
+  /**
+   * List the flagged and quarantined days that were not reviewed yet
+   * @param query Pagination and status filter
+   * @returns Held days, oldest first
+   */
+  async findHeld(query: HeldHealthDataQueryDto): Promise<HeldHealthDataResponseDto> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+
+    const [items, total] = await this.healthDataRepository.findAndCount({
+      where: { reviewStatus: query.status || In(HELD_REVIEW_STATUSES), reviewedAt: IsNull() },
+      order: { date: 'ASC', createdAt: 'ASC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return { items, total, page, limit };
+  }
+
+  /**
+   * Approve a held day after review. It counts as clean from now on, so its held
+   * rewards are credited and it counts towards streaks, leaderboards and challenges.
+   * @param id Health data ID
+   * @param adminId ID of the reviewing admin
+   * @returns The approved day
+   */
+  async approveHeld(id: string, adminId: string): Promise<HealthData> {
+    const record = await this.reviewHeld(id, adminId, { reviewStatus: HealthReviewStatus.CLEAN });
+
+    const today = getLocalDate(new Date(), await this.resolveTimeZone(record.userId));
+    await this.handleSubmittedDay(record);
+    await this.streakService.awardMilestones(record.userId, today, await this.getDailyStepGoal(record.userId, today));
+    await this.invalidateTodayCache(record.userId);
+    return record;
+  }
+
+  /**
+   * Reject a held day after review. Its rewards stay held, unless new totals
+   * are submitted for the day and pass the anti-cheat checks.
+   * @param id Health data ID
+   * @param adminId ID of the reviewing admin
+   * @returns The rejected day
+   */
+  async rejectHeld(id: string, adminId: string): Promise<HealthData> {
+    return this.reviewHeld(id, adminId, {});
+  }
+
+  private async reviewHeld(id: string, adminId: string, changes: Partial<HealthData>): Promise<HealthData> {
+    // Only one review of the same totals applies, however many admins send it
+    const result = await this.healthDataRepository.update(
+      { id, reviewStatus: In(HELD_REVIEW_STATUSES), reviewedAt: IsNull() },
+      { ...changes, reviewedBy: adminId, reviewedAt: new Date() },
+    );
+
+    const record = await this.healthDataRepository.findOne({ where: { id } });
+    if (!record) {
+      throw new NotFoundException('Health data not found');
+    }
+    if (!result.affected) {
+      throw new ConflictException('The day is not held for review');
+    }
+    return record;
+  }
+
+  /**
+   * Get today's totals, goal progress and earned coins. Days without data return zeroes.
+   * The result is cached until the next submission.
+   */
+  async getToday(userId: string, timeZone: string): Promise<TodayHealthDataDto> {
+    const date = getLocalDate(new Date(), timeZone);
+    const cacheKey = this.getTodayCacheKey(userId);
+    const goal = await this.getDailyStepGoal(userId, date);
+
+    // The cached entry may be from yesterday, another timezone or before the goal was changed
+    const cached = await this.valkeyService.getJson<TodayHealthDataDto>(cacheKey);
+    if (cached?.date === date && cached.goal === goal) {
+      return cached;
+    }
+
+    const [record, coinsEarned] = await Promise.all([
+      this.healthDataRepository.findOne({ where: { userId, date } }),
+      this.ledgerService.sumByReference(
+        LedgerAccounts.userWallet(userId),
+        LedgerTransactionType.STEP_REWARD,
+        date,
+      ),
+    ]);
+
+    const steps = record?.steps || 0;
+
+    const today: TodayHealthDataDto = {
+      date,
+      steps,
+      duration: record?.duration || 0,
+      calories: record?.calories || 0,
+      distance: record?.distance || 0,
+      goal,
+      progress: goal > 0 ? Math.min(100, Math.floor((steps / goal) * 100)) : 100,
+      coinsEarned,
+      lastUpdated: record?.updatedAt || null,
+    };
+
+    const cacheTtl = Number(this.configService.get('HEALTH_TODAY_CACHE_TTL_SECONDS', 300));
+    await this.valkeyService.setJson(cacheKey, today, cacheTtl);
+    return today;
+  }
+
+  /**
+   * Get the streak of days on which the step goal was reached
+   */
+  async getStreak(userId: string, timeZone: string): Promise<StreakResponseDto> {
+    const today = getLocalDate(new Date(), timeZone);
+    const goal = await this.getDailyStepGoal(userId, today);
+    return this.streakService.getStreak(userId, today, goal);
+  }
+
+  private async invalidateTodayCache(userId: string): Promise<void> {
+    await this.valkeyService.delete(this.getTodayCacheKey(userId));
+  }
+
+  private getTodayCacheKey(userId: string): string {
+    return `health:today:${userId}`;
   }
 
   /**
@@ -54,12 +502,17 @@ export class HealthService {
   async getStatistics(
     userId: string,
     query: HealthStatisticsQueryDto,
+    timeZone: string,
   ): Promise<HealthStatisticsResponseDto> {
-    const today = new Date().toISOString().split('T')[0];
+    const today = getLocalDate(new Date(), timeZone);
     const startDate = query.startDate || today;
     const endDate = query.endDate || today;
     const period = query.period || StatisticsPeriod.DAY;
 
+    if (period === StatisticsPeriod.HOUR) {
+      return this.getHourlyStatistics(userId, startDate, endDate, timeZone);
+    }
+
     // Get all health data records for the user within the date range
     const records = await this.healthDataRepository.find({
       where: {
@@ -93,6 +546,60 @@ export class HealthService {
     };
   }
 
+  /**
+   * Get hourly statistics from the intraday samples within a date range
+   */
+  private async getHourlyStatistics(
+    userId: string,
+    startDate: string,
+    endDate: string,
+    timeZone: string,
+  ): Promise<HealthStatisticsResponseDto> {
+    const samples = await this.healthSampleRepository.find({
+      where: {
+        userId,
+        date: Between(startDate, endDate),
+      },
+      order: {
+        startTime: 'ASC',
+      },
+    });
+
+    if (samples.length === 0) {
+      throw new NotFoundException('No intraday health data found for the specified period');
+    }
+
+    const groupedData = new Map<string, HealthStatisticsItemDto>();
+    samples.forEach(sample => {
+      // Local hour, e.g. 2025-07-24T08:00
+      const groupKey = getLocalHour(sample.startTime, timeZone);
+
+      if (!groupedData.has(groupKey)) {
+        groupedData.set(groupKey, {
+          date: groupKey,
+          steps: 0,
+          duration: 0,
+          calories: 0,
+          distance: 0,
+        });
+      }
+
+      const group = groupedData.get(groupKey)!;
+      group.steps += sample.steps;
+      group.duration += sample.duration;
+      group.calories += sample.calories;
+      group.distance += sample.distance;
+    });
+
+    return {
+      items: Array.from(groupedData.values()),
+      summary: {
+        date: `${startDate} to ${endDate}`,
+        ...this.sumTotals(samples),
+      },
+    };
+  }
+
   /**
    * Helper method to group records by period (day, week, month)
    */
@@ -115,19 +622,16 @@ export class HealthService {
     const groupedData = new Map<string, HealthStatisticsItemDto>();
 
     records.forEach(record => {
-      const date = new Date(record.date);
       let groupKey: string;
 
+      // Group on the stored calendar date; parsing it into a Date would shift it by the server's timezone
       if (period === StatisticsPeriod.WEEK) {
-        // Get the week number (ISO week)
-        const weekNumber = this.getISOWeek(date);
-        const year = date.getFullYear();
-        groupKey = `${year}-W${weekNumber}`;
+        // ISO week, which belongs to the ISO week-numbering year (e.g. 2024-12-30 is in 2025-W01)
+        const { year, week } = getISOWeek(record.date);
+        groupKey = `${year}-W${week.toString().padStart(2, '0')}`;
       } else {
-        // Month
-        const year = date.getFullYear();
-        const month = date.getMonth() + 1; // getMonth() is 0-indexed
-        groupKey = `${year}-${month.toString().padStart(2, '0')}`;
+        // Month (YYYY-MM)
+        groupKey = record.date.substring(0, 7);
       }
 
       if (!groupedData.has(groupKey)) {
@@ -149,15 +653,4 @@ export class HealthService {
 
     return Array.from(groupedData.values());
   }
-
-  /**
-   * Helper method to get ISO week number
-   */
-  private getISOWeek(date: Date): number {
-    const d = new Date(date);
-    d.setHours(0, 0, 0, 0);
-    d.setDate(d.getDate() + 4 - (d.getDay() || 7));
-    const yearStart = new Date(d.getFullYear(), 0, 1);
-    return Math.ceil((((d.getTime() - yearStart.getTime()) / 86400000) + 1) / 7);
-  }
 }
\ No newline at end of file
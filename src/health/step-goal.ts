@@ -0,0 +1,45 @@
+import { User } from '../users/entities/user.entity';
+
+// Recommended daily steps differ by age; adults use the configured default goal
+const YOUTH_MAX_AGE = 17;
+const YOUTH_STEP_GOAL = 12000;
+const SENIOR_MIN_AGE = 65;
+const SENIOR_STEP_GOAL = 7500;
+
+/**
+ * Get the daily step goal of a user: their own goal if they set one, else a
+ * goal derived from their age, else the default goal
+ * @param user User, if found
+ * @param defaultGoal Configured default daily step goal
+ * @param today Today's date (YYYY-MM-DD), to calculate the age
+ * @returns Daily step goal
+ */
+export function resolveDailyStepGoal(user: User | null, defaultGoal: number, today: string): number {
+  if (user?.dailyStepGoal) {
+    return user.dailyStepGoal;
+  }
+
+  const age = user?.dateOfBirth ? getAge(user.dateOfBirth, today) : null;
+  if (age === null) {
+    return defaultGoal;
+  }
+  if (age <= YOUTH_MAX_AGE) {
+    return YOUTH_STEP_GOAL;
+  }
+  if (age >= SENIOR_MIN_AGE) {
+    return SENIOR_STEP_GOAL;
+  }
+  return defaultGoal;
+}
+
+function getAge(dateOfBirth: Date | string, today: string): number | null {
+  // Date columns are read as YYYY-MM-DD strings; compare calendar dates to stay independent of the server's timezone
+  const birthDate = typeof dateOfBirth === 'string' ? dateOfBirth : dateOfBirth.toISOString().split('T')[0];
+  const [birthYear, birthMonthDay] = [Number(birthDate.substring(0, 4)), birthDate.substring(5)];
+  if (!birthYear) {
+    return null;
+  }
+
+  const age = Number(today.substring(0, 4)) - birthYear;
+  return today.substring(5) < birthMonthDay ? age - 1 : age;
+}
@@ -0,0 +1,213 @@
+import { ConfigService } from '@nestjs/config';
+import { DataSource, EntityManager, FindOperator, Repository } from 'typeorm';
+import { HealthData, HealthReviewStatus } from './entities/health-data.entity';
+import { StreakMilestone } from './entities/streak-milestone.entity';
+import { StreakService } from './streak.service';
+import { LedgerService, PostTransactionInput } from '../wallet/ledger.service';
+import { addDays, getLocalDate } from '../common/timezone.util';
+
+const USER_ID = '3f0c1a52-6c1e-4a35-9d55-3c0f7d7e8b21';
+const TODAY = '2025-07-24';
+const GOAL = 8000;
+
+describe('StreakService', () => {
+  let days: Map<string, HealthData>;
+  let milestones: Partial<StreakMilestone>[];
+  let posted: Map<string, PostTransactionInput>;
+  let service: StreakService;
+
+  // Submits a day, replacing what was stored for the date before
+  const submit = (date: string, steps: number, goal = GOAL, reviewStatus = HealthReviewStatus.CLEAN) =>
+    days.set(date, Object.assign(new HealthData(), { userId: USER_ID, date, steps, goal, reviewStatus }));
+
+  // Reaches the goal on every day from one date to another
+  const walk = (from: string, to: string) => {
+    for (let date = from; date <= to; date = addDays(date, 1)) {
+      submit(date, 10000);
+    }
+  };
+
+  beforeEach(() => {
+    days = new Map();
+    milestones = [];
+    posted = new Map();
+
+    const healthDataRepository = {
+      find: async ({ where }: { where: { userId: string; reviewStatus: string; date: FindOperator<string> } }) =>
+        [...days.values()]
+          .filter((day) => day.userId === where.userId && day.reviewStatus === where.reviewStatus)
+          .filter((day) => day.date <= where.date.value)
+          .sort((a, b) => a.date.localeCompare(b.date)),
+    } as unknown as Repository<HealthData>;
+
+    const manager = {
+      exists: async (_: unknown, { where }: { where: { days: number; reachedOn: FindOperator<string[]> } }) => {
+        const [from, to] = where.reachedOn.value as unknown as string[];
+        return milestones.some(
+          (milestone) => milestone.days === where.days && milestone.reachedOn >= from && milestone.reachedOn <= to,
+        );
+      },
+      insert: async (_: unknown, milestone: Partial<StreakMilestone>) => milestones.push(milestone),
+    } as unknown as EntityManager;
+
+    service = new StreakService(
+      { transaction: (callback: (manager: EntityManager) => Promise<number>) => callback(manager) } as DataSource,
+      healthDataRepository,
+      {
+        lockUser: async () => undefined,
+        post: async (input: PostTransactionInput) => {
+          const created = !posted.has(input.idempotencyKey);
+          posted.set(input.idempotencyKey, input);
+          return { created };
+        },
+      } as unknown as LedgerService,
+      new ConfigService({ STREAK_FREEZE_EVERY_DAYS: 7, STREAK_MAX_FREEZES: 2 }),
+    );
+  });
+
+  it('counts the days in a row the goal was reached', async () => {
+    walk('2025-07-20', TODAY);
+
+    const streak = await service.getStreak(USER_ID, TODAY, GOAL);
+
+    expect(streak).toMatchObject({
+      currentStreak: 5,
+      longestStreak: 5,
+      streakStartDate: '2025-07-20',
+      todayCompleted: true,
+    });
+    expect(streak.nextMilestone).toEqual({ days: 7, coins: 50 });
+  });
+
+  it('keeps the streak while today is not over', async () => {
+    walk('2025-07-20', '2025-07-23');
+    submit(TODAY, 3000);
+
+    expect(await service.getStreak(USER_ID, TODAY, GOAL)).toMatchObject({ currentStreak: 4, todayCompleted: false });
+  });
+
+  it('ends the streak after a missed day', async () => {
+    walk('2025-07-10', '2025-07-15');
+    walk('2025-07-17', TODAY);
+
+    expect(await service.getStreak(USER_ID, TODAY, GOAL)).toMatchObject({
+      currentStreak: 8,
+      longestStreak: 8,
+      streakStartDate: '2025-07-17',
+    });
+  });
+
+  it('ends the streak once yesterday was missed', async () => {
+    walk('2025-07-18', '2025-07-22');
+
+    expect(await service.getStreak(USER_ID, TODAY, GOAL)).toMatchObject({ currentStreak: 0, longestStreak: 5 });
+  });
+
+  it('covers missed days with the freezes earned every 7 days', async () => {
+    walk('2025-07-01', '2025-07-14');
+    walk('2025-07-17', TODAY);
+
+    expect(await service.getStreak(USER_ID, TODAY, GOAL)).toMatchObject({
+      currentStreak: 22,
+      streakStartDate: '2025-07-01',
+      freezesAvailable: 1,
+      frozenDates: ['2025-07-15', '2025-07-16'],
+    });
+  });
+
+  it('ends the streak when the gap is longer than the freezes', async () => {
+    walk('2025-07-01', '2025-07-07');
+    walk('2025-07-10', TODAY);
+
+    expect(await service.getStreak(USER_ID, TODAY, GOAL)).toMatchObject({ currentStreak: 15, frozenDates: [] });
+  });
+
+  it('joins two streaks when the missed day is submitted late', async () => {
+    walk('2025-07-18', '2025-07-20');
+    walk('2025-07-22', TODAY);
+    expect((await service.getStreak(USER_ID, TODAY, GOAL)).currentStreak).toBe(3);
+
+    submit('2025-07-21', 12000);
+
+    expect(await service.getStreak(USER_ID, TODAY, GOAL)).toMatchObject({
+      currentStreak: 7,
+      streakStartDate: '2025-07-18',
+    });
+  });
+
+  it('breaks the streak when a resubmitted day drops below its goal', async () => {
+    walk('2025-07-18', TODAY);
+
+    submit('2025-07-22', 7999);
+
+    expect(await service.getStreak(USER_ID, TODAY, GOAL)).toMatchObject({
+      currentStreak: 2,
+      longestStreak: 4,
+      streakStartDate: '2025-07-23',
+    });
+  });
+
+  it('judges past days by the goal they were submitted with and today by the current goal', async () => {
+    submit('2025-07-23', 6000, 5000);
+    submit(TODAY, 9000, 5000);
+
+    expect(await service.getStreak(USER_ID, TODAY, 10000)).toMatchObject({ currentStreak: 1, todayCompleted: false });
+  });
+
+  it('does not count days held for review', async () => {
+    walk('2025-07-20', TODAY);
+    submit('2025-07-22', 10000, GOAL, HealthReviewStatus.FLAGGED);
+
+    expect((await service.getStreak(USER_ID, TODAY, GOAL)).currentStreak).toBe(2);
+  });
+
+  it('follows the day of the user timezone around midnight', async () => {
+    walk('2025-07-20', '2025-07-24');
+    // 01:30 of July 25 in Bangkok, still 11:30 of July 24 in Los Angeles
+    const now = new Date('2025-07-24T18:30:00Z');
+
+    const bangkok = await service.getStreak(USER_ID, getLocalDate(now, 'Asia/Bangkok'), GOAL);
+    const losAngeles = await service.getStreak(USER_ID, getLocalDate(now, 'America/Los_Angeles'), GOAL);
+
+    expect(bangkok).toMatchObject({ currentStreak: 5, todayCompleted: false });
+    expect(losAngeles).toMatchObject({ currentStreak: 5, todayCompleted: true });
+    // A day only counts once it has started in the timezone the streak is calculated for
+    submit('2025-07-25', 10000);
+    expect((await service.getStreak(USER_ID, getLocalDate(now, 'America/Los_Angeles'), GOAL)).currentStreak).toBe(5);
+    expect((await service.getStreak(USER_ID, getLocalDate(now, 'Asia/Bangkok'), GOAL)).currentStreak).toBe(6);
+  });
+
+  describe('awardMilestones', () => {
+    it('pays the bonus of a reached milestone once', async () => {
+      walk('2025-07-18', TODAY);
+
+      expect(await service.awardMilestones(USER_ID, TODAY, GOAL)).toBe(50);
+      expect(await service.awardMilestones(USER_ID, TODAY, GOAL)).toBe(0);
+      expect(milestones).toEqual([{ userId: USER_ID, days: 7, reachedOn: TODAY, coins: 50 }]);
+    });
+
+    it('does not pay again when a late day moves the day a milestone was reached', async () => {
+      walk('2025-07-15', '2025-07-17');
+      walk('2025-07-19', TODAY);
+      expect(await service.awardMilestones(USER_ID, TODAY, GOAL)).toBe(0);
+      walk('2025-07-25', '2025-07-25');
+      expect(await service.awardMilestones(USER_ID, '2025-07-25', GOAL)).toBe(50);
+
+      submit('2025-07-18', 10000);
+
+      expect(await service.awardMilestones(USER_ID, '2025-07-25', GOAL)).toBe(0);
+      expect(posted.size).toBe(1);
+    });
+
+    it('pays a milestone again for a new streak after a resubmitted day broke the old one', async () => {
+      walk('2025-07-11', '2025-07-17');
+      expect(await service.awardMilestones(USER_ID, '2025-07-17', GOAL)).toBe(50);
+      walk('2025-07-18', TODAY);
+
+      submit('2025-07-17', 2000);
+
+      expect(await service.awardMilestones(USER_ID, TODAY, GOAL)).toBe(50);
+      expect(milestones.map((milestone) => milestone.reachedOn)).toEqual(['2025-07-17', TODAY]);
+    });
+  });
+});
@@ -0,0 +1,233 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectDataSource, InjectRepository } from '@nestjs/typeorm';
+import { Between, DataSource, LessThanOrEqual, Repository } from 'typeorm';
+import { HealthData, HealthReviewStatus } from './entities/health-data.entity';
+import { StreakMilestone } from './entities/streak-milestone.entity';
+import { StreakResponseDto } from './dto/streak.dto';
+import { LedgerService } from '../wallet/ledger.service';
+import { LedgerAccounts } from '../wallet/ledger-accounts';
+import { LedgerTransactionType } from '../wallet/entities/ledger-transaction.entity';
+import { addDays, diffDays } from '../common/timezone.util';
+
+// Streak lengths that pay a bonus, once per streak
+export const STREAK_MILESTONES = [
+  { days: 7, coins: 50 },
+  { days: 30, coins: 300 },
+  { days: 100, coins: 1000 },
+  { days: 365, coins: 5000 },
+];
+
+export interface StreakSettings {
+  // A freeze is earned each time the streak grows by this many days
+  freezeEveryDays: number;
+  // Freezes that can be saved up
+  maxFreezes: number;
+}
+
+export interface StreakSummary {
+  currentStreak: number;
+  longestStreak: number;
+  streakStartDate: string | null;
+  todayCompleted: boolean;
+  freezesAvailable: number;
+  frozenDates: string[];
+  // Milestones of the current streak and the day each was reached
+  reachedMilestones: { days: number; coins: number; reachedOn: string }[];
+}
+
+/**
+ * Streaks of days on which the step goal was reached. Streaks are always
+ * calculated from the stored days, so days submitted or corrected after the
+ * fact are taken into account like any other.
+ */
+@Injectable()
+export class StreakService {
+  constructor(
+    @InjectDataSource()
+    private dataSource: DataSource,
+    @InjectRepository(HealthData)
+    private healthDataRepository: Repository<HealthData>,
+    private ledgerService: LedgerService,
+    private configService: ConfigService,
+  ) {}
+
+  getSettings(): StreakSettings {
+    return {
+      freezeEveryDays: Number(this.configService.get('STREAK_FREEZE_EVERY_DAYS', 7)),
+      maxFreezes: Number(this.configService.get('STREAK_MAX_FREEZES', 2)),
+    };
+  }
+
+  /**
+   * Get the streak of a user
+   * @param userId User's ID
+   * @param today Today's date in the user's timezone (YYYY-MM-DD)
+   * @param goal Today's step goal, also used for days stored without a goal
+   * @returns Current and longest streak, freezes and the next milestone
+   */
+  async getStreak(userId: string, today: string, goal: number): Promise<StreakResponseDto> {
+    const summary = await this.summarize(userId, today, goal);
+
+    return {
+      currentStreak: summary.currentStreak,
+      longestStreak: summary.longestStreak,
+      streakStartDate: summary.streakStartDate,
+      todayCompleted: summary.todayCompleted,
+      goal,
+      freezesAvailable: summary.freezesAvailable,
+      frozenDates: summary.frozenDates,
+      nextMilestone: STREAK_MILESTONES.find((milestone) => milestone.days > summary.currentStreak) || null,
+    };
+  }
+
+  /**
+   * Pay the bonuses of the milestones the current streak has reached and that
+   * weren't paid for this streak yet
+   * @param userId User's ID
+   * @param today Today's date in the user's timezone (YYYY-MM-DD)
+   * @param goal Today's step goal, also used for days stored without a goal
+   * @returns Coins paid by this call
+   */
+  async awardMilestones(userId: string, today: string, goal: number): Promise<number> {
+    const summary = await this.summarize(userId, today, goal);
+    if (summary.reachedMilestones.length === 0) {
+      return 0;
+    }
+
+    return this.dataSource.transaction(async (manager) => {
+      // Hold the user's ledger lock so that concurrent submissions cannot pay a milestone twice
+      await this.ledgerService.lockUser(manager, userId);
+
+      let paid = 0;
+      for (const milestone of summary.reachedMilestones) {
+        // Joining two streaks with a late day moves the day a milestone is reached, but it is still the same streak
+        const alreadyPaid = await manager.exists(StreakMilestone, {
+          where: { userId, days: milestone.days, reachedOn: Between(summary.streakStartDate, today) },
+        });
+        if (alreadyPaid) {
+          continue;
+        }
+
+        await manager.insert(StreakMilestone, {
+          userId,
+          days: milestone.days,
+          reachedOn: milestone.reachedOn,
+          coins: milestone.coins,
+        });
+
+        await this.ledgerService.post(
+          {
+            idempotencyKey: `streak-bonus:${userId}:${milestone.days}:${milestone.reachedOn}`,
+            userId,
+            type: LedgerTransactionType.STREAK_BONUS,
+            reference: milestone.reachedOn,
+            description: `Bonus for a ${milestone.days}-day streak`,
+            metadata: { days: milestone.days },
+            postings: [
+              { account: LedgerAccounts.STREAK_BONUSES, amount: -milestone.coins },
+              { account: LedgerAccounts.userWallet(userId), amount: milestone.coins },
+            ],
+          },
+          manager,
+        );
+        paid += milestone.coins;
+      }
+
+      return paid;
+    });
+  }
+
+  private async summarize(userId: string, today: string, goal: number): Promise<StreakSummary> {
+    // Flagged and quarantined days don't count until they are reviewed
+    const records = await this.healthDataRepository.find({
+      select: { date: true, steps: true, goal: true },
+      where: { userId, reviewStatus: HealthReviewStatus.CLEAN, date: LessThanOrEqual(today) },
+      order: { date: 'ASC' },
+    });
+
+    // Past days keep the goal they were submitted with; today follows the current goal
+    const goalDates = records
+      .filter((record) => record.steps >= (record.date === today ? goal : record.goal ?? goal))
+      .map((record) => record.date);
+
+    return this.calculate(goalDates, today);
+  }
+
+  /**
+   * Walk through the days the goal was reached. A gap of missed days is covered
+   * by freezes if enough are saved up, otherwise it ends the streak. Today
+   * doesn't break the streak until it is over.
+   * @param goalDates Days the goal was reached, in ascending order (YYYY-MM-DD)
+   * @param today Today's date (YYYY-MM-DD)
+   */
+  private calculate(goalDates: string[], today: string): StreakSummary {
+    const { freezeEveryDays, maxFreezes } = this.getSettings();
+
+    let currentStreak = 0;
+    let longestStreak = 0;
+    let freezesAvailable = 0;
+    let streakStartDate: string | null = null;
+    let frozenDates: string[] = [];
+    let reachedMilestones: StreakSummary['reachedMilestones'] = [];
+
+    const coverGap = (from: string, to: string) => {
+      const missed = diffDays(from, to) - 1;
+      if (missed <= 0) {
+        return;
+      }
+
+      if (currentStreak > 0 && missed <= freezesAvailable) {
+        freezesAvailable -= missed;
+        for (let day = 1; day <= missed; day++) {
+          frozenDates.push(addDays(from, day));
+        }
+        return;
+      }
+
+      currentStreak = 0;
+      streakStartDate = null;
+      frozenDates = [];
+      reachedMilestones = [];
+    };
+
+    let previous: string | null = null;
+    for (const date of goalDates) {
+      if (previous) {
+        coverGap(previous, date);
+      }
+
+      if (currentStreak === 0) {
+        streakStartDate = date;
+      }
+      currentStreak++;
+      longestStreak = Math.max(longestStreak, currentStreak);
+
+      if (currentStreak % freezeEveryDays === 0) {
+        freezesAvailable = Math.min(maxFreezes, freezesAvailable + 1);
+      }
+
+      const milestone = STREAK_MILESTONES.find((item) => item.days === currentStreak);
+      if (milestone) {
+        reachedMilestones.push({ ...milestone, reachedOn: date });
+      }
+
+      previous = date;
+    }
+
+    const todayCompleted = previous === today;
+    if (previous && !todayCompleted) {
+      coverGap(previous, today);
+    }
+
+    return {
+      currentStreak,
+      longestStreak,
+      streakStartDate,
+      todayCompleted,
+      freezesAvailable,
+      frozenDates,
+      reachedMilestones,
+    };
+  }
+}
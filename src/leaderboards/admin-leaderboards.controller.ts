@@ -0,0 +1,31 @@
+import { Controller, HttpCode, HttpStatus, Post, UseGuards } from "@nestjs/common";
+import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from "@nestjs/swagger";
+import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
+import { RolesGuard } from "../auth/guards/roles.guard";
+import { Roles } from "../auth/decorators/roles.decorator";
+import { UserRole } from "../users/entities/user.entity";
+import { LeaderboardsService } from "./leaderboards.service";
+import { RebuildLeaderboardsResponseDto } from "./dto/leaderboard.dto";
+
+@ApiTags("admin")
+@Controller("admin/leaderboards")
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@ApiBearerAuth()
+export class AdminLeaderboardsController {
+  constructor(private readonly leaderboardsService: LeaderboardsService) {}
+
+  @Post("rebuild")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Rebuild the leaderboards from the stored health data" })
+  @ApiResponse({
+    status: 200,
+    description: "The leaderboards are rebuilt",
+    type: RebuildLeaderboardsResponseDto,
+  })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({ status: 403, description: "Not an admin" })
+  rebuild(): Promise<RebuildLeaderboardsResponseDto> {
+    return this.leaderboardsService.rebuild();
+  }
+}
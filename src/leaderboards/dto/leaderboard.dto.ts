@@ -0,0 +1,187 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { Type } from "class-transformer";
+import { IsBoolean, IsEnum, IsInt, IsOptional, Max, Min } from "class-validator";
+import { LeaderboardPeriod } from "../leaderboard-periods";
+
+export enum LeaderboardScope {
+  GLOBAL = "global",
+  // Users with the same residential area as the caller
+  AREA = "area",
+  // The caller's inviter and the users they invited
+  FRIENDS = "friends",
+}
+
+export class LeaderboardQueryDto {
+  @ApiProperty({
+    description: "Ranking period",
+    enum: LeaderboardPeriod,
+    example: LeaderboardPeriod.WEEKLY,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(LeaderboardPeriod, { message: "Period must be one of: weekly, monthly" })
+  period?: LeaderboardPeriod = LeaderboardPeriod.WEEKLY;
+
+  @ApiProperty({
+    description: "Users ranked against each other",
+    enum: LeaderboardScope,
+    example: LeaderboardScope.GLOBAL,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(LeaderboardScope, { message: "Scope must be one of: global, area, friends" })
+  scope?: LeaderboardScope = LeaderboardScope.GLOBAL;
+
+  @ApiProperty({
+    description: "Number of top entries",
+    example: 20,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: "Limit must be an integer" })
+  @Min(1, { message: "Limit must be at least 1" })
+  @Max(100, { message: "Limit cannot exceed 100" })
+  limit?: number = 20;
+}
+
+export class LeaderboardEntryDto {
+  @ApiProperty({
+    description: "Rank of the user; users with the same steps share a rank",
+    example: 1,
+  })
+  rank: number;
+
+  @ApiProperty({
+    description: "The unique identifier of the user",
+    example: "3f0c1a52-6c1e-4a35-9d55-3c0f7d7e8b21",
+  })
+  userId: string;
+
+  @ApiProperty({
+    description: "The username of the user",
+    example: "janedoe",
+  })
+  username: string;
+
+  @ApiProperty({
+    description: "The full name of the user",
+    example: "Jane Doe",
+  })
+  name: string;
+
+  @ApiProperty({
+    description: "The avatar URL of the user",
+    required: false,
+  })
+  avatar: string;
+
+  @ApiProperty({
+    description: "Attested steps in the period",
+    example: 84250,
+  })
+  steps: number;
+}
+
+export class LeaderboardPositionDto {
+  @ApiProperty({
+    description: "Rank of the caller, or null if they have no steps in the period or opted out",
+    example: 42,
+    nullable: true,
+  })
+  rank: number | null;
+
+  @ApiProperty({
+    description: "Attested steps of the caller in the period",
+    example: 51200,
+  })
+  steps: number;
+
+  @ApiProperty({
+    description: "Whether the caller is hidden from the leaderboards",
+    example: false,
+  })
+  optedOut: boolean;
+}
+
+export class LeaderboardResponseDto {
+  @ApiProperty({
+    description: "Ranking period",
+    enum: LeaderboardPeriod,
+    example: LeaderboardPeriod.WEEKLY,
+  })
+  period: LeaderboardPeriod;
+
+  @ApiProperty({
+    description: "Users ranked against each other",
+    enum: LeaderboardScope,
+    example: LeaderboardScope.GLOBAL,
+  })
+  scope: LeaderboardScope;
+
+  @ApiProperty({
+    description: "ISO week (YYYY-Www) or month (YYYY-MM) of the leaderboard",
+    example: "2025-W30",
+  })
+  periodKey: string;
+
+  @ApiProperty({
+    description: "First day of the period (YYYY-MM-DD)",
+    example: "2025-07-21",
+  })
+  startDate: string;
+
+  @ApiProperty({
+    description: "Last day of the period (YYYY-MM-DD)",
+    example: "2025-07-27",
+  })
+  endDate: string;
+
+  @ApiProperty({
+    description: "Residential area of the area leaderboard",
+    example: "New York City",
+    required: false,
+  })
+  area?: string;
+
+  @ApiProperty({
+    description: "Number of ranked users",
+    example: 1250,
+  })
+  total: number;
+
+  @ApiProperty({
+    description: "Top entries, highest steps first",
+    type: [LeaderboardEntryDto],
+  })
+  entries: LeaderboardEntryDto[];
+
+  @ApiProperty({
+    description: "The caller's own position, also when it is outside the top entries",
+    type: LeaderboardPositionDto,
+  })
+  me: LeaderboardPositionDto;
+}
+
+export class LeaderboardOptOutDto {
+  @ApiProperty({
+    description: "Whether to hide the caller from the leaderboards",
+    example: true,
+  })
+  @IsBoolean({ message: "Opt-out must be a boolean" })
+  optOut: boolean;
+}
+
+export class RebuildLeaderboardsResponseDto {
+  @ApiProperty({
+    description: "Number of leaderboards that were rebuilt",
+    example: 14,
+  })
+  boards: number;
+
+  @ApiProperty({
+    description: "Number of user days counted",
+    example: 51230,
+  })
+  days: number;
+}
@@ -0,0 +1,49 @@
+import { addDays, getISOWeek } from "../common/timezone.util";
+
+export enum LeaderboardPeriod {
+  WEEKLY = "weekly",
+  MONTHLY = "monthly",
+}
+
+export interface LeaderboardWindow {
+  period: LeaderboardPeriod;
+  // ISO week (e.g. 2025-W30) or month (e.g. 2025-07)
+  key: string;
+  startDate: string;
+  endDate: string;
+}
+
+/**
+ * Get the week or month a calendar date belongs to. Days are assigned by the
+ * calendar date they were stored with, i.e. in the timezone of their user.
+ * @param period Weekly or monthly
+ * @param date Date (YYYY-MM-DD)
+ * @returns The period's key and first and last day
+ */
+export function getLeaderboardWindow(period: LeaderboardPeriod, date: string): LeaderboardWindow {
+  if (period === LeaderboardPeriod.WEEKLY) {
+    const { year, week } = getISOWeek(date);
+    const [dateYear, dateMonth, dateDay] = date.split("-").map(Number);
+    // ISO weeks start on Monday
+    const dayOfWeek = new Date(Date.UTC(dateYear, dateMonth - 1, dateDay)).getUTCDay() || 7;
+    const startDate = addDays(date, 1 - dayOfWeek);
+
+    return {
+      period,
+      key: `${year}-W${week.toString().padStart(2, "0")}`,
+      startDate,
+      endDate: addDays(startDate, 6),
+    };
+  }
+
+  const [year, month] = date.split("-").map(Number);
+  const key = date.substring(0, 7);
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+  return {
+    period,
+    key,
+    startDate: `${key}-01`,
+    endDate: `${key}-${daysInMonth.toString().padStart(2, "0")}`,
+  };
+}
@@ -0,0 +1,48 @@
+import { Body, Controller, Get, Headers, Put, Query, Request, UseGuards } from "@nestjs/common";
+import { ApiBearerAuth, ApiHeader, ApiOperation, ApiResponse, ApiTags } from "@nestjs/swagger";
+import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
+import { LeaderboardsService } from "./leaderboards.service";
+import { LeaderboardOptOutDto, LeaderboardQueryDto, LeaderboardResponseDto } from "./dto/leaderboard.dto";
+
+@ApiTags("leaderboards")
+@Controller("leaderboards")
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class LeaderboardsController {
+  constructor(private readonly leaderboardsService: LeaderboardsService) {}
+
+  @Get()
+  @ApiOperation({ summary: "Get the weekly or monthly step leaderboard, globally, by area or among friends" })
+  @ApiHeader({
+    name: "X-Timezone",
+    required: false,
+    description: "IANA timezone of the device (e.g. Asia/Bangkok), used when the profile has no timezone",
+  })
+  @ApiResponse({
+    status: 200,
+    description: "Returns the top entries and the caller's own rank",
+    type: LeaderboardResponseDto,
+  })
+  @ApiResponse({ status: 400, description: "Invalid query or no residential area for the area leaderboard" })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  getLeaderboard(
+    @Request() req,
+    @Query() query: LeaderboardQueryDto,
+    @Headers("x-timezone") clientTimeZone?: string,
+  ): Promise<LeaderboardResponseDto> {
+    return this.leaderboardsService.getLeaderboard(req.user.userId, query, clientTimeZone);
+  }
+
+  @Put("opt-out")
+  @ApiOperation({ summary: "Hide or show the caller on the leaderboards" })
+  @ApiResponse({
+    status: 200,
+    description: "The setting is saved",
+    type: LeaderboardOptOutDto,
+  })
+  @ApiResponse({ status: 400, description: "Invalid setting" })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  setOptOut(@Request() req, @Body() leaderboardOptOutDto: LeaderboardOptOutDto): Promise<LeaderboardOptOutDto> {
+    return this.leaderboardsService.setOptOut(req.user.userId, leaderboardOptOutDto.optOut);
+  }
+}
@@ -0,0 +1,17 @@
+import { Module } from "@nestjs/common";
+import { TypeOrmModule } from "@nestjs/typeorm";
+import { HealthData } from "../health/entities/health-data.entity";
+import { LeaderboardsService } from "./leaderboards.service";
+import { LeaderboardsController } from "./leaderboards.controller";
+import { AdminLeaderboardsController } from "./admin-leaderboards.controller";
+import { ServicesModule } from "../services/services.module";
+import { UsersModule } from "../users/users.module";
+import { ReferralsModule } from "../referrals/referrals.module";
+
+@Module({
+  imports: [TypeOrmModule.forFeature([HealthData]), ServicesModule, UsersModule, ReferralsModule],
+  controllers: [LeaderboardsController, AdminLeaderboardsController],
+  providers: [LeaderboardsService],
+  exports: [LeaderboardsService],
+})
+export class LeaderboardsModule {}
@@ -0,0 +1,454 @@
+import { Injectable, BadRequestException, NotFoundException } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { InjectRepository } from "@nestjs/typeorm";
+import { MoreThanOrEqual, Repository } from "typeorm";
+import { HealthData, HealthReviewStatus } from "../health/entities/health-data.entity";
+import { User } from "../users/entities/user.entity";
+import { UsersService } from "../users/users.service";
+import { ReferralsService } from "../referrals/referrals.service";
+import { ValkeyService } from "../services/valkey.service";
+import { addDays, DEFAULT_TIMEZONE, getLocalDate, pickTimeZone } from "../common/timezone.util";
+import { getLeaderboardWindow, LeaderboardPeriod, LeaderboardWindow } from "./leaderboard-periods";
+import {
+  LeaderboardEntryDto,
+  LeaderboardOptOutDto,
+  LeaderboardQueryDto,
+  LeaderboardResponseDto,
+  LeaderboardScope,
+  RebuildLeaderboardsResponseDto,
+} from "./dto/leaderboard.dto";
+
+type ScoredMember = { member: string; score: number };
+
+/**
+ * Weekly and monthly step rankings, kept in Valkey sorted sets. Every submitted
+ * day adds the difference to the steps it counted with before, so rankings are
+ * never recomputed from health_data except by a rebuild.
+ */
+@Injectable()
+export class LeaderboardsService {
+  constructor(
+    @InjectRepository(HealthData)
+    private healthDataRepository: Repository<HealthData>,
+    private usersService: UsersService,
+    private referralsService: ReferralsService,
+    private valkeyService: ValkeyService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Days a leaderboard is kept after its period ends. Late submissions for a
+   * period are counted until then.
+   */
+  getRetentionDays(): number {
+    return Number(this.configService.get("LEADERBOARD_RETENTION_DAYS", 35));
+  }
+
+  /**
+   * Count a submitted day towards the leaderboards of its week and month
+   * @param userId User's ID
+   * @param date Date of the day (YYYY-MM-DD)
+   * @param steps Steps that count for the day; 0 for days held for review
+   */
+  async recordDay(userId: string, date: string, steps: number): Promise<void> {
+    const user = await this.usersService.findById(userId);
+    if (!user || user.leaderboardOptOut) {
+      return;
+    }
+
+    const windows = Object.values(LeaderboardPeriod).map((period) => getLeaderboardWindow(period, date));
+    const expiresAt = new Date(Math.max(...windows.map((window) => this.getExpiry(window).getTime())));
+    // The leaderboards of the day are no longer kept
+    if (expiresAt <= new Date()) {
+      return;
+    }
+
+    const area = this.normalizeArea(user.residentialArea);
+    await this.moveToArea(userId, area, windows);
+
+    const previous = await this.valkeyService.replaceValue(this.getDayKey(userId, date), String(steps), expiresAt);
+    const increment = steps - Number(previous || 0);
+    if (increment === 0) {
+      return;
+    }
+
+    for (const window of windows) {
+      await this.valkeyService.incrementSortedSetScore(this.getBoardKeys(window, area), userId, increment, this.getExpiry(window));
+    }
+  }
+
+  /**
+   * Get the current leaderboard of a period and scope
+   * @param userId ID of the caller
+   * @param query Period, scope and number of top entries
+   * @param clientTimeZone Timezone sent in the X-Timezone header, used when the profile has none
+   * @returns Top entries and the caller's own position
+   */
+  async getLeaderboard(userId: string, query: LeaderboardQueryDto, clientTimeZone?: string): Promise<LeaderboardResponseDto> {
+    const user = await this.usersService.findById(userId);
+    if (!user) {
+      throw new NotFoundException("User not found");
+    }
+
+    const period = query.period || LeaderboardPeriod.WEEKLY;
+    const scope = query.scope || LeaderboardScope.GLOBAL;
+    const limit = query.limit || 20;
+
+    const today = getLocalDate(new Date(), this.resolveTimeZone(user, clientTimeZone));
+    const window = getLeaderboardWindow(period, today);
+
+    let ranked: ScoredMember[];
+    let total: number;
+    let position: { rank: number | null; steps: number };
+    if (scope === LeaderboardScope.FRIENDS) {
+      ({ ranked, total, position } = await this.getFriendsRanking(user, window));
+    } else {
+      ({ ranked, total, position } = await this.getBoardRanking(user, window, scope, limit));
+    }
+
+    return {
+      period,
+      scope,
+      periodKey: window.key,
+      startDate: window.startDate,
+      endDate: window.endDate,
+      area: scope === LeaderboardScope.AREA ? user.residentialArea : undefined,
+      total,
+      entries: await this.toEntries(ranked.slice(0, limit)),
+      me: { ...position, optedOut: user.leaderboardOptOut },
+    };
+  }
+
+  /**
+   * Hide or show a user on the leaderboards. Users who opt back in are ranked
+   * with the steps of the current periods again.
+   * @param userId User's ID
+   * @param optOut Whether to hide the user
+   */
+  async setOptOut(userId: string, optOut: boolean): Promise<LeaderboardOptOutDto> {
+    const user = await this.usersService.findById(userId);
+    if (!user) {
+      throw new NotFoundException("User not found");
+    }
+
+    await this.usersService.setLeaderboardOptOut(userId, optOut);
+    if (optOut) {
+      await this.removeUser(user);
+    } else {
+      await this.restoreUser(user);
+    }
+
+    return { optOut };
+  }
+
+  /**
+   * Rebuild all leaderboards that are still kept from health_data, e.g. after
+   * Valkey lost its data. Days submitted while the rebuild runs may be counted
+   * wrongly until they are submitted again, so run it when traffic is low.
+   * @returns Number of leaderboards and user days
+   */
+  async rebuild(): Promise<RebuildLeaderboardsResponseDto> {
+    const windows = this.getLiveWindows();
+    const areasByUser = new Map<string, string>();
+    let boards = 0;
+
+    for (const window of windows) {
+      const rows = await this.healthDataRepository
+        .createQueryBuilder("health")
+        .innerJoin("health.user", "account")
+        .select("health.userId", "userId")
+        .addSelect("account.residentialArea", "residentialArea")
+        .addSelect("SUM(health.steps)", "steps")
+        .where("health.reviewStatus = :status", { status: HealthReviewStatus.CLEAN })
+        .andWhere("health.date BETWEEN :startDate AND :endDate", { startDate: window.startDate, endDate: window.endDate })
+        .andWhere("account.leaderboardOptOut = false")
+        .groupBy("health.userId")
+        .addGroupBy("account.residentialArea")
+        .getRawMany();
+
+      const globalScores = new Map<string, number>();
+      const areaScores = new Map<string, Map<string, number>>();
+      for (const row of rows) {
+        const steps = Number(row.steps);
+        const area = this.normalizeArea(row.residentialArea);
+        globalScores.set(row.userId, steps);
+        areasByUser.set(row.userId, area || "");
+
+        if (area) {
+          if (!areaScores.has(area)) {
+            areaScores.set(area, new Map());
+          }
+          areaScores.get(area).set(row.userId, steps);
+        }
+      }
+
+      const expiresAt = this.getExpiry(window);
+      await this.valkeyService.replaceSortedSet(this.getBoardKey(window), globalScores, expiresAt);
+      for (const [area, scores] of areaScores) {
+        await this.valkeyService.replaceSortedSet(this.getBoardKey(window, area), scores, expiresAt);
+      }
+
+      // Areas nobody lives in anymore
+      const areaKeys = new Set(Array.from(areaScores.keys()).map((area) => this.getBoardKey(window, area)));
+      for (const key of await this.valkeyService.scanKeys(`${this.getBoardPrefix(window)}:area:*`)) {
+        if (!areaKeys.has(key)) {
+          await this.valkeyService.delete(key);
+        }
+      }
+
+      boards += 1 + areaScores.size;
+    }
+
+    // The steps each day counted with, so that later submissions add the right difference
+    const firstDate = windows.reduce((first, window) => (window.startDate < first ? window.startDate : first), windows[0].startDate);
+    const lastDate = this.getLatestDate();
+    const expiresAt = this.getLatestExpiry();
+    let days = 0;
+
+    for (let date = firstDate; date <= lastDate; date = addDays(date, 1)) {
+      const rows = await this.healthDataRepository
+        .createQueryBuilder("health")
+        .innerJoin("health.user", "account")
+        .select("health.userId", "userId")
+        .addSelect("health.steps", "steps")
+        .where("health.reviewStatus = :status", { status: HealthReviewStatus.CLEAN })
+        .andWhere("health.date = :date", { date })
+        .andWhere("account.leaderboardOptOut = false")
+        .getRawMany();
+
+      await this.valkeyService.setValues(
+        new Map(rows.map((row) => [this.getDayKey(row.userId, date), String(row.steps)])),
+        expiresAt,
+      );
+      days += rows.length;
+    }
+
+    await this.valkeyService.setValues(
+      new Map(Array.from(areasByUser, ([userId, area]) => [this.getAreaKey(userId), area])),
+      expiresAt,
+    );
+
+    return { boards, days };
+  }
+
+  private async getBoardRanking(
+    user: User,
+    window: LeaderboardWindow,
+    scope: LeaderboardScope,
+    limit: number,
+  ): Promise<{ ranked: ScoredMember[]; total: number; position: { rank: number | null; steps: number } }> {
+    let key = this.getBoardKey(window);
+    if (scope === LeaderboardScope.AREA) {
+      const area = this.normalizeArea(user.residentialArea);
+      if (!area) {
+        throw new BadRequestException("Set a residential area in your profile to see the area leaderboard");
+      }
+      key = this.getBoardKey(window, area);
+    }
+
+    const [ranked, total, [score]] = await Promise.all([
+      this.valkeyService.getTopOfSortedSet(key, limit),
+      this.valkeyService.getSortedSetSize(key),
+      this.valkeyService.getSortedSetScores(key, [user.id]),
+    ]);
+
+    // Users with the same steps share a rank
+    const rank = score === null ? null : (await this.valkeyService.countSortedSetAbove(key, score)) + 1;
+    return { ranked, total, position: { rank, steps: score || 0 } };
+  }
+
+  /**
+   * Rank the user among the users they are connected with through referrals
+   */
+  private async getFriendsRanking(
+    user: User,
+    window: LeaderboardWindow,
+  ): Promise<{ ranked: ScoredMember[]; total: number; position: { rank: number | null; steps: number } }> {
+    const members = [user.id, ...(await this.referralsService.getConnectionIds(user.id))];
+    const scores = await this.valkeyService.getSortedSetScores(this.getBoardKey(window), members);
+
+    // Friends who opted out or have no steps in the period aren't on the global leaderboard
+    const ranked = members
+      .map((member, index) => ({ member, score: scores[index] }))
+      .filter((entry) => entry.score !== null)
+      .sort((a, b) => b.score - a.score);
+
+    const index = ranked.findIndex((entry) => entry.member === user.id);
+    const rank = index === -1 ? null : ranked.findIndex((entry) => entry.score === ranked[index].score) + 1;
+    return { ranked, total: ranked.length, position: { rank, steps: index === -1 ? 0 : ranked[index].score } };
+  }
+
+  /**
+   * Add the profile of each user to the top of a ranking
+   * @param ranked Members and scores from the first rank on, highest first
+   */
+  private async toEntries(ranked: ScoredMember[]): Promise<LeaderboardEntryDto[]> {
+    const users = await this.usersService.findByIds(ranked.map((entry) => entry.member));
+    const usersById = new Map(users.map((user) => [user.id, user]));
+
+    const entries: LeaderboardEntryDto[] = [];
+    let rank = 0;
+    ranked.forEach((entry, index) => {
+      // Users with the same steps share a rank
+      if (index === 0 || entry.score !== ranked[index - 1].score) {
+        rank = index + 1;
+      }
+
+      const user = usersById.get(entry.member);
+      // Deleted accounts stay on the leaderboard until the next rebuild
+      if (!user) {
+        return;
+      }
+
+      entries.push({
+        rank,
+        userId: user.id,
+        username: user.username,
+        name: user.name,
+        avatar: user.avatar,
+        steps: entry.score,
+      });
+    });
+
+    return entries;
+  }
+
+  /**
+   * Keep the user on the area leaderboards of the area in their profile. Their
+   * score is moved over when the area changed since the last submission.
+   */
+  private async moveToArea(userId: string, area: string | null, windows: LeaderboardWindow[]): Promise<void> {
+    const previousArea = await this.valkeyService.replaceValue(this.getAreaKey(userId), area || "", this.getLatestExpiry());
+    if (previousArea === null || previousArea === (area || "")) {
+      return;
+    }
+
+    if (previousArea) {
+      await this.valkeyService.removeFromSortedSets(
+        windows.map((window) => this.getBoardKey(window, previousArea)),
+        userId,
+      );
+    }
+
+    if (area) {
+      for (const window of windows) {
+        const [score] = await this.valkeyService.getSortedSetScores(this.getBoardKey(window), [userId]);
+        if (score !== null) {
+          // Incrementing by 0 copies the global score to the area leaderboard
+          await this.valkeyService.incrementSortedSetScore(this.getBoardKeys(window, area), userId, 0, this.getExpiry(window));
+        }
+      }
+    }
+  }
+
+  private async removeUser(user: User): Promise<void> {
+    // The area of the last submission, in case the profile changed since
+    const storedArea = await this.valkeyService.getValue(this.getAreaKey(user.id));
+    const areas = new Set([this.normalizeArea(user.residentialArea), storedArea || null]);
+
+    const keys: string[] = [];
+    for (const window of this.getLiveWindows()) {
+      keys.push(this.getBoardKey(window));
+      areas.forEach((area) => area && keys.push(this.getBoardKey(window, area)));
+    }
+
+    await this.valkeyService.removeFromSortedSets(keys, user.id);
+    await this.valkeyService.delete(this.getAreaKey(user.id));
+  }
+
+  /**
+   * Rank a user again with their stored days, e.g. after they opted back in
+   */
+  private async restoreUser(user: User): Promise<void> {
+    await this.removeUser(user);
+
+    const windows = this.getLiveWindows();
+    const firstDate = windows.reduce((first, window) => (window.startDate < first ? window.startDate : first), windows[0].startDate);
+    const records = await this.healthDataRepository.find({
+      select: { date: true, steps: true },
+      where: { userId: user.id, reviewStatus: HealthReviewStatus.CLEAN, date: MoreThanOrEqual(firstDate) },
+    });
+
+    const area = this.normalizeArea(user.residentialArea);
+    for (const window of windows) {
+      const steps = records
+        .filter((record) => record.date >= window.startDate && record.date <= window.endDate)
+        .reduce((sum, record) => sum + record.steps, 0);
+      if (steps > 0) {
+        await this.valkeyService.incrementSortedSetScore(this.getBoardKeys(window, area), user.id, steps, this.getExpiry(window));
+      }
+    }
+
+    const expiresAt = this.getLatestExpiry();
+    await this.valkeyService.setValues(
+      new Map(records.map((record) => [this.getDayKey(user.id, record.date), String(record.steps)])),
+      expiresAt,
+    );
+    await this.valkeyService.replaceValue(this.getAreaKey(user.id), area || "", expiresAt);
+  }
+
+  /**
+   * Get the periods whose leaderboards are still kept
+   */
+  private getLiveWindows(): LeaderboardWindow[] {
+    const now = new Date();
+    const windows: LeaderboardWindow[] = [];
+    for (const period of Object.values(LeaderboardPeriod)) {
+      let window = getLeaderboardWindow(period, this.getLatestDate());
+      while (this.getExpiry(window) > now) {
+        windows.push(window);
+        window = getLeaderboardWindow(period, addDays(window.startDate, -1));
+      }
+    }
+    return windows;
+  }
+
+  /**
+   * Get when the leaderboards of a period expire: the retention period after
+   * the period ended in every timezone
+   */
+  private getExpiry(window: LeaderboardWindow): Date {
+    return new Date(`${addDays(window.endDate, this.getRetentionDays() + 2)}T00:00:00Z`);
+  }
+
+  private getLatestExpiry(): Date {
+    return this.getExpiry(getLeaderboardWindow(LeaderboardPeriod.MONTHLY, this.getLatestDate()));
+  }
+
+  // It is already tomorrow in timezones ahead of UTC
+  private getLatestDate(): string {
+    return addDays(getLocalDate(new Date(), DEFAULT_TIMEZONE), 1);
+  }
+
+  private resolveTimeZone(user: User, clientTimeZone?: string): string {
+    return pickTimeZone(user.timezone, clientTimeZone);
+  }
+
+  /**
+   * Normalize a residential area so that spelling variants share a leaderboard
+   * @returns The normalized area, or null if the user has none
+   */
+  private normalizeArea(area: string | null): string | null {
+    return area?.trim().toLowerCase().replace(/\s+/g, " ") || null;
+  }
+
+  private getBoardKeys(window: LeaderboardWindow, area: string | null): string[] {
+    return area ? [this.getBoardKey(window), this.getBoardKey(window, area)] : [this.getBoardKey(window)];
+  }
+
+  private getBoardKey(window: LeaderboardWindow, area?: string): string {
+    return area ? `${this.getBoardPrefix(window)}:area:${area}` : `${this.getBoardPrefix(window)}:global`;
+  }
+
+  private getBoardPrefix(window: LeaderboardWindow): string {
+    return `leaderboard:${window.period}:${window.key}`;
+  }
+
+  private getDayKey(userId: string, date: string): string {
+    return `leaderboard:day:${userId}:${date}`;
+  }
+
+  private getAreaKey(userId: string): string {
+    return `leaderboard:area:${userId}`;
+  }
+}
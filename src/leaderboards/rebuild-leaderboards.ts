@@ -0,0 +1,20 @@
+import { NestFactory } from "@nestjs/core";
+import { AppModule } from "../app.module";
+import { LeaderboardsService } from "./leaderboards.service";
+
+// Rebuild the leaderboards from health_data, e.g. after Valkey lost its data: npm run leaderboards:rebuild
+async function rebuild() {
+  const app = await NestFactory.createApplicationContext(AppModule, { logger: ["error", "warn"] });
+
+  try {
+    const { boards, days } = await app.get(LeaderboardsService).rebuild();
+    console.log(`Rebuilt ${boards} leaderboards from ${days} user days`);
+  } finally {
+    await app.close();
+  }
+}
+
+rebuild().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,59 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateLedger1792000000000 implements MigrationInterface {
+  name = 'CreateLedger1792000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Later features add their transaction types to this enum
+    await queryRunner.query(`CREATE TYPE "public"."ledger_transactions_type_enum" AS ENUM('step_reward')`);
+    await queryRunner.query(
+      `CREATE TABLE "ledger_transactions" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "user_id" uuid NOT NULL,
+        "type" "public"."ledger_transactions_type_enum" NOT NULL,
+        "idempotency_key" character varying NOT NULL,
+        "reference" character varying,
+        "description" character varying,
+        "metadata" jsonb,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "UQ_ledger_transactions_idempotency_key" UNIQUE ("idempotency_key"),
+        CONSTRAINT "PK_ledger_transactions_id" PRIMARY KEY ("id")
+      )`,
+    );
+    await queryRunner.query(`CREATE INDEX "IDX_ledger_transactions_user_id" ON "ledger_transactions" ("user_id")`);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_ledger_transactions_user_id_type_reference" ON "ledger_transactions" ("user_id", "type", "reference")`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ledger_transactions" ADD CONSTRAINT "FK_ledger_transactions_user_id" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+
+    await queryRunner.query(
+      `CREATE TABLE "ledger_entries" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "transaction_id" uuid NOT NULL,
+        "account" character varying(100) NOT NULL,
+        "amount" integer NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_ledger_entries_id" PRIMARY KEY ("id")
+      )`,
+    );
+    await queryRunner.query(`CREATE INDEX "IDX_ledger_entries_transaction_id" ON "ledger_entries" ("transaction_id")`);
+    await queryRunner.query(`CREATE INDEX "IDX_ledger_entries_account" ON "ledger_entries" ("account")`);
+    await queryRunner.query(
+      `ALTER TABLE "ledger_entries" ADD CONSTRAINT "FK_ledger_entries_transaction_id" FOREIGN KEY ("transaction_id") REFERENCES "ledger_transactions"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "ledger_entries" DROP CONSTRAINT "FK_ledger_entries_transaction_id"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_ledger_entries_account"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_ledger_entries_transaction_id"`);
+    await queryRunner.query(`DROP TABLE "ledger_entries"`);
+    await queryRunner.query(`ALTER TABLE "ledger_transactions" DROP CONSTRAINT "FK_ledger_transactions_user_id"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_ledger_transactions_user_id_type_reference"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_ledger_transactions_user_id"`);
+    await queryRunner.query(`DROP TABLE "ledger_transactions"`);
+    await queryRunner.query(`DROP TYPE "public"."ledger_transactions_type_enum"`);
+  }
+}
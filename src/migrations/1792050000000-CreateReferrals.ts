@@ -0,0 +1,43 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateReferrals1792050000000 implements MigrationInterface {
+  name = 'CreateReferrals1792050000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TYPE "public"."ledger_transactions_type_enum" ADD VALUE IF NOT EXISTS 'referral_bonus'`);
+
+    await queryRunner.query(`CREATE TYPE "public"."referrals_status_enum" AS ENUM('pending', 'rewarded')`);
+    await queryRunner.query(
+      `CREATE TABLE "referrals" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "inviter_id" uuid NOT NULL,
+        "invitee_id" uuid NOT NULL,
+        "invite_code" character varying NOT NULL,
+        "status" "public"."referrals_status_enum" NOT NULL DEFAULT 'pending',
+        "inviter_reward" integer NOT NULL DEFAULT 0,
+        "invitee_reward" integer NOT NULL DEFAULT 0,
+        "qualified_at" TIMESTAMP,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "UQ_referrals_invitee_id" UNIQUE ("invitee_id"),
+        CONSTRAINT "PK_referrals_id" PRIMARY KEY ("id")
+      )`,
+    );
+    await queryRunner.query(`CREATE INDEX "IDX_referrals_inviter_id" ON "referrals" ("inviter_id")`);
+    await queryRunner.query(
+      `ALTER TABLE "referrals" ADD CONSTRAINT "FK_referrals_inviter_id" FOREIGN KEY ("inviter_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "referrals" ADD CONSTRAINT "FK_referrals_invitee_id" FOREIGN KEY ("invitee_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "referrals" DROP CONSTRAINT "FK_referrals_invitee_id"`);
+    await queryRunner.query(`ALTER TABLE "referrals" DROP CONSTRAINT "FK_referrals_inviter_id"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_referrals_inviter_id"`);
+    await queryRunner.query(`DROP TABLE "referrals"`);
+    await queryRunner.query(`DROP TYPE "public"."referrals_status_enum"`);
+    // Postgres cannot remove values from an enum type, so the ledger transaction type is kept
+  }
+}
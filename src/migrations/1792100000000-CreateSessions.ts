@@ -0,0 +1,40 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateSessions1792100000000 implements MigrationInterface {
+  name = 'CreateSessions1792100000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "sessions" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "user_id" uuid NOT NULL,
+        "refresh_token_hash" character varying NOT NULL,
+        "device_name" character varying,
+        "platform" character varying,
+        "ip_address" character varying,
+        "user_agent" character varying,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "last_used_at" TIMESTAMP NOT NULL,
+        "expires_at" TIMESTAMP NOT NULL,
+        "revoked_at" TIMESTAMP,
+        CONSTRAINT "PK_sessions_id" PRIMARY KEY ("id")
+      )`,
+    );
+    await queryRunner.query(`CREATE INDEX "IDX_sessions_user_id" ON "sessions" ("user_id")`);
+    await queryRunner.query(
+      `ALTER TABLE "sessions" ADD CONSTRAINT "FK_sessions_user_id" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+
+    // Refresh tokens stored on the user cannot be carried over, so users sign in again
+    await queryRunner.query(`ALTER TABLE "users" DROP COLUMN "refreshTokenCreatedAt"`);
+    await queryRunner.query(`ALTER TABLE "users" DROP COLUMN "refreshToken"`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "users" ADD "refreshToken" character varying`);
+    await queryRunner.query(`ALTER TABLE "users" ADD "refreshTokenCreatedAt" TIMESTAMP`);
+    await queryRunner.query(`ALTER TABLE "sessions" DROP CONSTRAINT "FK_sessions_user_id"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_sessions_user_id"`);
+    await queryRunner.query(`DROP TABLE "sessions"`);
+  }
+}
@@ -0,0 +1,38 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateRefreshTokens1792150000000 implements MigrationInterface {
+  name = 'CreateRefreshTokens1792150000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "refresh_tokens" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "session_id" uuid NOT NULL,
+        "token_hash" character varying NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "expires_at" TIMESTAMP NOT NULL,
+        "rotated_at" TIMESTAMP,
+        CONSTRAINT "UQ_refresh_tokens_token_hash" UNIQUE ("token_hash"),
+        CONSTRAINT "PK_refresh_tokens_id" PRIMARY KEY ("id")
+      )`,
+    );
+    await queryRunner.query(`CREATE INDEX "IDX_refresh_tokens_session_id" ON "refresh_tokens" ("session_id")`);
+    await queryRunner.query(
+      `ALTER TABLE "refresh_tokens" ADD CONSTRAINT "FK_refresh_tokens_session_id" FOREIGN KEY ("session_id") REFERENCES "sessions"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+
+    // Session tokens were bcrypt hashes and cannot be carried over, so open sessions sign in again
+    await queryRunner.query(`UPDATE "sessions" SET "revoked_at" = now() WHERE "revoked_at" IS NULL`);
+    await queryRunner.query(`ALTER TABLE "sessions" DROP COLUMN "refresh_token_hash"`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Sessions without a token hash cannot be refreshed anymore
+    await queryRunner.query(`UPDATE "sessions" SET "revoked_at" = now() WHERE "revoked_at" IS NULL`);
+    await queryRunner.query(`ALTER TABLE "sessions" ADD "refresh_token_hash" character varying NOT NULL DEFAULT ''`);
+    await queryRunner.query(`ALTER TABLE "sessions" ALTER COLUMN "refresh_token_hash" DROP DEFAULT`);
+    await queryRunner.query(`ALTER TABLE "refresh_tokens" DROP CONSTRAINT "FK_refresh_tokens_session_id"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_refresh_tokens_session_id"`);
+    await queryRunner.query(`DROP TABLE "refresh_tokens"`);
+  }
+}
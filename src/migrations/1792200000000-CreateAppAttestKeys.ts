@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateAppAttestKeys1792200000000 implements MigrationInterface {
+  name = 'CreateAppAttestKeys1792200000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "app_attest_keys" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "user_id" uuid NOT NULL,
+        "key_id" character varying(64) NOT NULL,
+        "public_key" text NOT NULL,
+        "sign_count" bigint NOT NULL DEFAULT 0,
+        "environment" character varying(20) NOT NULL,
+        "receipt" text,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "UQ_app_attest_keys_key_id" UNIQUE ("key_id"),
+        CONSTRAINT "PK_app_attest_keys_id" PRIMARY KEY ("id")
+      )`,
+    );
+    await queryRunner.query(`CREATE INDEX "IDX_app_attest_keys_user_id" ON "app_attest_keys" ("user_id")`);
+    await queryRunner.query(
+      `ALTER TABLE "app_attest_keys" ADD CONSTRAINT "FK_app_attest_keys_user_id" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "app_attest_keys" DROP CONSTRAINT "FK_app_attest_keys_user_id"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_app_attest_keys_user_id"`);
+    await queryRunner.query(`DROP TABLE "app_attest_keys"`);
+  }
+}
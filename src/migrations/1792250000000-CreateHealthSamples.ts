@@ -0,0 +1,39 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateHealthSamples1792250000000 implements MigrationInterface {
+  name = 'CreateHealthSamples1792250000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "health_samples" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "user_id" uuid NOT NULL,
+        "date" date NOT NULL,
+        "start_time" TIMESTAMP WITH TIME ZONE NOT NULL,
+        "end_time" TIMESTAMP WITH TIME ZONE NOT NULL,
+        "steps" integer NOT NULL DEFAULT 0,
+        "duration" integer NOT NULL DEFAULT 0,
+        "calories" double precision NOT NULL DEFAULT 0,
+        "distance" double precision NOT NULL DEFAULT 0,
+        "source" character varying(50) NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_health_samples_id" PRIMARY KEY ("id")
+      )`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_health_samples_user_id_start_time" ON "health_samples" ("user_id", "start_time")`,
+    );
+    await queryRunner.query(`CREATE INDEX "IDX_health_samples_user_id_date" ON "health_samples" ("user_id", "date")`);
+    await queryRunner.query(
+      `ALTER TABLE "health_samples" ADD CONSTRAINT "FK_health_samples_user_id" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "health_samples" DROP CONSTRAINT "FK_health_samples_user_id"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_health_samples_user_id_date"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_health_samples_user_id_start_time"`);
+    await queryRunner.query(`DROP TABLE "health_samples"`);
+  }
+}
@@ -0,0 +1,30 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddHealthDataReview1792350000000 implements MigrationInterface {
+  name = 'AddHealthDataReview1792350000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."health_data_review_status_enum" AS ENUM('clean', 'flagged', 'quarantined')`,
+    );
+    // Days submitted before the anti-cheat checks existed were rewarded already, so they count as clean
+    await queryRunner.query(
+      `ALTER TABLE "health_data" ADD "review_status" "public"."health_data_review_status_enum" NOT NULL DEFAULT 'clean'`,
+    );
+    await queryRunner.query(`ALTER TABLE "health_data" ADD "anomaly_score" integer NOT NULL DEFAULT 0`);
+    await queryRunner.query(`ALTER TABLE "health_data" ADD "anomaly_reasons" jsonb`);
+    await queryRunner.query(`ALTER TABLE "health_data" ADD "reviewed_by" uuid`);
+    await queryRunner.query(`ALTER TABLE "health_data" ADD "reviewed_at" TIMESTAMP`);
+    await queryRunner.query(`CREATE INDEX "IDX_health_data_review_status" ON "health_data" ("review_status")`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "public"."IDX_health_data_review_status"`);
+    await queryRunner.query(`ALTER TABLE "health_data" DROP COLUMN "reviewed_at"`);
+    await queryRunner.query(`ALTER TABLE "health_data" DROP COLUMN "reviewed_by"`);
+    await queryRunner.query(`ALTER TABLE "health_data" DROP COLUMN "anomaly_reasons"`);
+    await queryRunner.query(`ALTER TABLE "health_data" DROP COLUMN "anomaly_score"`);
+    await queryRunner.query(`ALTER TABLE "health_data" DROP COLUMN "review_status"`);
+    await queryRunner.query(`DROP TYPE "public"."health_data_review_status_enum"`);
+  }
+}
@@ -0,0 +1,53 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateUserIdentities1792400000000 implements MigrationInterface {
+  name = 'CreateUserIdentities1792400000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."user_identities_provider_enum" AS ENUM('local', 'facebook', 'line', 'apple', 'google')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "user_identities" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "user_id" uuid NOT NULL,
+        "provider" "public"."user_identities_provider_enum" NOT NULL,
+        "provider_id" character varying,
+        "email" character varying,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_user_identities_id" PRIMARY KEY ("id")
+      )`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_user_identities_provider_provider_id" ON "user_identities" ("provider", "provider_id")`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_user_identities_user_id_provider" ON "user_identities" ("user_id", "provider")`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user_identities" ADD CONSTRAINT "FK_user_identities_user_id" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+
+    // Users with a password can keep logging in with it
+    await queryRunner.query(
+      `INSERT INTO "user_identities" ("user_id", "provider", "email", "created_at")
+       SELECT "id", 'local', "email", "createdAt" FROM "users" WHERE "password" IS NOT NULL`,
+    );
+
+    // Social users keep the provider they signed up with; LINE placeholder emails are not real addresses
+    await queryRunner.query(
+      `INSERT INTO "user_identities" ("user_id", "provider", "provider_id", "email", "created_at")
+       SELECT "id", "provider"::text::"public"."user_identities_provider_enum", "providerId",
+              CASE WHEN "email" LIKE '%@line.placeholder' THEN NULL ELSE "email" END, "createdAt"
+       FROM "users" WHERE "provider" <> 'local' AND "providerId" IS NOT NULL`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "user_identities" DROP CONSTRAINT "FK_user_identities_user_id"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_user_identities_user_id_provider"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_user_identities_provider_provider_id"`);
+    await queryRunner.query(`DROP TABLE "user_identities"`);
+    await queryRunner.query(`DROP TYPE "public"."user_identities_provider_enum"`);
+  }
+}
@@ -0,0 +1,28 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateTwoFactorAuth1792500000000 implements MigrationInterface {
+  name = 'CreateTwoFactorAuth1792500000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "two_factor_auth" (
+        "user_id" uuid NOT NULL,
+        "secret" character varying NOT NULL,
+        "enabled_at" TIMESTAMP,
+        "recovery_code_hashes" text array NOT NULL DEFAULT '{}',
+        "last_used_step" integer,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_two_factor_auth_user_id" PRIMARY KEY ("user_id")
+      )`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "two_factor_auth" ADD CONSTRAINT "FK_two_factor_auth_user_id" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "two_factor_auth" DROP CONSTRAINT "FK_two_factor_auth_user_id"`);
+    await queryRunner.query(`DROP TABLE "two_factor_auth"`);
+  }
+}
@@ -0,0 +1,38 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateAuthEvents1792600000000 implements MigrationInterface {
+  name = 'CreateAuthEvents1792600000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."auth_events_type_enum" AS ENUM('register', 'login', 'logout', 'token_refresh', 'otp_sent', 'password_reset', 'password_change', 'email_change', 'login_unlock', 'two_factor_enable', 'two_factor_disable', 'two_factor_reset', 'identity_link', 'identity_unlink', 'account_delete')`,
+    );
+    await queryRunner.query(`CREATE TYPE "public"."auth_events_result_enum" AS ENUM('success', 'failure')`);
+    await queryRunner.query(
+      `CREATE TABLE "auth_events" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "user_id" uuid,
+        "type" "public"."auth_events_type_enum" NOT NULL,
+        "result" "public"."auth_events_result_enum" NOT NULL,
+        "reason" character varying,
+        "detail" character varying,
+        "ip_address" character varying,
+        "user_agent" character varying,
+        "device_name" character varying,
+        "platform" character varying,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_auth_events_id" PRIMARY KEY ("id")
+      )`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_auth_events_user_id_created_at" ON "auth_events" ("user_id", "created_at")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "public"."IDX_auth_events_user_id_created_at"`);
+    await queryRunner.query(`DROP TABLE "auth_events"`);
+    await queryRunner.query(`DROP TYPE "public"."auth_events_result_enum"`);
+    await queryRunner.query(`DROP TYPE "public"."auth_events_type_enum"`);
+  }
+}
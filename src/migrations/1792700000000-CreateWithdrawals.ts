@@ -0,0 +1,59 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateWithdrawals1792700000000 implements MigrationInterface {
+  name = 'CreateWithdrawals1792700000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`CREATE TYPE "public"."users_role_enum" AS ENUM('user', 'admin')`);
+    await queryRunner.query(`ALTER TABLE "users" ADD "role" "public"."users_role_enum" NOT NULL DEFAULT 'user'`);
+
+    await queryRunner.query(`ALTER TYPE "public"."ledger_transactions_type_enum" ADD VALUE IF NOT EXISTS 'withdrawal_hold'`);
+    await queryRunner.query(`ALTER TYPE "public"."ledger_transactions_type_enum" ADD VALUE IF NOT EXISTS 'withdrawal_release'`);
+    await queryRunner.query(`ALTER TYPE "public"."ledger_transactions_type_enum" ADD VALUE IF NOT EXISTS 'withdrawal_payout'`);
+
+    await queryRunner.query(
+      `CREATE TYPE "public"."withdrawals_method_enum" AS ENUM('bank_transfer', 'e_wallet', 'gift_card')`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."withdrawals_status_enum" AS ENUM('pending', 'approved', 'processing', 'rejected', 'paid', 'failed')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "withdrawals" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "user_id" uuid NOT NULL,
+        "amount" integer NOT NULL,
+        "method" "public"."withdrawals_method_enum" NOT NULL,
+        "destination" jsonb NOT NULL,
+        "status" "public"."withdrawals_status_enum" NOT NULL DEFAULT 'pending',
+        "rejection_reason" character varying,
+        "failure_reason" character varying,
+        "payout_reference" character varying,
+        "reviewed_by" character varying,
+        "reviewed_at" TIMESTAMP,
+        "paid_at" TIMESTAMP,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_withdrawals_id" PRIMARY KEY ("id")
+      )`,
+    );
+    await queryRunner.query(`CREATE INDEX "IDX_withdrawals_status" ON "withdrawals" ("status")`);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_withdrawals_user_id_created_at" ON "withdrawals" ("user_id", "created_at")`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "withdrawals" ADD CONSTRAINT "FK_withdrawals_user_id" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "withdrawals" DROP CONSTRAINT "FK_withdrawals_user_id"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_withdrawals_user_id_created_at"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_withdrawals_status"`);
+    await queryRunner.query(`DROP TABLE "withdrawals"`);
+    await queryRunner.query(`DROP TYPE "public"."withdrawals_status_enum"`);
+    await queryRunner.query(`DROP TYPE "public"."withdrawals_method_enum"`);
+    // Postgres cannot remove values from an enum type, so the ledger transaction types are kept
+    await queryRunner.query(`ALTER TABLE "users" DROP COLUMN "role"`);
+    await queryRunner.query(`DROP TYPE "public"."users_role_enum"`);
+  }
+}
@@ -0,0 +1,91 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateRewards1792800000000 implements MigrationInterface {
+  name = 'CreateRewards1792800000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TYPE "public"."ledger_transactions_type_enum" ADD VALUE IF NOT EXISTS 'reward_redemption'`);
+
+    await queryRunner.query(`CREATE TYPE "public"."rewards_type_enum" AS ENUM('coupon', 'voucher', 'partner_code')`);
+    await queryRunner.query(
+      `CREATE TABLE "rewards" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "name" character varying NOT NULL,
+        "description" text,
+        "type" "public"."rewards_type_enum" NOT NULL,
+        "partner_name" character varying,
+        "image_url" character varying,
+        "price" integer NOT NULL,
+        "stock" integer,
+        "per_user_limit" integer,
+        "starts_at" TIMESTAMP,
+        "ends_at" TIMESTAMP,
+        "is_active" boolean NOT NULL DEFAULT true,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_rewards_id" PRIMARY KEY ("id")
+      )`,
+    );
+
+    await queryRunner.query(
+      `CREATE TABLE "reward_codes" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "reward_id" uuid NOT NULL,
+        "code" character varying NOT NULL,
+        "expires_at" TIMESTAMP,
+        "redeemed_at" TIMESTAMP,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_reward_codes_id" PRIMARY KEY ("id")
+      )`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_reward_codes_reward_id_code" ON "reward_codes" ("reward_id", "code")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_reward_codes_unredeemed" ON "reward_codes" ("reward_id", "created_at") WHERE "redeemed_at" IS NULL`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "reward_codes" ADD CONSTRAINT "FK_reward_codes_reward_id" FOREIGN KEY ("reward_id") REFERENCES "rewards"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+
+    await queryRunner.query(
+      `CREATE TABLE "redemptions" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "user_id" uuid NOT NULL,
+        "reward_id" uuid NOT NULL,
+        "reward_code_id" uuid NOT NULL,
+        "price" integer NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "UQ_redemptions_reward_code_id" UNIQUE ("reward_code_id"),
+        CONSTRAINT "PK_redemptions_id" PRIMARY KEY ("id")
+      )`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_redemptions_user_id_created_at" ON "redemptions" ("user_id", "created_at")`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "redemptions" ADD CONSTRAINT "FK_redemptions_user_id" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "redemptions" ADD CONSTRAINT "FK_redemptions_reward_id" FOREIGN KEY ("reward_id") REFERENCES "rewards"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "redemptions" ADD CONSTRAINT "FK_redemptions_reward_code_id" FOREIGN KEY ("reward_code_id") REFERENCES "reward_codes"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "redemptions" DROP CONSTRAINT "FK_redemptions_reward_code_id"`);
+    await queryRunner.query(`ALTER TABLE "redemptions" DROP CONSTRAINT "FK_redemptions_reward_id"`);
+    await queryRunner.query(`ALTER TABLE "redemptions" DROP CONSTRAINT "FK_redemptions_user_id"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_redemptions_user_id_created_at"`);
+    await queryRunner.query(`DROP TABLE "redemptions"`);
+    await queryRunner.query(`ALTER TABLE "reward_codes" DROP CONSTRAINT "FK_reward_codes_reward_id"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_reward_codes_unredeemed"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_reward_codes_reward_id_code"`);
+    await queryRunner.query(`DROP TABLE "reward_codes"`);
+    await queryRunner.query(`DROP TABLE "rewards"`);
+    await queryRunner.query(`DROP TYPE "public"."rewards_type_enum"`);
+    // Postgres cannot remove values from an enum type, so the ledger transaction type is kept
+  }
+}
@@ -0,0 +1,40 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateStreakMilestones1792900000000 implements MigrationInterface {
+  name = 'CreateStreakMilestones1792900000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "users" ADD "dailyStepGoal" integer`);
+    // Days stored before goals existed are compared with the user's current goal
+    await queryRunner.query(`ALTER TABLE "health_data" ADD "goal" integer`);
+
+    await queryRunner.query(`ALTER TYPE "public"."ledger_transactions_type_enum" ADD VALUE IF NOT EXISTS 'streak_bonus'`);
+
+    await queryRunner.query(
+      `CREATE TABLE "streak_milestones" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "user_id" uuid NOT NULL,
+        "days" integer NOT NULL,
+        "reached_on" date NOT NULL,
+        "coins" integer NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_streak_milestones_id" PRIMARY KEY ("id")
+      )`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_streak_milestones_user_id_days_reached_on" ON "streak_milestones" ("user_id", "days", "reached_on")`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "streak_milestones" ADD CONSTRAINT "FK_streak_milestones_user_id" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "streak_milestones" DROP CONSTRAINT "FK_streak_milestones_user_id"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_streak_milestones_user_id_days_reached_on"`);
+    await queryRunner.query(`DROP TABLE "streak_milestones"`);
+    // Postgres cannot remove values from an enum type, so the ledger transaction type is kept
+    await queryRunner.query(`ALTER TABLE "health_data" DROP COLUMN "goal"`);
+    await queryRunner.query(`ALTER TABLE "users" DROP COLUMN "dailyStepGoal"`);
+  }
+}
@@ -0,0 +1,92 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateChallenges1793100000000 implements MigrationInterface {
+  name = 'CreateChallenges1793100000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TYPE "public"."ledger_transactions_type_enum" ADD VALUE IF NOT EXISTS 'challenge_entry'`);
+    await queryRunner.query(`ALTER TYPE "public"."ledger_transactions_type_enum" ADD VALUE IF NOT EXISTS 'challenge_refund'`);
+    await queryRunner.query(`ALTER TYPE "public"."ledger_transactions_type_enum" ADD VALUE IF NOT EXISTS 'challenge_prize'`);
+
+    await queryRunner.query(`CREATE TYPE "public"."challenges_format_enum" AS ENUM('individual', 'team')`);
+    await queryRunner.query(`CREATE TYPE "public"."challenges_status_enum" AS ENUM('open', 'settled', 'cancelled')`);
+    await queryRunner.query(
+      `CREATE TABLE "challenges" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "name" character varying NOT NULL,
+        "description" text,
+        "format" "public"."challenges_format_enum" NOT NULL,
+        "rules" jsonb NOT NULL,
+        "entry_fee" integer NOT NULL DEFAULT 0,
+        "prize" integer NOT NULL DEFAULT 0,
+        "start_date" date NOT NULL,
+        "end_date" date NOT NULL,
+        "max_participants" integer,
+        "status" "public"."challenges_status_enum" NOT NULL DEFAULT 'open',
+        "settled_at" TIMESTAMP,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_challenges_id" PRIMARY KEY ("id")
+      )`,
+    );
+    await queryRunner.query(`CREATE INDEX "IDX_challenges_status_end_date" ON "challenges" ("status", "end_date")`);
+
+    await queryRunner.query(
+      `CREATE TABLE "challenge_teams" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "challenge_id" uuid NOT NULL,
+        "name" character varying NOT NULL,
+        CONSTRAINT "PK_challenge_teams_id" PRIMARY KEY ("id")
+      )`,
+    );
+    await queryRunner.query(`CREATE INDEX "IDX_challenge_teams_challenge_id" ON "challenge_teams" ("challenge_id")`);
+    await queryRunner.query(
+      `ALTER TABLE "challenge_teams" ADD CONSTRAINT "FK_challenge_teams_challenge_id" FOREIGN KEY ("challenge_id") REFERENCES "challenges"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+
+    await queryRunner.query(
+      `CREATE TABLE "challenge_participants" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "challenge_id" uuid NOT NULL,
+        "user_id" uuid NOT NULL,
+        "team_id" uuid,
+        "entry_fee" integer NOT NULL,
+        "progress" double precision,
+        "rank" integer,
+        "prize" integer NOT NULL DEFAULT 0,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_challenge_participants_id" PRIMARY KEY ("id")
+      )`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_challenge_participants_challenge_id_user_id" ON "challenge_participants" ("challenge_id", "user_id")`,
+    );
+    await queryRunner.query(`CREATE INDEX "IDX_challenge_participants_user_id" ON "challenge_participants" ("user_id")`);
+    await queryRunner.query(
+      `ALTER TABLE "challenge_participants" ADD CONSTRAINT "FK_challenge_participants_challenge_id" FOREIGN KEY ("challenge_id") REFERENCES "challenges"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "challenge_participants" ADD CONSTRAINT "FK_challenge_participants_user_id" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "challenge_participants" ADD CONSTRAINT "FK_challenge_participants_team_id" FOREIGN KEY ("team_id") REFERENCES "challenge_teams"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "challenge_participants" DROP CONSTRAINT "FK_challenge_participants_team_id"`);
+    await queryRunner.query(`ALTER TABLE "challenge_participants" DROP CONSTRAINT "FK_challenge_participants_user_id"`);
+    await queryRunner.query(`ALTER TABLE "challenge_participants" DROP CONSTRAINT "FK_challenge_participants_challenge_id"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_challenge_participants_user_id"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_challenge_participants_challenge_id_user_id"`);
+    await queryRunner.query(`DROP TABLE "challenge_participants"`);
+    await queryRunner.query(`ALTER TABLE "challenge_teams" DROP CONSTRAINT "FK_challenge_teams_challenge_id"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_challenge_teams_challenge_id"`);
+    await queryRunner.query(`DROP TABLE "challenge_teams"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_challenges_status_end_date"`);
+    await queryRunner.query(`DROP TABLE "challenges"`);
+    await queryRunner.query(`DROP TYPE "public"."challenges_status_enum"`);
+    await queryRunner.query(`DROP TYPE "public"."challenges_format_enum"`);
+    // Postgres cannot remove values from an enum type, so the ledger transaction types are kept
+  }
+}
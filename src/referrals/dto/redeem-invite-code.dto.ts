@@ -0,0 +1,20 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { IsNotEmpty, IsString } from "class-validator";
+
+export class RedeemInviteCodeDto {
+  @ApiProperty({
+    description: "The invite code shared by another user",
+    example: "aB3dE5fG7h",
+  })
+  @IsString()
+  @IsNotEmpty({ message: "Invite code is required" })
+  inviteCode: string;
+}
+
+export class RedeemInviteCodeResponseDto {
+  @ApiProperty({
+    description: "Response message",
+    example: "Invite code redeemed successfully",
+  })
+  message: string;
+}
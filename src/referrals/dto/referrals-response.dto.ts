@@ -0,0 +1,74 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { ReferralStatus } from "../entities/referral.entity";
+
+export class ReferralItemDto {
+  @ApiProperty({
+    description: "The unique identifier of the referral",
+    example: "3f0c1a52-6c1e-4a35-9d55-3c0f7d7e8b21",
+  })
+  id: string;
+
+  @ApiProperty({
+    description: "The username of the invited user",
+    example: "janedoe",
+  })
+  username: string;
+
+  @ApiProperty({
+    description: "The full name of the invited user",
+    example: "Jane Doe",
+  })
+  name: string;
+
+  @ApiProperty({
+    description: "The avatar URL of the invited user",
+    required: false,
+  })
+  avatar: string;
+
+  @ApiProperty({
+    description: "The status of the referral",
+    enum: ReferralStatus,
+    example: ReferralStatus.REWARDED,
+  })
+  status: ReferralStatus;
+
+  @ApiProperty({
+    description: "Coins earned by the current user for this referral",
+    example: 500,
+  })
+  earned: number;
+
+  @ApiProperty({
+    description: "The date when the invited user joined with the code",
+    example: "2025-07-20T08:15:00Z",
+  })
+  joinedAt: Date;
+
+  @ApiProperty({
+    description: "The date when the invited user completed the qualifying activity",
+    example: "2025-07-21T19:02:11Z",
+    required: false,
+  })
+  qualifiedAt: Date;
+}
+
+export class ReferralsResponseDto {
+  @ApiProperty({
+    description: "The invite code of the current user",
+    example: "aB3dE5fG7h",
+  })
+  inviteCode: string;
+
+  @ApiProperty({
+    description: "Total coins earned from referrals",
+    example: 1500,
+  })
+  totalEarned: number;
+
+  @ApiProperty({
+    description: "Users who joined with the current user's invite code",
+    type: [ReferralItemDto],
+  })
+  referrals: ReferralItemDto[];
+}
@@ -0,0 +1,69 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from "typeorm";
+import { ApiProperty } from "@nestjs/swagger";
+import { User } from "../../users/entities/user.entity";
+
+export enum ReferralStatus {
+  PENDING = "pending",
+  REWARDED = "rewarded",
+}
+
+@Entity("referrals")
+export class Referral {
+  @PrimaryGeneratedColumn("uuid")
+  @ApiProperty({ description: "The unique identifier of the referral" })
+  id: string;
+
+  @ManyToOne(() => User, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "inviter_id" })
+  inviter: User;
+
+  @Column({ name: "inviter_id" })
+  @Index("IDX_referrals_inviter_id")
+  @ApiProperty({ description: "The ID of the user who shared the invite code" })
+  inviterId: string;
+
+  @ManyToOne(() => User, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "invitee_id" })
+  invitee: User;
+
+  @Column({ name: "invitee_id", unique: true })
+  @ApiProperty({ description: "The ID of the user who joined with the invite code" })
+  inviteeId: string;
+
+  @Column({ name: "invite_code" })
+  @ApiProperty({ description: "The invite code that was redeemed" })
+  inviteCode: string;
+
+  @Column({ type: "enum", enum: ReferralStatus, default: ReferralStatus.PENDING })
+  @ApiProperty({ description: "The status of the referral", enum: ReferralStatus })
+  status: ReferralStatus;
+
+  @Column({ name: "inviter_reward", type: "int", default: 0 })
+  @ApiProperty({ description: "Coins credited to the inviter for this referral" })
+  inviterReward: number;
+
+  @Column({ name: "invitee_reward", type: "int", default: 0 })
+  @ApiProperty({ description: "Coins credited to the invitee for this referral" })
+  inviteeReward: number;
+
+  @Column({ name: "qualified_at", nullable: true })
+  @ApiProperty({ description: "The date when the invitee completed the qualifying activity" })
+  qualifiedAt: Date;
+
+  @CreateDateColumn({ name: "created_at" })
+  @ApiProperty({ description: "The date when the invite code was redeemed" })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: "updated_at" })
+  @ApiProperty({ description: "The date when the referral was last updated" })
+  updatedAt: Date;
+}
@@ -0,0 +1,43 @@
+import { Controller, Get, Post, Body, Request, UseGuards, HttpCode, HttpStatus } from "@nestjs/common";
+import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from "@nestjs/swagger";
+import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
+import { ReferralsService } from "./referrals.service";
+import { ReferralsResponseDto } from "./dto/referrals-response.dto";
+import { RedeemInviteCodeDto, RedeemInviteCodeResponseDto } from "./dto/redeem-invite-code.dto";
+
+@ApiTags("users")
+@Controller("users/referrals")
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class ReferralsController {
+  constructor(private readonly referralsService: ReferralsService) {}
+
+  @Get()
+  @ApiOperation({ summary: "List users who joined with my invite code" })
+  @ApiResponse({
+    status: 200,
+    description: "Returns the referrals and the coins earned from them",
+    type: ReferralsResponseDto,
+  })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({ status: 404, description: "User not found" })
+  getReferrals(@Request() req): Promise<ReferralsResponseDto> {
+    return this.referralsService.getReferrals(req.user.userId);
+  }
+
+  @Post("redeem")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Redeem an invite code after signing up (e.g. with Facebook or LINE)" })
+  @ApiResponse({
+    status: 200,
+    description: "Invite code redeemed successfully",
+    type: RedeemInviteCodeResponseDto,
+  })
+  @ApiResponse({ status: 400, description: "Invalid invite code, own or invitee's invite code, or redeem window expired" })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({ status: 409, description: "An invite code has already been redeemed" })
+  async redeem(@Request() req, @Body() redeemInviteCodeDto: RedeemInviteCodeDto): Promise<RedeemInviteCodeResponseDto> {
+    await this.referralsService.redeem(req.user.userId, redeemInviteCodeDto.inviteCode);
+    return { message: "Invite code redeemed successfully" };
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from "@nestjs/common";
+import { TypeOrmModule } from "@nestjs/typeorm";
+import { Referral } from "./entities/referral.entity";
+import { ReferralsService } from "./referrals.service";
+import { ReferralsController } from "./referrals.controller";
+import { UsersModule } from "../users/users.module";
+import { WalletModule } from "../wallet/wallet.module";
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Referral]), UsersModule, WalletModule],
+  controllers: [ReferralsController],
+  providers: [ReferralsService],
+  exports: [ReferralsService],
+})
+export class ReferralsModule {}
@@ -0,0 +1,150 @@
+import { ConfigService } from "@nestjs/config";
+import { randomUUID } from "crypto";
+import { Repository } from "typeorm";
+import { User } from "../users/entities/user.entity";
+import { UsersService } from "../users/users.service";
+import { LedgerService } from "../wallet/ledger.service";
+import { Referral, ReferralStatus } from "./entities/referral.entity";
+import { ReferralsService } from "./referrals.service";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe("ReferralsService", () => {
+  let users: Map<string, User>;
+  let referrals: Referral[];
+  let service: ReferralsService;
+
+  const signUp = (inviteCode: string, daysAgo = 0) => {
+    const user = Object.assign(new User(), {
+      id: randomUUID(),
+      inviteCode,
+      createdAt: new Date(Date.now() - daysAgo * DAY),
+    });
+    users.set(user.id, user);
+    return user;
+  };
+
+  const matches = (referral: Referral, where: Partial<Referral>) =>
+    Object.entries(where).every(([key, value]) => referral[key as keyof Referral] === value);
+
+  beforeEach(() => {
+    users = new Map();
+    referrals = [];
+
+    // Keeps the unique constraint on invitee_id, yielding so that concurrent redemptions interleave
+    const referralRepository = {
+      create: (data: Partial<Referral>) => Object.assign(new Referral(), { status: ReferralStatus.PENDING, ...data }),
+      findOne: async ({ where }: { where: Partial<Referral> }) => {
+        await Promise.resolve();
+        return referrals.find((referral) => matches(referral, where)) || null;
+      },
+      exists: async ({ where }: { where: Partial<Referral> }) => {
+        await Promise.resolve();
+        return referrals.some((referral) => matches(referral, where));
+      },
+      save: async (referral: Referral) => {
+        await Promise.resolve();
+        if (referrals.some((existing) => existing.inviteeId === referral.inviteeId)) {
+          throw Object.assign(new Error("duplicate key value violates unique constraint"), { code: "23505" });
+        }
+        referrals.push(Object.assign(referral, { id: randomUUID(), createdAt: new Date() }));
+        return referral;
+      },
+    } as unknown as Repository<Referral>;
+
+    service = new ReferralsService(
+      referralRepository,
+      {
+        findById: async (id: string) => users.get(id) || null,
+        findByInviteCode: async (inviteCode: string) =>
+          [...users.values()].find((user) => user.inviteCode === inviteCode) || null,
+        setInvitedCode: async (id: string, inviteCode: string) => {
+          users.get(id).invitedCode = inviteCode;
+        },
+      } as unknown as UsersService,
+      {} as LedgerService,
+      new ConfigService({ REFERRAL_REDEEM_WINDOW_DAYS: 7 }),
+    );
+  });
+
+  it("links a new user to the inviter", async () => {
+    const inviter = signUp("ALICE123", 30);
+    const invitee = signUp("BOB45678");
+
+    const referral = await service.redeem(invitee.id, "ALICE123");
+
+    expect(referral).toMatchObject({
+      inviterId: inviter.id,
+      inviteeId: invitee.id,
+      inviteCode: "ALICE123",
+      status: ReferralStatus.PENDING,
+    });
+    expect(users.get(invitee.id).invitedCode).toBe("ALICE123");
+  });
+
+  it("rejects an unknown invite code", async () => {
+    const invitee = signUp("BOB45678");
+
+    await expect(service.redeem(invitee.id, "NOBODY00")).rejects.toThrow("Invalid invite code");
+  });
+
+  it("rejects the user's own invite code", async () => {
+    const user = signUp("ALICE123");
+
+    await expect(service.redeem(user.id, "ALICE123")).rejects.toThrow("You cannot redeem your own invite code");
+    expect(referrals).toHaveLength(0);
+  });
+
+  it("rejects a second invite code", async () => {
+    signUp("ALICE123", 30);
+    signUp("CAROL999", 30);
+    const invitee = signUp("BOB45678");
+    await service.redeem(invitee.id, "ALICE123");
+
+    await expect(service.redeem(invitee.id, "CAROL999")).rejects.toThrow(
+      "An invite code has already been redeemed for this account",
+    );
+    expect(referrals).toHaveLength(1);
+  });
+
+  it("redeems one of two concurrent invite codes", async () => {
+    signUp("ALICE123", 30);
+    signUp("CAROL999", 30);
+    const invitee = signUp("BOB45678");
+
+    const results = await Promise.allSettled([
+      service.redeem(invitee.id, "ALICE123"),
+      service.redeem(invitee.id, "CAROL999"),
+    ]);
+
+    expect(results.map((result) => result.status).sort()).toEqual(["fulfilled", "rejected"]);
+    expect(referrals).toHaveLength(1);
+  });
+
+  it("rejects the invite code of a user the redeeming user invited", async () => {
+    const inviter = signUp("ALICE123", 1);
+    const invitee = signUp("BOB45678");
+    await service.redeem(invitee.id, "ALICE123");
+
+    await expect(service.redeem(inviter.id, "BOB45678")).rejects.toThrow(
+      "You cannot redeem the invite code of a user you invited",
+    );
+    expect(referrals).toHaveLength(1);
+  });
+
+  it("rejects invite codes once the redeem window is over", async () => {
+    signUp("ALICE123", 30);
+    const invitee = signUp("BOB45678", 8);
+
+    await expect(service.redeem(invitee.id, "ALICE123")).rejects.toThrow(
+      "Invite codes can only be redeemed shortly after sign-up",
+    );
+  });
+
+  it("accepts invite codes until the redeem window is over", async () => {
+    signUp("ALICE123", 30);
+    const invitee = signUp("BOB45678", 6);
+
+    await expect(service.redeem(invitee.id, "ALICE123")).resolves.toMatchObject({ inviteeId: invitee.id });
+  });
+});
@@ -0,0 +1,207 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { InjectRepository } from "@nestjs/typeorm";
+import { Repository } from "typeorm";
+import { Referral, ReferralStatus } from "./entities/referral.entity";
+import { ReferralsResponseDto } from "./dto/referrals-response.dto";
+import { UsersService } from "../users/users.service";
+import { User } from "../users/entities/user.entity";
+import { LedgerService } from "../wallet/ledger.service";
+import { LedgerAccounts } from "../wallet/ledger-accounts";
+import { LedgerTransactionType } from "../wallet/entities/ledger-transaction.entity";
+
+export interface ReferralRules {
+  // Attested steps the invitee has to log in a single day to qualify
+  qualifyingSteps: number;
+  inviterBonus: number;
+  inviteeBonus: number;
+  // Days after sign-up during which a code can still be redeemed
+  redeemWindowDays: number;
+}
+
+@Injectable()
+export class ReferralsService {
+  constructor(
+    @InjectRepository(Referral)
+    private referralRepository: Repository<Referral>,
+    private usersService: UsersService,
+    private ledgerService: LedgerService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Get the configured referral bonus rules
+   * @returns Referral rules
+   */
+  getRules(): ReferralRules {
+    return {
+      qualifyingSteps: Number(this.configService.get("REFERRAL_QUALIFYING_STEPS", 3000)),
+      inviterBonus: Number(this.configService.get("REFERRAL_INVITER_BONUS", 500)),
+      inviteeBonus: Number(this.configService.get("REFERRAL_INVITEE_BONUS", 200)),
+      redeemWindowDays: Number(this.configService.get("REFERRAL_REDEEM_WINDOW_DAYS", 7)),
+    };
+  }
+
+  /**
+   * Ensure an invite code belongs to an existing user
+   * @param inviteCode Invite code to check
+   * @returns The user owning the invite code
+   */
+  async validateInviteCode(inviteCode: string): Promise<User> {
+    const inviter = await this.usersService.findByInviteCode(inviteCode);
+    if (!inviter) {
+      throw new BadRequestException("Invalid invite code");
+    }
+    return inviter;
+  }
+
+  /**
+   * Redeem an invite code for a user, creating the referral relation
+   * @param userId ID of the user redeeming the code
+   * @param inviteCode Invite code of the inviter
+   * @returns The created referral
+   */
+  async redeem(userId: string, inviteCode: string): Promise<Referral> {
+    const user = await this.usersService.findById(userId);
+    if (!user) {
+      throw new NotFoundException("User not found");
+    }
+
+    const existingReferral = await this.referralRepository.findOne({ where: { inviteeId: userId } });
+    if (existingReferral) {
+      throw new ConflictException("An invite code has already been redeemed for this account");
+    }
+
+    const redeemDeadline = new Date(user.createdAt);
+    redeemDeadline.setDate(redeemDeadline.getDate() + this.getRules().redeemWindowDays);
+    if (new Date() > redeemDeadline) {
+      throw new BadRequestException("Invite codes can only be redeemed shortly after sign-up");
+    }
+
+    const inviter = await this.validateInviteCode(inviteCode);
+    if (inviter.id === userId) {
+      throw new BadRequestException("You cannot redeem your own invite code");
+    }
+
+    // Two accounts inviting each other would both collect the inviter bonus
+    if (await this.referralRepository.exists({ where: { inviterId: userId, inviteeId: inviter.id } })) {
+      throw new BadRequestException("You cannot redeem the invite code of a user you invited");
+    }
+
+    const referral = this.referralRepository.create({
+      inviterId: inviter.id,
+      inviteeId: userId,
+      inviteCode,
+    });
+
+    try {
+      const savedReferral = await this.referralRepository.save(referral);
+      await this.usersService.setInvitedCode(userId, inviteCode);
+      return savedReferral;
+    } catch (error) {
+      // Unique constraint on invitee_id lost a race with a concurrent redemption
+      if (error.code === "23505") {
+        throw new ConflictException("An invite code has already been redeemed for this account");
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Reward the inviter and invitee once the invitee logs a qualifying day
+   * @param userId ID of the user who submitted health data
+   * @param steps Attested steps of the submitted day
+   */
+  async handleDailySteps(userId: string, steps: number): Promise<void> {
+    const rules = this.getRules();
+    if (steps < rules.qualifyingSteps) {
+      return;
+    }
+
+    const referral = await this.referralRepository.findOne({
+      where: { inviteeId: userId, status: ReferralStatus.PENDING },
+    });
+    if (!referral) {
+      return;
+    }
+
+    // Idempotency keys make a concurrent or repeated qualification pay only once
+    await this.creditBonus(referral, referral.inviterId, rules.inviterBonus, "inviter");
+    await this.creditBonus(referral, referral.inviteeId, rules.inviteeBonus, "invitee");
+
+    referral.status = ReferralStatus.REWARDED;
+    referral.inviterReward = rules.inviterBonus;
+    referral.inviteeReward = rules.inviteeBonus;
+    referral.qualifiedAt = new Date();
+    await this.referralRepository.save(referral);
+  }
+
+  /**
+   * Get the users who joined with a user's invite code
+   * @param userId ID of the inviter
+   * @returns Invite code, total earned and the list of referrals
+   */
+  async getReferrals(userId: string): Promise<ReferralsResponseDto> {
+    const user = await this.usersService.findById(userId);
+    if (!user) {
+      throw new NotFoundException("User not found");
+    }
+
+    const referrals = await this.referralRepository.find({
+      where: { inviterId: userId },
+      relations: { invitee: true },
+      order: { createdAt: "DESC" },
+    });
+
+    return {
+      inviteCode: user.inviteCode,
+      totalEarned: referrals.reduce((sum, referral) => sum + referral.inviterReward, 0),
+      referrals: referrals.map((referral) => ({
+        id: referral.id,
+        username: referral.invitee.username,
+        name: referral.invitee.name,
+        avatar: referral.invitee.avatar,
+        status: referral.status,
+        earned: referral.inviterReward,
+        joinedAt: referral.createdAt,
+        qualifiedAt: referral.qualifiedAt,
+      })),
+    };
+  }
+
+  /**
+   * Get the users a user is connected with through referrals: the inviter and the invitees
+   * @param userId User's ID
+   * @returns IDs of the connected users
+   */
+  async getConnectionIds(userId: string): Promise<string[]> {
+    const referrals = await this.referralRepository.find({
+      where: [{ inviterId: userId }, { inviteeId: userId }],
+    });
+
+    return referrals.map((referral) => (referral.inviterId === userId ? referral.inviteeId : referral.inviterId));
+  }
+
+  private async creditBonus(referral: Referral, userId: string, amount: number, role: "inviter" | "invitee") {
+    if (amount <= 0) {
+      return;
+    }
+
+    await this.ledgerService.post({
+      idempotencyKey: `referral:${referral.id}:${role}`,
+      userId,
+      type: LedgerTransactionType.REFERRAL_BONUS,
+      reference: referral.id,
+      description: role === "inviter" ? "Referral bonus for inviting a friend" : "Welcome bonus for joining with an invite code",
+      postings: [
+        { account: LedgerAccounts.REFERRAL_BONUSES, amount: -amount },
+        { account: LedgerAccounts.userWallet(userId), amount },
+      ],
+    });
+  }
+}
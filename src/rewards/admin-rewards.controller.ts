@@ -0,0 +1,86 @@
+import { Body, Controller, Get, Param, ParseUUIDPipe, Patch, Post, UseGuards } from "@nestjs/common";
+import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from "@nestjs/swagger";
+import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
+import { RolesGuard } from "../auth/guards/roles.guard";
+import { Roles } from "../auth/decorators/roles.decorator";
+import { UserRole } from "../users/entities/user.entity";
+import { RewardsService } from "./rewards.service";
+import {
+  AdminRewardResponseDto,
+  CreateRewardDto,
+  UpdateRewardDto,
+  UploadRewardCodesDto,
+  UploadRewardCodesResponseDto,
+} from "./dto/reward.dto";
+
+@ApiTags("admin")
+@Controller("admin/rewards")
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@ApiBearerAuth()
+export class AdminRewardsController {
+  constructor(private readonly rewardsService: RewardsService) {}
+
+  @Get()
+  @ApiOperation({ summary: "List all rewards, including inactive ones" })
+  @ApiResponse({
+    status: 200,
+    description: "Returns the rewards, newest first",
+    type: [AdminRewardResponseDto],
+  })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({ status: 403, description: "Not an admin" })
+  findAll(): Promise<AdminRewardResponseDto[]> {
+    return this.rewardsService.findAllForAdmin();
+  }
+
+  @Post()
+  @ApiOperation({ summary: "Add a reward to the catalog" })
+  @ApiResponse({
+    status: 201,
+    description: "The reward is created",
+    type: AdminRewardResponseDto,
+  })
+  @ApiResponse({ status: 400, description: "Invalid reward" })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({ status: 403, description: "Not an admin" })
+  create(@Body() createRewardDto: CreateRewardDto): Promise<AdminRewardResponseDto> {
+    return this.rewardsService.create(createRewardDto);
+  }
+
+  @Patch(":id")
+  @ApiOperation({ summary: "Update a reward" })
+  @ApiResponse({
+    status: 200,
+    description: "The reward is updated",
+    type: AdminRewardResponseDto,
+  })
+  @ApiResponse({ status: 400, description: "Invalid reward" })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({ status: 403, description: "Not an admin" })
+  @ApiResponse({ status: 404, description: "Reward not found" })
+  update(
+    @Param("id", ParseUUIDPipe) id: string,
+    @Body() updateRewardDto: UpdateRewardDto,
+  ): Promise<AdminRewardResponseDto> {
+    return this.rewardsService.update(id, updateRewardDto);
+  }
+
+  @Post(":id/codes")
+  @ApiOperation({ summary: "Upload codes to the code pool of a reward" })
+  @ApiResponse({
+    status: 201,
+    description: "The codes are added; codes already in the pool are skipped",
+    type: UploadRewardCodesResponseDto,
+  })
+  @ApiResponse({ status: 400, description: "Invalid codes" })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({ status: 403, description: "Not an admin" })
+  @ApiResponse({ status: 404, description: "Reward not found" })
+  uploadCodes(
+    @Param("id", ParseUUIDPipe) id: string,
+    @Body() uploadRewardCodesDto: UploadRewardCodesDto,
+  ): Promise<UploadRewardCodesResponseDto> {
+    return this.rewardsService.uploadCodes(id, uploadRewardCodesDto);
+  }
+}
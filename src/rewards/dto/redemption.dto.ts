@@ -0,0 +1,127 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { Type } from "class-transformer";
+import { IsInt, IsOptional, Max, Min } from "class-validator";
+import { RewardType } from "../entities/reward.entity";
+
+export class RedemptionsQueryDto {
+  @ApiProperty({
+    description: "Page number (starting at 1)",
+    example: 1,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: "Page must be an integer" })
+  @Min(1, { message: "Page must be at least 1" })
+  page?: number = 1;
+
+  @ApiProperty({
+    description: "Number of redemptions per page",
+    example: 20,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: "Limit must be an integer" })
+  @Min(1, { message: "Limit must be at least 1" })
+  @Max(100, { message: "Limit cannot exceed 100" })
+  limit?: number = 20;
+}
+
+export class RedeemedRewardDto {
+  @ApiProperty({
+    description: "The unique identifier of the reward",
+    example: "8b3f5c1e-2f4a-4c8e-9a4b-6d2e1f0a7c3d",
+  })
+  id: string;
+
+  @ApiProperty({
+    description: "Name of the reward",
+    example: "Starbucks 100 THB voucher",
+  })
+  name: string;
+
+  @ApiProperty({
+    description: "The kind of reward",
+    enum: RewardType,
+    example: RewardType.VOUCHER,
+  })
+  type: RewardType;
+
+  @ApiProperty({
+    description: "The partner providing the reward",
+    example: "Starbucks",
+    required: false,
+  })
+  partnerName: string;
+
+  @ApiProperty({
+    description: "URL of the image of the reward",
+    required: false,
+  })
+  imageUrl: string;
+}
+
+export class RedemptionResponseDto {
+  @ApiProperty({
+    description: "The unique identifier of the redemption",
+    example: "c5a0d8e2-7b61-4f0e-8f5d-1e9b2a3c4d5e",
+  })
+  id: string;
+
+  @ApiProperty({
+    description: "The redeemed reward",
+    type: RedeemedRewardDto,
+  })
+  reward: RedeemedRewardDto;
+
+  @ApiProperty({
+    description: "The coupon, voucher or partner code",
+    example: "SBX-7Q2M-94KD",
+  })
+  code: string;
+
+  @ApiProperty({
+    description: "The date when the code expires at the partner",
+    required: false,
+  })
+  expiresAt: Date;
+
+  @ApiProperty({
+    description: "Coins paid for the reward",
+    example: 3000,
+  })
+  price: number;
+
+  @ApiProperty({
+    description: "The date when the reward was redeemed",
+    example: "2025-07-24T21:45:30Z",
+  })
+  createdAt: Date;
+}
+
+export class RedemptionsResponseDto {
+  @ApiProperty({
+    description: "Redemptions of the requested page, newest first",
+    type: [RedemptionResponseDto],
+  })
+  items: RedemptionResponseDto[];
+
+  @ApiProperty({
+    description: "Total number of redemptions",
+    example: 3,
+  })
+  total: number;
+
+  @ApiProperty({
+    description: "Current page number",
+    example: 1,
+  })
+  page: number;
+
+  @ApiProperty({
+    description: "Number of redemptions per page",
+    example: 20,
+  })
+  limit: number;
+}
@@ -0,0 +1,264 @@
+import { ApiProperty, PartialType } from "@nestjs/swagger";
+import { Type } from "class-transformer";
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+  Min,
+} from "class-validator";
+import { RewardType } from "../entities/reward.entity";
+
+// Keeps an upload within the default JSON body size limit
+export const MAX_UPLOADED_CODES = 2000;
+
+export class CreateRewardDto {
+  @ApiProperty({
+    description: "Name shown in the catalog",
+    example: "Starbucks 100 THB voucher",
+  })
+  @IsString()
+  @IsNotEmpty({ message: "Name is required" })
+  @MaxLength(200)
+  name: string;
+
+  @ApiProperty({
+    description: "Description and terms of the reward",
+    example: "Valid at all Starbucks stores in Thailand.",
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(5000)
+  description?: string;
+
+  @ApiProperty({
+    description: "The kind of reward",
+    enum: RewardType,
+    example: RewardType.VOUCHER,
+  })
+  @IsEnum(RewardType)
+  type: RewardType;
+
+  @ApiProperty({
+    description: "The partner providing the reward",
+    example: "Starbucks",
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  partnerName?: string;
+
+  @ApiProperty({
+    description: "URL of the image shown in the catalog",
+    example: "https://cdn.cashpop.app/rewards/starbucks-100.png",
+    required: false,
+  })
+  @IsOptional()
+  @IsUrl()
+  imageUrl?: string;
+
+  @ApiProperty({
+    description: "Price in coins",
+    example: 3000,
+  })
+  @Type(() => Number)
+  @IsInt({ message: "Price must be a whole number of coins" })
+  @Min(1, { message: "Price must be positive" })
+  price: number;
+
+  @ApiProperty({
+    description: "Redemptions left; leave empty to limit the reward only by its codes",
+    example: 500,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: "Stock must be an integer" })
+  @Min(0, { message: "Stock cannot be negative" })
+  stock?: number;
+
+  @ApiProperty({
+    description: "How many times a user can redeem the reward; leave empty for no limit",
+    example: 1,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: "Per-user limit must be an integer" })
+  @Min(1, { message: "Per-user limit must be at least 1" })
+  perUserLimit?: number;
+
+  @ApiProperty({
+    description: "The date from when the reward can be redeemed",
+    example: "2025-08-01T00:00:00Z",
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  startsAt?: string;
+
+  @ApiProperty({
+    description: "The date until when the reward can be redeemed",
+    example: "2025-08-31T23:59:59Z",
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  endsAt?: string;
+
+  @ApiProperty({
+    description: "Whether the reward is listed in the catalog",
+    example: true,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class UpdateRewardDto extends PartialType(CreateRewardDto) {}
+
+export class UploadRewardCodesDto {
+  @ApiProperty({
+    description: `Codes to add to the pool of the reward, at most ${MAX_UPLOADED_CODES} at once`,
+    example: ["SBX-7Q2M-94KD", "SBX-1HZP-03LC"],
+    type: [String],
+  })
+  @IsArray()
+  @ArrayNotEmpty({ message: "Codes are required" })
+  @ArrayMaxSize(MAX_UPLOADED_CODES, { message: `Cannot upload more than ${MAX_UPLOADED_CODES} codes at once` })
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true, message: "Codes cannot be empty" })
+  @MaxLength(255, { each: true })
+  codes: string[];
+
+  @ApiProperty({
+    description: "The date when the codes expire at the partner; expired codes are not handed out",
+    example: "2025-12-31T23:59:59Z",
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
+
+export class UploadRewardCodesResponseDto {
+  @ApiProperty({
+    description: "Number of codes added to the pool",
+    example: 998,
+  })
+  added: number;
+
+  @ApiProperty({
+    description: "Number of codes skipped because they were already in the pool",
+    example: 2,
+  })
+  duplicates: number;
+}
+
+export class RewardResponseDto {
+  @ApiProperty({
+    description: "The unique identifier of the reward",
+    example: "8b3f5c1e-2f4a-4c8e-9a4b-6d2e1f0a7c3d",
+  })
+  id: string;
+
+  @ApiProperty({
+    description: "Name shown in the catalog",
+    example: "Starbucks 100 THB voucher",
+  })
+  name: string;
+
+  @ApiProperty({
+    description: "Description and terms of the reward",
+    required: false,
+  })
+  description: string;
+
+  @ApiProperty({
+    description: "The kind of reward",
+    enum: RewardType,
+    example: RewardType.VOUCHER,
+  })
+  type: RewardType;
+
+  @ApiProperty({
+    description: "The partner providing the reward",
+    example: "Starbucks",
+    required: false,
+  })
+  partnerName: string;
+
+  @ApiProperty({
+    description: "URL of the image shown in the catalog",
+    required: false,
+  })
+  imageUrl: string;
+
+  @ApiProperty({
+    description: "Price in coins",
+    example: 3000,
+  })
+  price: number;
+
+  @ApiProperty({
+    description: "How many more times the reward can be redeemed",
+    example: 412,
+  })
+  available: number;
+
+  @ApiProperty({
+    description: "How many times a user can redeem the reward",
+    example: 1,
+    required: false,
+  })
+  perUserLimit: number;
+
+  @ApiProperty({
+    description: "The date from when the reward can be redeemed",
+    required: false,
+  })
+  startsAt: Date;
+
+  @ApiProperty({
+    description: "The date until when the reward can be redeemed",
+    required: false,
+  })
+  endsAt: Date;
+}
+
+export class AdminRewardResponseDto extends RewardResponseDto {
+  @ApiProperty({
+    description: "Redemptions left; not set if the reward is limited only by its codes",
+    example: 500,
+    required: false,
+  })
+  stock: number;
+
+  @ApiProperty({
+    description: "Codes in the pool that can still be handed out",
+    example: 412,
+  })
+  availableCodes: number;
+
+  @ApiProperty({
+    description: "Whether the reward is listed in the catalog",
+    example: true,
+  })
+  isActive: boolean;
+
+  @ApiProperty({
+    description: "The date when the reward was created",
+  })
+  createdAt: Date;
+}
@@ -0,0 +1,48 @@
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, ManyToOne, OneToOne, JoinColumn, Index } from "typeorm";
+import { ApiProperty } from "@nestjs/swagger";
+import { User } from "../../users/entities/user.entity";
+import { Reward } from "./reward.entity";
+import { RewardCode } from "./reward-code.entity";
+
+/**
+ * A reward bought by a user, with the code they received
+ */
+@Entity("redemptions")
+@Index("IDX_redemptions_user_id_created_at", ["userId", "createdAt"])
+export class Redemption {
+  @PrimaryGeneratedColumn("uuid")
+  @ApiProperty({ description: "The unique identifier of the redemption" })
+  id: string;
+
+  @ManyToOne(() => User, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "user_id" })
+  user: User;
+
+  @Column({ name: "user_id" })
+  @ApiProperty({ description: "The ID of the user" })
+  userId: string;
+
+  @ManyToOne(() => Reward)
+  @JoinColumn({ name: "reward_id" })
+  reward: Reward;
+
+  @Column({ name: "reward_id" })
+  @ApiProperty({ description: "The ID of the redeemed reward" })
+  rewardId: string;
+
+  @OneToOne(() => RewardCode)
+  @JoinColumn({ name: "reward_code_id" })
+  rewardCode: RewardCode;
+
+  @Column({ name: "reward_code_id", unique: true })
+  @ApiProperty({ description: "The ID of the code handed out" })
+  rewardCodeId: string;
+
+  @Column({ type: "int" })
+  @ApiProperty({ description: "Coins paid for the reward" })
+  price: number;
+
+  @CreateDateColumn({ name: "created_at" })
+  @ApiProperty({ description: "The date when the reward was redeemed" })
+  createdAt: Date;
+}
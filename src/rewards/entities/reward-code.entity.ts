@@ -0,0 +1,39 @@
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, ManyToOne, JoinColumn, Index } from "typeorm";
+import { ApiProperty } from "@nestjs/swagger";
+import { Reward } from "./reward.entity";
+
+/**
+ * A code of a reward's code pool, handed out to exactly one redemption
+ */
+@Entity("reward_codes")
+@Index("IDX_reward_codes_reward_id_code", ["rewardId", "code"], { unique: true })
+@Index("IDX_reward_codes_unredeemed", ["rewardId", "createdAt"], { where: '"redeemed_at" IS NULL' })
+export class RewardCode {
+  @PrimaryGeneratedColumn("uuid")
+  @ApiProperty({ description: "The unique identifier of the code" })
+  id: string;
+
+  @ManyToOne(() => Reward, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "reward_id" })
+  reward: Reward;
+
+  @Column({ name: "reward_id" })
+  @ApiProperty({ description: "The ID of the reward" })
+  rewardId: string;
+
+  @Column()
+  @ApiProperty({ description: "The coupon, voucher or partner code" })
+  code: string;
+
+  @Column({ name: "expires_at", nullable: true })
+  @ApiProperty({ description: "The date when the code expires at the partner" })
+  expiresAt: Date;
+
+  @Column({ name: "redeemed_at", nullable: true })
+  @ApiProperty({ description: "The date when the code was handed out" })
+  redeemedAt: Date;
+
+  @CreateDateColumn({ name: "created_at" })
+  @ApiProperty({ description: "The date when the code was uploaded" })
+  createdAt: Date;
+}
@@ -0,0 +1,71 @@
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn } from "typeorm";
+import { ApiProperty } from "@nestjs/swagger";
+
+export enum RewardType {
+  COUPON = "coupon",
+  VOUCHER = "voucher",
+  PARTNER_CODE = "partner_code",
+}
+
+/**
+ * An item of the reward catalog that users buy with coins. Each redemption
+ * hands out one code of the reward's uploaded code pool.
+ */
+@Entity("rewards")
+export class Reward {
+  @PrimaryGeneratedColumn("uuid")
+  @ApiProperty({ description: "The unique identifier of the reward" })
+  id: string;
+
+  @Column()
+  @ApiProperty({ description: "Name shown in the catalog" })
+  name: string;
+
+  @Column({ type: "text", nullable: true })
+  @ApiProperty({ description: "Description and terms of the reward" })
+  description: string;
+
+  @Column({ type: "enum", enum: RewardType })
+  @ApiProperty({ description: "The kind of reward", enum: RewardType })
+  type: RewardType;
+
+  @Column({ name: "partner_name", nullable: true })
+  @ApiProperty({ description: "The partner providing the reward" })
+  partnerName: string;
+
+  @Column({ name: "image_url", nullable: true })
+  @ApiProperty({ description: "URL of the image shown in the catalog" })
+  imageUrl: string;
+
+  @Column({ type: "int" })
+  @ApiProperty({ description: "Price in coins" })
+  price: number;
+
+  @Column({ type: "int", nullable: true })
+  @ApiProperty({ description: "Redemptions left; without stock, the reward is limited only by its codes" })
+  stock: number;
+
+  @Column({ name: "per_user_limit", type: "int", nullable: true })
+  @ApiProperty({ description: "How many times a user can redeem the reward; unlimited if not set" })
+  perUserLimit: number;
+
+  @Column({ name: "starts_at", nullable: true })
+  @ApiProperty({ description: "The date from when the reward can be redeemed" })
+  startsAt: Date;
+
+  @Column({ name: "ends_at", nullable: true })
+  @ApiProperty({ description: "The date until when the reward can be redeemed" })
+  endsAt: Date;
+
+  @Column({ name: "is_active", default: true })
+  @ApiProperty({ description: "Whether the reward is listed in the catalog" })
+  isActive: boolean;
+
+  @CreateDateColumn({ name: "created_at" })
+  @ApiProperty({ description: "The date when the reward was created" })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: "updated_at" })
+  @ApiProperty({ description: "The date when the reward was last updated" })
+  updatedAt: Date;
+}
@@ -0,0 +1,26 @@
+import { Controller, Get, Query, Request, UseGuards } from "@nestjs/common";
+import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from "@nestjs/swagger";
+import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
+import { RewardsService } from "./rewards.service";
+import { RedemptionsQueryDto, RedemptionsResponseDto } from "./dto/redemption.dto";
+
+// Served under /users next to the profile, but kept here to avoid UsersModule depending on rewards
+@ApiTags("users")
+@Controller("users")
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class RedemptionsController {
+  constructor(private readonly rewardsService: RewardsService) {}
+
+  @Get("redemptions")
+  @ApiOperation({ summary: "Get the redeemed rewards of the current user (coupon box)" })
+  @ApiResponse({
+    status: 200,
+    description: "Returns the redemptions with their codes, newest first",
+    type: RedemptionsResponseDto,
+  })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  getRedemptions(@Request() req, @Query() query: RedemptionsQueryDto): Promise<RedemptionsResponseDto> {
+    return this.rewardsService.findRedemptions(req.user.userId, query);
+  }
+}
@@ -0,0 +1,61 @@
+import { Controller, Get, HttpCode, HttpStatus, Param, ParseUUIDPipe, Post, Request, UseGuards } from "@nestjs/common";
+import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from "@nestjs/swagger";
+import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
+import { RateLimit } from "../common/rate-limit/rate-limit.decorator";
+import { RewardsService } from "./rewards.service";
+import { RewardResponseDto } from "./dto/reward.dto";
+import { RedemptionResponseDto } from "./dto/redemption.dto";
+
+@ApiTags("rewards")
+@Controller("rewards")
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class RewardsController {
+  constructor(private readonly rewardsService: RewardsService) {}
+
+  @Get()
+  @ApiOperation({ summary: "Get the catalog of rewards that can be redeemed now" })
+  @ApiResponse({
+    status: 200,
+    description: "Returns the rewards, cheapest first",
+    type: [RewardResponseDto],
+  })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  getCatalog(): Promise<RewardResponseDto[]> {
+    return this.rewardsService.findCatalog();
+  }
+
+  @Get(":id")
+  @ApiOperation({ summary: "Get a reward of the catalog" })
+  @ApiResponse({
+    status: 200,
+    description: "Returns the reward",
+    type: RewardResponseDto,
+  })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({ status: 404, description: "Reward not found" })
+  getReward(@Param("id", ParseUUIDPipe) id: string): Promise<RewardResponseDto> {
+    return this.rewardsService.findOne(id);
+  }
+
+  @Post(":id/redeem")
+  @HttpCode(HttpStatus.OK)
+  @RateLimit({ points: 30, window: 10 * 60, key: "user" })
+  @ApiOperation({ summary: "Redeem a reward with coins" })
+  @ApiResponse({
+    status: 200,
+    description: "The reward is redeemed; returns its code",
+    type: RedemptionResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: "Insufficient balance, per-user limit reached or reward not redeemable at this time",
+  })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({ status: 404, description: "Reward not found" })
+  @ApiResponse({ status: 409, description: "The reward is out of stock" })
+  @ApiResponse({ status: 429, description: "Too many redemptions" })
+  redeem(@Request() req, @Param("id", ParseUUIDPipe) id: string): Promise<RedemptionResponseDto> {
+    return this.rewardsService.redeem(req.user.userId, id);
+  }
+}
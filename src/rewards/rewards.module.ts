@@ -0,0 +1,18 @@
+import { Module } from "@nestjs/common";
+import { TypeOrmModule } from "@nestjs/typeorm";
+import { Reward } from "./entities/reward.entity";
+import { RewardCode } from "./entities/reward-code.entity";
+import { Redemption } from "./entities/redemption.entity";
+import { RewardsService } from "./rewards.service";
+import { RewardsController } from "./rewards.controller";
+import { RedemptionsController } from "./redemptions.controller";
+import { AdminRewardsController } from "./admin-rewards.controller";
+import { UsersModule } from "../users/users.module";
+import { WalletModule } from "../wallet/wallet.module";
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Reward, RewardCode, Redemption]), UsersModule, WalletModule],
+  controllers: [RewardsController, RedemptionsController, AdminRewardsController],
+  providers: [RewardsService],
+})
+export class RewardsModule {}
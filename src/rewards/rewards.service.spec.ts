@@ -0,0 +1,342 @@
+import { BadRequestException } from "@nestjs/common";
+import { randomUUID } from "crypto";
+import { DataSource, EntityManager, Repository } from "typeorm";
+import { LedgerPosting, LedgerService, PostTransactionInput } from "../wallet/ledger.service";
+import { LedgerAccounts } from "../wallet/ledger-accounts";
+import { Reward, RewardType } from "./entities/reward.entity";
+import { RewardCode } from "./entities/reward-code.entity";
+import { Redemption } from "./entities/redemption.entity";
+import { RewardsService } from "./rewards.service";
+
+const USER_ID = "3f0c1a52-6c1e-4a35-9d55-3c0f7d7e8b21";
+const REWARD_ID = "7c9e6679-7425-40de-944b-e07fc1f90ae7";
+
+interface TransactionState {
+  locks: Set<string>;
+  releases: (() => void)[];
+  undo: (() => void)[];
+}
+
+/**
+ * Rewards, codes, redemptions and ledger postings kept in memory. Every write
+ * of a transaction is undone if its callback fails, and locks (the ledger
+ * lock, the reward row and the code rows) are held until the transaction ends.
+ */
+class InMemoryStore {
+  rewards = new Map<string, Reward>();
+  codes: RewardCode[] = [];
+  redemptions: Redemption[] = [];
+  postings = new Map<string, LedgerPosting[]>();
+  private held = new Map<string, Promise<void>>();
+
+  async transaction<T>(callback: (manager: EntityManager) => Promise<T>): Promise<T> {
+    const state: TransactionState = { locks: new Set(), releases: [], undo: [] };
+    try {
+      return await callback(this.manager(state));
+    } catch (error) {
+      state.undo.reverse().forEach((undo) => undo());
+      throw error;
+    } finally {
+      state.releases.forEach((release) => release());
+    }
+  }
+
+  balance(account: string): number {
+    return [...this.postings.values()]
+      .flat()
+      .filter((posting) => posting.account === account)
+      .reduce((sum, posting) => sum + posting.amount, 0);
+  }
+
+  private async lock(state: TransactionState, key: string): Promise<void> {
+    while (!this.tryLock(state, key)) {
+      await this.held.get(key);
+    }
+  }
+
+  private tryLock(state: TransactionState, key: string): boolean {
+    if (state.locks.has(key)) {
+      return true;
+    }
+    if (this.held.has(key)) {
+      return false;
+    }
+
+    let release: () => void;
+    this.held.set(
+      key,
+      new Promise((resolve) => {
+        release = resolve;
+      }),
+    );
+    state.locks.add(key);
+    state.releases.push(() => {
+      this.held.delete(key);
+      release();
+    });
+    return true;
+  }
+
+  private manager(state: TransactionState): EntityManager {
+    const store = this;
+    return {
+      query: async (_: string, [key]: string[]) => {
+        await store.lock(state, key);
+        return [];
+      },
+      create: (entity: new () => object, data: object) => Object.assign(new entity(), data),
+      findOne: async (_: unknown, { where }: { where: { id: string; isActive: boolean } }) => {
+        await Promise.resolve();
+        const reward = store.rewards.get(where.id);
+        return reward && reward.isActive === where.isActive ? { ...reward } : null;
+      },
+      count: async (_: unknown, { where }: { where: { userId: string; rewardId: string } }) => {
+        await Promise.resolve();
+        return store.redemptions.filter(
+          (redemption) => redemption.userId === where.userId && redemption.rewardId === where.rewardId,
+        ).length;
+      },
+      save: async (entity: RewardCode | Redemption) => {
+        await Promise.resolve();
+        if (entity instanceof Redemption) {
+          const saved = Object.assign(entity, { id: randomUUID(), createdAt: new Date() });
+          store.redemptions.push(saved);
+          state.undo.push(() => store.redemptions.splice(store.redemptions.indexOf(saved), 1));
+          return saved;
+        }
+
+        const code = store.codes.find((candidate) => candidate.id === entity.id);
+        const { redeemedAt } = code;
+        code.redeemedAt = entity.redeemedAt;
+        state.undo.push(() => (code.redeemedAt = redeemedAt));
+        return entity;
+      },
+      createQueryBuilder: (entity?: unknown) =>
+        entity === RewardCode ? store.codeQuery(state) : store.rewardUpdate(state),
+    } as unknown as EntityManager;
+  }
+
+  // UPDATE rewards SET stock = stock - 1 WHERE id = :rewardId AND stock > 0
+  private rewardUpdate(state: TransactionState) {
+    const params: Record<string, any> = {};
+    const builder = {
+      update: () => builder,
+      set: () => builder,
+      where: (_: string, values: object) => (Object.assign(params, values), builder),
+      execute: async () => {
+        await this.lock(state, `reward:${params.rewardId}`);
+        const reward = this.rewards.get(params.rewardId);
+        if (!(reward.stock > 0)) {
+          return { affected: 0 };
+        }
+        reward.stock -= 1;
+        state.undo.push(() => (reward.stock += 1));
+        return { affected: 1 };
+      },
+    };
+    return builder;
+  }
+
+  // SELECT ... FOR UPDATE SKIP LOCKED of the oldest code that can be handed out
+  private codeQuery(state: TransactionState) {
+    const params: Record<string, any> = {};
+    let onLocked: string;
+    const builder = {
+      where: (_: string, values: object) => (Object.assign(params, values), builder),
+      andWhere: (_: string, values: object = {}) => (Object.assign(params, values), builder),
+      orderBy: () => builder,
+      limit: () => builder,
+      setLock: () => builder,
+      setOnLocked: (value: string) => ((onLocked = value), builder),
+      getOne: async () => {
+        await Promise.resolve();
+        const candidates = this.codes
+          .filter((code) => code.rewardId === params.rewardId && !code.redeemedAt)
+          .filter((code) => !code.expiresAt || code.expiresAt > params.now)
+          .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+        for (const code of candidates) {
+          if (onLocked !== "skip_locked") {
+            await this.lock(state, `code:${code.id}`);
+          } else if (!this.tryLock(state, `code:${code.id}`)) {
+            continue;
+          }
+          return Object.assign(new RewardCode(), code);
+        }
+        return null;
+      },
+    };
+    return builder;
+  }
+}
+
+/**
+ * Posts to the in-memory store with the lock and balance check of the ledger
+ */
+function createLedger(store: InMemoryStore): LedgerService {
+  return {
+    lockUser: (manager: EntityManager, userId: string) =>
+      manager.query("SELECT pg_advisory_xact_lock(hashtext($1))", [`ledger:${userId}`]),
+    post: async (input: PostTransactionInput, manager: EntityManager) => {
+      await manager.query("SELECT pg_advisory_xact_lock(hashtext($1))", [`ledger:${input.userId}`]);
+      for (const account of input.nonNegativeAccounts || []) {
+        const delta = input.postings
+          .filter((posting) => posting.account === account)
+          .reduce((sum, posting) => sum + posting.amount, 0);
+        if (store.balance(account) + delta < 0) {
+          throw new BadRequestException("Insufficient balance");
+        }
+      }
+      store.postings.set(input.idempotencyKey, input.postings);
+      return { created: true };
+    },
+  } as unknown as LedgerService;
+}
+
+describe("RewardsService", () => {
+  let store: InMemoryStore;
+  let service: RewardsService;
+
+  const earn = (userId: string, coins: number) =>
+    store.postings.set(`seed:${randomUUID()}`, [
+      { account: LedgerAccounts.userWallet(userId), amount: coins },
+      { account: LedgerAccounts.STEP_REWARDS, amount: -coins },
+    ]);
+
+  const addCodes = (...codes: string[]) =>
+    codes.forEach((code, index) =>
+      store.codes.push(
+        Object.assign(new RewardCode(), {
+          id: randomUUID(),
+          rewardId: REWARD_ID,
+          code,
+          expiresAt: null,
+          redeemedAt: null,
+          createdAt: new Date(Date.UTC(2025, 6, 1, 0, index)),
+        }),
+      ),
+    );
+
+  beforeEach(() => {
+    store = new InMemoryStore();
+    service = new RewardsService(
+      store as unknown as DataSource,
+      {} as Repository<Reward>,
+      {} as Repository<RewardCode>,
+      {} as Repository<Redemption>,
+      createLedger(store),
+    );
+
+    store.rewards.set(
+      REWARD_ID,
+      Object.assign(new Reward(), {
+        id: REWARD_ID,
+        name: "Coffee voucher",
+        type: RewardType.VOUCHER,
+        partnerName: "Café Amazon",
+        price: 500,
+        stock: null,
+        perUserLimit: null,
+        startsAt: null,
+        endsAt: null,
+        isActive: true,
+      }),
+    );
+    addCodes("COFFEE-1", "COFFEE-2", "COFFEE-3");
+    earn(USER_ID, 2000);
+  });
+
+  it("debits the price and hands out the oldest code", async () => {
+    const redemption = await service.redeem(USER_ID, REWARD_ID);
+
+    expect(redemption).toMatchObject({ code: "COFFEE-1", price: 500, reward: { id: REWARD_ID } });
+    expect(store.balance(LedgerAccounts.userWallet(USER_ID))).toBe(1500);
+    expect(store.balance(LedgerAccounts.REWARD_REDEMPTIONS)).toBe(500);
+    expect(store.codes[0].redeemedAt).toBeInstanceOf(Date);
+  });
+
+  it("hands out a different code to each concurrent redemption", async () => {
+    const users = [randomUUID(), randomUUID(), randomUUID()];
+    users.forEach((userId) => earn(userId, 500));
+
+    const redemptions = await Promise.all(users.map((userId) => service.redeem(userId, REWARD_ID)));
+
+    expect(redemptions.map((redemption) => redemption.code).sort()).toEqual(["COFFEE-1", "COFFEE-2", "COFFEE-3"]);
+    await expect(service.redeem(USER_ID, REWARD_ID)).rejects.toThrow("This reward is out of stock");
+  });
+
+  it("never sells more than the stock", async () => {
+    store.rewards.get(REWARD_ID).stock = 2;
+    const users = [randomUUID(), randomUUID(), randomUUID()];
+    users.forEach((userId) => earn(userId, 500));
+
+    const results = await Promise.allSettled(users.map((userId) => service.redeem(userId, REWARD_ID)));
+
+    expect(results.filter((result) => result.status === "fulfilled")).toHaveLength(2);
+    expect(results.filter((result) => result.status === "rejected")).toEqual([
+      { status: "rejected", reason: expect.objectContaining({ message: "This reward is out of stock" }) },
+    ]);
+    expect(store.rewards.get(REWARD_ID).stock).toBe(0);
+    expect(store.codes.filter((code) => code.redeemedAt)).toHaveLength(2);
+    expect(store.redemptions).toHaveLength(2);
+  });
+
+  it("gives the stock back when no code is left", async () => {
+    store.rewards.get(REWARD_ID).stock = 5;
+    store.codes = [];
+
+    await expect(service.redeem(USER_ID, REWARD_ID)).rejects.toThrow("This reward is out of stock");
+    expect(store.rewards.get(REWARD_ID).stock).toBe(5);
+    expect(store.balance(LedgerAccounts.userWallet(USER_ID))).toBe(2000);
+  });
+
+  it("skips expired codes", async () => {
+    store.codes[0].expiresAt = new Date(Date.now() - 1000);
+
+    const redemption = await service.redeem(USER_ID, REWARD_ID);
+
+    expect(redemption.code).toBe("COFFEE-2");
+  });
+
+  it("stops a user at the per-user limit", async () => {
+    store.rewards.get(REWARD_ID).perUserLimit = 1;
+    await service.redeem(USER_ID, REWARD_ID);
+
+    await expect(service.redeem(USER_ID, REWARD_ID)).rejects.toThrow(
+      "You have already redeemed this reward the maximum number of times",
+    );
+    expect(store.balance(LedgerAccounts.userWallet(USER_ID))).toBe(1500);
+  });
+
+  it("holds to the per-user limit for concurrent redemptions of a user", async () => {
+    store.rewards.get(REWARD_ID).perUserLimit = 2;
+
+    const results = await Promise.allSettled([1, 2, 3].map(() => service.redeem(USER_ID, REWARD_ID)));
+
+    expect(results.filter((result) => result.status === "fulfilled")).toHaveLength(2);
+    expect(store.redemptions).toHaveLength(2);
+    expect(store.balance(LedgerAccounts.userWallet(USER_ID))).toBe(1000);
+  });
+
+  it("rolls back the stock, the code and the redemption when the balance is too low", async () => {
+    const reward = store.rewards.get(REWARD_ID);
+    reward.stock = 1;
+    reward.price = 2500;
+
+    await expect(service.redeem(USER_ID, REWARD_ID)).rejects.toThrow("Insufficient balance");
+
+    expect(reward.stock).toBe(1);
+    expect(store.codes.every((code) => code.redeemedAt === null)).toBe(true);
+    expect(store.redemptions).toHaveLength(0);
+    expect(store.balance(LedgerAccounts.userWallet(USER_ID))).toBe(2000);
+
+    earn(USER_ID, 2500);
+    expect(await service.redeem(USER_ID, REWARD_ID)).toMatchObject({ code: "COFFEE-1" });
+    expect(reward.stock).toBe(0);
+  });
+
+  it("refuses a reward outside its redemption period", async () => {
+    store.rewards.get(REWARD_ID).endsAt = new Date(Date.now() - 1000);
+
+    await expect(service.redeem(USER_ID, REWARD_ID)).rejects.toThrow("This reward cannot be redeemed at this time");
+  });
+});
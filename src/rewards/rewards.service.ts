@@ -0,0 +1,328 @@
+import { Injectable, BadRequestException, ConflictException, NotFoundException } from "@nestjs/common";
+import { InjectDataSource, InjectRepository } from "@nestjs/typeorm";
+import { DataSource, Repository } from "typeorm";
+import { LedgerService } from "../wallet/ledger.service";
+import { LedgerAccounts } from "../wallet/ledger-accounts";
+import { LedgerTransactionType } from "../wallet/entities/ledger-transaction.entity";
+import { Reward } from "./entities/reward.entity";
+import { RewardCode } from "./entities/reward-code.entity";
+import { Redemption } from "./entities/redemption.entity";
+import {
+  AdminRewardResponseDto,
+  CreateRewardDto,
+  RewardResponseDto,
+  UpdateRewardDto,
+  UploadRewardCodesDto,
+  UploadRewardCodesResponseDto,
+} from "./dto/reward.dto";
+import { RedemptionResponseDto, RedemptionsQueryDto, RedemptionsResponseDto } from "./dto/redemption.dto";
+
+// Codes inserted per statement when uploading a code pool
+const CODE_INSERT_BATCH_SIZE = 1000;
+
+@Injectable()
+export class RewardsService {
+  constructor(
+    @InjectDataSource()
+    private dataSource: DataSource,
+    @InjectRepository(Reward)
+    private rewardRepository: Repository<Reward>,
+    @InjectRepository(RewardCode)
+    private rewardCodeRepository: Repository<RewardCode>,
+    @InjectRepository(Redemption)
+    private redemptionRepository: Repository<Redemption>,
+    private ledgerService: LedgerService,
+  ) {}
+
+  /**
+   * Get the rewards that can be redeemed right now, cheapest first
+   * @returns Catalog of rewards
+   */
+  async findCatalog(): Promise<RewardResponseDto[]> {
+    const now = new Date();
+    const rewards = await this.rewardRepository
+      .createQueryBuilder("reward")
+      .where("reward.is_active = true")
+      .andWhere("(reward.starts_at IS NULL OR reward.starts_at <= :now)", { now })
+      .andWhere("(reward.ends_at IS NULL OR reward.ends_at > :now)", { now })
+      .orderBy("reward.price", "ASC")
+      .addOrderBy("reward.created_at", "DESC")
+      .getMany();
+
+    const availableCodes = await this.countAvailableCodes(rewards.map((reward) => reward.id));
+    return rewards.map((reward) => this.toResponse(reward, availableCodes.get(reward.id) || 0));
+  }
+
+  async findOne(id: string): Promise<RewardResponseDto> {
+    const reward = await this.rewardRepository.findOne({ where: { id, isActive: true } });
+    if (!reward) {
+      throw new NotFoundException("Reward not found");
+    }
+
+    const availableCodes = await this.countAvailableCodes([reward.id]);
+    return this.toResponse(reward, availableCodes.get(reward.id) || 0);
+  }
+
+  /**
+   * Redeem a reward: debit its price from the wallet and hand out one code of its pool.
+   * Concurrent redemptions each get a different code, and never more than the stock.
+   * @param userId User's ID
+   * @param rewardId Reward ID
+   * @returns The redemption with its code
+   */
+  async redeem(userId: string, rewardId: string): Promise<RedemptionResponseDto> {
+    const redemption = await this.dataSource.transaction(async (manager) => {
+      // Serialize the user's ledger writes, so that the per-user limit and the balance are checked reliably
+      await this.ledgerService.lockUser(manager, userId);
+
+      const now = new Date();
+      const reward = await manager.findOne(Reward, { where: { id: rewardId, isActive: true } });
+      if (!reward) {
+        throw new NotFoundException("Reward not found");
+      }
+      if ((reward.startsAt && reward.startsAt > now) || (reward.endsAt && reward.endsAt <= now)) {
+        throw new BadRequestException("This reward cannot be redeemed at this time");
+      }
+
+      if (reward.perUserLimit !== null) {
+        const redeemed = await manager.count(Redemption, { where: { userId, rewardId } });
+        if (redeemed >= reward.perUserLimit) {
+          throw new BadRequestException("You have already redeemed this reward the maximum number of times");
+        }
+      }
+
+      if (reward.stock !== null) {
+        // Decrement only while stock is left; the row stays locked until the transaction ends
+        const result = await manager
+          .createQueryBuilder()
+          .update(Reward)
+          .set({ stock: () => "stock - 1" })
+          .where("id = :rewardId AND stock > 0", { rewardId })
+          .execute();
+        if (!result.affected) {
+          throw new ConflictException("This reward is out of stock");
+        }
+      }
+
+      // Skip codes that concurrent redemptions are handing out instead of waiting for them
+      const code = await manager
+        .createQueryBuilder(RewardCode, "code")
+        .where("code.reward_id = :rewardId", { rewardId })
+        .andWhere("code.redeemed_at IS NULL")
+        .andWhere("(code.expires_at IS NULL OR code.expires_at > :now)", { now })
+        .orderBy("code.created_at", "ASC")
+        .limit(1)
+        .setLock("pessimistic_write")
+        .setOnLocked("skip_locked")
+        .getOne();
+      if (!code) {
+        throw new ConflictException("This reward is out of stock");
+      }
+
+      code.redeemedAt = now;
+      await manager.save(code);
+
+      const created = await manager.save(
+        manager.create(Redemption, {
+          userId,
+          rewardId,
+          rewardCodeId: code.id,
+          price: reward.price,
+        }),
+      );
+
+      await this.ledgerService.post(
+        {
+          idempotencyKey: `reward-redemption:${created.id}`,
+          userId,
+          type: LedgerTransactionType.REWARD_REDEMPTION,
+          reference: created.id,
+          description: `Redeemed ${reward.name}`,
+          metadata: { rewardId },
+          postings: [
+            { account: LedgerAccounts.userWallet(userId), amount: -reward.price },
+            { account: LedgerAccounts.REWARD_REDEMPTIONS, amount: reward.price },
+          ],
+          nonNegativeAccounts: [LedgerAccounts.userWallet(userId)],
+        },
+        manager,
+      );
+
+      created.reward = reward;
+      created.rewardCode = code;
+      return created;
+    });
+
+    return this.toRedemptionResponse(redemption);
+  }
+
+  /**
+   * Get the redeemed rewards of a user, newest first
+   * @param userId User's ID
+   * @param query Pagination options
+   * @returns Paginated list of redemptions with their codes
+   */
+  async findRedemptions(userId: string, query: RedemptionsQueryDto): Promise<RedemptionsResponseDto> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+
+    const [redemptions, total] = await this.redemptionRepository.findAndCount({
+      where: { userId },
+      relations: { reward: true, rewardCode: true },
+      order: { createdAt: "DESC" },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return {
+      items: redemptions.map((redemption) => this.toRedemptionResponse(redemption)),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * List all rewards, including inactive ones, newest first
+   * @returns Rewards with their stock and code pool
+   */
+  async findAllForAdmin(): Promise<AdminRewardResponseDto[]> {
+    const rewards = await this.rewardRepository.find({ order: { createdAt: "DESC" } });
+    const availableCodes = await this.countAvailableCodes(rewards.map((reward) => reward.id));
+    return rewards.map((reward) => this.toAdminResponse(reward, availableCodes.get(reward.id) || 0));
+  }
+
+  async create(createRewardDto: CreateRewardDto): Promise<AdminRewardResponseDto> {
+    const reward = this.rewardRepository.create({ stock: null, perUserLimit: null, startsAt: null, endsAt: null });
+    this.applyRewardDto(reward, createRewardDto);
+
+    const saved = await this.rewardRepository.save(reward);
+    return this.toAdminResponse(saved, 0);
+  }
+
+  async update(id: string, updateRewardDto: UpdateRewardDto): Promise<AdminRewardResponseDto> {
+    const reward = await this.rewardRepository.findOne({ where: { id } });
+    if (!reward) {
+      throw new NotFoundException("Reward not found");
+    }
+
+    this.applyRewardDto(reward, updateRewardDto);
+
+    const saved = await this.rewardRepository.save(reward);
+    const availableCodes = await this.countAvailableCodes([saved.id]);
+    return this.toAdminResponse(saved, availableCodes.get(saved.id) || 0);
+  }
+
+  /**
+   * Add codes to the pool of a reward. Codes already in the pool are skipped.
+   * @param id Reward ID
+   * @param uploadRewardCodesDto Codes and their expiry
+   * @returns How many codes were added and skipped
+   */
+  async uploadCodes(id: string, uploadRewardCodesDto: UploadRewardCodesDto): Promise<UploadRewardCodesResponseDto> {
+    if (!(await this.rewardRepository.exists({ where: { id } }))) {
+      throw new NotFoundException("Reward not found");
+    }
+
+    const codes = uploadRewardCodesDto.codes.map((code) => code.trim());
+    const uniqueCodes = [...new Set(codes)];
+    const expiresAt = uploadRewardCodesDto.expiresAt ? new Date(uploadRewardCodesDto.expiresAt) : null;
+
+    let added = 0;
+    for (let start = 0; start < uniqueCodes.length; start += CODE_INSERT_BATCH_SIZE) {
+      const result = await this.rewardCodeRepository
+        .createQueryBuilder()
+        .insert()
+        .into(RewardCode)
+        .values(uniqueCodes.slice(start, start + CODE_INSERT_BATCH_SIZE).map((code) => ({ rewardId: id, code, expiresAt })))
+        .orIgnore()
+        .returning(["id"])
+        .execute();
+      added += result.raw.length;
+    }
+
+    return { added, duplicates: codes.length - added };
+  }
+
+  private applyRewardDto(reward: Reward, rewardDto: UpdateRewardDto): void {
+    const { startsAt, endsAt, ...fields } = rewardDto;
+    Object.assign(reward, fields);
+
+    if (startsAt !== undefined) {
+      reward.startsAt = startsAt ? new Date(startsAt) : null;
+    }
+    if (endsAt !== undefined) {
+      reward.endsAt = endsAt ? new Date(endsAt) : null;
+    }
+
+    if (reward.startsAt && reward.endsAt && reward.endsAt <= reward.startsAt) {
+      throw new BadRequestException("The end date must be after the start date");
+    }
+  }
+
+  /**
+   * Count the codes of each reward that can still be handed out
+   * @param rewardIds Reward IDs
+   * @returns Number of codes by reward ID
+   */
+  private async countAvailableCodes(rewardIds: string[]): Promise<Map<string, number>> {
+    if (rewardIds.length === 0) {
+      return new Map();
+    }
+
+    const rows = await this.rewardCodeRepository
+      .createQueryBuilder("code")
+      .select("code.reward_id", "rewardId")
+      .addSelect("COUNT(*)", "count")
+      .where("code.reward_id IN (:...rewardIds)", { rewardIds })
+      .andWhere("code.redeemed_at IS NULL")
+      .andWhere("(code.expires_at IS NULL OR code.expires_at > :now)", { now: new Date() })
+      .groupBy("code.reward_id")
+      .getRawMany();
+
+    return new Map(rows.map((row) => [row.rewardId, parseInt(row.count, 10)]));
+  }
+
+  private toResponse(reward: Reward, availableCodes: number): RewardResponseDto {
+    return {
+      id: reward.id,
+      name: reward.name,
+      description: reward.description,
+      type: reward.type,
+      partnerName: reward.partnerName,
+      imageUrl: reward.imageUrl,
+      price: reward.price,
+      available: reward.stock === null ? availableCodes : Math.min(reward.stock, availableCodes),
+      perUserLimit: reward.perUserLimit,
+      startsAt: reward.startsAt,
+      endsAt: reward.endsAt,
+    };
+  }
+
+  private toAdminResponse(reward: Reward, availableCodes: number): AdminRewardResponseDto {
+    return {
+      ...this.toResponse(reward, availableCodes),
+      stock: reward.stock,
+      availableCodes,
+      isActive: reward.isActive,
+      createdAt: reward.createdAt,
+    };
+  }
+
+  private toRedemptionResponse(redemption: Redemption): RedemptionResponseDto {
+    return {
+      id: redemption.id,
+      reward: {
+        id: redemption.reward.id,
+        name: redemption.reward.name,
+        type: redemption.reward.type,
+        partnerName: redemption.reward.partnerName,
+        imageUrl: redemption.reward.imageUrl,
+      },
+      code: redemption.rewardCode.code,
+      expiresAt: redemption.rewardCode.expiresAt,
+      price: redemption.price,
+      createdAt: redemption.createdAt,
+    };
+  }
+}
@@ -103,4 +103,126 @@ export class MailerService {
 
     return this.sendMail(to, subject, html);
   }
-}
\ No newline at end of file
+
+  /**
+   * Send an alert that a rotated refresh token was used again
+   * @param to Recipient email address
+   * @param session Device information of the revoked session
+   * @returns Information about the sent email
+   */
+  async sendRefreshTokenReuseEmail(
+    to: string,
+    session: { deviceName?: string; platform?: string; ipAddress?: string },
+  ): Promise<any> {
+    const subject = 'Security Alert: Session Revoked';
+    const device = [session.deviceName, session.platform].filter(Boolean).join(', ') || 'Unknown device';
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2>Suspicious Sign-in Activity</h2>
+        <p>An old sign-in token of one of your devices was used again. This can mean the token was copied from your device.</p>
+        <p>To protect your account, we have signed out this device:</p>
+        <div style="background-color: #f4f4f4; padding: 10px; margin: 20px 0;">
+          <p><strong>Device:</strong> ${device}</p>
+          <p><strong>Last IP address:</strong> ${session.ipAddress || 'Unknown'}</p>
+        </div>
+        <p>If you don't recognize this activity, please change your password and review the devices signed in to your account.</p>
+      </div>
+    `;
+
+    return this.sendMail(to, subject, html);
+  }
+
+  /**
+   * Send an alert that logins to the account were locked after repeated failed attempts
+   * @param to Recipient email address
+   * @param otp Code to unlock the account
+   * @param lockoutMinutes How long the account stays locked without the code
+   * @param ipAddress IP address the last failed attempt came from
+   * @returns Information about the sent email
+   */
+  async sendLoginLockoutEmail(to: string, otp: string, lockoutMinutes: number, ipAddress?: string): Promise<any> {
+    const subject = 'Security Alert: Login Locked';
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2>Too Many Failed Login Attempts</h2>
+        <p>Someone entered the wrong password for your account several times, most recently from IP address ${ipAddress || 'Unknown'}.</p>
+        <p>To protect your account, logging in with a password is locked for ${lockoutMinutes} minutes. If this was you, you can unlock it now with the following code:</p>
+        <div style="background-color: #f4f4f4; padding: 10px; text-align: center; font-size: 24px; letter-spacing: 5px; margin: 20px 0;">
+          <strong>${otp}</strong>
+        </div>
+        <p>If this wasn't you, we recommend changing your password. Don't share this code with anyone.</p>
+      </div>
+    `;
+
+    return this.sendMail(to, subject, html);
+  }
+
+  /**
+   * Send the code to reset two-factor authentication when the authenticator app was lost
+   * @param to Recipient email address
+   * @param otp One-time password
+   * @returns Information about the sent email
+   */
+  async sendTwoFactorResetOtpEmail(to: string, otp: string): Promise<any> {
+    const subject = 'Security Alert: Two-Factor Authentication Reset';
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2>Reset Two-Factor Authentication</h2>
+        <p>Someone logged in to your account with your password and asked to turn off two-factor authentication, because the authenticator app was lost. Please use the following code to confirm:</p>
+        <div style="background-color: #f4f4f4; padding: 10px; text-align: center; font-size: 24px; letter-spacing: 5px; margin: 20px 0;">
+          <strong>${otp}</strong>
+        </div>
+        <p>This code will expire in 5 minutes.</p>
+        <p>If this wasn't you, don't share this code with anyone and change your password right away.</p>
+      </div>
+    `;
+
+    return this.sendMail(to, subject, html);
+  }
+
+  /**
+   * Tell the previous email address of an account that the email was changed
+   * @param to Previous email address
+   * @param newEmail New email address of the account
+   * @returns Information about the sent email
+   */
+  async sendEmailChangedEmail(to: string, newEmail: string): Promise<any> {
+    const subject = 'Security Alert: Email Address Changed';
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2>Your Email Address Was Changed</h2>
+        <p>The email address of your account was changed to <strong>${newEmail}</strong>. Emails about your account will be sent there from now on.</p>
+        <p>If you didn't make this change, please contact support right away.</p>
+      </div>
+    `;
+
+    return this.sendMail(to, subject, html);
+  }
+
+  /**
+   * Send an alert that the account was logged in to from a new device
+   * @param to Recipient email address
+   * @param device Information about the device that logged in
+   * @returns Information about the sent email
+   */
+  async sendNewDeviceLoginEmail(
+    to: string,
+    device: { deviceName?: string; platform?: string; ipAddress?: string; userAgent?: string },
+  ): Promise<any> {
+    const subject = 'Security Alert: New Device Login';
+    const deviceLabel = [device.deviceName, device.platform].filter(Boolean).join(', ') || device.userAgent || 'Unknown device';
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2>New Login to Your Account</h2>
+        <p>Your account was just logged in to from a device you haven't used before:</p>
+        <div style="background-color: #f4f4f4; padding: 10px; margin: 20px 0;">
+          <p><strong>Device:</strong> ${deviceLabel}</p>
+          <p><strong>IP address:</strong> ${device.ipAddress || 'Unknown'}</p>
+        </div>
+        <p>If this was you, you can ignore this email. If not, please change your password and log out the device from the list of devices signed in to your account.</p>
+      </div>
+    `;
+
+    return this.sendMail(to, subject, html);
+  }
+}
@@ -1,15 +1,20 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import Redis from 'ioredis';
+import { randomUUID } from 'crypto';
 
 export enum OtpType {
   REGISTRATION = 'registration',
   PASSWORD_RESET = 'password_reset',
-  FIND_USERNAME = 'find_username'
+  FIND_USERNAME = 'find_username',
+  ADD_EMAIL = 'add_email',
+  LOGIN_UNLOCK = 'login_unlock',
+  TWO_FACTOR_RESET = 'two_factor_reset',
+  CHANGE_EMAIL = 'change_email'
 }
 
 @Injectable()
-export class ValkeyService {
+export class ValkeyService implements OnModuleDestroy {
   private readonly client: Redis;
   private readonly defaultOtpExpiry: number = 5 * 60; // 5 minutes in seconds
   private readonly defaultNonceExpiry: number = 5 * 60; // 5 minutes in seconds
@@ -23,6 +28,11 @@ export class ValkeyService {
     });
   }
 
+  // Close the connection so that standalone scripts can exit
+  async onModuleDestroy(): Promise<void> {
+    await this.client.quit();
+  }
+
   /**
    * Store OTP for email verification or password reset
    * @param email User's email
@@ -37,6 +47,9 @@ export class ValkeyService {
       timestamp: Date.now(),
     });
     await this.client.set(key, value, 'EX', otpExpiry);
+
+    // A new code gets a fresh set of attempts
+    await this.client.del(this.getOtpAttemptsKey(email, type));
   }
 
   /**
@@ -56,6 +69,31 @@ export class ValkeyService {
     return JSON.parse(value);
   }
 
+  /**
+   * Delete the OTP and its attempt counter, e.g. once it has been used
+   * @param email User's email
+   * @param type Type of OTP
+   */
+  async deleteOtp(email: string, type: OtpType = OtpType.REGISTRATION): Promise<void> {
+    await this.client.del(this.getOtpKey(email, type), this.getOtpAttemptsKey(email, type));
+  }
+
+  /**
+   * Count an attempt to verify an OTP. The increment is atomic, so concurrent
+   * attempts each get their own number.
+   * @param email User's email
+   * @param type Type of OTP
+   * @param expiryInSeconds How long the counter is kept, at least as long as the OTP
+   * @returns Number of attempts so far, including this one
+   */
+  async incrementOtpAttempts(email: string, type: OtpType, expiryInSeconds = this.defaultOtpExpiry): Promise<number> {
+    return this.incrementCounter(this.getOtpAttemptsKey(email, type), expiryInSeconds);
+  }
+
+  private getOtpAttemptsKey(email: string, type: OtpType): string {
+    return `otp:attempts:${type}:${email}`;
+  }
+
   /**
    * Generate OTP key for email
    * @param email User's email
@@ -136,4 +174,274 @@ export class ValkeyService {
   private getAttestationNonceKey(userId: string, nonce: string): string {
     return `attestation:nonce:${userId}:${nonce}`;
   }
+
+  /**
+   * Cache a JSON serializable value
+   * @param key Cache key
+   * @param value Value to cache
+   * @param expiryInSeconds Expiry time in seconds
+   */
+  async setJson(key: string, value: unknown, expiryInSeconds: number): Promise<void> {
+    await this.client.set(key, JSON.stringify(value), 'EX', expiryInSeconds);
+  }
+
+  /**
+   * Get a cached JSON value
+   * @param key Cache key
+   * @returns The cached value, or null if missing or expired
+   */
+  async getJson<T>(key: string): Promise<T | null> {
+    const value = await this.client.get(key);
+    return value ? JSON.parse(value) : null;
+  }
+
+  /**
+   * Increment a counter that resets once its window has passed
+   * @param key Counter key
+   * @param windowInSeconds Length of the window, starting with the first increment
+   * @returns The counter value after incrementing
+   */
+  async incrementCounter(key: string, windowInSeconds: number): Promise<number> {
+    const count = await this.client.incr(key);
+    if (count === 1) {
+      await this.client.expire(key, windowInSeconds);
+    }
+    return count;
+  }
+
+  /**
+   * Get the remaining time to live of a key
+   * @param key Key to check
+   * @returns Seconds until the key expires, or null if it doesn't exist or never expires
+   */
+  async getTtl(key: string): Promise<number | null> {
+    const ttl = await this.client.ttl(key);
+    return ttl >= 0 ? ttl : null;
+  }
+
+  /**
+   * Record an event in a sliding window
+   * @param key Window key
+   * @param windowInSeconds Length of the window
+   * @param member Unique ID of the event, to remove it again later
+   * @returns Number of events in the last windowInSeconds, including this one
+   */
+  async addToSlidingWindow(key: string, windowInSeconds: number, member?: string): Promise<number> {
+    const now = Date.now();
+    const results = await this.client
+      .multi()
+      .zremrangebyscore(key, 0, now - windowInSeconds * 1000)
+      .zadd(key, now, member ?? `${now}:${randomUUID()}`)
+      .zcard(key)
+      .expire(key, windowInSeconds)
+      .exec();
+
+    return Number(results[2][1]);
+  }
+
+  /**
+   * Remove an event from a sliding window
+   * @param key Window key
+   * @param member Unique ID the event was added with
+   */
+  async removeFromSlidingWindow(key: string, member: string): Promise<void> {
+    await this.client.zrem(key, member);
+  }
+
+  /**
+   * Count the events in a sliding window
+   * @param key Window key
+   * @param windowInSeconds Length of the window
+   * @returns Number of events in the last windowInSeconds
+   */
+  async countSlidingWindow(key: string, windowInSeconds: number): Promise<number> {
+    const now = Date.now();
+    const results = await this.client
+      .multi()
+      .zremrangebyscore(key, 0, now - windowInSeconds * 1000)
+      .zcard(key)
+      .exec();
+
+    return Number(results[1][1]);
+  }
+
+  /**
+   * Delete a key
+   * @param key Key to delete
+   */
+  async delete(key: string): Promise<void> {
+    await this.client.del(key);
+  }
+
+  /**
+   * Set a value unless the key already exists
+   * @param key Key to set
+   * @param value Value to set
+   * @param expiryInSeconds Expiry time in seconds
+   * @returns Whether the value was set
+   */
+  async setIfNotExists(key: string, value: string, expiryInSeconds: number): Promise<boolean> {
+    return (await this.client.set(key, value, 'EX', expiryInSeconds, 'NX')) === 'OK';
+  }
+
+  /**
+   * Get a value
+   * @param key Key to get
+   * @returns The value, or null if the key doesn't exist
+   */
+  async getValue(key: string): Promise<string | null> {
+    return this.client.get(key);
+  }
+
+  /**
+   * Set a value and get the value it replaced
+   * @param key Key to set
+   * @param value New value
+   * @param expiresAt When the key expires
+   * @returns The previous value, or null if the key didn't exist
+   */
+  async replaceValue(key: string, value: string, expiresAt: Date): Promise<string | null> {
+    return this.client.set(key, value, 'EXAT', this.toUnixTime(expiresAt), 'GET');
+  }
+
+  /**
+   * Set many values at once
+   * @param values Values by key
+   * @param expiresAt When the keys expire
+   */
+  async setValues(values: Map<string, string>, expiresAt: Date): Promise<void> {
+    const pipeline = this.client.pipeline();
+    values.forEach((value, key) => pipeline.set(key, value, 'EXAT', this.toUnixTime(expiresAt)));
+    await pipeline.exec();
+  }
+
+  /**
+   * Increment a member's score in a sorted set and copy the resulting score to
+   * further sorted sets, atomically
+   * @param keys Sorted set to increment the score in, followed by the sorted sets to copy it to
+   * @param member Member to increment
+   * @param increment Amount to add, may be negative
+   * @param expiresAt When the sorted sets expire
+   * @returns The member's new score
+   */
+  async incrementSortedSetScore(keys: string[], member: string, increment: number, expiresAt: Date): Promise<number> {
+    const score = await this.client.eval(
+      `local score = redis.call('ZINCRBY', KEYS[1], ARGV[2], ARGV[1])
+      for i = 1, #KEYS do
+        if i > 1 then
+          redis.call('ZADD', KEYS[i], score, ARGV[1])
+        end
+        redis.call('EXPIREAT', KEYS[i], ARGV[3])
+      end
+      return score`,
+      keys.length,
+      ...keys,
+      member,
+      increment,
+      this.toUnixTime(expiresAt),
+    );
+    return Number(score);
+  }
+
+  /**
+   * Replace the content of a sorted set. Readers see either the old or the new content.
+   * @param key Sorted set key
+   * @param scores Scores by member; an empty map deletes the sorted set
+   * @param expiresAt When the sorted set expires
+   */
+  async replaceSortedSet(key: string, scores: Map<string, number>, expiresAt: Date): Promise<void> {
+    if (scores.size === 0) {
+      await this.client.del(key);
+      return;
+    }
+
+    const tempKey = `${key}:${randomUUID()}`;
+    const entries = Array.from(scores.entries());
+    for (let start = 0; start < entries.length; start += 1000) {
+      const args = entries.slice(start, start + 1000).flatMap(([member, score]) => [score, member]);
+      await this.client.zadd(tempKey, ...args);
+    }
+
+    await this.client.multi().rename(tempKey, key).expireat(key, this.toUnixTime(expiresAt)).exec();
+  }
+
+  /**
+   * Remove a member from sorted sets
+   * @param keys Sorted set keys
+   * @param member Member to remove
+   */
+  async removeFromSortedSets(keys: string[], member: string): Promise<void> {
+    const pipeline = this.client.pipeline();
+    keys.forEach((key) => pipeline.zrem(key, member));
+    await pipeline.exec();
+  }
+
+  /**
+   * Get the members with the highest scores of a sorted set
+   * @param key Sorted set key
+   * @param count Number of members
+   * @returns Members and their scores, highest first
+   */
+  async getTopOfSortedSet(key: string, count: number): Promise<{ member: string; score: number }[]> {
+    const values = await this.client.zrevrange(key, 0, count - 1, 'WITHSCORES');
+
+    const members: { member: string; score: number }[] = [];
+    for (let index = 0; index < values.length; index += 2) {
+      members.push({ member: values[index], score: Number(values[index + 1]) });
+    }
+    return members;
+  }
+
+  /**
+   * Get the scores of members of a sorted set
+   * @param key Sorted set key
+   * @param members Members to look up
+   * @returns Score of each member, or null if it isn't in the sorted set
+   */
+  async getSortedSetScores(key: string, members: string[]): Promise<(number | null)[]> {
+    if (members.length === 0) {
+      return [];
+    }
+
+    const scores = await this.client.zmscore(key, ...members);
+    return scores.map((score) => (score === null ? null : Number(score)));
+  }
+
+  /**
+   * Count the members of a sorted set with a score higher than the given one
+   * @param key Sorted set key
+   * @param score Score to compare with
+   */
+  async countSortedSetAbove(key: string, score: number): Promise<number> {
+    return this.client.zcount(key, `(${score}`, '+inf');
+  }
+
+  /**
+   * Count the members of a sorted set
+   * @param key Sorted set key
+   */
+  async getSortedSetSize(key: string): Promise<number> {
+    return this.client.zcard(key);
+  }
+
+  /**
+   * Find the keys matching a pattern without blocking the server
+   * @param pattern Glob-style pattern, e.g. "leaderboard:*"
+   * @returns Matching keys
+   */
+  async scanKeys(pattern: string): Promise<string[]> {
+    const keys = new Set<string>();
+    let cursor = '0';
+    do {
+      const [nextCursor, batch] = await this.client.scan(cursor, 'MATCH', pattern, 'COUNT', 1000);
+      batch.forEach((key) => keys.add(key));
+      cursor = nextCursor;
+    } while (cursor !== '0');
+
+    return Array.from(keys);
+  }
+
+  private toUnixTime(date: Date): number {
+    return Math.ceil(date.getTime() / 1000);
+  }
 }
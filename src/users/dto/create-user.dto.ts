@@ -1,5 +1,5 @@
 import { ApiProperty } from "@nestjs/swagger";
-import { IsEmail, IsNotEmpty, IsString, MinLength } from "class-validator";
+import { IsEmail, IsNotEmpty, IsOptional, IsString, MinLength } from "class-validator";
 
 export class CreateUserDto {
   @ApiProperty({
@@ -42,10 +42,7 @@ export class CreateUserDto {
     example: "abc123",
     required: false,
   })
+  @IsOptional()
   @IsString()
   invitedCode?: string;
-
-  refreshToken: string;
-
-  refreshTokenCreatedAt: Date;
 }
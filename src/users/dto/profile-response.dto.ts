@@ -55,6 +55,18 @@ export class ProfileResponseDto {
   @ApiProperty({ description: "The residential area of the user", required: false })
   residentialArea: string;
 
+  @Expose()
+  @ApiProperty({ description: "The IANA timezone health data is bucketed in", required: false })
+  timezone: string;
+
+  @Expose()
+  @ApiProperty({ description: "The daily step goal set by the user; derived from the profile if not set", required: false })
+  dailyStepGoal: number;
+
+  @Expose()
+  @ApiProperty({ description: "Whether the user is hidden from the step leaderboards" })
+  leaderboardOptOut: boolean;
+
   @Expose()
   @ApiProperty({ description: "The invite code that can be shared with other users" })
   inviteCode: string;
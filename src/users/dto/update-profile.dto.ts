@@ -1,5 +1,5 @@
 import { ApiProperty } from "@nestjs/swagger";
-import { IsOptional, IsString, IsNumber, IsDate, MaxLength, IsEnum, IsUrl } from "class-validator";
+import { IsOptional, IsString, IsNumber, IsDate, MaxLength, IsEnum, IsUrl, IsTimeZone, IsInt, Min, Max } from "class-validator";
 import { Type } from "class-transformer";
 
 enum Sex {
@@ -77,4 +77,27 @@ export class UpdateProfileDto {
   @IsOptional()
   @IsString({ message: "Residential area must be a string" })
   residentialArea?: string;
+
+  @ApiProperty({
+    description: "The IANA timezone used to assign health data to days",
+    example: "Asia/Bangkok",
+    required: false
+  })
+  @IsOptional()
+  @IsTimeZone({ message: "Timezone must be a valid IANA timezone" })
+  timezone?: string;
+
+  @ApiProperty({
+    description: "The daily step goal",
+    example: 8000,
+    minimum: 1000,
+    maximum: 50000,
+    required: false
+  })
+  @IsOptional()
+  @IsInt({ message: "Daily step goal must be an integer" })
+  @Min(1000, { message: "Daily step goal must be at least 1000" })
+  @Max(50000, { message: "Daily step goal cannot exceed 50000" })
+  @Type(() => Number)
+  dailyStepGoal?: number;
 }
\ No newline at end of file
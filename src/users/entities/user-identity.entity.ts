@@ -0,0 +1,48 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from "typeorm";
+import { ApiProperty } from "@nestjs/swagger";
+import { User, AuthProvider } from "./user.entity";
+
+/**
+ * A way of signing in to an account. A user can have one identity per provider;
+ * the local identity stands for the username/password login.
+ */
+@Entity("user_identities")
+@Index("IDX_user_identities_provider_provider_id", ["provider", "providerId"], { unique: true })
+@Index("IDX_user_identities_user_id_provider", ["userId", "provider"], { unique: true })
+export class UserIdentity {
+  @PrimaryGeneratedColumn("uuid")
+  @ApiProperty({ description: "The unique identifier of the identity" })
+  id: string;
+
+  @ManyToOne(() => User, (user) => user.identities, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "user_id", foreignKeyConstraintName: "FK_user_identities_user_id" })
+  user: User;
+
+  @Column({ name: "user_id" })
+  @ApiProperty({ description: "The ID of the user the identity belongs to" })
+  userId: string;
+
+  @Column({ type: "enum", enum: AuthProvider })
+  @ApiProperty({ description: "The provider of the identity", enum: AuthProvider })
+  provider: AuthProvider;
+
+  @Column({ name: "provider_id", type: "varchar", nullable: true })
+  @ApiProperty({ description: "The user's ID at the provider, empty for the local identity", required: false })
+  providerId: string | null;
+
+  @Column({ type: "varchar", nullable: true })
+  @ApiProperty({ description: "The email the provider reported for the user", required: false })
+  email: string | null;
+
+  @CreateDateColumn({ name: "created_at" })
+  @ApiProperty({ description: "The date when the identity was linked" })
+  createdAt: Date;
+}
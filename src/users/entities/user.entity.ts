@@ -4,11 +4,13 @@ import {
   PrimaryGeneratedColumn,
   CreateDateColumn,
   UpdateDateColumn,
+  OneToMany,
   BeforeInsert, BeforeUpdate, AfterLoad,
 } from "typeorm";
 import { Exclude } from "class-transformer";
 import * as bcrypt from "bcrypt";
 import { ApiProperty } from "@nestjs/swagger";
+import { UserIdentity } from "./user-identity.entity";
 
 export enum AuthProvider {
   LOCAL = 'local',
@@ -18,6 +20,11 @@ export enum AuthProvider {
   GOOGLE = 'google'
 }
 
+export enum UserRole {
+  USER = 'user',
+  ADMIN = 'admin'
+}
+
 @Entity("users")
 export class User {
   @PrimaryGeneratedColumn("uuid")
@@ -46,7 +53,7 @@ export class User {
     default: AuthProvider.LOCAL
   })
   @ApiProperty({ 
-    description: "The authentication provider used for this user",
+    description: "The authentication provider the account was created with",
     enum: AuthProvider,
     default: AuthProvider.LOCAL
   })
@@ -54,20 +61,30 @@ export class User {
 
   @Column({ nullable: true })
   @ApiProperty({
-    description: "The external provider ID (Facebook ID, Google ID, etc.)",
+    description: "The external provider ID (Facebook ID, Google ID, etc.) the account was created with",
   })
   providerId: string;
 
+  @Column({
+    type: 'enum',
+    enum: UserRole,
+    default: UserRole.USER
+  })
+  @ApiProperty({
+    description: "The role of the user; admins can use the admin API",
+    enum: UserRole,
+    default: UserRole.USER
+  })
+  role: UserRole;
+
+  // Every way the user can sign in. Referenced by name, since user-identity.entity imports AuthProvider from here
+  @OneToMany("UserIdentity", (identity: UserIdentity) => identity.user, { cascade: ["insert"] })
+  identities: UserIdentity[];
+
   @Column({ nullable: true })
-  @ApiProperty({ description: "The refresh token for JWT authentication" })
-  @Exclude()
-  refreshToken: string;
-  
-  @Column({ nullable: true })
-  @ApiProperty({ description: "The timestamp when the refresh token was created" })
   @Exclude()
-  refreshTokenCreatedAt: Date;
-  
+  appleRefreshToken: string;
+
   @Column({ nullable: true })
   @ApiProperty({ description: "The avatar URL of the user" })
   avatar: string;
@@ -92,6 +109,18 @@ export class User {
   @ApiProperty({ description: "The residential area of the user" })
   residentialArea: string;
 
+  @Column({ nullable: true, length: 64 })
+  @ApiProperty({ description: "The IANA timezone health data is bucketed in (e.g. Asia/Bangkok)" })
+  timezone: string;
+
+  @Column({ nullable: true, type: 'int' })
+  @ApiProperty({ description: "The daily step goal set by the user; derived from the profile if not set" })
+  dailyStepGoal: number;
+
+  @Column({ default: false })
+  @ApiProperty({ description: "Whether the user is hidden from the step leaderboards" })
+  leaderboardOptOut: boolean;
+
   @Column({ nullable: true, unique: true })
   @ApiProperty({ description: "The invite code that can be shared with other users" })
   inviteCode: string;
@@ -130,59 +159,9 @@ export class User {
     return bcrypt.compare(password, this.password);
   }
 
-  // temp property to hold current value before update
-  private _originalRefreshToken: string;
-
-  @BeforeInsert()
-  async hashRefreshToken() {
-    if (this.refreshToken) {
-      this.refreshToken = await bcrypt.hash(this.refreshToken, 10);
-    }
-  }
-
-  @BeforeUpdate()
-  async hashRefreshTokenOnUpdate() {
-    if (this.refreshToken && this.refreshToken !== this._originalRefreshToken) {
-      this.refreshToken = await bcrypt.hash(this.refreshToken, 10);
-    }
-  }
-
-  /**
-   * Validates a refresh token against the stored hash and checks if it has expired
-   * @param refreshToken The refresh token to validate
-   * @param refreshExpSec The expiration time in seconds (provided by AuthService from ConfigService)
-   * @returns Object with status and isValid flag. Status can be 'valid', 'expired', or 'invalid'
-   */
-  async validateRefreshToken(refreshToken: string, refreshExpSec?: number): Promise<{ status: 'valid' | 'expired' | 'invalid', isValid: boolean }> {
-    if (!this.refreshToken || !this.refreshTokenCreatedAt) {
-      return { status: 'invalid', isValid: false };
-    }
-    
-    // Use provided expiration time or default to 7 days (604800 seconds)
-    const expirationSeconds = refreshExpSec || 604800;
-    
-    // Check if the refresh token has expired
-    const now = new Date();
-    const expirationDate = new Date(this.refreshTokenCreatedAt);
-    expirationDate.setSeconds(expirationDate.getSeconds() + expirationSeconds);
-    
-    if (now > expirationDate) {
-      // Token has expired
-      return { status: 'expired', isValid: false };
-    }
-    
-    // Token hasn't expired, validate it
-    const isValid = await bcrypt.compare(refreshToken, this.refreshToken);
-    return { 
-      status: isValid ? 'valid' : 'invalid', 
-      isValid 
-    };
-  }
-
   // Hook to capture the original value after loading
   @AfterLoad()
-  private loadOriginalPasswordAndRefreshToken() {
+  private loadOriginalPassword() {
     this._originalPassword = this.password;
-    this._originalRefreshToken = this.refreshToken;
   }
 }
@@ -0,0 +1,11 @@
+// LINE accounts whose owner did not share an email get an address on this domain,
+// since users.email is required. Nothing can be delivered to it.
+export const LINE_PLACEHOLDER_EMAIL_DOMAIN = "line.placeholder";
+
+export function createLinePlaceholderEmail(lineId: string): string {
+  return `line_${lineId}@${LINE_PLACEHOLDER_EMAIL_DOMAIN}`;
+}
+
+export function isPlaceholderEmail(email: string): boolean {
+  return email.endsWith(`@${LINE_PLACEHOLDER_EMAIL_DOMAIN}`);
+}
@@ -0,0 +1,126 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import { Repository } from "typeorm";
+import { User, AuthProvider } from "./entities/user.entity";
+import { UserIdentity } from "./entities/user-identity.entity";
+
+@Injectable()
+export class UserIdentitiesService {
+  constructor(
+    @InjectRepository(UserIdentity)
+    private identitiesRepository: Repository<UserIdentity>
+  ) {}
+
+  /**
+   * Find the user a provider account is linked to
+   * @param provider Identity provider
+   * @param providerId User's ID at the provider
+   * @returns The linked user, or null if the provider account is not linked
+   */
+  async findUser(provider: AuthProvider, providerId: string): Promise<User | null> {
+    const identity = await this.identitiesRepository.findOne({
+      where: { provider, providerId },
+      relations: { user: true },
+    });
+
+    return identity?.user || null;
+  }
+
+  /**
+   * List the ways a user can sign in
+   * @param userId User's ID
+   * @returns The user's identities, oldest first
+   */
+  async findByUserId(userId: string): Promise<UserIdentity[]> {
+    return this.identitiesRepository.find({
+      where: { userId },
+      order: { createdAt: "ASC" },
+    });
+  }
+
+  async hasIdentity(userId: string, provider: AuthProvider): Promise<boolean> {
+    return this.identitiesRepository.exists({ where: { userId, provider } });
+  }
+
+  /**
+   * Link a provider account to a user
+   * @param userId User's ID
+   * @param provider Identity provider
+   * @param providerId User's ID at the provider, null for the local identity
+   * @param email Email the provider reported, if any
+   * @returns The linked identity
+   */
+  async link(
+    userId: string,
+    provider: AuthProvider,
+    providerId: string | null,
+    email: string | null
+  ): Promise<UserIdentity> {
+    const providerName = provider.charAt(0).toUpperCase() + provider.slice(1);
+
+    if (providerId) {
+      const linked = await this.identitiesRepository.findOne({ where: { provider, providerId } });
+      if (linked) {
+        if (linked.userId !== userId) {
+          throw new ConflictException(`This ${providerName} account is already linked to another user`);
+        }
+        return linked;
+      }
+    }
+
+    if (await this.hasIdentity(userId, provider)) {
+      throw new ConflictException(`A ${providerName} account is already linked`);
+    }
+
+    try {
+      return await this.identitiesRepository.save(
+        this.identitiesRepository.create({ userId, provider, providerId, email })
+      );
+    } catch (error) {
+      // A concurrent request linked the same provider account first
+      if (error.code === "23505") {
+        throw new ConflictException(`This ${providerName} account is already linked`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Unlink a provider from a user. The last identity cannot be unlinked, since
+   * the user would no longer be able to sign in.
+   * @param userId User's ID
+   * @param provider Identity provider to unlink
+   */
+  async unlink(userId: string, provider: AuthProvider): Promise<void> {
+    await this.identitiesRepository.manager.transaction(async (manager) => {
+      // Lock the user so that concurrent unlinks cannot remove the last two identities
+      await manager.findOne(User, {
+        where: { id: userId },
+        lock: { mode: "pessimistic_write" },
+      });
+
+      const identities = await manager.find(UserIdentity, { where: { userId } });
+      const identity = identities.find((item) => item.provider === provider);
+
+      if (!identity) {
+        throw new NotFoundException("Identity not found");
+      }
+
+      if (identities.length === 1) {
+        throw new BadRequestException("Cannot unlink the last sign-in method");
+      }
+
+      await manager.delete(UserIdentity, { id: identity.id });
+
+      // Without the local identity the password must no longer work
+      if (provider === AuthProvider.LOCAL) {
+        await manager.update(User, { id: userId }, { password: null });
+      }
+    });
+  }
+}
@@ -3,15 +3,17 @@ import { TypeOrmModule } from "@nestjs/typeorm";
 import { UsersService } from "./users.service";
 import { UsersController } from "./users.controller";
 import { User } from "./entities/user.entity";
+import { UserIdentity } from "./entities/user-identity.entity";
+import { UserIdentitiesService } from "./user-identities.service";
 import { FileUploadModule } from "../file-upload/file-upload.module";
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([User]),
+    TypeOrmModule.forFeature([User, UserIdentity]),
     forwardRef(() => FileUploadModule),
   ],
   controllers: [UsersController],
-  providers: [UsersService],
-  exports: [UsersService], // Export UsersService to be used in other modules like AuthModule
+  providers: [UsersService, UserIdentitiesService],
+  exports: [UsersService, UserIdentitiesService], // Export UsersService to be used in other modules like AuthModule
 })
 export class UsersModule {}
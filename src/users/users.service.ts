@@ -5,13 +5,15 @@ import {
   InternalServerErrorException,
 } from "@nestjs/common";
 import { InjectRepository } from "@nestjs/typeorm";
-import { Repository } from "typeorm";
+import { In, Repository } from "typeorm";
 import { User, AuthProvider } from "./entities/user.entity";
+import { UserIdentity } from "./entities/user-identity.entity";
 import { CreateUserDto } from "./dto/create-user.dto";
 import { UpdateProfileDto } from "./dto/update-profile.dto";
 import { ProfileResponseDto } from "./dto/profile-response.dto";
 import { plainToInstance } from "class-transformer";
 import { FileUploadService } from "../file-upload/file-upload.service";
+import { createLinePlaceholderEmail } from "./placeholder-email";
 
 @Injectable()
 export class UsersService {
@@ -45,7 +47,10 @@ export class UsersService {
     const maxRetries = 5;
     let retries = 0;
 
-    const user = this.usersRepository.create(createUserDto);
+    const user = this.usersRepository.create({
+      ...createUserDto,
+      identities: [{ provider: AuthProvider.LOCAL, email: createUserDto.email }],
+    });
     while (retries < maxRetries) {
       try {
         // Generate a new invite code
@@ -68,6 +73,18 @@ export class UsersService {
   }
 
   async createFacebookUser(email: string, providerId: string, name: string): Promise<User> {
+    return this.createSocialUser(AuthProvider.FACEBOOK, email, providerId, name);
+  }
+
+  /**
+   * Create a user signing in with an identity provider that verifies emails
+   * @param provider Identity provider
+   * @param email Verified email address
+   * @param providerId User's ID at the provider
+   * @param name Display name
+   * @returns The created user
+   */
+  async createSocialUser(provider: AuthProvider, email: string, providerId: string, name: string): Promise<User> {
     const existingUser = await this.usersRepository.findOne({
       where: { email },
     });
@@ -92,16 +109,24 @@ export class UsersService {
       username,
       name,
       providerId,
-      provider: AuthProvider.FACEBOOK,
+      provider,
+      identities: [{ provider, providerId, email }],
     });
 
     return this.usersRepository.save(user);
   }
 
-  async createLineUser(email: string, providerId: string, name: string): Promise<User> {
+  /**
+   * Create a user signing in with LINE
+   * @param email Email from the ID token, null if the user did not grant the email permission
+   * @param providerId User's LINE ID
+   * @param name Display name
+   * @returns The created user
+   */
+  async createLineUser(email: string | null, providerId: string, name: string): Promise<User> {
     // Check if user already exists by providerId for Line users (since email is placeholder)
     const existingUserByProviderId = await this.usersRepository.findOne({
-      where: { providerId, provider: AuthProvider.LINE },
+      where: { identities: { provider: AuthProvider.LINE, providerId } },
     });
 
     if (existingUserByProviderId) {
@@ -109,7 +134,7 @@ export class UsersService {
     }
 
     // For Line users, also check by email in case it's a real email
-    if (!email.includes('line.placeholder')) {
+    if (email) {
       const existingUser = await this.usersRepository.findOne({
         where: { email },
       });
@@ -131,16 +156,29 @@ export class UsersService {
     }
 
     const user = this.usersRepository.create({
-      email,
+      // users.email is required, so users who did not share theirs get a placeholder
+      email: email || createLinePlaceholderEmail(providerId),
       username,
       name,
       providerId,
       provider: AuthProvider.LINE,
+      identities: [{ provider: AuthProvider.LINE, providerId, email }],
     });
 
     return this.usersRepository.save(user);
   }
 
+  async findById(id: string): Promise<User | null> {
+    return this.usersRepository.findOne({ where: { id } });
+  }
+
+  async findByIds(ids: string[]): Promise<User[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    return this.usersRepository.find({ where: { id: In(ids) } });
+  }
+
   async findByEmail(email: string): Promise<User | null> {
     return this.usersRepository.findOne({ where: { email } });
   }
@@ -149,26 +187,52 @@ export class UsersService {
     return this.usersRepository.findOne({ where: { username } });
   }
 
-  async findByProviderId(providerId: string, provider: AuthProvider): Promise<User | null> {
-    return this.usersRepository.findOne({ 
-      where: { providerId, provider } 
-    });
+  async findByInviteCode(inviteCode: string): Promise<User | null> {
+    return this.usersRepository.findOne({ where: { inviteCode } });
   }
 
-  async updateProviderId(userId: string, providerId: string): Promise<void> {
-    await this.usersRepository.update(userId, { providerId });
+  async setInvitedCode(userId: string, invitedCode: string): Promise<void> {
+    await this.usersRepository.update(userId, { invitedCode });
   }
 
-  async setRefreshToken(
-    userId: string,
-    refreshToken: string | null
-  ): Promise<void> {
-    const user = await this.usersRepository.findOne({ where: { id: userId } });
-    user.refreshToken = refreshToken;
-    // Set the refresh token creation timestamp when a new token is set
-    // Set to null when the refresh token is removed (during logout)
-    user.refreshTokenCreatedAt = refreshToken ? new Date() : null;
-    await this.usersRepository.save(user);
+  /**
+   * Change the user's email address
+   * @param userId User's ID
+   * @param email New email address, which must have been verified
+   */
+  async updateEmail(userId: string, email: string): Promise<void> {
+    try {
+      await this.usersRepository.manager.transaction(async (manager) => {
+        await manager.update(User, { id: userId }, { email });
+
+        // The password login belongs to the account's email, unlike the addresses social providers report
+        await manager.update(UserIdentity, { userId, provider: AuthProvider.LOCAL }, { email });
+      });
+    } catch (error) {
+      // Another account registered the address in the meantime
+      if (error.code === '23505') {
+        throw new ConflictException("Email already exists");
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Show or hide the user on the step leaderboards
+   * @param userId User's ID
+   * @param leaderboardOptOut Whether the user is hidden
+   */
+  async setLeaderboardOptOut(userId: string, leaderboardOptOut: boolean): Promise<void> {
+    await this.usersRepository.update(userId, { leaderboardOptOut });
+  }
+
+  /**
+   * Store the Apple refresh token needed to revoke the user's Sign in with Apple authorization
+   * @param userId User's ID
+   * @param appleRefreshToken Refresh token from Apple's token endpoint
+   */
+  async setAppleRefreshToken(userId: string, appleRefreshToken: string): Promise<void> {
+    await this.usersRepository.update(userId, { appleRefreshToken });
   }
 
   /**
@@ -0,0 +1,131 @@
+import { Body, Controller, Get, HttpCode, HttpStatus, Param, ParseUUIDPipe, Post, Query, Request, UseGuards } from "@nestjs/common";
+import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from "@nestjs/swagger";
+import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
+import { RolesGuard } from "../auth/guards/roles.guard";
+import { Roles } from "../auth/decorators/roles.decorator";
+import { UserRole } from "../users/entities/user.entity";
+import { WithdrawalsService } from "./withdrawals.service";
+import {
+  AdminWithdrawalResponseDto,
+  AdminWithdrawalsQueryDto,
+  AdminWithdrawalsResponseDto,
+  MarkWithdrawalFailedDto,
+  MarkWithdrawalPaidDto,
+  RejectWithdrawalDto,
+} from "./dto/withdrawal.dto";
+
+@ApiTags("admin")
+@Controller("admin/withdrawals")
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@ApiBearerAuth()
+export class AdminWithdrawalsController {
+  constructor(private readonly withdrawalsService: WithdrawalsService) {}
+
+  @Get()
+  @ApiOperation({ summary: "List withdrawals of all users for review" })
+  @ApiResponse({
+    status: 200,
+    description: "Returns the withdrawals, newest first",
+    type: AdminWithdrawalsResponseDto,
+  })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({ status: 403, description: "Not an admin" })
+  findAll(@Query() query: AdminWithdrawalsQueryDto): Promise<AdminWithdrawalsResponseDto> {
+    return this.withdrawalsService.findAll(query);
+  }
+
+  @Post(":id/approve")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Approve a pending withdrawal and send it to the payout provider" })
+  @ApiResponse({
+    status: 200,
+    description: "The withdrawal is approved",
+    type: AdminWithdrawalResponseDto,
+  })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({ status: 403, description: "Not an admin" })
+  @ApiResponse({ status: 404, description: "Withdrawal not found" })
+  @ApiResponse({ status: 409, description: "The withdrawal is not pending" })
+  @ApiResponse({ status: 502, description: "The withdrawal is approved, but the payout provider did not accept the payout" })
+  approve(@Request() req, @Param("id", ParseUUIDPipe) id: string): Promise<AdminWithdrawalResponseDto> {
+    return this.withdrawalsService.approve(id, req.user.userId);
+  }
+
+  @Post(":id/retry-payout")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Send an approved withdrawal to the payout provider again" })
+  @ApiResponse({
+    status: 200,
+    description: "The payout provider accepted the payout",
+    type: AdminWithdrawalResponseDto,
+  })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({ status: 403, description: "Not an admin" })
+  @ApiResponse({ status: 404, description: "Withdrawal not found" })
+  @ApiResponse({ status: 409, description: "The withdrawal is not approved" })
+  @ApiResponse({ status: 502, description: "The payout provider did not accept the payout" })
+  retryPayout(@Param("id", ParseUUIDPipe) id: string): Promise<AdminWithdrawalResponseDto> {
+    return this.withdrawalsService.retryPayout(id);
+  }
+
+  @Post(":id/reject")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Reject a pending withdrawal and return its coins to the user's wallet" })
+  @ApiResponse({
+    status: 200,
+    description: "The withdrawal is rejected",
+    type: AdminWithdrawalResponseDto,
+  })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({ status: 403, description: "Not an admin" })
+  @ApiResponse({ status: 404, description: "Withdrawal not found" })
+  @ApiResponse({ status: 409, description: "The withdrawal is not pending" })
+  reject(
+    @Request() req,
+    @Param("id", ParseUUIDPipe) id: string,
+    @Body() rejectWithdrawalDto: RejectWithdrawalDto,
+  ): Promise<AdminWithdrawalResponseDto> {
+    return this.withdrawalsService.reject(id, req.user.userId, rejectWithdrawalDto.reason);
+  }
+
+  @Post(":id/mark-paid")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Mark an approved or processing withdrawal as paid" })
+  @ApiResponse({
+    status: 200,
+    description: "The withdrawal is paid",
+    type: AdminWithdrawalResponseDto,
+  })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({ status: 403, description: "Not an admin" })
+  @ApiResponse({ status: 404, description: "Withdrawal not found" })
+  @ApiResponse({ status: 409, description: "The withdrawal is not approved or processing" })
+  markPaid(
+    @Request() req,
+    @Param("id", ParseUUIDPipe) id: string,
+    @Body() markWithdrawalPaidDto: MarkWithdrawalPaidDto,
+  ): Promise<AdminWithdrawalResponseDto> {
+    return this.withdrawalsService.markPaid(id, req.user.userId, markWithdrawalPaidDto.payoutReference);
+  }
+
+  @Post(":id/mark-failed")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Mark an approved or processing withdrawal as failed and return its coins to the user's wallet" })
+  @ApiResponse({
+    status: 200,
+    description: "The withdrawal is failed",
+    type: AdminWithdrawalResponseDto,
+  })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({ status: 403, description: "Not an admin" })
+  @ApiResponse({ status: 404, description: "Withdrawal not found" })
+  @ApiResponse({ status: 409, description: "The withdrawal is not approved or processing" })
+  markFailed(
+    @Request() req,
+    @Param("id", ParseUUIDPipe) id: string,
+    @Body() markWithdrawalFailedDto: MarkWithdrawalFailedDto,
+  ): Promise<AdminWithdrawalResponseDto> {
+    return this.withdrawalsService.markFailed(id, markWithdrawalFailedDto.reason, req.user.userId);
+  }
+}
@@ -0,0 +1,9 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+export class WalletBalanceResponseDto {
+  @ApiProperty({
+    description: "Current wallet balance in CashPop coins",
+    example: 1250,
+  })
+  balance: number;
+}
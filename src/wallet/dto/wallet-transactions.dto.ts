@@ -0,0 +1,105 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { IsEnum, IsInt, IsOptional, Max, Min } from "class-validator";
+import { Type } from "class-transformer";
+import { LedgerTransactionType } from "../entities/ledger-transaction.entity";
+
+export class WalletTransactionsQueryDto {
+  @ApiProperty({
+    description: "Page number (starting at 1)",
+    example: 1,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: "Page must be an integer" })
+  @Min(1, { message: "Page must be at least 1" })
+  page?: number = 1;
+
+  @ApiProperty({
+    description: "Number of transactions per page",
+    example: 20,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: "Limit must be an integer" })
+  @Min(1, { message: "Limit must be at least 1" })
+  @Max(100, { message: "Limit cannot exceed 100" })
+  limit?: number = 20;
+
+  @ApiProperty({
+    description: "Only return transactions of this type",
+    enum: LedgerTransactionType,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(LedgerTransactionType)
+  type?: LedgerTransactionType;
+}
+
+export class WalletTransactionDto {
+  @ApiProperty({
+    description: "The unique identifier of the transaction",
+    example: "3f0c1a52-6c1e-4a35-9d55-3c0f7d7e8b21",
+  })
+  id: string;
+
+  @ApiProperty({
+    description: "The type of the transaction",
+    enum: LedgerTransactionType,
+    example: LedgerTransactionType.STEP_REWARD,
+  })
+  type: LedgerTransactionType;
+
+  @ApiProperty({
+    description: "Signed amount in coins (positive = earned, negative = spent)",
+    example: 85,
+  })
+  amount: number;
+
+  @ApiProperty({
+    description: "Business reference of the transaction",
+    example: "2025-07-24",
+    required: false,
+  })
+  reference: string;
+
+  @ApiProperty({
+    description: "Description of the transaction",
+    example: "Step reward for 2025-07-24",
+    required: false,
+  })
+  description: string;
+
+  @ApiProperty({
+    description: "The date when the transaction was posted",
+    example: "2025-07-24T21:45:30Z",
+  })
+  createdAt: Date;
+}
+
+export class WalletTransactionsResponseDto {
+  @ApiProperty({
+    description: "Transactions of the requested page",
+    type: [WalletTransactionDto],
+  })
+  items: WalletTransactionDto[];
+
+  @ApiProperty({
+    description: "Total number of transactions",
+    example: 42,
+  })
+  total: number;
+
+  @ApiProperty({
+    description: "Current page number",
+    example: 1,
+  })
+  page: number;
+
+  @ApiProperty({
+    description: "Number of transactions per page",
+    example: 20,
+  })
+  limit: number;
+}
@@ -0,0 +1,295 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { Type } from "class-transformer";
+import {
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+  ValidateIf,
+} from "class-validator";
+import { WithdrawalMethod, WithdrawalStatus } from "../entities/withdrawal.entity";
+
+export class CreateWithdrawalDto {
+  @ApiProperty({
+    description: "Amount in coins",
+    example: 5000,
+  })
+  @Type(() => Number)
+  @IsInt({ message: "Amount must be a whole number of coins" })
+  @Min(1, { message: "Amount must be positive" })
+  amount: number;
+
+  @ApiProperty({
+    description: "How the withdrawal is paid out",
+    enum: WithdrawalMethod,
+    example: WithdrawalMethod.BANK_TRANSFER,
+  })
+  @IsEnum(WithdrawalMethod)
+  method: WithdrawalMethod;
+
+  @ApiProperty({
+    description: "Name of the bank (bank transfer)",
+    example: "Kasikornbank",
+    required: false,
+  })
+  @ValidateIf((dto) => dto.method === WithdrawalMethod.BANK_TRANSFER)
+  @IsString()
+  @IsNotEmpty({ message: "Bank name is required for bank transfers" })
+  @MaxLength(100)
+  bankName?: string;
+
+  @ApiProperty({
+    description: "Bank account number (bank transfer)",
+    example: "123-4-56789-0",
+    required: false,
+  })
+  @ValidateIf((dto) => dto.method === WithdrawalMethod.BANK_TRANSFER)
+  @IsString()
+  @IsNotEmpty({ message: "Account number is required for bank transfers" })
+  @MaxLength(50)
+  accountNumber?: string;
+
+  @ApiProperty({
+    description: "Name of the account holder (bank transfer)",
+    example: "John Doe",
+    required: false,
+  })
+  @ValidateIf((dto) => dto.method === WithdrawalMethod.BANK_TRANSFER)
+  @IsString()
+  @IsNotEmpty({ message: "Account name is required for bank transfers" })
+  @MaxLength(100)
+  accountName?: string;
+
+  @ApiProperty({
+    description: "E-wallet service (e-wallet)",
+    example: "truemoney",
+    required: false,
+  })
+  @ValidateIf((dto) => dto.method === WithdrawalMethod.E_WALLET)
+  @IsString()
+  @IsNotEmpty({ message: "Wallet provider is required for e-wallet payouts" })
+  @MaxLength(50)
+  walletProvider?: string;
+
+  @ApiProperty({
+    description: "Account at the e-wallet service, e.g. a phone number (e-wallet)",
+    example: "0812345678",
+    required: false,
+  })
+  @ValidateIf((dto) => dto.method === WithdrawalMethod.E_WALLET)
+  @IsString()
+  @IsNotEmpty({ message: "Wallet account is required for e-wallet payouts" })
+  @MaxLength(100)
+  walletAccount?: string;
+
+  @ApiProperty({
+    description: "Brand of the gift card, sent to the account's email (gift card)",
+    example: "starbucks",
+    required: false,
+  })
+  @ValidateIf((dto) => dto.method === WithdrawalMethod.GIFT_CARD)
+  @IsString()
+  @IsNotEmpty({ message: "Gift card brand is required for gift card payouts" })
+  @MaxLength(50)
+  giftCardBrand?: string;
+}
+
+export class WithdrawalsQueryDto {
+  @ApiProperty({
+    description: "Page number (starting at 1)",
+    example: 1,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: "Page must be an integer" })
+  @Min(1, { message: "Page must be at least 1" })
+  page?: number = 1;
+
+  @ApiProperty({
+    description: "Number of withdrawals per page",
+    example: 20,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: "Limit must be an integer" })
+  @Min(1, { message: "Limit must be at least 1" })
+  @Max(100, { message: "Limit cannot exceed 100" })
+  limit?: number = 20;
+
+  @ApiProperty({
+    description: "Only return withdrawals with this status",
+    enum: WithdrawalStatus,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(WithdrawalStatus)
+  status?: WithdrawalStatus;
+}
+
+export class AdminWithdrawalsQueryDto extends WithdrawalsQueryDto {
+  @ApiProperty({
+    description: "Only return withdrawals of this user",
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID()
+  userId?: string;
+}
+
+export class RejectWithdrawalDto {
+  @ApiProperty({
+    description: "Why the withdrawal is rejected, shown to the user",
+    example: "The bank account name does not match the account holder",
+  })
+  @IsString()
+  @IsNotEmpty({ message: "Reason is required" })
+  @MaxLength(500)
+  reason: string;
+}
+
+export class MarkWithdrawalFailedDto {
+  @ApiProperty({
+    description: "Why the payout failed, shown to the user",
+    example: "The bank returned the transfer because the account is closed",
+  })
+  @IsString()
+  @IsNotEmpty({ message: "Reason is required" })
+  @MaxLength(500)
+  reason: string;
+}
+
+export class MarkWithdrawalPaidDto {
+  @ApiProperty({
+    description: "Reference of the payout, if it differs from the one of the payout provider",
+    example: "TRX-20250724-0001",
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  payoutReference?: string;
+}
+
+export class WithdrawalResponseDto {
+  @ApiProperty({
+    description: "The unique identifier of the withdrawal",
+    example: "3f0c1a52-6c1e-4a35-9d55-3c0f7d7e8b21",
+  })
+  id: string;
+
+  @ApiProperty({
+    description: "Amount in coins",
+    example: 5000,
+  })
+  amount: number;
+
+  @ApiProperty({
+    description: "How the withdrawal is paid out",
+    enum: WithdrawalMethod,
+    example: WithdrawalMethod.BANK_TRANSFER,
+  })
+  method: WithdrawalMethod;
+
+  @ApiProperty({
+    description: "Where the withdrawal is paid to",
+    example: { bankName: "Kasikornbank", accountNumber: "123-4-56789-0", accountName: "John Doe" },
+  })
+  destination: Record<string, string>;
+
+  @ApiProperty({
+    description: "The status of the withdrawal",
+    enum: WithdrawalStatus,
+    example: WithdrawalStatus.PENDING,
+  })
+  status: WithdrawalStatus;
+
+  @ApiProperty({
+    description: "Why the withdrawal was rejected",
+    required: false,
+  })
+  rejectionReason: string;
+
+  @ApiProperty({
+    description: "Why the payout failed",
+    required: false,
+  })
+  failureReason: string;
+
+  @ApiProperty({
+    description: "The reference of the payout",
+    required: false,
+  })
+  payoutReference: string;
+
+  @ApiProperty({
+    description: "The date when the withdrawal was requested",
+    example: "2025-07-24T21:45:30Z",
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: "The date when the withdrawal was approved or rejected",
+    required: false,
+  })
+  reviewedAt: Date;
+
+  @ApiProperty({
+    description: "The date when the withdrawal was paid",
+    required: false,
+  })
+  paidAt: Date;
+}
+
+export class AdminWithdrawalResponseDto extends WithdrawalResponseDto {
+  @ApiProperty({
+    description: "The ID of the user requesting the withdrawal",
+  })
+  userId: string;
+
+  @ApiProperty({
+    description: "The ID of the admin who last changed the status",
+    required: false,
+  })
+  reviewedBy: string;
+}
+
+export class WithdrawalsResponseDto {
+  @ApiProperty({
+    description: "Withdrawals of the requested page, newest first",
+    type: [WithdrawalResponseDto],
+  })
+  items: WithdrawalResponseDto[];
+
+  @ApiProperty({
+    description: "Total number of withdrawals",
+    example: 3,
+  })
+  total: number;
+
+  @ApiProperty({
+    description: "Current page number",
+    example: 1,
+  })
+  page: number;
+
+  @ApiProperty({
+    description: "Number of withdrawals per page",
+    example: 20,
+  })
+  limit: number;
+}
+
+export class AdminWithdrawalsResponseDto extends WithdrawalsResponseDto {
+  @ApiProperty({
+    description: "Withdrawals of the requested page, newest first",
+    type: [AdminWithdrawalResponseDto],
+  })
+  items: AdminWithdrawalResponseDto[];
+}
@@ -0,0 +1,45 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from "typeorm";
+import { ApiProperty } from "@nestjs/swagger";
+import { LedgerTransaction } from "./ledger-transaction.entity";
+
+/**
+ * A single leg of a ledger transaction. The amounts of all entries of a
+ * transaction always sum up to zero: a positive amount credits the account,
+ * a negative amount debits it.
+ */
+@Entity("ledger_entries")
+export class LedgerEntry {
+  @PrimaryGeneratedColumn("uuid")
+  @ApiProperty({ description: "The unique identifier of the ledger entry" })
+  id: string;
+
+  @ManyToOne(() => LedgerTransaction, (transaction) => transaction.entries, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "transaction_id" })
+  transaction: LedgerTransaction;
+
+  @Column({ name: "transaction_id" })
+  @Index("IDX_ledger_entries_transaction_id")
+  @ApiProperty({ description: "The ID of the transaction this entry belongs to" })
+  transactionId: string;
+
+  @Column({ length: 100 })
+  @Index("IDX_ledger_entries_account")
+  @ApiProperty({ description: "The ledger account affected by this entry (e.g. user:<id>:wallet)" })
+  account: string;
+
+  @Column({ type: "int" })
+  @ApiProperty({ description: "Signed amount in coins (positive = credit, negative = debit)" })
+  amount: number;
+
+  @CreateDateColumn({ name: "created_at" })
+  @ApiProperty({ description: "The date when the entry was posted" })
+  createdAt: Date;
+}
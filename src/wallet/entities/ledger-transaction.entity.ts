@@ -0,0 +1,70 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  OneToMany,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from "typeorm";
+import { ApiProperty } from "@nestjs/swagger";
+import { User } from "../../users/entities/user.entity";
+import { LedgerEntry } from "./ledger-entry.entity";
+
+export enum LedgerTransactionType {
+  STEP_REWARD = "step_reward",
+  REFERRAL_BONUS = "referral_bonus",
+  WITHDRAWAL_HOLD = "withdrawal_hold",
+  WITHDRAWAL_RELEASE = "withdrawal_release",
+  WITHDRAWAL_PAYOUT = "withdrawal_payout",
+  REWARD_REDEMPTION = "reward_redemption",
+  STREAK_BONUS = "streak_bonus",
+  CHALLENGE_ENTRY = "challenge_entry",
+  CHALLENGE_REFUND = "challenge_refund",
+  CHALLENGE_PRIZE = "challenge_prize",
+}
+
+@Entity("ledger_transactions")
+@Index("IDX_ledger_transactions_user_id_type_reference", ["userId", "type", "reference"])
+export class LedgerTransaction {
+  @PrimaryGeneratedColumn("uuid")
+  @ApiProperty({ description: "The unique identifier of the transaction" })
+  id: string;
+
+  @ManyToOne(() => User, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "user_id" })
+  user: User;
+
+  @Column({ name: "user_id" })
+  @Index("IDX_ledger_transactions_user_id")
+  @ApiProperty({ description: "The ID of the user this transaction belongs to" })
+  userId: string;
+
+  @Column({ type: "enum", enum: LedgerTransactionType })
+  @ApiProperty({ description: "The type of the transaction", enum: LedgerTransactionType })
+  type: LedgerTransactionType;
+
+  @Column({ name: "idempotency_key", unique: true })
+  @ApiProperty({ description: "Key guaranteeing the transaction is only posted once" })
+  idempotencyKey: string;
+
+  @Column({ nullable: true })
+  @ApiProperty({ description: "Business reference of the transaction (e.g. the health data date)" })
+  reference: string;
+
+  @Column({ nullable: true })
+  @ApiProperty({ description: "Human readable description of the transaction" })
+  description: string;
+
+  @Column({ type: "jsonb", nullable: true })
+  @ApiProperty({ description: "Additional data attached to the transaction" })
+  metadata: Record<string, any>;
+
+  @OneToMany(() => LedgerEntry, (entry) => entry.transaction, { cascade: true })
+  entries: LedgerEntry[];
+
+  @CreateDateColumn({ name: "created_at" })
+  @ApiProperty({ description: "The date when the transaction was posted" })
+  createdAt: Date;
+}
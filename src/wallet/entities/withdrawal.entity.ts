@@ -0,0 +1,98 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from "typeorm";
+import { ApiProperty } from "@nestjs/swagger";
+import { User } from "../../users/entities/user.entity";
+
+export enum WithdrawalMethod {
+  BANK_TRANSFER = "bank_transfer",
+  E_WALLET = "e_wallet",
+  GIFT_CARD = "gift_card",
+}
+
+export enum WithdrawalStatus {
+  PENDING = "pending",
+  APPROVED = "approved",
+  // Submitted to the payout provider, waiting for the payout to complete
+  PROCESSING = "processing",
+  REJECTED = "rejected",
+  PAID = "paid",
+  // The payout provider could not pay out the withdrawal
+  FAILED = "failed",
+}
+
+/**
+ * A request to pay out coins. Its coins are held in the ledger from the
+ * request until the withdrawal is paid, rejected or its payout fails.
+ */
+@Entity("withdrawals")
+@Index("IDX_withdrawals_user_id_created_at", ["userId", "createdAt"])
+export class Withdrawal {
+  @PrimaryGeneratedColumn("uuid")
+  @ApiProperty({ description: "The unique identifier of the withdrawal" })
+  id: string;
+
+  @ManyToOne(() => User, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "user_id" })
+  user: User;
+
+  @Column({ name: "user_id" })
+  @ApiProperty({ description: "The ID of the user requesting the withdrawal" })
+  userId: string;
+
+  @Column({ type: "int" })
+  @ApiProperty({ description: "Amount in coins" })
+  amount: number;
+
+  @Column({ type: "enum", enum: WithdrawalMethod })
+  @ApiProperty({ description: "How the withdrawal is paid out", enum: WithdrawalMethod })
+  method: WithdrawalMethod;
+
+  @Column({ type: "jsonb" })
+  @ApiProperty({ description: "Where the withdrawal is paid to, depending on the method" })
+  destination: Record<string, string>;
+
+  @Column({ type: "enum", enum: WithdrawalStatus, default: WithdrawalStatus.PENDING })
+  @Index("IDX_withdrawals_status")
+  @ApiProperty({ description: "The status of the withdrawal", enum: WithdrawalStatus })
+  status: WithdrawalStatus;
+
+  @Column({ name: "rejection_reason", nullable: true })
+  @ApiProperty({ description: "Why the withdrawal was rejected" })
+  rejectionReason: string;
+
+  @Column({ name: "failure_reason", nullable: true })
+  @ApiProperty({ description: "Why the payout failed" })
+  failureReason: string;
+
+  @Column({ name: "payout_reference", nullable: true })
+  @ApiProperty({ description: "The reference of the payout at the payout provider" })
+  payoutReference: string;
+
+  @Column({ name: "reviewed_by", nullable: true })
+  @ApiProperty({ description: "The ID of the admin who last changed the status" })
+  reviewedBy: string;
+
+  @Column({ name: "reviewed_at", nullable: true })
+  @ApiProperty({ description: "The date when the withdrawal was approved or rejected" })
+  reviewedAt: Date;
+
+  @Column({ name: "paid_at", nullable: true })
+  @ApiProperty({ description: "The date when the withdrawal was paid" })
+  paidAt: Date;
+
+  @CreateDateColumn({ name: "created_at" })
+  @ApiProperty({ description: "The date when the withdrawal was requested" })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: "updated_at" })
+  @ApiProperty({ description: "The date when the withdrawal was last updated" })
+  updatedAt: Date;
+}
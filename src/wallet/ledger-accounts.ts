@@ -0,0 +1,18 @@
+/**
+ * Ledger account naming. User and challenge accounts are scoped by their ID,
+ * system accounts are the counterparties coins are issued from or paid out to.
+ */
+export const LedgerAccounts = {
+  userWallet: (userId: string) => `user:${userId}:wallet`,
+  // Coins of pending withdrawals, taken out of the wallet until they are paid or released
+  userWithdrawalHold: (userId: string) => `user:${userId}:withdrawal_hold`,
+  // Entry fees of a challenge, held until it is settled or cancelled
+  challengeEscrow: (challengeId: string) => `challenge:${challengeId}:escrow`,
+  STEP_REWARDS: "system:step_rewards",
+  REFERRAL_BONUSES: "system:referral_bonuses",
+  WITHDRAWALS_PAID: "system:withdrawals_paid",
+  REWARD_REDEMPTIONS: "system:reward_redemptions",
+  STREAK_BONUSES: "system:streak_bonuses",
+  // Prizes organizers add to challenges on top of the entry fees
+  CHALLENGE_PRIZES: "system:challenge_prizes",
+};
@@ -0,0 +1,184 @@
+import { randomUUID } from "crypto";
+import { DataSource, EntityManager, Repository } from "typeorm";
+import { LedgerService, PostTransactionInput } from "./ledger.service";
+import { LedgerAccounts } from "./ledger-accounts";
+import { LedgerEntry } from "./entities/ledger-entry.entity";
+import { LedgerTransaction, LedgerTransactionType } from "./entities/ledger-transaction.entity";
+
+const USER_ID = "3f0c1a52-6c1e-4a35-9d55-3c0f7d7e8b21";
+const WALLET = LedgerAccounts.userWallet(USER_ID);
+
+/**
+ * Ledger transactions kept in memory. Transactions work on a copy that is only
+ * kept if the callback succeeds, like a database transaction.
+ */
+class InMemoryLedger {
+  transactions: LedgerTransaction[] = [];
+  locks: string[] = [];
+  manager = this.createManager();
+
+  async transaction<T>(callback: (manager: EntityManager) => Promise<T>): Promise<T> {
+    const transactions = [...this.transactions];
+    try {
+      return await callback(this.manager);
+    } catch (error) {
+      this.transactions = transactions;
+      throw error;
+    }
+  }
+
+  private createManager(): EntityManager {
+    const ledger = this;
+    return {
+      query: async (_: string, [key]: string[]) => {
+        ledger.locks.push(key);
+        return [];
+      },
+      create: (entity: new () => object, data: object) => Object.assign(new entity(), data),
+      findOne: async (_: unknown, { where }: { where: { idempotencyKey: string } }) =>
+        ledger.transactions.find((transaction) => transaction.idempotencyKey === where.idempotencyKey) || null,
+      save: async (transaction: LedgerTransaction) => {
+        const saved = Object.assign(transaction, { id: randomUUID(), createdAt: new Date() });
+        ledger.transactions.push(saved);
+        return saved;
+      },
+      createQueryBuilder: () => {
+        const params: Record<string, any> = {};
+        const builder = {
+          innerJoin: () => builder,
+          select: () => builder,
+          where: (_: string, values: object) => (Object.assign(params, values), builder),
+          andWhere: (_: string, values: object) => (Object.assign(params, values), builder),
+          getRawOne: async () => {
+            const sum = ledger.transactions
+              .filter((transaction) => !params.type || transaction.type === params.type)
+              .filter((transaction) => !params.reference || transaction.reference === params.reference)
+              .flatMap((transaction) => transaction.entries)
+              .filter((entry) => entry.account === params.account)
+              .reduce((total, entry) => total + entry.amount, 0);
+            return { balance: String(sum), total: String(sum) };
+          },
+        };
+        return builder;
+      },
+    } as unknown as EntityManager;
+  }
+}
+
+function reward(coins: number, overrides: Partial<PostTransactionInput> = {}): PostTransactionInput {
+  return {
+    idempotencyKey: `step-reward:${USER_ID}:2025-07-24:${coins}`,
+    userId: USER_ID,
+    type: LedgerTransactionType.STEP_REWARD,
+    reference: "2025-07-24",
+    postings: [
+      { account: LedgerAccounts.STEP_REWARDS, amount: -coins },
+      { account: WALLET, amount: coins },
+    ],
+    ...overrides,
+  };
+}
+
+function redemption(coins: number): PostTransactionInput {
+  return {
+    idempotencyKey: `reward-redemption:${randomUUID()}`,
+    userId: USER_ID,
+    type: LedgerTransactionType.REWARD_REDEMPTION,
+    postings: [
+      { account: WALLET, amount: -coins },
+      { account: LedgerAccounts.REWARD_REDEMPTIONS, amount: coins },
+    ],
+    nonNegativeAccounts: [WALLET],
+  };
+}
+
+describe("LedgerService", () => {
+  let ledger: InMemoryLedger;
+  let service: LedgerService;
+
+  beforeEach(() => {
+    ledger = new InMemoryLedger();
+    service = new LedgerService(ledger as unknown as DataSource, {} as Repository<LedgerEntry>);
+  });
+
+  it("posts balanced entries to both accounts", async () => {
+    const { transaction, created } = await service.post(reward(50));
+
+    expect(created).toBe(true);
+    expect(transaction.entries.map((entry) => entry.amount)).toEqual([-50, 50]);
+    expect(await service.getBalance(USER_ID)).toBe(50);
+    expect(await service.getAccountBalance(LedgerAccounts.STEP_REWARDS)).toBe(-50);
+  });
+
+  it("takes the user's ledger lock before posting", async () => {
+    await service.post(reward(50));
+
+    expect(ledger.locks).toEqual([`ledger:${USER_ID}`]);
+  });
+
+  it("rejects postings that do not balance", async () => {
+    await expect(
+      service.post(
+        reward(50, {
+          postings: [
+            { account: LedgerAccounts.STEP_REWARDS, amount: -50 },
+            { account: WALLET, amount: 60 },
+          ],
+        }),
+      ),
+    ).rejects.toThrow("Ledger transaction is not balanced");
+    await expect(service.post(reward(50, { postings: [{ account: WALLET, amount: 50 }] }))).rejects.toThrow(
+      "A ledger transaction needs at least two postings",
+    );
+    await expect(service.post(reward(0.5))).rejects.toThrow("Ledger postings must be non-zero whole coin amounts");
+    await expect(service.post(reward(0))).rejects.toThrow("Ledger postings must be non-zero whole coin amounts");
+    expect(ledger.transactions).toHaveLength(0);
+  });
+
+  it("replays a transaction with a known idempotency key instead of posting it again", async () => {
+    const first = await service.post(reward(50));
+    const replay = await service.post(reward(50, { description: "Replayed" }));
+
+    expect(replay).toEqual({ transaction: first.transaction, created: false });
+    expect(ledger.transactions).toHaveLength(1);
+    expect(await service.getBalance(USER_ID)).toBe(50);
+  });
+
+  it("does not let a non-negative account go below zero", async () => {
+    await service.post(reward(50));
+
+    await expect(service.post(redemption(60))).rejects.toThrow("Insufficient balance");
+    expect(ledger.transactions).toHaveLength(1);
+    expect(await service.getBalance(USER_ID)).toBe(50);
+  });
+
+  it("lets a non-negative account be spent down to zero", async () => {
+    await service.post(reward(50));
+
+    const { created } = await service.post(redemption(50));
+
+    expect(created).toBe(true);
+    expect(await service.getBalance(USER_ID)).toBe(0);
+  });
+
+  it("rolls back the transaction it joins when the balance check fails", async () => {
+    await expect(
+      ledger.transaction(async (manager) => {
+        await service.post(reward(50, { idempotencyKey: "first" }), manager);
+        await service.post(redemption(80), manager);
+      }),
+    ).rejects.toThrow("Insufficient balance");
+
+    expect(ledger.transactions).toHaveLength(0);
+  });
+
+  it("sums an account by transaction type and reference", async () => {
+    await service.post(reward(50));
+    await service.post(reward(20, { idempotencyKey: "next-day", reference: "2025-07-25" }));
+    await service.post(redemption(30));
+
+    expect(await service.sumByReference(WALLET, LedgerTransactionType.STEP_REWARD, "2025-07-24")).toBe(50);
+    expect(await service.sumByReference(WALLET, LedgerTransactionType.STEP_REWARD, "2025-07-26")).toBe(0);
+    expect(await service.getBalance(USER_ID)).toBe(40);
+  });
+});
@@ -0,0 +1,195 @@
+import { Injectable, BadRequestException } from "@nestjs/common";
+import { InjectDataSource, InjectRepository } from "@nestjs/typeorm";
+import { DataSource, EntityManager, Repository } from "typeorm";
+import { LedgerTransaction, LedgerTransactionType } from "./entities/ledger-transaction.entity";
+import { LedgerEntry } from "./entities/ledger-entry.entity";
+import { LedgerAccounts } from "./ledger-accounts";
+import { WalletTransactionsQueryDto, WalletTransactionsResponseDto } from "./dto/wallet-transactions.dto";
+
+export interface LedgerPosting {
+  account: string;
+  amount: number;
+}
+
+export interface PostTransactionInput {
+  idempotencyKey: string;
+  userId: string;
+  type: LedgerTransactionType;
+  postings: LedgerPosting[];
+  reference?: string;
+  description?: string;
+  metadata?: Record<string, any>;
+  // Accounts that must not end up with a negative balance after posting
+  nonNegativeAccounts?: string[];
+}
+
+@Injectable()
+export class LedgerService {
+  constructor(
+    @InjectDataSource()
+    private dataSource: DataSource,
+    @InjectRepository(LedgerEntry)
+    private ledgerEntryRepository: Repository<LedgerEntry>,
+  ) {}
+
+  /**
+   * Post a balanced transaction to the ledger
+   * @param input Transaction details and postings
+   * @param manager Optional entity manager to join an outer database transaction
+   * @returns The posted transaction and whether it was created by this call
+   */
+  async post(
+    input: PostTransactionInput,
+    manager?: EntityManager,
+  ): Promise<{ transaction: LedgerTransaction; created: boolean }> {
+    this.assertBalanced(input.postings);
+
+    if (!manager) {
+      return this.dataSource.transaction((transactionManager) => this.post(input, transactionManager));
+    }
+
+    await this.lockUser(manager, input.userId);
+
+    // A transaction with the same idempotency key is never posted twice
+    const existing = await manager.findOne(LedgerTransaction, {
+      where: { idempotencyKey: input.idempotencyKey },
+    });
+    if (existing) {
+      return { transaction: existing, created: false };
+    }
+
+    for (const account of input.nonNegativeAccounts || []) {
+      const delta = input.postings
+        .filter((posting) => posting.account === account)
+        .reduce((sum, posting) => sum + posting.amount, 0);
+      const balance = await this.getAccountBalance(account, manager);
+      if (balance + delta < 0) {
+        throw new BadRequestException("Insufficient balance");
+      }
+    }
+
+    const transaction = manager.create(LedgerTransaction, {
+      idempotencyKey: input.idempotencyKey,
+      userId: input.userId,
+      type: input.type,
+      reference: input.reference,
+      description: input.description,
+      metadata: input.metadata,
+      entries: input.postings.map((posting) =>
+        manager.create(LedgerEntry, { account: posting.account, amount: posting.amount }),
+      ),
+    });
+
+    return { transaction: await manager.save(transaction), created: true };
+  }
+
+  /**
+   * Serialize ledger writes of a user for the rest of the database transaction
+   * @param manager Entity manager of the running database transaction
+   * @param userId User's ID
+   */
+  async lockUser(manager: EntityManager, userId: string): Promise<void> {
+    await manager.query("SELECT pg_advisory_xact_lock(hashtext($1))", [`ledger:${userId}`]);
+  }
+
+  /**
+   * Get the balance of a ledger account
+   * @param account Ledger account name
+   * @param manager Optional entity manager to read inside a database transaction
+   * @returns Balance in coins
+   */
+  async getAccountBalance(account: string, manager?: EntityManager): Promise<number> {
+    const result = await (manager || this.dataSource.manager)
+      .createQueryBuilder(LedgerEntry, "entry")
+      .select("COALESCE(SUM(entry.amount), 0)", "balance")
+      .where("entry.account = :account", { account })
+      .getRawOne();
+
+    return parseInt(result.balance, 10);
+  }
+
+  /**
+   * Sum what a transaction type and reference contributed to an account
+   * @param account Ledger account name
+   * @param type Transaction type
+   * @param reference Business reference of the transactions
+   * @param manager Optional entity manager to read inside a database transaction
+   * @returns Sum in coins
+   */
+  async sumByReference(
+    account: string,
+    type: LedgerTransactionType,
+    reference: string,
+    manager?: EntityManager,
+  ): Promise<number> {
+    const result = await (manager || this.dataSource.manager)
+      .createQueryBuilder(LedgerEntry, "entry")
+      .innerJoin("entry.transaction", "transaction")
+      .select("COALESCE(SUM(entry.amount), 0)", "total")
+      .where("entry.account = :account", { account })
+      .andWhere("transaction.type = :type", { type })
+      .andWhere("transaction.reference = :reference", { reference })
+      .getRawOne();
+
+    return parseInt(result.total, 10);
+  }
+
+  /**
+   * Get the wallet balance of a user
+   * @param userId User's ID
+   * @returns Balance in coins
+   */
+  async getBalance(userId: string): Promise<number> {
+    return this.getAccountBalance(LedgerAccounts.userWallet(userId));
+  }
+
+  /**
+   * Get the wallet transaction history of a user, newest first
+   * @param userId User's ID
+   * @param query Pagination and filter options
+   * @returns Paginated list of wallet transactions
+   */
+  async getTransactions(userId: string, query: WalletTransactionsQueryDto): Promise<WalletTransactionsResponseDto> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+
+    const [entries, total] = await this.ledgerEntryRepository.findAndCount({
+      where: {
+        account: LedgerAccounts.userWallet(userId),
+        ...(query.type ? { transaction: { type: query.type } } : {}),
+      },
+      relations: { transaction: true },
+      order: { createdAt: "DESC" },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return {
+      items: entries.map((entry) => ({
+        id: entry.transaction.id,
+        type: entry.transaction.type,
+        amount: entry.amount,
+        reference: entry.transaction.reference,
+        description: entry.transaction.description,
+        createdAt: entry.transaction.createdAt,
+      })),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  private assertBalanced(postings: LedgerPosting[]): void {
+    if (postings.length < 2) {
+      throw new Error("A ledger transaction needs at least two postings");
+    }
+
+    if (postings.some((posting) => !Number.isInteger(posting.amount) || posting.amount === 0)) {
+      throw new Error("Ledger postings must be non-zero whole coin amounts");
+    }
+
+    if (postings.reduce((sum, posting) => sum + posting.amount, 0) !== 0) {
+      throw new Error("Ledger transaction is not balanced");
+    }
+  }
+}
@@ -0,0 +1,21 @@
+import { randomUUID } from "crypto";
+import { PayoutProvider, PayoutRequest, PayoutResult } from "./payout-provider";
+
+/**
+ * Accepts every payout without paying anything out, for tests
+ */
+export class FakePayoutProvider implements PayoutProvider {
+  readonly payouts = new Map<string, PayoutRequest & PayoutResult>();
+
+  async createPayout(request: PayoutRequest): Promise<PayoutResult> {
+    // The same withdrawal is only paid out once
+    const existing = this.payouts.get(request.withdrawalId);
+    if (existing) {
+      return { reference: existing.reference };
+    }
+
+    const reference = `fake_${randomUUID()}`;
+    this.payouts.set(request.withdrawalId, { ...request, reference });
+    return { reference };
+  }
+}
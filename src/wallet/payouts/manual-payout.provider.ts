@@ -0,0 +1,11 @@
+import { PayoutProvider, PayoutResult } from "./payout-provider";
+
+/**
+ * Payouts made by hand: admins send the money themselves and mark the
+ * withdrawal as paid with the reference of their transfer
+ */
+export class ManualPayoutProvider implements PayoutProvider {
+  async createPayout(): Promise<PayoutResult> {
+    return { reference: null };
+  }
+}
@@ -0,0 +1,24 @@
+import { WithdrawalMethod } from "../entities/withdrawal.entity";
+
+export const PAYOUT_PROVIDER = "PAYOUT_PROVIDER";
+
+export interface PayoutRequest {
+  // Withdrawal ID, which providers should use to make payouts idempotent
+  withdrawalId: string;
+  userId: string;
+  amount: number;
+  method: WithdrawalMethod;
+  destination: Record<string, string>;
+}
+
+export interface PayoutResult {
+  // Reference of the payout at the provider, null if the payout is made by hand
+  reference: string | null;
+}
+
+/**
+ * Sends approved withdrawals to the bank, e-wallet or gift card service that pays them out
+ */
+export interface PayoutProvider {
+  createPayout(request: PayoutRequest): Promise<PayoutResult>;
+}
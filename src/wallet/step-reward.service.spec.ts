@@ -0,0 +1,111 @@
+import { ConfigService } from "@nestjs/config";
+import { DataSource, EntityManager } from "typeorm";
+import { LedgerPosting, LedgerService, PostTransactionInput } from "./ledger.service";
+import { LedgerAccounts } from "./ledger-accounts";
+import { LedgerTransactionType } from "./entities/ledger-transaction.entity";
+import { StepRewardService } from "./step-reward.service";
+
+const USER_ID = "3f0c1a52-6c1e-4a35-9d55-3c0f7d7e8b21";
+const WALLET = LedgerAccounts.userWallet(USER_ID);
+
+interface PostedTransaction {
+  type: LedgerTransactionType;
+  reference?: string;
+  postings: LedgerPosting[];
+}
+
+describe("StepRewardService", () => {
+  let posted: Map<string, PostedTransaction>;
+  let service: StepRewardService;
+
+  const credited = (reference: string) =>
+    [...posted.values()]
+      .filter((transaction) => transaction.type === LedgerTransactionType.STEP_REWARD)
+      .filter((transaction) => transaction.reference === reference)
+      .flatMap((transaction) => transaction.postings)
+      .filter((posting) => posting.account === WALLET)
+      .reduce((sum, posting) => sum + posting.amount, 0);
+
+  beforeEach(() => {
+    posted = new Map();
+
+    // Replays known idempotency keys like the ledger, but does not serialize on the lock
+    const ledgerService = {
+      lockUser: async () => undefined,
+      sumByReference: async (_account: string, _type: LedgerTransactionType, reference: string) => {
+        await Promise.resolve();
+        return credited(reference);
+      },
+      post: async (input: PostTransactionInput) => {
+        await Promise.resolve();
+        if (posted.has(input.idempotencyKey)) {
+          return { created: false };
+        }
+        posted.set(input.idempotencyKey, input);
+        return { created: true };
+      },
+    } as unknown as LedgerService;
+
+    service = new StepRewardService(
+      {
+        transaction: (callback: (manager: EntityManager) => Promise<number>) => callback({} as EntityManager),
+      } as DataSource,
+      ledgerService,
+      new ConfigService({ STEP_REWARD_STEPS_PER_COIN: 100, STEP_REWARD_DAILY_COIN_CAP: 100 }),
+    );
+  });
+
+  it("earns a coin per full 100 steps up to the daily cap", () => {
+    expect(service.calculateCoins(99)).toBe(0);
+    expect(service.calculateCoins(5050)).toBe(50);
+    expect(service.calculateCoins(25000)).toBe(100);
+  });
+
+  it("credits the coins of a day from the step rewards account", async () => {
+    expect(await service.creditDailySteps(USER_ID, "2025-07-24", 5000)).toBe(50);
+
+    expect([...posted.values()][0].postings).toEqual([
+      { account: LedgerAccounts.STEP_REWARDS, amount: -50 },
+      { account: WALLET, amount: 50 },
+    ]);
+  });
+
+  it("only credits the difference when a day is resubmitted with more steps", async () => {
+    await service.creditDailySteps(USER_ID, "2025-07-24", 5000);
+
+    expect(await service.creditDailySteps(USER_ID, "2025-07-24", 8000)).toBe(30);
+    expect(credited("2025-07-24")).toBe(80);
+  });
+
+  it("credits nothing when a resubmission does not raise the day's coins", async () => {
+    await service.creditDailySteps(USER_ID, "2025-07-24", 8000);
+
+    expect(await service.creditDailySteps(USER_ID, "2025-07-24", 8000)).toBe(0);
+    expect(await service.creditDailySteps(USER_ID, "2025-07-24", 8050)).toBe(0);
+    expect(await service.creditDailySteps(USER_ID, "2025-07-24", 3000)).toBe(0);
+    expect(credited("2025-07-24")).toBe(80);
+  });
+
+  it("stops crediting a resubmitted day at the daily cap", async () => {
+    await service.creditDailySteps(USER_ID, "2025-07-24", 9000);
+
+    expect(await service.creditDailySteps(USER_ID, "2025-07-24", 40000)).toBe(10);
+    expect(await service.creditDailySteps(USER_ID, "2025-07-24", 50000)).toBe(0);
+  });
+
+  it("credits each day on its own", async () => {
+    await service.creditDailySteps(USER_ID, "2025-07-23", 8000);
+
+    expect(await service.creditDailySteps(USER_ID, "2025-07-24", 5000)).toBe(50);
+  });
+
+  it("pays a day once when the same submission is credited twice at the same time", async () => {
+    const results = await Promise.all([
+      service.creditDailySteps(USER_ID, "2025-07-24", 5000),
+      service.creditDailySteps(USER_ID, "2025-07-24", 5000),
+    ]);
+
+    expect(results.sort()).toEqual([0, 50]);
+    expect(credited("2025-07-24")).toBe(50);
+  });
+});
@@ -0,0 +1,77 @@
+import { Injectable } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { InjectDataSource } from "@nestjs/typeorm";
+import { DataSource } from "typeorm";
+import { LedgerService } from "./ledger.service";
+import { LedgerAccounts } from "./ledger-accounts";
+import { LedgerTransactionType } from "./entities/ledger-transaction.entity";
+
+@Injectable()
+export class StepRewardService {
+  constructor(
+    @InjectDataSource()
+    private dataSource: DataSource,
+    private ledgerService: LedgerService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Calculate the coins earned for a day's step count
+   * @param steps Attested steps of the day
+   * @returns Coins earned, capped at the daily maximum
+   */
+  calculateCoins(steps: number): number {
+    const stepsPerCoin = Number(this.configService.get("STEP_REWARD_STEPS_PER_COIN", 100));
+    const dailyCap = Number(this.configService.get("STEP_REWARD_DAILY_COIN_CAP", 100));
+
+    return Math.min(Math.floor(steps / stepsPerCoin), dailyCap);
+  }
+
+  /**
+   * Credit the coins earned for a day's steps. Re-submissions for the same day
+   * only credit the difference to what has already been paid out, and a
+   * submission that does not raise the day's total never pays twice.
+   * @param userId User's ID
+   * @param date Date of the health data (YYYY-MM-DD)
+   * @param steps Attested steps of the day
+   * @returns Coins credited by this call
+   */
+  async creditDailySteps(userId: string, date: string, steps: number): Promise<number> {
+    const targetCoins = this.calculateCoins(steps);
+    const wallet = LedgerAccounts.userWallet(userId);
+
+    return this.dataSource.transaction(async (manager) => {
+      // Hold the user's ledger lock while reading what has been credited so far
+      await this.ledgerService.lockUser(manager, userId);
+
+      const creditedCoins = await this.ledgerService.sumByReference(
+        wallet,
+        LedgerTransactionType.STEP_REWARD,
+        date,
+        manager,
+      );
+      const delta = targetCoins - creditedCoins;
+      if (delta <= 0) {
+        return 0;
+      }
+
+      const { created } = await this.ledgerService.post(
+        {
+          idempotencyKey: `step-reward:${userId}:${date}:${targetCoins}`,
+          userId,
+          type: LedgerTransactionType.STEP_REWARD,
+          reference: date,
+          description: `Step reward for ${date}`,
+          metadata: { steps },
+          postings: [
+            { account: LedgerAccounts.STEP_REWARDS, amount: -delta },
+            { account: wallet, amount: delta },
+          ],
+        },
+        manager,
+      );
+
+      return created ? delta : 0;
+    });
+  }
+}
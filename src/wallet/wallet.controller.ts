@@ -0,0 +1,93 @@
+import { Body, Controller, Get, Param, ParseUUIDPipe, Post, Query, Request, UseGuards } from "@nestjs/common";
+import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from "@nestjs/swagger";
+import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
+import { RateLimit } from "../common/rate-limit/rate-limit.decorator";
+import { LedgerService } from "./ledger.service";
+import { WithdrawalsService } from "./withdrawals.service";
+import { WalletBalanceResponseDto } from "./dto/wallet-balance.dto";
+import { WalletTransactionsQueryDto, WalletTransactionsResponseDto } from "./dto/wallet-transactions.dto";
+import {
+  CreateWithdrawalDto,
+  WithdrawalResponseDto,
+  WithdrawalsQueryDto,
+  WithdrawalsResponseDto,
+} from "./dto/withdrawal.dto";
+
+@ApiTags("wallet")
+@Controller("wallet")
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class WalletController {
+  constructor(
+    private readonly ledgerService: LedgerService,
+    private readonly withdrawalsService: WithdrawalsService,
+  ) {}
+
+  @Get("balance")
+  @ApiOperation({ summary: "Get the coin balance of the current user" })
+  @ApiResponse({
+    status: 200,
+    description: "Returns the wallet balance",
+    type: WalletBalanceResponseDto,
+  })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  async getBalance(@Request() req): Promise<WalletBalanceResponseDto> {
+    const balance = await this.ledgerService.getBalance(req.user.userId);
+    return { balance };
+  }
+
+  @Get("transactions")
+  @ApiOperation({ summary: "Get the wallet transaction history of the current user" })
+  @ApiResponse({
+    status: 200,
+    description: "Returns the wallet transactions, newest first",
+    type: WalletTransactionsResponseDto,
+  })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  getTransactions(@Request() req, @Query() query: WalletTransactionsQueryDto): Promise<WalletTransactionsResponseDto> {
+    return this.ledgerService.getTransactions(req.user.userId, query);
+  }
+
+  @Post("withdrawals")
+  @RateLimit({ points: 10, window: 60 * 60, key: "user" })
+  @ApiOperation({ summary: "Request a withdrawal of coins" })
+  @ApiResponse({
+    status: 201,
+    description: "The withdrawal is pending review and its coins are held",
+    type: WithdrawalResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: "Invalid destination, amount below the minimum, daily cap exceeded or insufficient balance",
+  })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({ status: 429, description: "Too many withdrawal requests" })
+  requestWithdrawal(@Request() req, @Body() createWithdrawalDto: CreateWithdrawalDto): Promise<WithdrawalResponseDto> {
+    return this.withdrawalsService.request(req.user.userId, createWithdrawalDto);
+  }
+
+  @Get("withdrawals")
+  @ApiOperation({ summary: "Get the withdrawal history of the current user" })
+  @ApiResponse({
+    status: 200,
+    description: "Returns the withdrawals, newest first",
+    type: WithdrawalsResponseDto,
+  })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  getWithdrawals(@Request() req, @Query() query: WithdrawalsQueryDto): Promise<WithdrawalsResponseDto> {
+    return this.withdrawalsService.findByUser(req.user.userId, query);
+  }
+
+  @Get("withdrawals/:id")
+  @ApiOperation({ summary: "Get a withdrawal of the current user" })
+  @ApiResponse({
+    status: 200,
+    description: "Returns the withdrawal",
+    type: WithdrawalResponseDto,
+  })
+  @ApiResponse({ status: 401, description: "Unauthorized" })
+  @ApiResponse({ status: 404, description: "Withdrawal not found" })
+  getWithdrawal(@Request() req, @Param("id", ParseUUIDPipe) id: string): Promise<WithdrawalResponseDto> {
+    return this.withdrawalsService.findOneByUser(req.user.userId, id);
+  }
+}
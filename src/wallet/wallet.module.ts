@@ -0,0 +1,27 @@
+import { Module } from "@nestjs/common";
+import { TypeOrmModule } from "@nestjs/typeorm";
+import { LedgerTransaction } from "./entities/ledger-transaction.entity";
+import { LedgerEntry } from "./entities/ledger-entry.entity";
+import { Withdrawal } from "./entities/withdrawal.entity";
+import { LedgerService } from "./ledger.service";
+import { StepRewardService } from "./step-reward.service";
+import { WithdrawalsService } from "./withdrawals.service";
+import { WalletController } from "./wallet.controller";
+import { AdminWithdrawalsController } from "./admin-withdrawals.controller";
+import { PAYOUT_PROVIDER } from "./payouts/payout-provider";
+import { ManualPayoutProvider } from "./payouts/manual-payout.provider";
+import { UsersModule } from "../users/users.module";
+
+@Module({
+  imports: [TypeOrmModule.forFeature([LedgerTransaction, LedgerEntry, Withdrawal]), UsersModule],
+  controllers: [WalletController, AdminWithdrawalsController],
+  providers: [
+    LedgerService,
+    StepRewardService,
+    WithdrawalsService,
+    // No payout service is integrated yet; admins pay out by hand and mark withdrawals as paid
+    { provide: PAYOUT_PROVIDER, useClass: ManualPayoutProvider },
+  ],
+  exports: [LedgerService, StepRewardService],
+})
+export class WalletModule {}
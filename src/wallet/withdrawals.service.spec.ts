@@ -0,0 +1,275 @@
+import { BadGatewayException, BadRequestException, ConflictException } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { randomUUID } from "crypto";
+import { DataSource, EntityManager, Repository } from "typeorm";
+import { LedgerPosting, LedgerService, PostTransactionInput } from "./ledger.service";
+import { LedgerAccounts } from "./ledger-accounts";
+import { Withdrawal, WithdrawalMethod, WithdrawalStatus } from "./entities/withdrawal.entity";
+import { FakePayoutProvider } from "./payouts/fake-payout.provider";
+import { WithdrawalsService } from "./withdrawals.service";
+import { CreateWithdrawalDto } from "./dto/withdrawal.dto";
+
+const USER_ID = "3f0c1a52-6c1e-4a35-9d55-3c0f7d7e8b21";
+const ADMIN_ID = "9b2d7e41-0c3a-4f6e-8a1b-5d4c3b2a1f00";
+const OTHER_ADMIN_ID = "5e8f0a9c-2b7d-4c61-9f3e-1a2b3c4d5e6f";
+
+/**
+ * Withdrawals and ledger postings kept in memory. Transactions work on a copy
+ * that is only kept if the callback succeeds, like a database transaction.
+ */
+class InMemoryStore {
+  withdrawals = new Map<string, Withdrawal>();
+  postings = new Map<string, LedgerPosting[]>();
+
+  async transaction<T>(callback: (manager: EntityManager) => Promise<T>): Promise<T> {
+    const withdrawals = new Map([...this.withdrawals].map(([id, withdrawal]) => [id, { ...withdrawal }]));
+    const postings = new Map(this.postings);
+    try {
+      return await callback(this.manager());
+    } catch (error) {
+      this.withdrawals = withdrawals;
+      this.postings = postings;
+      throw error;
+    }
+  }
+
+  balance(account: string): number {
+    return [...this.postings.values()]
+      .flat()
+      .filter((posting) => posting.account === account)
+      .reduce((sum, posting) => sum + posting.amount, 0);
+  }
+
+  private manager(): EntityManager {
+    const store = this;
+    return {
+      create: (_: unknown, data: Partial<Withdrawal>) => Object.assign(new Withdrawal(), data),
+      findOne: async (_: unknown, { where }: { where: { id: string } }) => {
+        const withdrawal = store.withdrawals.get(where.id);
+        return withdrawal ? { ...withdrawal } : null;
+      },
+      save: async (withdrawal: Withdrawal) => {
+        const saved = { id: randomUUID(), createdAt: new Date(), ...withdrawal, updatedAt: new Date() };
+        store.withdrawals.set(saved.id, saved);
+        return { ...saved };
+      },
+      createQueryBuilder: () => {
+        const params: Record<string, any> = {};
+        const builder = {
+          select: () => builder,
+          where: (_: string, values: object) => (Object.assign(params, values), builder),
+          andWhere: (_: string, values: object) => (Object.assign(params, values), builder),
+          getRawOne: async () => ({
+            total: String(
+              [...store.withdrawals.values()]
+                .filter((withdrawal) => withdrawal.userId === params.userId)
+                .filter((withdrawal) => withdrawal.createdAt > params.since)
+                .filter((withdrawal) => !params.released.includes(withdrawal.status))
+                .reduce((sum, withdrawal) => sum + withdrawal.amount, 0),
+            ),
+          }),
+        };
+        return builder;
+      },
+    } as unknown as EntityManager;
+  }
+}
+
+/**
+ * Posts to the in-memory store with the idempotency and balance checks of the ledger
+ */
+function createLedger(store: InMemoryStore): LedgerService {
+  return {
+    lockUser: async () => undefined,
+    post: async (input: PostTransactionInput) => {
+      if (store.postings.has(input.idempotencyKey)) {
+        return { created: false };
+      }
+      for (const account of input.nonNegativeAccounts || []) {
+        const delta = input.postings
+          .filter((posting) => posting.account === account)
+          .reduce((sum, posting) => sum + posting.amount, 0);
+        if (store.balance(account) + delta < 0) {
+          throw new BadRequestException("Insufficient balance");
+        }
+      }
+      store.postings.set(input.idempotencyKey, input.postings);
+      return { created: true };
+    },
+  } as unknown as LedgerService;
+}
+
+const REQUEST: CreateWithdrawalDto = {
+  amount: 5000,
+  method: WithdrawalMethod.BANK_TRANSFER,
+  bankName: "Kasikornbank",
+  accountNumber: "123-4-56789-0",
+  accountName: "John Doe",
+};
+
+describe("WithdrawalsService", () => {
+  let store: InMemoryStore;
+  let payoutProvider: FakePayoutProvider;
+  let service: WithdrawalsService;
+
+  beforeEach(() => {
+    store = new InMemoryStore();
+    payoutProvider = new FakePayoutProvider();
+    service = new WithdrawalsService(
+      store as unknown as DataSource,
+      {
+        findOne: async ({ where }: { where: { id: string } }) => store.withdrawals.get(where.id) || null,
+      } as unknown as Repository<Withdrawal>,
+      createLedger(store),
+      new ConfigService({ WITHDRAWAL_MINIMUM_COINS: 1000, WITHDRAWAL_DAILY_CAP_COINS: 20000 }),
+      payoutProvider,
+    );
+
+    // Coins earned before
+    store.postings.set("seed", [
+      { account: LedgerAccounts.userWallet(USER_ID), amount: 8000 },
+      { account: "system:step_rewards", amount: -8000 },
+    ]);
+  });
+
+  it("holds the coins of a requested withdrawal", async () => {
+    const withdrawal = await service.request(USER_ID, REQUEST);
+
+    expect(withdrawal.status).toBe(WithdrawalStatus.PENDING);
+    expect(store.balance(LedgerAccounts.userWallet(USER_ID))).toBe(3000);
+    expect(store.balance(LedgerAccounts.userWithdrawalHold(USER_ID))).toBe(5000);
+  });
+
+  it("pays out a withdrawal from request over approval to paid", async () => {
+    const { id } = await service.request(USER_ID, REQUEST);
+
+    const approved = await service.approve(id, ADMIN_ID);
+    expect(approved.status).toBe(WithdrawalStatus.PROCESSING);
+    expect(approved.reviewedBy).toBe(ADMIN_ID);
+    expect(approved.payoutReference).toMatch(/^fake_/);
+    expect(payoutProvider.payouts.get(id)).toMatchObject({ withdrawalId: id, amount: 5000 });
+
+    const paid = await service.markPaid(id, ADMIN_ID);
+    expect(paid.status).toBe(WithdrawalStatus.PAID);
+    expect(paid.payoutReference).toBe(approved.payoutReference);
+    expect(store.balance(LedgerAccounts.userWithdrawalHold(USER_ID))).toBe(0);
+    expect(store.balance(LedgerAccounts.WITHDRAWALS_PAID)).toBe(5000);
+    expect(store.balance(LedgerAccounts.userWallet(USER_ID))).toBe(3000);
+  });
+
+  it("releases the hold of a rejected withdrawal", async () => {
+    const { id } = await service.request(USER_ID, REQUEST);
+
+    const rejected = await service.reject(id, ADMIN_ID, "Account name does not match");
+
+    expect(rejected.status).toBe(WithdrawalStatus.REJECTED);
+    expect(rejected.rejectionReason).toBe("Account name does not match");
+    expect(store.balance(LedgerAccounts.userWithdrawalHold(USER_ID))).toBe(0);
+    expect(store.balance(LedgerAccounts.userWallet(USER_ID))).toBe(8000);
+  });
+
+  it("refuses to reject an approved withdrawal", async () => {
+    const { id } = await service.request(USER_ID, REQUEST);
+    await service.approve(id, ADMIN_ID);
+
+    await expect(service.reject(id, ADMIN_ID, "Too late")).rejects.toThrow(ConflictException);
+    expect(store.balance(LedgerAccounts.userWithdrawalHold(USER_ID))).toBe(5000);
+    expect(store.balance(LedgerAccounts.userWallet(USER_ID))).toBe(3000);
+  });
+
+  it("rejects a withdrawal over the balance without holding anything", async () => {
+    await expect(service.request(USER_ID, { ...REQUEST, amount: 9000 })).rejects.toThrow("Insufficient balance");
+
+    expect(store.withdrawals.size).toBe(0);
+    expect(store.balance(LedgerAccounts.userWallet(USER_ID))).toBe(8000);
+  });
+
+  it("answers a second approval with 409 and pays out once", async () => {
+    const { id } = await service.request(USER_ID, REQUEST);
+    const createPayout = jest.spyOn(payoutProvider, "createPayout");
+    await service.approve(id, ADMIN_ID);
+
+    await expect(service.approve(id, ADMIN_ID)).rejects.toThrow(ConflictException);
+    expect(createPayout).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps the approval when the payout provider fails, so that the payout can be retried", async () => {
+    const { id } = await service.request(USER_ID, REQUEST);
+    const errorSpy = jest.spyOn(console, "error").mockImplementation(() => undefined);
+    jest.spyOn(payoutProvider, "createPayout").mockRejectedValueOnce(new Error("timeout"));
+
+    await expect(service.approve(id, ADMIN_ID)).rejects.toThrow(BadGatewayException);
+    expect(store.withdrawals.get(id).status).toBe(WithdrawalStatus.APPROVED);
+
+    const retried = await service.retryPayout(id);
+    expect(retried.status).toBe(WithdrawalStatus.PROCESSING);
+    expect(retried.payoutReference).toBe(payoutProvider.payouts.get(id).reference);
+    await expect(service.retryPayout(id)).rejects.toThrow(ConflictException);
+    errorSpy.mockRestore();
+  });
+
+  it("releases the hold when the payout fails", async () => {
+    const { id } = await service.request(USER_ID, REQUEST);
+    await service.approve(id, ADMIN_ID);
+
+    const failed = await service.markFailed(id, "Account closed");
+
+    expect(failed.status).toBe(WithdrawalStatus.FAILED);
+    expect(failed.failureReason).toBe("Account closed");
+    expect(failed.reviewedBy).toBe(ADMIN_ID);
+    expect(store.balance(LedgerAccounts.userWallet(USER_ID))).toBe(8000);
+    await expect(service.markPaid(id, ADMIN_ID)).rejects.toThrow(ConflictException);
+  });
+
+  it("lets an admin fail a manual payout and releases the hold to the wallet", async () => {
+    const { id } = await service.request(USER_ID, REQUEST);
+    jest.spyOn(payoutProvider, "createPayout").mockResolvedValueOnce({ reference: null });
+    expect((await service.approve(id, ADMIN_ID)).status).toBe(WithdrawalStatus.PROCESSING);
+
+    const failed = await service.markFailed(id, "Account closed", OTHER_ADMIN_ID);
+
+    expect(failed.status).toBe(WithdrawalStatus.FAILED);
+    expect(failed.reviewedBy).toBe(OTHER_ADMIN_ID);
+    expect(store.balance(LedgerAccounts.userWithdrawalHold(USER_ID))).toBe(0);
+    expect(store.balance(LedgerAccounts.userWallet(USER_ID))).toBe(8000);
+  });
+
+  it("lets an admin fail an approved withdrawal whose payout was never accepted", async () => {
+    const { id } = await service.request(USER_ID, REQUEST);
+    const errorSpy = jest.spyOn(console, "error").mockImplementation(() => undefined);
+    jest.spyOn(payoutProvider, "createPayout").mockRejectedValueOnce(new Error("timeout"));
+    await expect(service.approve(id, ADMIN_ID)).rejects.toThrow(BadGatewayException);
+
+    await service.markFailed(id, "Provider unavailable", ADMIN_ID);
+
+    expect(store.withdrawals.get(id).status).toBe(WithdrawalStatus.FAILED);
+    expect(store.balance(LedgerAccounts.userWallet(USER_ID))).toBe(8000);
+    await expect(service.markFailed(id, "Provider unavailable", ADMIN_ID)).rejects.toThrow(ConflictException);
+    expect(store.balance(LedgerAccounts.userWallet(USER_ID))).toBe(8000);
+    errorSpy.mockRestore();
+  });
+
+  it("refuses to fail a pending withdrawal", async () => {
+    const { id } = await service.request(USER_ID, REQUEST);
+
+    await expect(service.markFailed(id, "Account closed", ADMIN_ID)).rejects.toThrow(ConflictException);
+    expect(store.balance(LedgerAccounts.userWithdrawalHold(USER_ID))).toBe(5000);
+  });
+
+  it("does not count rejected and failed withdrawals towards the daily cap", async () => {
+    store.postings.set("seed", [
+      { account: LedgerAccounts.userWallet(USER_ID), amount: 50000 },
+      { account: "system:step_rewards", amount: -50000 },
+    ]);
+    const rejected = await service.request(USER_ID, { ...REQUEST, amount: 10000 });
+    await service.reject(rejected.id, ADMIN_ID, "Duplicate");
+    const failed = await service.request(USER_ID, { ...REQUEST, amount: 10000 });
+    await service.approve(failed.id, ADMIN_ID);
+    await service.markFailed(failed.id, "Account closed");
+
+    await service.request(USER_ID, { ...REQUEST, amount: 15000 });
+    await expect(service.request(USER_ID, { ...REQUEST, amount: 5001 })).rejects.toThrow(
+      "You can withdraw up to 5000 more coins today",
+    );
+  });
+});
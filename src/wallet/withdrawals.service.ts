@@ -0,0 +1,434 @@
+import {
+  Injectable,
+  Inject,
+  BadGatewayException,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { InjectDataSource, InjectRepository } from "@nestjs/typeorm";
+import { DataSource, EntityManager, FindOptionsWhere, Repository } from "typeorm";
+import { LedgerService } from "./ledger.service";
+import { LedgerAccounts } from "./ledger-accounts";
+import { LedgerTransactionType } from "./entities/ledger-transaction.entity";
+import { Withdrawal, WithdrawalMethod, WithdrawalStatus } from "./entities/withdrawal.entity";
+import { PAYOUT_PROVIDER, PayoutProvider } from "./payouts/payout-provider";
+import {
+  AdminWithdrawalResponseDto,
+  AdminWithdrawalsQueryDto,
+  AdminWithdrawalsResponseDto,
+  CreateWithdrawalDto,
+  WithdrawalResponseDto,
+  WithdrawalsQueryDto,
+  WithdrawalsResponseDto,
+} from "./dto/withdrawal.dto";
+
+export interface WithdrawalRules {
+  // Smallest amount of coins that can be withdrawn at once
+  minimumAmount: number;
+  // Coins a user can request within 24 hours, not counting rejected or failed withdrawals
+  dailyCap: number;
+}
+
+// Statuses a withdrawal can move to from each status. Approved withdrawals can
+// no longer be rejected, since their payout may already be on its way.
+const WITHDRAWAL_TRANSITIONS: Record<WithdrawalStatus, WithdrawalStatus[]> = {
+  [WithdrawalStatus.PENDING]: [WithdrawalStatus.APPROVED, WithdrawalStatus.REJECTED],
+  // A provider callback may report the outcome before the submission is recorded
+  [WithdrawalStatus.APPROVED]: [WithdrawalStatus.PROCESSING, WithdrawalStatus.PAID, WithdrawalStatus.FAILED],
+  [WithdrawalStatus.PROCESSING]: [WithdrawalStatus.PAID, WithdrawalStatus.FAILED],
+  [WithdrawalStatus.REJECTED]: [],
+  [WithdrawalStatus.PAID]: [],
+  [WithdrawalStatus.FAILED]: [],
+};
+
+@Injectable()
+export class WithdrawalsService {
+  constructor(
+    @InjectDataSource()
+    private dataSource: DataSource,
+    @InjectRepository(Withdrawal)
+    private withdrawalRepository: Repository<Withdrawal>,
+    private ledgerService: LedgerService,
+    private configService: ConfigService,
+    @Inject(PAYOUT_PROVIDER)
+    private payoutProvider: PayoutProvider,
+  ) {}
+
+  /**
+   * Get the configured withdrawal limits
+   * @returns Withdrawal rules
+   */
+  getRules(): WithdrawalRules {
+    return {
+      minimumAmount: Number(this.configService.get("WITHDRAWAL_MINIMUM_COINS", 1000)),
+      dailyCap: Number(this.configService.get("WITHDRAWAL_DAILY_CAP_COINS", 20000)),
+    };
+  }
+
+  /**
+   * Request a withdrawal. Its coins are moved from the wallet to a hold until the
+   * withdrawal is paid, rejected or its payout fails.
+   * @param userId User's ID
+   * @param createWithdrawalDto Amount, payout method and destination
+   * @returns The pending withdrawal
+   */
+  async request(userId: string, createWithdrawalDto: CreateWithdrawalDto): Promise<WithdrawalResponseDto> {
+    const rules = this.getRules();
+    const { amount, method } = createWithdrawalDto;
+
+    if (amount < rules.minimumAmount) {
+      throw new BadRequestException(`The minimum withdrawal is ${rules.minimumAmount} coins`);
+    }
+
+    const withdrawal = await this.dataSource.transaction(async (manager) => {
+      // Hold the user's ledger lock so that concurrent requests cannot exceed the cap or the balance
+      await this.ledgerService.lockUser(manager, userId);
+
+      const requestedToday = await this.sumRequestedSince(manager, userId, new Date(Date.now() - 24 * 60 * 60 * 1000));
+      if (requestedToday + amount > rules.dailyCap) {
+        throw new BadRequestException(
+          `Withdrawals are limited to ${rules.dailyCap} coins per day. You can withdraw up to ${Math.max(rules.dailyCap - requestedToday, 0)} more coins today.`,
+        );
+      }
+
+      const created = await manager.save(
+        manager.create(Withdrawal, {
+          userId,
+          amount,
+          method,
+          destination: this.buildDestination(createWithdrawalDto),
+          status: WithdrawalStatus.PENDING,
+        }),
+      );
+
+      await this.ledgerService.post(
+        {
+          idempotencyKey: `withdrawal-hold:${created.id}`,
+          userId,
+          type: LedgerTransactionType.WITHDRAWAL_HOLD,
+          reference: created.id,
+          description: "Withdrawal requested",
+          metadata: { method },
+          postings: [
+            { account: LedgerAccounts.userWallet(userId), amount: -amount },
+            { account: LedgerAccounts.userWithdrawalHold(userId), amount },
+          ],
+          nonNegativeAccounts: [LedgerAccounts.userWallet(userId)],
+        },
+        manager,
+      );
+
+      return created;
+    });
+
+    return this.toResponse(withdrawal);
+  }
+
+  /**
+   * Get the withdrawal history of a user, newest first
+   * @param userId User's ID
+   * @param query Pagination and filter options
+   * @returns Paginated list of withdrawals
+   */
+  async findByUser(userId: string, query: WithdrawalsQueryDto): Promise<WithdrawalsResponseDto> {
+    const { items, total, page, limit } = await this.findPage({ userId }, query);
+    return { items: items.map((withdrawal) => this.toResponse(withdrawal)), total, page, limit };
+  }
+
+  async findOneByUser(userId: string, id: string): Promise<WithdrawalResponseDto> {
+    const withdrawal = await this.withdrawalRepository.findOne({ where: { id, userId } });
+    if (!withdrawal) {
+      throw new NotFoundException("Withdrawal not found");
+    }
+    return this.toResponse(withdrawal);
+  }
+
+  /**
+   * List withdrawals of all users for review, newest first
+   * @param query Pagination and filter options
+   * @returns Paginated list of withdrawals
+   */
+  async findAll(query: AdminWithdrawalsQueryDto): Promise<AdminWithdrawalsResponseDto> {
+    const { items, total, page, limit } = await this.findPage(query.userId ? { userId: query.userId } : {}, query);
+    return { items: items.map((withdrawal) => this.toAdminResponse(withdrawal)), total, page, limit };
+  }
+
+  /**
+   * Approve a pending withdrawal and hand it to the payout provider. The approval is
+   * committed before the provider is called, so that the payout cannot be created for
+   * a withdrawal that is rejected in the meantime.
+   * @param id Withdrawal ID
+   * @param adminId ID of the approving admin
+   * @returns The withdrawal, processing once the provider accepted the payout
+   */
+  async approve(id: string, adminId: string): Promise<AdminWithdrawalResponseDto> {
+    const withdrawal = await this.transition(id, WithdrawalStatus.APPROVED, adminId, async (locked) => {
+      locked.reviewedAt = new Date();
+    });
+
+    return this.toAdminResponse(await this.submitPayout(withdrawal));
+  }
+
+  /**
+   * Hand an approved withdrawal to the payout provider again, after the provider
+   * did not accept it on approval
+   * @param id Withdrawal ID
+   * @returns The processing withdrawal
+   */
+  async retryPayout(id: string): Promise<AdminWithdrawalResponseDto> {
+    const withdrawal = await this.withdrawalRepository.findOne({ where: { id } });
+    if (!withdrawal) {
+      throw new NotFoundException("Withdrawal not found");
+    }
+    if (withdrawal.status !== WithdrawalStatus.APPROVED) {
+      throw new ConflictException(`The payout of a ${withdrawal.status} withdrawal cannot be retried`);
+    }
+
+    return this.toAdminResponse(await this.submitPayout(withdrawal));
+  }
+
+  /**
+   * Reject a pending withdrawal, releasing its coins back to the wallet
+   * @param id Withdrawal ID
+   * @param adminId ID of the rejecting admin
+   * @param reason Why the withdrawal is rejected
+   * @returns The rejected withdrawal
+   */
+  async reject(id: string, adminId: string, reason: string): Promise<AdminWithdrawalResponseDto> {
+    const withdrawal = await this.transition(id, WithdrawalStatus.REJECTED, adminId, async (locked, manager) => {
+      await this.releaseHold(locked, manager, "Withdrawal rejected");
+
+      locked.rejectionReason = reason;
+      locked.reviewedAt = new Date();
+    });
+
+    return this.toAdminResponse(withdrawal);
+  }
+
+  /**
+   * Mark an approved or processing withdrawal as paid, settling its held coins
+   * @param id Withdrawal ID
+   * @param adminId ID of the admin confirming the payout
+   * @param payoutReference Reference of the payout, if it differs from the provider's
+   * @returns The paid withdrawal
+   */
+  async markPaid(id: string, adminId: string, payoutReference?: string): Promise<AdminWithdrawalResponseDto> {
+    const withdrawal = await this.transition(id, WithdrawalStatus.PAID, adminId, async (locked, manager) => {
+      await this.ledgerService.post(
+        {
+          idempotencyKey: `withdrawal-payout:${locked.id}`,
+          userId: locked.userId,
+          type: LedgerTransactionType.WITHDRAWAL_PAYOUT,
+          reference: locked.id,
+          description: "Withdrawal paid",
+          postings: [
+            { account: LedgerAccounts.userWithdrawalHold(locked.userId), amount: -locked.amount },
+            { account: LedgerAccounts.WITHDRAWALS_PAID, amount: locked.amount },
+          ],
+        },
+        manager,
+      );
+
+      if (payoutReference) {
+        locked.payoutReference = payoutReference;
+      }
+      locked.paidAt = new Date();
+    });
+
+    return this.toAdminResponse(withdrawal);
+  }
+
+  /**
+   * Record that the payout of a withdrawal failed, releasing its coins back to the wallet.
+   * Reported by an admin whose manual transfer failed, or by payout provider callbacks
+   * and reconciliation.
+   * @param id Withdrawal ID
+   * @param reason Why the payout failed
+   * @param adminId ID of the admin reporting the failure, null if reported by the payout provider
+   * @returns The failed withdrawal
+   */
+  async markFailed(id: string, reason: string, adminId: string | null = null): Promise<AdminWithdrawalResponseDto> {
+    const withdrawal = await this.transition(id, WithdrawalStatus.FAILED, adminId, async (locked, manager) => {
+      await this.releaseHold(locked, manager, "Withdrawal payout failed");
+
+      locked.failureReason = reason;
+    });
+
+    return this.toAdminResponse(withdrawal);
+  }
+
+  /**
+   * Create the payout of an approved withdrawal and record the provider's reference.
+   * The withdrawal ID is the payout's idempotency key, so submitting twice pays out once.
+   * @param withdrawal Approved withdrawal
+   * @returns The updated withdrawal
+   */
+  private async submitPayout(withdrawal: Withdrawal): Promise<Withdrawal> {
+    let reference: string | null;
+    try {
+      ({ reference } = await this.payoutProvider.createPayout({
+        withdrawalId: withdrawal.id,
+        userId: withdrawal.userId,
+        amount: withdrawal.amount,
+        method: withdrawal.method,
+        destination: withdrawal.destination,
+      }));
+    } catch (error) {
+      // The withdrawal stays approved, so that the payout can be retried
+      console.error(`Failed to create payout for withdrawal ${withdrawal.id}:`, error.message);
+      throw new BadGatewayException("The withdrawal is approved, but the payout provider did not accept the payout");
+    }
+
+    return this.dataSource.transaction(async (manager) => {
+      const locked = await this.lockWithdrawal(manager, withdrawal.id);
+
+      if (reference && !locked.payoutReference) {
+        locked.payoutReference = reference;
+      }
+      // Unless a provider callback already reported the outcome
+      if (locked.status === WithdrawalStatus.APPROVED) {
+        locked.status = WithdrawalStatus.PROCESSING;
+      }
+
+      return manager.save(locked);
+    });
+  }
+
+  /**
+   * Return the held coins of a withdrawal to the user's wallet
+   */
+  private async releaseHold(withdrawal: Withdrawal, manager: EntityManager, description: string): Promise<void> {
+    await this.ledgerService.post(
+      {
+        // Rejecting and failing both end the withdrawal, so its coins are released once
+        idempotencyKey: `withdrawal-release:${withdrawal.id}`,
+        userId: withdrawal.userId,
+        type: LedgerTransactionType.WITHDRAWAL_RELEASE,
+        reference: withdrawal.id,
+        description,
+        postings: [
+          { account: LedgerAccounts.userWithdrawalHold(withdrawal.userId), amount: -withdrawal.amount },
+          { account: LedgerAccounts.userWallet(withdrawal.userId), amount: withdrawal.amount },
+        ],
+      },
+      manager,
+    );
+  }
+
+  /**
+   * Move a withdrawal to another status, if the state machine allows it
+   * @param id Withdrawal ID
+   * @param status New status
+   * @param adminId ID of the admin changing the status, null for changes reported by the payout provider
+   * @param apply Side effects of the change, run in the same database transaction
+   * @returns The updated withdrawal
+   */
+  private async transition(
+    id: string,
+    status: WithdrawalStatus,
+    adminId: string | null,
+    apply: (withdrawal: Withdrawal, manager: EntityManager) => Promise<void>,
+  ): Promise<Withdrawal> {
+    return this.dataSource.transaction(async (manager) => {
+      const locked = await this.lockWithdrawal(manager, id);
+
+      if (!WITHDRAWAL_TRANSITIONS[locked.status].includes(status)) {
+        throw new ConflictException(`A ${locked.status} withdrawal cannot be ${status}`);
+      }
+
+      await apply(locked, manager);
+
+      locked.status = status;
+      if (adminId) {
+        locked.reviewedBy = adminId;
+      }
+      return manager.save(locked);
+    });
+  }
+
+  // Lock the withdrawal so that concurrent reviews cannot both apply
+  private async lockWithdrawal(manager: EntityManager, id: string): Promise<Withdrawal> {
+    const locked = await manager.findOne(Withdrawal, {
+      where: { id },
+      lock: { mode: "pessimistic_write" },
+    });
+    if (!locked) {
+      throw new NotFoundException("Withdrawal not found");
+    }
+    return locked;
+  }
+
+  private async sumRequestedSince(manager: EntityManager, userId: string, since: Date): Promise<number> {
+    const result = await manager
+      .createQueryBuilder(Withdrawal, "withdrawal")
+      .select("COALESCE(SUM(withdrawal.amount), 0)", "total")
+      .where("withdrawal.user_id = :userId", { userId })
+      .andWhere("withdrawal.created_at > :since", { since })
+      .andWhere("withdrawal.status NOT IN (:...released)", {
+        released: [WithdrawalStatus.REJECTED, WithdrawalStatus.FAILED],
+      })
+      .getRawOne();
+
+    return parseInt(result.total, 10);
+  }
+
+  private async findPage(where: FindOptionsWhere<Withdrawal>, query: WithdrawalsQueryDto) {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+
+    const [items, total] = await this.withdrawalRepository.findAndCount({
+      where: { ...where, ...(query.status ? { status: query.status } : {}) },
+      order: { createdAt: "DESC" },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return { items, total, page, limit };
+  }
+
+  private buildDestination(createWithdrawalDto: CreateWithdrawalDto): Record<string, string> {
+    switch (createWithdrawalDto.method) {
+      case WithdrawalMethod.BANK_TRANSFER:
+        return {
+          bankName: createWithdrawalDto.bankName,
+          accountNumber: createWithdrawalDto.accountNumber,
+          accountName: createWithdrawalDto.accountName,
+        };
+      case WithdrawalMethod.E_WALLET:
+        return {
+          walletProvider: createWithdrawalDto.walletProvider,
+          walletAccount: createWithdrawalDto.walletAccount,
+        };
+      case WithdrawalMethod.GIFT_CARD:
+        return {
+          giftCardBrand: createWithdrawalDto.giftCardBrand,
+        };
+    }
+  }
+
+  private toResponse(withdrawal: Withdrawal): WithdrawalResponseDto {
+    return {
+      id: withdrawal.id,
+      amount: withdrawal.amount,
+      method: withdrawal.method,
+      destination: withdrawal.destination,
+      status: withdrawal.status,
+      rejectionReason: withdrawal.rejectionReason,
+      failureReason: withdrawal.failureReason,
+      payoutReference: withdrawal.payoutReference,
+      createdAt: withdrawal.createdAt,
+      reviewedAt: withdrawal.reviewedAt,
+      paidAt: withdrawal.paidAt,
+    };
+  }
+
+  private toAdminResponse(withdrawal: Withdrawal): AdminWithdrawalResponseDto {
+    return {
+      ...this.toResponse(withdrawal),
+      userId: withdrawal.userId,
+      reviewedBy: withdrawal.reviewedBy,
+    };
+  }
+}